@@ -10,10 +10,27 @@ import Dashboard from "@/pages/Dashboard";
 import ProtectedRoute from "@/components/ProtectedRoute";
 import NotFound from "./pages/NotFound";
 import AttendancePage from "@/components/attendance/AttendancePage";
+import AttendanceHistoryPage from "@/components/attendance/AttendanceHistoryPage";
 import EmployeesPage from "@/components/employees/EmployeesPage";
+import EmployeeAttendancePage from "@/components/employees/EmployeeAttendancePage";
 import ReportsPage from "@/components/reports/ReportsPage";
+import TeamBoardPage from "@/components/team/TeamBoardPage";
 import LeavePage from "@/components/leave/LeavePage";
+import LeaveCalendarPage from "@/components/leave/LeaveCalendarPage";
 import DepartmentsPage from "@/components/departments/DepartmentsPage";
+import ShiftsPage from "@/components/shifts/ShiftsPage";
+import LocationsPage from "@/components/locations/LocationsPage";
+import LocationQrPage from "@/components/locations/LocationQrPage";
+import RegularizationsPage from "@/components/regularization/RegularizationsPage";
+import OvertimePage from "@/components/overtime/OvertimePage";
+import OrganizationSettingsPage from "@/components/settings/OrganizationSettingsPage";
+import HolidaysPage from "@/components/holidays/HolidaysPage";
+import KiosksPage from "@/components/kiosk/KiosksPage";
+import KioskPage from "@/components/kiosk/KioskPage";
+import AnomaliesPage from "@/components/anomalies/AnomaliesPage";
+import PeriodsPage from "@/components/periods/PeriodsPage";
+import LeavePoliciesPage from "@/components/leave/LeavePoliciesPage";
+import LeaveApprovalChainsPage from "@/components/leave/LeaveApprovalChainsPage";
 
 const queryClient = new QueryClient();
 
@@ -54,6 +71,14 @@ const AppContent = () => {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/attendance/history"
+        element={
+          <ProtectedRoute>
+            <AttendanceHistoryPage />
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/employees"
         element={
@@ -62,6 +87,22 @@ const AppContent = () => {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/employees/:employeeId/attendance"
+        element={
+          <ProtectedRoute requiredRole={['SUPERADMIN', 'ADMIN', 'HR', 'HOD', 'MANAGER']}>
+            <EmployeeAttendancePage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/team"
+        element={
+          <ProtectedRoute requiredRole={['SUPERADMIN', 'ADMIN', 'HR', 'HOD', 'MANAGER']}>
+            <TeamBoardPage />
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/reports"
         element={
@@ -78,6 +119,30 @@ const AppContent = () => {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/leave-calendar"
+        element={
+          <ProtectedRoute>
+            <LeaveCalendarPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/regularizations"
+        element={
+          <ProtectedRoute>
+            <RegularizationsPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/overtime"
+        element={
+          <ProtectedRoute>
+            <OvertimePage />
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/departments"
         element={
@@ -86,6 +151,88 @@ const AppContent = () => {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/shifts"
+        element={
+          <ProtectedRoute requiredRole={['SUPERADMIN', 'ADMIN', 'HR']}>
+            <ShiftsPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/settings/locations"
+        element={
+          <ProtectedRoute requiredRole={['SUPERADMIN', 'ADMIN', 'HR']}>
+            <LocationsPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/settings/locations/:locationId/qr"
+        element={
+          <ProtectedRoute requiredRole={['SUPERADMIN', 'ADMIN', 'HR']}>
+            <LocationQrPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/settings/holidays"
+        element={
+          <ProtectedRoute requiredRole={['SUPERADMIN', 'ADMIN', 'HR']}>
+            <HolidaysPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/settings/organization"
+        element={
+          <ProtectedRoute requiredRole={['SUPERADMIN', 'ADMIN', 'HR']}>
+            <OrganizationSettingsPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/settings/kiosks"
+        element={
+          <ProtectedRoute requiredRole={['SUPERADMIN', 'ADMIN', 'HR']}>
+            <KiosksPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/settings/periods"
+        element={
+          <ProtectedRoute requiredRole={['SUPERADMIN', 'ADMIN', 'HR']}>
+            <PeriodsPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/settings/leave-policies"
+        element={
+          <ProtectedRoute requiredRole={['SUPERADMIN', 'ADMIN', 'HR']}>
+            <LeavePoliciesPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/settings/leave-approvals"
+        element={
+          <ProtectedRoute requiredRole={['SUPERADMIN', 'ADMIN', 'HR']}>
+            <LeaveApprovalChainsPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/anomalies"
+        element={
+          <ProtectedRoute requiredRole={['SUPERADMIN', 'ADMIN', 'HR']}>
+            <AnomaliesPage />
+          </ProtectedRoute>
+        }
+      />
+      {/* Shared terminals run signed out, identified by their device token */}
+      <Route path="/kiosk" element={<KioskPage />} />
       <Route path="*" element={<NotFound />} />
     </Routes>
   );
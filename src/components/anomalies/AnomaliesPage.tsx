@@ -0,0 +1,318 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ShieldAlert, Play, CheckCircle, XCircle } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import { isAdmin } from '@/lib/auth';
+import { ANOMALY_STATUS_COLORS, ANOMALY_TYPE_LABELS, AnomalyStatus, AnomalyType } from '@/lib/anomalies';
+import { addDaysToDate, formatDate, getBrowserTimezone, getLocalToday } from '@/lib/timezone';
+
+interface Anomaly {
+  id: string;
+  user_id: string;
+  date: string;
+  type: AnomalyType;
+  details: string;
+  status: AnomalyStatus;
+  reviewed_at: string | null;
+  review_note: string | null;
+  employee: {
+    full_name: string;
+    employee_id: string;
+  };
+  reviewer: {
+    full_name: string;
+  } | null;
+}
+
+const ALL = 'ALL';
+
+const ANOMALY_SELECT = `
+  *,
+  employee:profiles!attendance_anomalies_user_id_fkey (
+    full_name,
+    employee_id
+  ),
+  reviewer:profiles!attendance_anomalies_reviewed_by_fkey (
+    full_name
+  )
+`;
+
+const AnomaliesPage = () => {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const [anomalies, setAnomalies] = useState<Anomaly[]>([]);
+  const [statusFilter, setStatusFilter] = useState<string>('OPEN');
+  const [typeFilter, setTypeFilter] = useState<string>(ALL);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const today = getLocalToday(getBrowserTimezone());
+  const [detectionRange, setDetectionRange] = useState({
+    from: addDaysToDate(today, -7),
+    to: today
+  });
+
+  const fetchAnomalies = async () => {
+    setIsLoading(true);
+
+    let query = supabase
+      .from('attendance_anomalies')
+      .select(ANOMALY_SELECT)
+      .order('date', { ascending: false })
+      .order('created_at', { ascending: false });
+
+    if (statusFilter !== ALL) {
+      query = query.eq('status', statusFilter as AnomalyStatus);
+    }
+    if (typeFilter !== ALL) {
+      query = query.eq('type', typeFilter as AnomalyType);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching attendance anomalies:', error);
+    } else {
+      setAnomalies((data || []) as unknown as Anomaly[]);
+    }
+
+    setIsLoading(false);
+  };
+
+  const handleReview = async (anomaly: Anomaly, status: 'CONFIRMED' | 'DISMISSED') => {
+    const { error } = await supabase.rpc('review_attendance_anomaly', {
+      p_anomaly_id: anomaly.id,
+      p_status: status,
+      p_note: notes[anomaly.id]?.trim() || undefined
+    });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to review anomaly',
+        variant: 'destructive'
+      });
+    } else {
+      toast({
+        title: 'Success',
+        description: `Anomaly ${status.toLowerCase()}`
+      });
+      fetchAnomalies();
+    }
+  };
+
+  const handleRunDetection = async () => {
+    setIsRunning(true);
+
+    const { data, error } = await supabase.rpc('run_anomaly_detection', {
+      p_from: detectionRange.from,
+      p_to: detectionRange.to
+    });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to run anomaly detection',
+        variant: 'destructive'
+      });
+    } else {
+      toast({
+        title: 'Success',
+        description: data ? `${data} new anomalies flagged` : 'No new anomalies found'
+      });
+      fetchAnomalies();
+    }
+
+    setIsRunning(false);
+  };
+
+  useEffect(() => {
+    if (isAdmin(profile?.role)) {
+      fetchAnomalies();
+    }
+  }, [profile, statusFilter, typeFilter]);
+
+  if (!isAdmin(profile?.role)) {
+    return (
+      <DashboardLayout>
+        <div className="text-center py-8">
+          <p className="text-gray-500">You don't have permission to access this page.</p>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Attendance Anomalies</h1>
+            <p className="text-gray-600 mt-2">Review suspicious punch patterns</p>
+          </div>
+          <div className="flex gap-2">
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All statuses</SelectItem>
+                <SelectItem value="OPEN">Open</SelectItem>
+                <SelectItem value="CONFIRMED">Confirmed</SelectItem>
+                <SelectItem value="DISMISSED">Dismissed</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={typeFilter} onValueChange={setTypeFilter}>
+              <SelectTrigger className="w-52">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All types</SelectItem>
+                {Object.entries(ANOMALY_TYPE_LABELS).map(([type, label]) => (
+                  <SelectItem key={type} value={type}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {/* Review Queue */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldAlert className="w-5 h-5" />
+              Review Queue
+            </CardTitle>
+            <CardDescription>Confirm real problems or dismiss false alarms</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="text-center py-8">Loading anomalies...</div>
+            ) : anomalies.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">
+                No anomalies found
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {anomalies.map((anomaly) => (
+                  <div key={anomaly.id} className="flex items-center justify-between p-4 border rounded-lg">
+                    <div className="flex items-center gap-4">
+                      <div className="w-10 h-10 bg-blue-500 rounded-full flex items-center justify-center">
+                        <span className="text-white font-semibold">
+                          {anomaly.employee.full_name.charAt(0)}
+                        </span>
+                      </div>
+                      <div>
+                        <div className="font-medium flex items-center gap-2">
+                          {anomaly.employee.full_name}
+                          <Badge variant="outline">{ANOMALY_TYPE_LABELS[anomaly.type]}</Badge>
+                        </div>
+                        <div className="text-sm text-gray-600">
+                          {formatDate(anomaly.date)} • ID: {anomaly.employee.employee_id}
+                        </div>
+                        <div className="text-sm text-gray-600">{anomaly.details}</div>
+                        {anomaly.status !== 'OPEN' && (
+                          <div className="text-xs text-gray-500">
+                            Reviewed by {anomaly.reviewer?.full_name || 'Unknown'}
+                            {anomaly.review_note && `: ${anomaly.review_note}`}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <Badge className={ANOMALY_STATUS_COLORS[anomaly.status]}>
+                        {anomaly.status}
+                      </Badge>
+                      {anomaly.status === 'OPEN' && (
+                        <div className="flex gap-2">
+                          <Input
+                            className="w-48"
+                            placeholder="Note (optional)"
+                            value={notes[anomaly.id] ?? ''}
+                            onChange={(e) => setNotes({ ...notes, [anomaly.id]: e.target.value })}
+                          />
+                          <Button
+                            size="sm"
+                            onClick={() => handleReview(anomaly, 'CONFIRMED')}
+                            variant="destructive"
+                            title="Confirm"
+                          >
+                            <CheckCircle className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            onClick={() => handleReview(anomaly, 'DISMISSED')}
+                            variant="outline"
+                            title="Dismiss"
+                          >
+                            <XCircle className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Manual Detection */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Play className="w-5 h-5" />
+              Run Detection
+            </CardTitle>
+            <CardDescription>
+              Detection runs every night with the end-of-day job; run it here to re-check past days
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="detection_from">From</Label>
+                <Input
+                  id="detection_from"
+                  type="date"
+                  value={detectionRange.from}
+                  onChange={(e) => setDetectionRange({ ...detectionRange, from: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="detection_to">To</Label>
+                <Input
+                  id="detection_to"
+                  type="date"
+                  value={detectionRange.to}
+                  min={detectionRange.from}
+                  onChange={(e) => setDetectionRange({ ...detectionRange, to: e.target.value })}
+                />
+              </div>
+              <Button
+                onClick={handleRunDetection}
+                disabled={isRunning || !detectionRange.from || !detectionRange.to}
+                variant="outline"
+                className="flex items-center gap-2"
+              >
+                <Play className="w-4 h-4" />
+                {isRunning ? 'Running...' : 'Run Detection'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default AnomaliesPage;
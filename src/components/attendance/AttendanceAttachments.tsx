@@ -0,0 +1,135 @@
+import { useState, useEffect, useRef } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Paperclip, Trash2, Upload } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  ATTACHMENT_ACCEPT,
+  AttendanceAttachment,
+  deleteAttachment,
+  getAttachmentUrl,
+  getAttachments,
+  uploadAttachment
+} from '@/lib/attachments';
+
+interface AttendanceAttachmentsProps {
+  attendanceId: string;
+  // Only the employee can add or remove files on their own days
+  canUpload?: boolean;
+}
+
+const AttendanceAttachments = ({ attendanceId, canUpload = false }: AttendanceAttachmentsProps) => {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [attachments, setAttachments] = useState<AttendanceAttachment[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const fetchAttachments = async () => {
+    setAttachments(await getAttachments(attendanceId));
+  };
+
+  useEffect(() => {
+    fetchAttachments();
+  }, [attendanceId]);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !profile) return;
+
+    setIsUploading(true);
+
+    try {
+      await uploadAttachment(profile.id, attendanceId, file);
+      toast({
+        title: 'Success',
+        description: `${file.name} attached`
+      });
+      fetchAttachments();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to upload attachment',
+        variant: 'destructive'
+      });
+    }
+
+    setIsUploading(false);
+  };
+
+  // Links are signed on demand since the files are private
+  const handleOpen = async (attachment: AttendanceAttachment) => {
+    try {
+      window.open(await getAttachmentUrl(attachment.file_path), '_blank', 'noopener');
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to open attachment',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleDelete = async (attachment: AttendanceAttachment) => {
+    if (!confirm(`Remove ${attachment.file_name}?`)) return;
+
+    try {
+      await deleteAttachment(attachment);
+      fetchAttachments();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to remove attachment',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  if (!canUpload && attachments.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {attachments.map((attachment) => (
+        <div key={attachment.id} className="flex items-center justify-between text-sm">
+          <button
+            type="button"
+            onClick={() => handleOpen(attachment)}
+            className="flex items-center gap-2 text-blue-700 hover:underline truncate"
+          >
+            <Paperclip className="w-4 h-4 shrink-0" />
+            {attachment.file_name}
+          </button>
+          {canUpload && (
+            <Button size="sm" variant="ghost" title="Remove" onClick={() => handleDelete(attachment)}>
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      ))}
+      {canUpload && (
+        <>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ATTACHMENT_ACCEPT}
+            className="hidden"
+            onChange={handleUpload}
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isUploading}
+            className="flex items-center gap-2"
+          >
+            <Upload className="w-4 h-4" />
+            {isUploading ? 'Uploading...' : 'Attach File'}
+          </Button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AttendanceAttachments;
@@ -0,0 +1,246 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useTimezone } from '@/hooks/useTimezone';
+import { useClosedMonths } from '@/hooks/useClosedMonths';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  AttendanceStatus,
+  ATTENDANCE_STATUSES,
+  ATTENDANCE_STATUS_COLORS,
+  formatAttendanceStatus,
+  summarizeAttendance
+} from '@/lib/attendance';
+import { getBrowserTimezone, getLocalToday } from '@/lib/timezone';
+import ClosedPeriodBadge from '@/components/periods/ClosedPeriodBadge';
+import { WEEKDAYS, WorkCalendar, eachDate, getHoliday, getWorkCalendar, isWorkingDay } from '@/lib/holidays';
+import { DURATION_LABELS, LeaveDuration } from '@/lib/leave';
+
+interface DayRecord {
+  id: string;
+  date: string;
+  status: AttendanceStatus | null;
+  late_minutes: number;
+  total_hours: number | null;
+}
+
+interface ApprovedLeave {
+  start_date: string;
+  end_date: string;
+  leave_type: string;
+  duration: LeaveDuration;
+}
+
+interface AttendanceCalendarProps {
+  onRequestCorrection: (date: string) => void;
+}
+
+const shiftMonth = (month: string, delta: number) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, monthIndex - 1 + delta, 1)).toISOString().slice(0, 7);
+};
+
+const lastDayOfMonth = (month: string) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, monthIndex, 0)).toISOString().split('T')[0];
+};
+
+const AttendanceCalendar = ({ onRequestCorrection }: AttendanceCalendarProps) => {
+  const { profile } = useAuth();
+  const timeZone = useTimezone();
+  const closedMonths = useClosedMonths();
+  const today = getLocalToday(timeZone || getBrowserTimezone());
+  const [month, setMonth] = useState(today.slice(0, 7));
+  const [records, setRecords] = useState<DayRecord[]>([]);
+  const [leaves, setLeaves] = useState<ApprovedLeave[]>([]);
+  const [calendar, setCalendar] = useState<WorkCalendar | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const monthStart = `${month}-01`;
+  const monthEnd = lastDayOfMonth(month);
+  const isClosed = closedMonths.has(month);
+
+  const fetchMonth = async () => {
+    if (!profile) return;
+
+    setIsLoading(true);
+
+    const [attendanceResult, leaveResult] = await Promise.all([
+      supabase
+        .from('attendance')
+        .select('id, date, status, late_minutes, total_hours')
+        .eq('user_id', profile.id)
+        .gte('date', monthStart)
+        .lte('date', monthEnd),
+      supabase
+        .from('leave_requests')
+        .select('start_date, end_date, leave_type, duration')
+        .eq('user_id', profile.id)
+        .eq('status', 'APPROVED')
+        .lte('start_date', monthEnd)
+        .gte('end_date', monthStart)
+    ]);
+
+    if (attendanceResult.error) {
+      console.error('Error fetching attendance history:', attendanceResult.error);
+    } else {
+      setRecords(attendanceResult.data || []);
+    }
+
+    if (leaveResult.error) {
+      console.error('Error fetching approved leave:', leaveResult.error);
+    } else {
+      setLeaves(leaveResult.data || []);
+    }
+
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    getWorkCalendar().then(setCalendar);
+  }, []);
+
+  // Open on the employee's own month once their timezone is known
+  useEffect(() => {
+    if (timeZone) setMonth(getLocalToday(timeZone).slice(0, 7));
+  }, [timeZone]);
+
+  useEffect(() => {
+    fetchMonth();
+  }, [profile, month]);
+
+  const summary = summarizeAttendance(records);
+  const leadingBlanks = new Date(`${monthStart}T00:00:00Z`).getUTCDay();
+  const monthLabel = new Date(`${monthStart}T00:00:00Z`).toLocaleDateString('en-US', {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC'
+  });
+
+  const renderDay = (date: string) => {
+    const record = records.find((r) => r.date === date);
+    const leave = leaves.find((l) => date >= l.start_date && date <= l.end_date);
+    const holiday = calendar && profile ? getHoliday(calendar, profile, date) : undefined;
+    const isOffDay = calendar && profile ? !isWorkingDay(calendar, profile, date) : false;
+
+    let colorClass = 'bg-white';
+    let label = '';
+    if (record?.status) {
+      colorClass = ATTENDANCE_STATUS_COLORS[record.status];
+      label = formatAttendanceStatus(record.status);
+    } else if (leave) {
+      colorClass = 'bg-purple-100 text-purple-800';
+      label = leave.duration === 'FULL_DAY'
+        ? `${leave.leave_type} leave`
+        : `${leave.leave_type} leave (${DURATION_LABELS[leave.duration].toLowerCase()})`;
+    } else if (holiday) {
+      colorClass = 'bg-gray-100 text-gray-600';
+      label = holiday.name;
+    } else if (isOffDay) {
+      colorClass = 'bg-gray-50 text-gray-400';
+      label = 'Off';
+    }
+
+    return (
+      <button
+        key={date}
+        type="button"
+        onClick={() => onRequestCorrection(date)}
+        disabled={date > today || isClosed}
+        title={date > today || isClosed ? undefined : 'Request correction'}
+        className={`h-20 rounded-lg border p-2 text-left text-xs flex flex-col justify-between disabled:cursor-default ${colorClass} ${date === today ? 'ring-2 ring-blue-500' : ''}`}
+      >
+        <span className="text-sm font-semibold">{Number(date.slice(8))}</span>
+        <span className="truncate">{label}</span>
+        {record?.total_hours != null && (
+          <span className="font-medium">{record.total_hours.toFixed(1)}h</span>
+        )}
+      </button>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Monthly Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="text-2xl font-bold">{summary.daysPresent}</div>
+            <p className="text-xs text-muted-foreground">Days present</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="text-2xl font-bold">{summary.lateCount}</div>
+            <p className="text-xs text-muted-foreground">Late arrivals</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="text-2xl font-bold">{summary.absentCount}</div>
+            <p className="text-xs text-muted-foreground">Days absent</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="text-2xl font-bold">{summary.totalHours.toFixed(1)}h</div>
+            <p className="text-xs text-muted-foreground">Total hours</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <Button variant="outline" size="sm" onClick={() => setMonth(shiftMonth(month, -1))}>
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <div className="flex items-center gap-2">
+              <CardTitle>{monthLabel}</CardTitle>
+              {isClosed && <ClosedPeriodBadge />}
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setMonth(shiftMonth(month, 1))}
+              disabled={month >= today.slice(0, 7)}
+            >
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading ? (
+            <div className="text-center py-8">Loading attendance...</div>
+          ) : (
+            <div className="grid grid-cols-7 gap-2">
+              {WEEKDAYS.map((weekday) => (
+                <div key={weekday} className="text-center text-xs font-medium text-gray-500">
+                  {weekday.slice(0, 3)}
+                </div>
+              ))}
+              {Array.from({ length: leadingBlanks }).map((_, index) => (
+                <div key={`blank-${index}`} />
+              ))}
+              {eachDate(monthStart, monthEnd).map(renderDay)}
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-3 text-xs">
+            {ATTENDANCE_STATUSES.map((status) => (
+              <span key={status} className={`px-2 py-1 rounded ${ATTENDANCE_STATUS_COLORS[status]}`}>
+                {formatAttendanceStatus(status)}
+              </span>
+            ))}
+            <span className="px-2 py-1 rounded bg-purple-100 text-purple-800">Leave</span>
+            <span className="px-2 py-1 rounded bg-gray-100 text-gray-600">Holiday / Off</span>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AttendanceCalendar;
@@ -0,0 +1,302 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useTimezone } from '@/hooks/useTimezone';
+import { useClosedMonths } from '@/hooks/useClosedMonths';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ClipboardEdit, MapPin, Paperclip } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Tables } from '@/integrations/supabase/types';
+import {
+  AttendanceStatus,
+  ATTENDANCE_STATUSES,
+  ATTENDANCE_STATUS_COLORS,
+  formatAttendanceStatus,
+  summarizeAttendance
+} from '@/lib/attendance';
+import { formatDate, formatTimeInZone } from '@/lib/timezone';
+import { isDateInClosedMonth } from '@/lib/periods';
+import ClosedPeriodBadge from '@/components/periods/ClosedPeriodBadge';
+import AttendanceNotes from './AttendanceNotes';
+import AttendanceAttachments from './AttendanceAttachments';
+
+type HistoryRecord = Tables<'attendance'> & {
+  office_location_in: { name: string } | null;
+  attendance_attachments: { id: string }[];
+};
+
+interface AttendanceHistoryListProps {
+  // Another employee's history, as seen by their manager; defaults to your own
+  userId?: string;
+  timeZone?: string | null;
+  onRequestCorrection?: (date: string) => void;
+}
+
+const PAGE_SIZE = 20;
+
+// Select items cannot have an empty value, so "any status" uses a sentinel
+const ALL_STATUSES = 'all';
+
+const AttendanceHistoryList = ({ userId, timeZone: employeeTimeZone, onRequestCorrection }: AttendanceHistoryListProps) => {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const ownTimeZone = useTimezone();
+  const closedMonths = useClosedMonths();
+  const [records, setRecords] = useState<HistoryRecord[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [managerNotes, setManagerNotes] = useState<Record<string, string>>({});
+  const [totalCount, setTotalCount] = useState(0);
+  const [page, setPage] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [filters, setFilters] = useState({
+    from: '',
+    to: '',
+    status: ALL_STATUSES
+  });
+
+  const targetUserId = userId || profile?.id;
+  const isOwnHistory = targetUserId === profile?.id;
+  const timeZone = isOwnHistory ? ownTimeZone : employeeTimeZone;
+
+  const fetchHistory = async () => {
+    if (!targetUserId) return;
+
+    setIsLoading(true);
+
+    let query = supabase
+      .from('attendance')
+      .select(
+        '*, office_location_in:office_locations!attendance_location_in_id_fkey (name), attendance_attachments (id)',
+        { count: 'exact' }
+      )
+      .eq('user_id', targetUserId)
+      .order('date', { ascending: false })
+      .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+
+    if (filters.from) query = query.gte('date', filters.from);
+    if (filters.to) query = query.lte('date', filters.to);
+    if (filters.status !== ALL_STATUSES) query = query.eq('status', filters.status as AttendanceStatus);
+
+    const { data, error, count } = await query;
+
+    if (error) {
+      console.error('Error fetching attendance history:', error);
+    } else {
+      setRecords(data || []);
+      setTotalCount(count || 0);
+    }
+
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    fetchHistory();
+  }, [targetUserId, page, filters]);
+
+  const handleSaveManagerNote = async (record: HistoryRecord) => {
+    const { error } = await supabase.rpc('annotate_attendance_day', {
+      p_attendance_id: record.id,
+      p_note: managerNotes[record.id] ?? record.manager_note ?? ''
+    });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to save note',
+        variant: 'destructive'
+      });
+    } else {
+      toast({
+        title: 'Success',
+        description: 'Note saved'
+      });
+      fetchHistory();
+    }
+  };
+
+  const updateFilters = (changes: Partial<typeof filters>) => {
+    setFilters({ ...filters, ...changes });
+    setPage(0);
+  };
+
+  const formatTime = (timeString: string | null) => formatTimeInZone(timeString, timeZone);
+
+  const pageCount = Math.max(Math.ceil(totalCount / PAGE_SIZE), 1);
+  const pageSummary = summarizeAttendance(records);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="history_from">From</Label>
+              <Input
+                id="history_from"
+                type="date"
+                value={filters.from}
+                max={filters.to || undefined}
+                onChange={(e) => updateFilters({ from: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="history_to">To</Label>
+              <Input
+                id="history_to"
+                type="date"
+                value={filters.to}
+                min={filters.from || undefined}
+                onChange={(e) => updateFilters({ to: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="history_status">Status</Label>
+              <Select value={filters.status} onValueChange={(status) => updateFilters({ status })}>
+                <SelectTrigger id="history_status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_STATUSES}>All statuses</SelectItem>
+                  {ATTENDANCE_STATUSES.map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {formatAttendanceStatus(status)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => updateFilters({ from: '', to: '', status: ALL_STATUSES })}
+            >
+              Clear filters
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="pt-6 space-y-3">
+          {isLoading ? (
+            <div className="text-center py-8">Loading attendance...</div>
+          ) : records.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              No attendance records found
+            </div>
+          ) : (
+            <>
+              <div className="text-sm text-gray-600">
+                {totalCount} record(s) • this page: {pageSummary.daysPresent} present, {pageSummary.lateCount} late, {pageSummary.totalHours.toFixed(1)}h
+              </div>
+              {records.map((record) => {
+                const isClosed = isDateInClosedMonth(closedMonths, record.date);
+                const isExpanded = expandedId === record.id;
+
+                return (
+                  <div key={record.id} className="p-3 border rounded-lg space-y-3">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-4">
+                        <div className="text-sm font-medium w-24">
+                          {formatDate(record.date)}
+                        </div>
+                        {record.status && (
+                          <Badge className={ATTENDANCE_STATUS_COLORS[record.status]}>
+                            {formatAttendanceStatus(record.status)}
+                          </Badge>
+                        )}
+                        {record.late_minutes > 0 && (
+                          <span className="text-xs text-orange-700">{record.late_minutes} min late</span>
+                        )}
+                        {record.auto_closed && (
+                          <Badge className="bg-gray-100 text-gray-800">Auto punched out</Badge>
+                        )}
+                        {isClosed && <ClosedPeriodBadge />}
+                      </div>
+                      <div className="flex items-center gap-4 text-sm text-gray-600">
+                        {record.outside_geofence ? (
+                          <Badge className="bg-red-100 text-red-800 flex items-center gap-1">
+                            <MapPin className="w-3 h-3" />
+                            Outside geofence
+                          </Badge>
+                        ) : record.office_location_in && (
+                          <span className="flex items-center gap-1">
+                            <MapPin className="w-4 h-4" />
+                            {record.office_location_in.name}
+                          </span>
+                        )}
+                        <span>In: {formatTime(record.punch_in)}</span>
+                        <span>Out: {formatTime(record.punch_out)}</span>
+                        <span className="font-medium">
+                          {record.total_hours?.toFixed(1) || '0.0'}h
+                        </span>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          title="Notes and attachments"
+                          onClick={() => setExpandedId(isExpanded ? null : record.id)}
+                          className="flex items-center gap-1"
+                        >
+                          <Paperclip className="w-4 h-4" />
+                          {record.attendance_attachments.length > 0 && record.attendance_attachments.length}
+                        </Button>
+                        {onRequestCorrection && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            title={isClosed ? 'This month is closed' : 'Request correction'}
+                            onClick={() => onRequestCorrection(record.date)}
+                            disabled={isClosed}
+                          >
+                            <ClipboardEdit className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                    <AttendanceNotes notes={record.notes} managerNote={record.manager_note} />
+                    {isExpanded && (
+                      <div className="space-y-3 border-t pt-3">
+                        <AttendanceAttachments attendanceId={record.id} canUpload={isOwnHistory && !isClosed} />
+                        {!isOwnHistory && !isClosed && (
+                          <div className="flex gap-2">
+                            <Input
+                              placeholder="Manager note"
+                              maxLength={1000}
+                              value={managerNotes[record.id] ?? record.manager_note ?? ''}
+                              onChange={(e) => setManagerNotes({ ...managerNotes, [record.id]: e.target.value })}
+                            />
+                            <Button size="sm" variant="outline" onClick={() => handleSaveManagerNote(record)}>
+                              Save Note
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </>
+          )}
+
+          <div className="flex items-center justify-between pt-2">
+            <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0}>
+              Previous
+            </Button>
+            <span className="text-sm text-gray-600">
+              Page {page + 1} of {pageCount}
+            </span>
+            <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page + 1 >= pageCount}>
+              Next
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AttendanceHistoryList;
@@ -0,0 +1,65 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ArrowLeft, CalendarDays, List } from 'lucide-react';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import RegularizationForm from '@/components/regularization/RegularizationForm';
+import AttendanceCalendar from './AttendanceCalendar';
+import AttendanceHistoryList from './AttendanceHistoryList';
+
+const AttendanceHistoryPage = () => {
+  const [correctionDate, setCorrectionDate] = useState<string | null>(null);
+
+  if (correctionDate) {
+    return (
+      <DashboardLayout>
+        <RegularizationForm
+          initialDate={correctionDate}
+          onSuccess={() => setCorrectionDate(null)}
+          onCancel={() => setCorrectionDate(null)}
+        />
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Attendance History</h1>
+            <p className="text-gray-600 mt-2">Every day you have worked, with monthly totals</p>
+          </div>
+          <Button asChild variant="outline" className="flex items-center gap-2">
+            <Link to="/attendance">
+              <ArrowLeft className="w-4 h-4" />
+              Back to Attendance
+            </Link>
+          </Button>
+        </div>
+
+        <Tabs defaultValue="calendar">
+          <TabsList>
+            <TabsTrigger value="calendar" className="flex items-center gap-2">
+              <CalendarDays className="w-4 h-4" />
+              Calendar
+            </TabsTrigger>
+            <TabsTrigger value="list" className="flex items-center gap-2">
+              <List className="w-4 h-4" />
+              List
+            </TabsTrigger>
+          </TabsList>
+          <TabsContent value="calendar">
+            <AttendanceCalendar onRequestCorrection={setCorrectionDate} />
+          </TabsContent>
+          <TabsContent value="list">
+            <AttendanceHistoryList onRequestCorrection={setCorrectionDate} />
+          </TabsContent>
+        </Tabs>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default AttendanceHistoryPage;
@@ -0,0 +1,29 @@
+import { MessageSquare, StickyNote } from 'lucide-react';
+
+interface AttendanceNotesProps {
+  notes: string | null;
+  managerNote: string | null;
+}
+
+const AttendanceNotes = ({ notes, managerNote }: AttendanceNotesProps) => {
+  if (!notes && !managerNote) return null;
+
+  return (
+    <div className="space-y-2 text-sm">
+      {notes && (
+        <div className="flex items-start gap-2 text-gray-700">
+          <StickyNote className="w-4 h-4 mt-0.5 shrink-0" />
+          <span className="whitespace-pre-line">{notes}</span>
+        </div>
+      )}
+      {managerNote && (
+        <div className="flex items-start gap-2 text-blue-800">
+          <MessageSquare className="w-4 h-4 mt-0.5 shrink-0" />
+          <span className="whitespace-pre-line">Manager: {managerNote}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AttendanceNotes;
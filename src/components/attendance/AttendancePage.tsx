@@ -1,13 +1,36 @@
 
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/hooks/useAuth';
+import { useTimezone } from '@/hooks/useTimezone';
+import { usePunchQueue } from '@/hooks/usePunchQueue';
+import { useClosedMonths } from '@/hooks/useClosedMonths';
+import { Link } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Clock, MapPin, Calendar } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Clock, MapPin, Calendar, ClipboardEdit, Timer, QrCode } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import DashboardLayout from '@/components/layout/DashboardLayout';
+import SessionTimeline, { AttendanceSession } from './SessionTimeline';
+import AttendanceNotes from './AttendanceNotes';
+import AttendanceAttachments from './AttendanceAttachments';
+import SelfieCapture from './SelfieCapture';
+import RegularizationForm from '@/components/regularization/RegularizationForm';
+import KioskPinCard from '@/components/kiosk/KioskPinCard';
+import QrScanner, { isQrScanningSupported } from '@/components/kiosk/QrScanner';
+import ClosedPeriodBadge from '@/components/periods/ClosedPeriodBadge';
+import { AttendanceStatus, ATTENDANCE_STATUS_COLORS, formatAttendanceStatus } from '@/lib/attendance';
+import { Coordinates, GeofenceCheck, checkGeofence, getCurrentCoordinates } from '@/lib/geofence';
+import { isNetworkError, recordPunchIn, recordPunchOut } from '@/lib/punch';
+import { PunchType, queuePunch } from '@/lib/punchQueue';
+import { isPunchQrCode, qrPunch } from '@/lib/qrPunch';
+import { isDateInClosedMonth } from '@/lib/periods';
+import { isSelfieRequired, uploadSelfie } from '@/lib/selfies';
+import { addDaysToDate, formatDate, formatTimeInZone, getLocalToday, toLocalDate } from '@/lib/timezone';
+import { OvertimeSummary, formatHours, getOvertimeSettings, getWeekStart, summarizeOvertime } from '@/lib/overtime';
+import { Shift, getShiftForUser, getShiftById, formatShiftTime } from '@/lib/shifts';
 
 interface AttendanceRecord {
   id: string;
@@ -15,38 +38,62 @@ interface AttendanceRecord {
   punch_in: string | null;
   punch_out: string | null;
   total_hours: number | null;
+  regular_hours: number | null;
+  overtime_hours: number;
   status: string;
   location_in: string | null;
   location_out: string | null;
+  location_in_id: string | null;
+  location_out_id: string | null;
+  outside_geofence: boolean;
+  office_location_in?: { name: string } | null;
+  shift_id: string | null;
+  late_minutes: number;
+  auto_closed: boolean;
+  notes: string | null;
+  manager_note: string | null;
 }
 
 const AttendancePage = () => {
   const { profile } = useAuth();
   const { toast } = useToast();
+  const timeZone = useTimezone();
+  const { punches: queuedPunches } = usePunchQueue();
+  const closedMonths = useClosedMonths();
   const [todayAttendance, setTodayAttendance] = useState<AttendanceRecord | null>(null);
   const [recentAttendance, setRecentAttendance] = useState<AttendanceRecord[]>([]);
+  const [todayShift, setTodayShift] = useState<Shift | null>(null);
+  const [todaySessions, setTodaySessions] = useState<AttendanceSession[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [isScanningQr, setIsScanningQr] = useState(false);
+  const [punchNote, setPunchNote] = useState('');
+  const [selfieRequired, setSelfieRequired] = useState(false);
+  const [selfiePunch, setSelfiePunch] = useState<PunchType | null>(null);
+  const [correctionDate, setCorrectionDate] = useState<string | null>(null);
+  const [weekOvertime, setWeekOvertime] = useState<OvertimeSummary | null>(null);
 
-  const getCurrentLocation = (): Promise<string> => {
-    return new Promise((resolve) => {
-      if (navigator.geolocation) {
-        navigator.geolocation.getCurrentPosition(
-          (position) => {
-            resolve(`${position.coords.latitude}, ${position.coords.longitude}`);
-          },
-          () => resolve('Location not available')
-        );
-      } else {
-        resolve('Geolocation not supported');
-      }
-    });
+  // Returns null when the employee's geofence policy blocks the punch
+  const verifyLocation = async (): Promise<GeofenceCheck | null> => {
+    if (!profile) return null;
+
+    const check = await checkGeofence(profile);
+    if (!check.allowed) {
+      toast({
+        title: 'Punch blocked',
+        description: check.message,
+        variant: 'destructive'
+      });
+      return null;
+    }
+
+    return check;
   };
 
   const fetchTodayAttendance = async () => {
-    if (!profile) return;
+    if (!profile || !timeZone) return;
 
-    const today = new Date().toISOString().split('T')[0];
-    const { data, error } = await supabase
+    const today = getLocalToday(timeZone);
+    const { data: todayData, error } = await supabase
       .from('attendance')
       .select('*')
       .eq('user_id', profile.id)
@@ -58,7 +105,50 @@ const AttendancePage = () => {
       return;
     }
 
+    let data = todayData;
+    if (!data) {
+      // A night shift that started yesterday stays on yesterday's row until it is punched out
+      const yesterday = addDaysToDate(today, -1);
+
+      const { data: openData } = await supabase
+        .from('attendance')
+        .select('*')
+        .eq('user_id', profile.id)
+        .eq('date', yesterday)
+        .not('punch_in', 'is', null)
+        .is('punch_out', null)
+        .maybeSingle();
+
+      data = openData;
+    }
+
     setTodayAttendance(data);
+    await fetchSessions(data?.id);
+
+    const shift = data?.shift_id
+      ? await getShiftById(data.shift_id)
+      : await getShiftForUser(profile.id, profile.department_id, today);
+    setTodayShift(shift);
+  };
+
+  const fetchSessions = async (attendanceId?: string) => {
+    if (!attendanceId) {
+      setTodaySessions([]);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('attendance_sessions')
+      .select('*')
+      .eq('attendance_id', attendanceId)
+      .order('punch_in');
+
+    if (error) {
+      console.error('Error fetching attendance sessions:', error);
+      return;
+    }
+
+    setTodaySessions(data || []);
   };
 
   const fetchRecentAttendance = async () => {
@@ -66,7 +156,7 @@ const AttendancePage = () => {
 
     const { data, error } = await supabase
       .from('attendance')
-      .select('*')
+      .select('*, office_location_in:office_locations!attendance_location_in_id_fkey (name)')
       .eq('user_id', profile.id)
       .order('date', { ascending: false })
       .limit(7);
@@ -79,24 +169,134 @@ const AttendancePage = () => {
     setRecentAttendance(data || []);
   };
 
-  const handlePunchIn = async () => {
-    if (!profile) return;
+  const fetchWeekOvertime = async () => {
+    if (!profile || !timeZone) return;
 
-    setIsLoading(true);
-    const location = await getCurrentLocation();
-    const today = new Date().toISOString().split('T')[0];
+    const today = getLocalToday(timeZone);
+    const [{ data, error }, settings] = await Promise.all([
+      supabase
+        .from('attendance')
+        .select('date, total_hours, regular_hours, overtime_hours')
+        .eq('user_id', profile.id)
+        .gte('date', getWeekStart(today))
+        .lte('date', today),
+      getOvertimeSettings()
+    ]);
 
-    const { error } = await supabase
-      .from('attendance')
-      .insert({
+    if (error) {
+      console.error('Error fetching weekly hours:', error);
+      return;
+    }
+
+    setWeekOvertime(summarizeOvertime(data || [], settings));
+  };
+
+  // Keeps the punch, and its photo, on this device until the connection is back
+  const queueOfflinePunch = async (type: PunchType, at: string, coords?: Coordinates | null, selfie?: Blob) => {
+    if (!profile) return;
+
+    try {
+      await queuePunch({
         user_id: profile.id,
-        date: today,
-        punch_in: new Date().toISOString(),
-        location_in: location,
-        status: 'PRESENT'
+        type,
+        at,
+        coords: coords === undefined ? await getCurrentCoordinates() : coords,
+        note: punchNote.trim() || undefined,
+        selfie
+      });
+      setPunchNote('');
+      toast({
+        title: 'Saved offline',
+        description: `Your punch ${type === 'IN' ? 'in' : 'out'} at ${formatTime(at)} will be sent once you are back online.`
       });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to save your punch on this device',
+        variant: 'destructive'
+      });
+    }
+  };
 
-    if (error) {
+  // A photo that cannot reach storage is queued with its punch when the connection dropped
+  const handleSelfieUploadError = async (
+    error: Error,
+    type: PunchType,
+    at: string,
+    coords: Coordinates | null,
+    selfie: Blob
+  ) => {
+    if (isNetworkError(error)) {
+      await queueOfflinePunch(type, at, coords, selfie);
+      return;
+    }
+
+    toast({
+      title: 'Error',
+      description: error.message || 'Failed to upload your photo',
+      variant: 'destructive'
+    });
+  };
+
+  // With a selfie policy the camera opens first and the punch follows the photo
+  const startPunch = (type: PunchType) => {
+    if (selfieRequired) {
+      setIsScanningQr(false);
+      setSelfiePunch(type);
+    } else if (type === 'IN') {
+      handlePunchIn();
+    } else {
+      handlePunchOut();
+    }
+  };
+
+  const handleSelfieCapture = (selfie: Blob) => {
+    const type = selfiePunch;
+    setSelfiePunch(null);
+    if (type === 'IN') {
+      handlePunchIn(selfie);
+    } else if (type === 'OUT') {
+      handlePunchOut(selfie);
+    }
+  };
+
+  const handlePunchIn = async (selfie?: Blob) => {
+    if (!profile || !timeZone) return;
+
+    setIsLoading(true);
+    const punchIn = new Date().toISOString();
+
+    if (!navigator.onLine) {
+      await queueOfflinePunch('IN', punchIn, undefined, selfie);
+      setIsLoading(false);
+      return;
+    }
+
+    const check = await verifyLocation();
+    if (!check) {
+      setIsLoading(false);
+      return;
+    }
+
+    let selfiePath: string | null = null;
+    if (selfie) {
+      try {
+        selfiePath = await uploadSelfie(profile.id, toLocalDate(punchIn, timeZone), selfie);
+      } catch (error) {
+        await handleSelfieUploadError(error as Error, 'IN', punchIn, check.coords, selfie);
+        setIsLoading(false);
+        return;
+      }
+    }
+
+    const error = await recordPunchIn(
+      { profile, timeZone, at: punchIn, check, note: punchNote, selfiePath },
+      todayAttendance?.id
+    );
+
+    if (error && isNetworkError(error)) {
+      await queueOfflinePunch('IN', punchIn, check.coords, selfie);
+    } else if (error) {
       toast({
         title: 'Error',
         description: 'Failed to punch in. Please try again.',
@@ -105,8 +305,11 @@ const AttendancePage = () => {
     } else {
       toast({
         title: 'Punched In!',
-        description: 'Your attendance has been recorded.'
+        description: check.outsideGeofence
+          ? 'Your attendance has been recorded but flagged as outside your office locations.'
+          : `Your attendance has been recorded${check.location ? ` at ${check.location.name}` : ''}.`
       });
+      setPunchNote('');
       fetchTodayAttendance();
       fetchRecentAttendance();
     }
@@ -114,21 +317,44 @@ const AttendancePage = () => {
     setIsLoading(false);
   };
 
-  const handlePunchOut = async () => {
-    if (!profile || !todayAttendance) return;
+  const handlePunchOut = async (selfie?: Blob) => {
+    if (!profile || !timeZone) return;
 
     setIsLoading(true);
-    const location = await getCurrentLocation();
+    const punchOut = new Date().toISOString();
 
-    const { error } = await supabase
-      .from('attendance')
-      .update({
-        punch_out: new Date().toISOString(),
-        location_out: location
-      })
-      .eq('id', todayAttendance.id);
+    // A punch in still waiting to sync has no session on the server to close yet
+    if (!navigator.onLine || !todayAttendance || !openSession) {
+      await queueOfflinePunch('OUT', punchOut, undefined, selfie);
+      setIsLoading(false);
+      return;
+    }
 
-    if (error) {
+    const check = await verifyLocation();
+    if (!check) {
+      setIsLoading(false);
+      return;
+    }
+
+    let selfiePath: string | null = null;
+    if (selfie) {
+      try {
+        selfiePath = await uploadSelfie(profile.id, toLocalDate(punchOut, timeZone), selfie);
+      } catch (error) {
+        await handleSelfieUploadError(error as Error, 'OUT', punchOut, check.coords, selfie);
+        setIsLoading(false);
+        return;
+      }
+    }
+
+    const error = await recordPunchOut(
+      { profile, timeZone, at: punchOut, check, note: punchNote, selfiePath },
+      openSession
+    );
+
+    if (error && isNetworkError(error)) {
+      await queueOfflinePunch('OUT', punchOut, check.coords, selfie);
+    } else if (error) {
       toast({
         title: 'Error',
         description: 'Failed to punch out. Please try again.',
@@ -137,44 +363,98 @@ const AttendancePage = () => {
     } else {
       toast({
         title: 'Punched Out!',
-        description: 'Your day has been completed.'
+        description: 'Your session has been recorded. Punch in again when you are back.'
       });
+      setPunchNote('');
       fetchTodayAttendance();
       fetchRecentAttendance();
+      fetchWeekOvertime();
     }
 
     setIsLoading(false);
   };
 
+  // The office code stands in for the GPS check; the server validates it and
+  // records the punch itself, in or out depending on what is open
+  const handleQrScan = async (code: string) => {
+    // Other QR codes in view are ignored and scanning carries on
+    if (!isPunchQrCode(code)) return;
+
+    setIsScanningQr(false);
+    setIsLoading(true);
+
+    try {
+      const result = await qrPunch(code);
+
+      if (result.result === 'DENIED') {
+        toast({
+          title: 'Punch not recorded',
+          description: result.message,
+          variant: 'destructive'
+        });
+      } else {
+        toast({
+          title: result.result === 'PUNCHED_IN' ? 'Punched In!' : 'Punched Out!',
+          description: `Recorded at ${formatTime(result.at)} using the office QR code.`
+        });
+        fetchTodayAttendance();
+        fetchRecentAttendance();
+        fetchWeekOvertime();
+      }
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to punch with the QR code',
+        variant: 'destructive'
+      });
+    }
+
+    setIsLoading(false);
+  };
+
+  const openSession = todaySessions.find((session) => !session.punch_out);
+
+  // Punches made offline decide the buttons until they reach the server
+  const pendingPunches = queuedPunches.filter((punch) => punch.status === 'PENDING');
+  const lastPendingPunch = pendingPunches[pendingPunches.length - 1];
+  const isPunchedIn = lastPendingPunch ? lastPendingPunch.type === 'IN' : !!openSession;
+  const hasPunchedToday = !!todayAttendance || !!lastPendingPunch;
+
+  // Also refreshes once queued punches have been synced
   useEffect(() => {
     fetchTodayAttendance();
     fetchRecentAttendance();
+    fetchWeekOvertime();
+  }, [profile, timeZone, queuedPunches.length]);
+
+  useEffect(() => {
+    if (profile) {
+      isSelfieRequired(profile).then(setSelfieRequired);
+    }
   }, [profile]);
 
-  const formatTime = (timeString: string | null) => {
-    if (!timeString) return '--:--';
-    return new Date(timeString).toLocaleTimeString('en-US', {
-      hour: '2-digit',
-      minute: '2-digit'
-    });
-  };
+  const formatTime = (timeString: string | null) => formatTimeInZone(timeString, timeZone);
 
   const getStatusBadge = (status: string) => {
-    const statusColors = {
-      PRESENT: 'bg-green-100 text-green-800',
-      ABSENT: 'bg-red-100 text-red-800',
-      HALF_DAY: 'bg-yellow-100 text-yellow-800',
-      LATE: 'bg-orange-100 text-orange-800',
-      EARLY_LEAVE: 'bg-blue-100 text-blue-800'
-    };
-
     return (
-      <Badge className={statusColors[status as keyof typeof statusColors] || 'bg-gray-100 text-gray-800'}>
-        {status.replace('_', ' ')}
+      <Badge className={ATTENDANCE_STATUS_COLORS[status as AttendanceStatus] || 'bg-gray-100 text-gray-800'}>
+        {formatAttendanceStatus(status)}
       </Badge>
     );
   };
 
+  if (correctionDate) {
+    return (
+      <DashboardLayout>
+        <RegularizationForm
+          initialDate={correctionDate}
+          onSuccess={() => setCorrectionDate(null)}
+          onCancel={() => setCorrectionDate(null)}
+        />
+      </DashboardLayout>
+    );
+  }
+
   return (
     <DashboardLayout>
       <div className="space-y-6">
@@ -195,8 +475,14 @@ const AttendancePage = () => {
                 weekday: 'long', 
                 year: 'numeric', 
                 month: 'long', 
-                day: 'numeric' 
+                day: 'numeric',
+                timeZone: timeZone || undefined
               })}
+              {todayShift && (
+                <span className="ml-2">
+                  • {todayShift.name} shift ({formatShiftTime(todayShift.start_time)} - {formatShiftTime(todayShift.end_time)})
+                </span>
+              )}
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -221,53 +507,200 @@ const AttendancePage = () => {
               </div>
             </div>
 
+            <div className="max-w-sm mx-auto mb-4">
+              <Input
+                placeholder="Add a note to your punch (optional)"
+                maxLength={500}
+                value={punchNote}
+                onChange={(e) => setPunchNote(e.target.value)}
+              />
+            </div>
+
             <div className="flex gap-4 justify-center">
-              {!todayAttendance ? (
-                <Button onClick={handlePunchIn} disabled={isLoading} className="flex items-center gap-2">
+              {!hasPunchedToday ? (
+                <Button onClick={() => startPunch('IN')} disabled={isLoading || !!selfiePunch} className="flex items-center gap-2">
                   <Clock className="w-4 h-4" />
                   Punch In
                 </Button>
-              ) : !todayAttendance.punch_out ? (
-                <Button onClick={handlePunchOut} disabled={isLoading} variant="destructive" className="flex items-center gap-2">
+              ) : isPunchedIn ? (
+                <Button onClick={() => startPunch('OUT')} disabled={isLoading || !!selfiePunch} variant="destructive" className="flex items-center gap-2">
                   <Clock className="w-4 h-4" />
                   Punch Out
                 </Button>
               ) : (
-                <div className="text-center">
-                  <Badge className="bg-green-100 text-green-800">Day Completed</Badge>
+                <div className="flex items-center gap-4">
+                  <Badge className="bg-gray-100 text-gray-800">Clocked Out</Badge>
+                  <Button onClick={() => startPunch('IN')} disabled={isLoading || !!selfiePunch} variant="outline" className="flex items-center gap-2">
+                    <Clock className="w-4 h-4" />
+                    Punch In Again
+                  </Button>
                 </div>
               )}
+              {/* Offline punches have to reach the server first, or the code would punch the wrong way */}
+              {!isScanningQr && !selfiePunch && navigator.onLine && pendingPunches.length === 0 && isQrScanningSupported() && (
+                <Button onClick={() => setIsScanningQr(true)} disabled={isLoading} variant="outline" className="flex items-center gap-2">
+                  <QrCode className="w-4 h-4" />
+                  Scan Office QR
+                </Button>
+              )}
             </div>
+
+            {selfiePunch && (
+              <div className="mt-4 max-w-sm mx-auto">
+                <SelfieCapture onCapture={handleSelfieCapture} onCancel={() => setSelfiePunch(null)} />
+              </div>
+            )}
+
+            {isScanningQr && (
+              <div className="mt-4 max-w-sm mx-auto space-y-2">
+                <QrScanner onScan={handleQrScan} facingMode="environment" />
+                <p className="text-center text-sm text-gray-600">Point your camera at the code displayed in the office</p>
+                <Button variant="ghost" className="w-full" onClick={() => setIsScanningQr(false)}>
+                  Cancel
+                </Button>
+              </div>
+            )}
+
+            {pendingPunches.length > 0 && (
+              <div className="mt-4 text-center text-sm text-yellow-800">
+                Waiting to sync: {pendingPunches
+                  .map((punch) => `${punch.type === 'IN' ? 'In' : 'Out'} ${formatTime(punch.at)}`)
+                  .join(' • ')}
+              </div>
+            )}
+
+            {todaySessions.length > 0 && (
+              <div className="mt-6">
+                <SessionTimeline sessions={todaySessions} timeZone={timeZone} />
+              </div>
+            )}
+
+            {todayAttendance?.status && (
+              <div className="flex items-center justify-center gap-2 mt-4 text-sm text-gray-600">
+                Status: {getStatusBadge(todayAttendance.status)}
+                {todayAttendance.late_minutes > 0 && (
+                  <span>{todayAttendance.late_minutes} min late</span>
+                )}
+              </div>
+            )}
+
+            {todayAttendance && (
+              <div className="mt-6 space-y-4">
+                <AttendanceNotes notes={todayAttendance.notes} managerNote={todayAttendance.manager_note} />
+                <AttendanceAttachments attendanceId={todayAttendance.id} canUpload />
+              </div>
+            )}
           </CardContent>
         </Card>
 
+        {/* This Week */}
+        {weekOvertime && (
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <Timer className="w-5 h-5" />
+                    This Week
+                  </CardTitle>
+                  <CardDescription>Completed days from Monday on</CardDescription>
+                </div>
+                {weekOvertime.overtimeHours > 0 && (
+                  <Button asChild variant="outline" size="sm">
+                    <Link to="/overtime">Claim overtime</Link>
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="text-center p-4 bg-gray-50 rounded-lg">
+                  <div className="text-2xl font-bold">{formatHours(weekOvertime.regularHours)}</div>
+                  <div className="text-sm text-gray-600">Regular Hours</div>
+                </div>
+                <div className="text-center p-4 bg-orange-50 rounded-lg">
+                  <div className="text-2xl font-bold text-orange-600">{formatHours(weekOvertime.dailyOvertimeHours)}</div>
+                  <div className="text-sm text-gray-600">Daily Overtime</div>
+                </div>
+                <div className="text-center p-4 bg-orange-50 rounded-lg">
+                  <div className="text-2xl font-bold text-orange-600">{formatHours(weekOvertime.weeklyOvertimeHours)}</div>
+                  <div className="text-sm text-gray-600">Weekly Overtime</div>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Recent Attendance */}
         <Card>
           <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Calendar className="w-5 h-5" />
-              Recent Attendance
-            </CardTitle>
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center gap-2">
+                <Calendar className="w-5 h-5" />
+                Recent Attendance
+              </CardTitle>
+              <Button asChild variant="outline" size="sm">
+                <Link to="/attendance/history">View full history</Link>
+              </Button>
+            </div>
           </CardHeader>
           <CardContent>
             <div className="space-y-3">
-              {recentAttendance.map((record) => (
-                <div key={record.id} className="flex items-center justify-between p-3 border rounded-lg">
-                  <div className="flex items-center gap-4">
-                    <div className="text-sm font-medium">
-                      {new Date(record.date).toLocaleDateString()}
+              {recentAttendance.map((record) => {
+                const isClosed = isDateInClosedMonth(closedMonths, record.date);
+
+                return (
+                  <div key={record.id} className="flex items-center justify-between p-3 border rounded-lg">
+                    <div className="flex items-center gap-4">
+                      <div className="text-sm font-medium">
+                        {formatDate(record.date)}
+                      </div>
+                      {getStatusBadge(record.status)}
+                      {record.late_minutes > 0 && (
+                        <span className="text-xs text-orange-700">{record.late_minutes} min late</span>
+                      )}
+                      {record.auto_closed && (
+                        <Badge className="bg-gray-100 text-gray-800" title="No punch out was recorded, so the day was closed automatically">
+                          Auto punched out
+                        </Badge>
+                      )}
+                      {isClosed && <ClosedPeriodBadge />}
+                    </div>
+                    <div className="flex items-center gap-4 text-sm text-gray-600">
+                      {record.outside_geofence ? (
+                        <Badge className="bg-red-100 text-red-800 flex items-center gap-1">
+                          <MapPin className="w-3 h-3" />
+                          Outside geofence
+                        </Badge>
+                      ) : record.office_location_in && (
+                        <span className="flex items-center gap-1">
+                          <MapPin className="w-4 h-4" />
+                          {record.office_location_in.name}
+                        </span>
+                      )}
+                      <span>In: {formatTime(record.punch_in)}</span>
+                      <span>Out: {formatTime(record.punch_out)}</span>
+                      <span className="font-medium">
+                        {record.total_hours?.toFixed(1) || '0.0'}h
+                      </span>
+                      {record.overtime_hours > 0 && (
+                        <Badge className="bg-orange-100 text-orange-800">
+                          +{formatHours(record.overtime_hours)} OT
+                        </Badge>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        title={isClosed ? 'This month is closed' : 'Request correction'}
+                        onClick={() => setCorrectionDate(record.date)}
+                        disabled={isClosed}
+                      >
+                        <ClipboardEdit className="w-4 h-4" />
+                      </Button>
                     </div>
-                    {getStatusBadge(record.status)}
-                  </div>
-                  <div className="flex items-center gap-4 text-sm text-gray-600">
-                    <span>In: {formatTime(record.punch_in)}</span>
-                    <span>Out: {formatTime(record.punch_out)}</span>
-                    <span className="font-medium">
-                      {record.total_hours?.toFixed(1) || '0.0'}h
-                    </span>
                   </div>
-                </div>
-              ))}
+                );
+              })}
               
               {recentAttendance.length === 0 && (
                 <div className="text-center py-8 text-gray-500">
@@ -277,6 +710,8 @@ const AttendancePage = () => {
             </div>
           </CardContent>
         </Card>
+
+        <KioskPinCard />
       </div>
     </DashboardLayout>
   );
@@ -0,0 +1,123 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Camera, RotateCcw, Check } from 'lucide-react';
+
+interface SelfieCaptureProps {
+  onCapture: (photo: Blob) => void;
+  onCancel: () => void;
+}
+
+// Big enough to recognise a face, small enough to queue offline
+const MAX_WIDTH = 640;
+const JPEG_QUALITY = 0.8;
+
+const SelfieCapture = ({ onCapture, onCancel }: SelfieCaptureProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [photo, setPhoto] = useState<Blob | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  // The camera stays on while retaking, so only the preview changes
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let stopped = false;
+
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError('This browser cannot use the camera');
+      return;
+    }
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'user' } })
+      .then((media) => {
+        if (stopped) {
+          media.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = media;
+        if (videoRef.current) {
+          videoRef.current.srcObject = media;
+          videoRef.current.play();
+        }
+      })
+      .catch(() => setError('Camera access was denied'));
+
+    return () => {
+      stopped = true;
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!photo) {
+      setPreviewUrl(null);
+      return;
+    }
+
+    const url = URL.createObjectURL(photo);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [photo]);
+
+  const handleTakePhoto = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+
+    const scale = Math.min(1, MAX_WIDTH / video.videoWidth);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+    canvas.toBlob((blob) => blob && setPhoto(blob), 'image/jpeg', JPEG_QUALITY);
+  };
+
+  if (error) {
+    return (
+      <div className="space-y-2">
+        <div className="text-center py-8 text-sm text-red-600">{error}</div>
+        <Button variant="ghost" className="w-full" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <video
+        ref={videoRef}
+        className={`w-full rounded-lg bg-black aspect-video object-cover -scale-x-100 ${previewUrl ? 'hidden' : ''}`}
+        muted
+        playsInline
+      />
+      {previewUrl && (
+        <img src={previewUrl} alt="Your punch photo" className="w-full rounded-lg aspect-video object-cover -scale-x-100" />
+      )}
+      <p className="text-center text-sm text-gray-600">Your department asks for a photo with every punch</p>
+      <div className="flex gap-2">
+        {photo ? (
+          <>
+            <Button variant="outline" className="flex-1 flex items-center gap-2" onClick={() => setPhoto(null)}>
+              <RotateCcw className="w-4 h-4" />
+              Retake
+            </Button>
+            <Button className="flex-1 flex items-center gap-2" onClick={() => onCapture(photo)}>
+              <Check className="w-4 h-4" />
+              Use Photo
+            </Button>
+          </>
+        ) : (
+          <Button className="flex-1 flex items-center gap-2" onClick={handleTakePhoto}>
+            <Camera className="w-4 h-4" />
+            Take Photo
+          </Button>
+        )}
+      </div>
+      <Button variant="ghost" className="w-full" onClick={onCancel}>
+        Cancel
+      </Button>
+    </div>
+  );
+};
+
+export default SelfieCapture;
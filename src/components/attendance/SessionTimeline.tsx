@@ -0,0 +1,80 @@
+import { Badge } from '@/components/ui/badge';
+import { LogIn, LogOut } from 'lucide-react';
+import { Tables } from '@/integrations/supabase/types';
+import { getSessionHours } from '@/lib/attendance';
+import { formatTimeInZone } from '@/lib/timezone';
+
+export type AttendanceSession = Tables<'attendance_sessions'>;
+
+interface SessionTimelineProps {
+  sessions: AttendanceSession[];
+  timeZone?: string | null;
+}
+
+const SessionTimeline = ({ sessions, timeZone }: SessionTimelineProps) => {
+  const formatTime = (timeString: string | null) => formatTimeInZone(timeString, timeZone);
+
+  const formatGap = (from: string, to: string) => {
+    const minutes = Math.round((new Date(to).getTime() - new Date(from).getTime()) / (60 * 1000));
+    return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+  };
+
+  const workedSoFar = sessions.reduce((sum, session) => sum + getSessionHours(session), 0);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-gray-900">Sessions</h3>
+        <span className="text-sm text-gray-600">
+          {sessions.length} session(s) • {workedSoFar.toFixed(1)}h worked
+        </span>
+      </div>
+
+      <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+        {sessions.map((session, index) => {
+          const previous = sessions[index - 1];
+          return (
+            <li key={session.id} className="ml-4">
+              {previous?.punch_out && (
+                <div className="text-xs text-gray-400 mb-2">
+                  Away {formatGap(previous.punch_out, session.punch_in)}
+                </div>
+              )}
+              <div className="absolute w-3 h-3 bg-blue-500 rounded-full -left-1.5 mt-1.5 border border-white" />
+              <div className="flex items-center justify-between p-3 border rounded-lg">
+                <div className="flex items-center gap-4 text-sm">
+                  <span className="flex items-center gap-1 text-green-700">
+                    <LogIn className="w-4 h-4" />
+                    {formatTime(session.punch_in)}
+                  </span>
+                  <span className="flex items-center gap-1 text-red-700">
+                    <LogOut className="w-4 h-4" />
+                    {formatTime(session.punch_out)}
+                  </span>
+                </div>
+                {session.punch_out ? (
+                  <span className="flex items-center gap-2 text-sm font-medium">
+                    {(session.kiosk_in_id || session.kiosk_out_id) && (
+                      <Badge className="bg-blue-100 text-blue-800">Kiosk</Badge>
+                    )}
+                    {(session.qr_in || session.qr_out) && (
+                      <Badge className="bg-blue-100 text-blue-800">QR</Badge>
+                    )}
+                    {session.auto_closed && (
+                      <Badge className="bg-gray-100 text-gray-800">Auto</Badge>
+                    )}
+                    {getSessionHours(session).toFixed(1)}h
+                  </span>
+                ) : (
+                  <Badge className="bg-green-100 text-green-800">In progress</Badge>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
+
+export default SessionTimeline;
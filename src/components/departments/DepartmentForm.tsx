@@ -6,14 +6,22 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { UserRole } from '@/lib/auth';
+import { DEFAULT_WEEKLY_OFF_DAYS } from '@/lib/holidays';
+import WeeklyOffDaysPicker from '@/components/holidays/WeeklyOffDaysPicker';
 
 interface Department {
   id: string;
   name: string;
   description: string | null;
   hod_id: string | null;
+  weekly_off_days: number[] | null;
+  selfie_required_roles: UserRole[];
+  min_staffing: number | null;
 }
 
 interface Employee {
@@ -28,6 +36,8 @@ interface DepartmentFormProps {
   onCancel: () => void;
 }
 
+const roles: UserRole[] = ['SUPERADMIN', 'ADMIN', 'HR', 'HOD', 'MANAGER', 'DIRECTOR', 'EMPLOYEE'];
+
 const DepartmentForm = ({ department, onSuccess, onCancel }: DepartmentFormProps) => {
   const { toast } = useToast();
   const [employees, setEmployees] = useState<Employee[]>([]);
@@ -35,7 +45,11 @@ const DepartmentForm = ({ department, onSuccess, onCancel }: DepartmentFormProps
   const [formData, setFormData] = useState({
     name: '',
     description: '',
-    hod_id: ''
+    hod_id: '',
+    has_own_weekly_offs: false,
+    weekly_off_days: DEFAULT_WEEKLY_OFF_DAYS,
+    selfie_required_roles: [] as UserRole[],
+    min_staffing: ''
   });
 
   const fetchEmployees = async () => {
@@ -57,7 +71,11 @@ const DepartmentForm = ({ department, onSuccess, onCancel }: DepartmentFormProps
       setFormData({
         name: department.name,
         description: department.description || '',
-        hod_id: department.hod_id || ''
+        hod_id: department.hod_id || '',
+        has_own_weekly_offs: department.weekly_off_days !== null,
+        weekly_off_days: department.weekly_off_days || DEFAULT_WEEKLY_OFF_DAYS,
+        selfie_required_roles: department.selfie_required_roles,
+        min_staffing: department.min_staffing?.toString() || ''
       });
     }
   }, [department]);
@@ -70,7 +88,10 @@ const DepartmentForm = ({ department, onSuccess, onCancel }: DepartmentFormProps
       const submitData = {
         name: formData.name,
         description: formData.description || null,
-        hod_id: formData.hod_id || null
+        hod_id: formData.hod_id || null,
+        weekly_off_days: formData.has_own_weekly_offs ? formData.weekly_off_days : null,
+        selfie_required_roles: formData.selfie_required_roles,
+        min_staffing: formData.min_staffing ? parseInt(formData.min_staffing) : null
       };
 
       if (department) {
@@ -112,6 +133,15 @@ const DepartmentForm = ({ department, onSuccess, onCancel }: DepartmentFormProps
     setIsLoading(false);
   };
 
+  const toggleSelfieRole = (role: UserRole, checked: boolean) => {
+    setFormData({
+      ...formData,
+      selfie_required_roles: checked
+        ? [...formData.selfie_required_roles, role]
+        : formData.selfie_required_roles.filter((r) => r !== role)
+    });
+  };
+
   return (
     <div className="space-y-6">
       <div>
@@ -166,6 +196,57 @@ const DepartmentForm = ({ department, onSuccess, onCancel }: DepartmentFormProps
               </Select>
             </div>
 
+            <div className="space-y-2">
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="has_own_weekly_offs"
+                  checked={formData.has_own_weekly_offs}
+                  onCheckedChange={(checked) => setFormData({ ...formData, has_own_weekly_offs: checked })}
+                />
+                <Label htmlFor="has_own_weekly_offs">Department has its own weekly off days</Label>
+              </div>
+              {formData.has_own_weekly_offs && (
+                <WeeklyOffDaysPicker
+                  idPrefix="department_weekly_off"
+                  value={formData.weekly_off_days}
+                  onChange={(weekly_off_days) => setFormData({ ...formData, weekly_off_days })}
+                />
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="min_staffing">Minimum Staffing</Label>
+              <Input
+                id="min_staffing"
+                type="number"
+                min="0"
+                className="w-32"
+                value={formData.min_staffing}
+                onChange={(e) => setFormData({ ...formData, min_staffing: e.target.value })}
+                placeholder="None"
+              />
+              <p className="text-sm text-gray-500">
+                Approvers are warned when leave would leave fewer people than this at work on a day
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Require a selfie at punch in and out for</Label>
+              <div className="flex flex-wrap gap-4">
+                {roles.map((role) => (
+                  <div key={role} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`selfie_role-${role}`}
+                      checked={formData.selfie_required_roles.includes(role)}
+                      onCheckedChange={(checked) => toggleSelfieRole(role, checked === true)}
+                    />
+                    <Label htmlFor={`selfie_role-${role}`}>{role}</Label>
+                  </div>
+                ))}
+              </div>
+              <p className="text-sm text-gray-500">Kiosk and office QR punches never ask for a photo</p>
+            </div>
+
             <div className="flex gap-4 pt-4">
               <Button type="submit" disabled={isLoading}>
                 {isLoading ? 'Saving...' : department ? 'Update Department' : 'Create Department'}
@@ -9,7 +9,7 @@ import { Building, Plus, Search, Edit, Trash2, Users } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import DashboardLayout from '@/components/layout/DashboardLayout';
-import { isAdmin } from '@/lib/auth';
+import { UserRole, isAdmin } from '@/lib/auth';
 import DepartmentForm from './DepartmentForm';
 
 interface Department {
@@ -17,6 +17,9 @@ interface Department {
   name: string;
   description: string | null;
   hod_id: string | null;
+  weekly_off_days: number[] | null;
+  selfie_required_roles: UserRole[];
+  min_staffing: number | null;
   created_at: string;
   profiles?: {
     full_name: string;
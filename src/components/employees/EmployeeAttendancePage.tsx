@@ -0,0 +1,67 @@
+import { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import AttendanceHistoryList from '@/components/attendance/AttendanceHistoryList';
+import { getUserTimezone } from '@/lib/timezone';
+
+interface EmployeeSummary {
+  full_name: string;
+  employee_id: string;
+}
+
+// A manager's view of one employee's days, where they can annotate them
+const EmployeeAttendancePage = () => {
+  const { employeeId } = useParams<{ employeeId: string }>();
+  const [employee, setEmployee] = useState<EmployeeSummary | null>(null);
+  const [timeZone, setTimeZone] = useState<string | null>(null);
+
+  const fetchEmployee = async () => {
+    if (!employeeId) return;
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('full_name, employee_id, timezone, office_location_id')
+      .eq('id', employeeId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching employee:', error);
+      return;
+    }
+
+    setEmployee(data);
+    if (data) setTimeZone(await getUserTimezone(data));
+  };
+
+  useEffect(() => {
+    fetchEmployee();
+  }, [employeeId]);
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">{employee?.full_name || 'Employee'} Attendance</h1>
+            <p className="text-gray-600 mt-2">
+              {employee ? `ID: ${employee.employee_id} • ` : ''}Times shown on the employee's clock
+            </p>
+          </div>
+          <Button asChild variant="outline" className="flex items-center gap-2">
+            <Link to="/employees">
+              <ArrowLeft className="w-4 h-4" />
+              Back to Employees
+            </Link>
+          </Button>
+        </div>
+
+        {employeeId && <AttendanceHistoryList userId={employeeId} timeZone={timeZone} />}
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default EmployeeAttendancePage;
@@ -8,7 +8,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Switch } from '@/components/ui/switch';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { UserRole } from '@/lib/auth';
+import { UserRole, GeofencePolicy } from '@/lib/auth';
+import TimezoneSelect, { INHERIT_TIMEZONE } from '@/components/settings/TimezoneSelect';
 
 interface Employee {
   id: string;
@@ -20,6 +21,10 @@ interface Employee {
   phone: string | null;
   hire_date: string | null;
   is_active: boolean;
+  geofence_policy: GeofencePolicy;
+  office_location_id: string | null;
+  manager_id: string | null;
+  timezone: string | null;
 }
 
 interface Department {
@@ -27,6 +32,21 @@ interface Department {
   name: string;
 }
 
+interface OfficeLocationOption {
+  id: string;
+  name: string;
+}
+
+interface ManagerOption {
+  id: string;
+  full_name: string;
+  employee_id: string;
+}
+
+// Select items cannot have an empty value, so "no office" and "no manager" use a sentinel
+const NO_OFFICE = 'none';
+const NO_MANAGER = 'none';
+
 interface EmployeeFormProps {
   employee?: Employee | null;
   onSuccess: () => void;
@@ -36,6 +56,8 @@ interface EmployeeFormProps {
 const EmployeeForm = ({ employee, onSuccess, onCancel }: EmployeeFormProps) => {
   const { toast } = useToast();
   const [departments, setDepartments] = useState<Department[]>([]);
+  const [officeLocations, setOfficeLocations] = useState<OfficeLocationOption[]>([]);
+  const [managers, setManagers] = useState<ManagerOption[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [formData, setFormData] = useState({
     email: '',
@@ -44,11 +66,21 @@ const EmployeeForm = ({ employee, onSuccess, onCancel }: EmployeeFormProps) => {
     department_id: '',
     phone: '',
     hire_date: '',
-    is_active: true
+    is_active: true,
+    geofence_policy: 'FLAG' as GeofencePolicy,
+    office_location_id: NO_OFFICE,
+    manager_id: NO_MANAGER,
+    timezone: INHERIT_TIMEZONE
   });
 
   const roles: UserRole[] = ['SUPERADMIN', 'ADMIN', 'HR', 'HOD', 'MANAGER', 'DIRECTOR', 'EMPLOYEE'];
 
+  const geofencePolicies: { value: GeofencePolicy; label: string }[] = [
+    { value: 'NONE', label: 'No check' },
+    { value: 'FLAG', label: 'Flag punches outside office locations' },
+    { value: 'BLOCK', label: 'Block punches outside office locations' }
+  ];
+
   const fetchDepartments = async () => {
     const { data, error } = await supabase
       .from('departments')
@@ -60,8 +92,33 @@ const EmployeeForm = ({ employee, onSuccess, onCancel }: EmployeeFormProps) => {
     }
   };
 
+  const fetchOfficeLocations = async () => {
+    const { data, error } = await supabase
+      .from('office_locations')
+      .select('id, name')
+      .order('name');
+
+    if (!error && data) {
+      setOfficeLocations(data);
+    }
+  };
+
+  const fetchManagers = async () => {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('id, full_name, employee_id')
+      .eq('is_active', true)
+      .order('full_name');
+
+    if (!error && data) {
+      setManagers(data);
+    }
+  };
+
   useEffect(() => {
     fetchDepartments();
+    fetchOfficeLocations();
+    fetchManagers();
     
     if (employee) {
       setFormData({
@@ -71,7 +128,11 @@ const EmployeeForm = ({ employee, onSuccess, onCancel }: EmployeeFormProps) => {
         department_id: employee.department_id || '',
         phone: employee.phone || '',
         hire_date: employee.hire_date || '',
-        is_active: employee.is_active
+        is_active: employee.is_active,
+        geofence_policy: employee.geofence_policy,
+        office_location_id: employee.office_location_id || NO_OFFICE,
+        manager_id: employee.manager_id || NO_MANAGER,
+        timezone: employee.timezone || INHERIT_TIMEZONE
       });
     }
   }, [employee]);
@@ -88,7 +149,11 @@ const EmployeeForm = ({ employee, onSuccess, onCancel }: EmployeeFormProps) => {
         department_id: formData.department_id || null,
         phone: formData.phone || null,
         hire_date: formData.hire_date || null,
-        is_active: formData.is_active
+        is_active: formData.is_active,
+        geofence_policy: formData.geofence_policy,
+        office_location_id: formData.office_location_id === NO_OFFICE ? null : formData.office_location_id,
+        manager_id: formData.manager_id === NO_MANAGER ? null : formData.manager_id,
+        timezone: formData.timezone === INHERIT_TIMEZONE ? null : formData.timezone
       };
 
       if (employee) {
@@ -214,6 +279,67 @@ const EmployeeForm = ({ employee, onSuccess, onCancel }: EmployeeFormProps) => {
                   onChange={(e) => setFormData({ ...formData, hire_date: e.target.value })}
                 />
               </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="manager">Reports To</Label>
+                <Select value={formData.manager_id} onValueChange={(value) => setFormData({ ...formData, manager_id: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_MANAGER}>No manager</SelectItem>
+                    {managers
+                      .filter((manager) => manager.id !== employee?.id)
+                      .map((manager) => (
+                        <SelectItem key={manager.id} value={manager.id}>
+                          {manager.full_name} ({manager.employee_id})
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="office_location">Office</Label>
+                <Select value={formData.office_location_id} onValueChange={(value) => setFormData({ ...formData, office_location_id: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_OFFICE}>No fixed office</SelectItem>
+                    {officeLocations.map((location) => (
+                      <SelectItem key={location.id} value={location.id}>
+                        {location.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Timezone</Label>
+                <TimezoneSelect
+                  value={formData.timezone}
+                  onChange={(timezone) => setFormData({ ...formData, timezone })}
+                  inheritLabel="Office or organization default"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="geofence_policy">Location Policy</Label>
+                <Select value={formData.geofence_policy} onValueChange={(value) => setFormData({ ...formData, geofence_policy: value as GeofencePolicy })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {geofencePolicies.map((policy) => (
+                      <SelectItem key={policy.value} value={policy.value}>
+                        {policy.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
 
             <div className="flex items-center space-x-2">
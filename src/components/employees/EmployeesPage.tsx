@@ -5,12 +5,14 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
-import { Users, Plus, Search, Edit, Trash2 } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Users, Plus, Search, Edit, Trash2, QrCode, CalendarDays } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import DashboardLayout from '@/components/layout/DashboardLayout';
-import { canManageEmployees } from '@/lib/auth';
+import { canManageEmployees, isAdmin, GeofencePolicy } from '@/lib/auth';
 import EmployeeForm from './EmployeeForm';
+import KioskAccess from '@/components/kiosk/KioskAccess';
 
 interface Employee {
   id: string;
@@ -22,6 +24,10 @@ interface Employee {
   phone: string | null;
   hire_date: string | null;
   is_active: boolean;
+  geofence_policy: GeofencePolicy;
+  office_location_id: string | null;
+  manager_id: string | null;
+  timezone: string | null;
   departments?: {
     name: string;
   };
@@ -35,6 +41,7 @@ const EmployeesPage = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
   const [editingEmployee, setEditingEmployee] = useState<Employee | null>(null);
+  const [kioskEmployee, setKioskEmployee] = useState<Employee | null>(null);
 
   const fetchEmployees = async () => {
     setIsLoading(true);
@@ -124,6 +131,17 @@ const EmployeesPage = () => {
     return colors[role as keyof typeof colors] || 'bg-gray-100 text-gray-800';
   };
 
+  if (kioskEmployee) {
+    return (
+      <DashboardLayout>
+        <KioskAccess
+          employee={kioskEmployee}
+          onClose={() => setKioskEmployee(null)}
+        />
+      </DashboardLayout>
+    );
+  }
+
   if (showForm || editingEmployee) {
     return (
       <DashboardLayout>
@@ -211,6 +229,21 @@ const EmployeesPage = () => {
                         {employee.is_active ? 'Active' : 'Inactive'}
                       </Badge>
                       <div className="flex gap-2">
+                        <Button asChild size="sm" variant="outline" title="Attendance">
+                          <Link to={`/employees/${employee.id}/attendance`}>
+                            <CalendarDays className="w-4 h-4" />
+                          </Link>
+                        </Button>
+                        {isAdmin(profile?.role) && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            title="Kiosk access"
+                            onClick={() => setKioskEmployee(employee)}
+                          >
+                            <QrCode className="w-4 h-4" />
+                          </Button>
+                        )}
                         <Button
                           size="sm"
                           variant="outline"
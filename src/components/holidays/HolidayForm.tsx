@@ -0,0 +1,161 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Holiday } from '@/lib/holidays';
+import HolidayScopeFields, { ALL_SCOPE, HolidayScope, toScopeColumns } from './HolidayScopeFields';
+
+interface HolidayFormProps {
+  holiday?: Holiday | null;
+  onSuccess: () => void;
+  onCancel: () => void;
+}
+
+const HolidayForm = ({ holiday, onSuccess, onCancel }: HolidayFormProps) => {
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(false);
+  const [formData, setFormData] = useState({
+    name: '',
+    date: '',
+    is_recurring: false
+  });
+  const [scope, setScope] = useState<HolidayScope>({
+    department_id: ALL_SCOPE,
+    location_id: ALL_SCOPE
+  });
+
+  useEffect(() => {
+    if (holiday) {
+      setFormData({
+        name: holiday.name,
+        date: holiday.date,
+        is_recurring: holiday.is_recurring
+      });
+      setScope({
+        department_id: holiday.department_id || ALL_SCOPE,
+        location_id: holiday.location_id || ALL_SCOPE
+      });
+    }
+  }, [holiday]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    try {
+      const submitData = {
+        name: formData.name,
+        date: formData.date,
+        is_recurring: formData.is_recurring,
+        ...toScopeColumns(scope)
+      };
+
+      if (holiday) {
+        const { error } = await supabase
+          .from('holidays')
+          .update(submitData)
+          .eq('id', holiday.id);
+
+        if (error) throw error;
+
+        toast({
+          title: 'Success',
+          description: 'Holiday updated successfully'
+        });
+      } else {
+        const { error } = await supabase
+          .from('holidays')
+          .insert(submitData);
+
+        if (error) throw error;
+
+        toast({
+          title: 'Success',
+          description: 'Holiday created successfully'
+        });
+      }
+
+      onSuccess();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to save holiday',
+        variant: 'destructive'
+      });
+    }
+
+    setIsLoading(false);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">
+          {holiday ? 'Edit Holiday' : 'Add New Holiday'}
+        </h1>
+        <p className="text-gray-600 mt-2">
+          {holiday ? 'Update holiday details' : 'Add a day off to the company calendar'}
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Holiday Information</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="name">Holiday Name</Label>
+                <Input
+                  id="name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="e.g. New Year's Day"
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="date">Date</Label>
+                <Input
+                  id="date"
+                  type="date"
+                  value={formData.date}
+                  onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                  required
+                />
+              </div>
+
+              <HolidayScopeFields value={scope} onChange={setScope} />
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="is_recurring"
+                checked={formData.is_recurring}
+                onCheckedChange={(checked) => setFormData({ ...formData, is_recurring: checked })}
+              />
+              <Label htmlFor="is_recurring">Repeats every year on this date</Label>
+            </div>
+
+            <div className="flex gap-4 pt-4">
+              <Button type="submit" disabled={isLoading}>
+                {isLoading ? 'Saving...' : holiday ? 'Update Holiday' : 'Create Holiday'}
+              </Button>
+              <Button type="button" variant="outline" onClick={onCancel}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default HolidayForm;
@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Holiday, ParsedHoliday, parseICalendar } from '@/lib/holidays';
+import { formatDate } from '@/lib/timezone';
+import HolidayScopeFields, { ALL_SCOPE, HolidayScope, toScopeColumns } from './HolidayScopeFields';
+
+interface HolidayImportProps {
+  existingHolidays: Holiday[];
+  onSuccess: () => void;
+  onCancel: () => void;
+}
+
+const HolidayImport = ({ existingHolidays, onSuccess, onCancel }: HolidayImportProps) => {
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(false);
+  const [parsedHolidays, setParsedHolidays] = useState<ParsedHoliday[]>([]);
+  const [fileName, setFileName] = useState('');
+  const [scope, setScope] = useState<HolidayScope>({
+    department_id: ALL_SCOPE,
+    location_id: ALL_SCOPE
+  });
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const holidays = parseICalendar(await file.text());
+    setFileName(file.name);
+    setParsedHolidays(holidays);
+
+    if (holidays.length === 0) {
+      toast({
+        title: 'Error',
+        description: 'No events found in this calendar file',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleImport = async () => {
+    setIsLoading(true);
+
+    const columns = toScopeColumns(scope);
+
+    // Re-importing the same file should not create the holidays twice
+    const isDuplicate = (holiday: ParsedHoliday) =>
+      existingHolidays.some((existing) =>
+        existing.date === holiday.date &&
+        existing.name === holiday.name &&
+        existing.department_id === columns.department_id &&
+        existing.location_id === columns.location_id
+      );
+
+    const newHolidays = parsedHolidays
+      .filter((holiday) => !isDuplicate(holiday))
+      .map((holiday) => ({ ...holiday, ...columns }));
+
+    try {
+      if (newHolidays.length > 0) {
+        const { error } = await supabase
+          .from('holidays')
+          .insert(newHolidays);
+
+        if (error) throw error;
+      }
+
+      toast({
+        title: 'Success',
+        description: `Imported ${newHolidays.length} holiday(s), skipped ${parsedHolidays.length - newHolidays.length} already in the calendar`
+      });
+
+      onSuccess();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to import holidays',
+        variant: 'destructive'
+      });
+    }
+
+    setIsLoading(false);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Import Holidays</h1>
+        <p className="text-gray-600 mt-2">Add holidays from an iCal (.ics) calendar file</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Calendar File</CardTitle>
+          <CardDescription>
+            Every event becomes a holiday. Events that repeat yearly are imported as recurring holidays.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="ical_file">iCal File</Label>
+              <Input
+                id="ical_file"
+                type="file"
+                accept=".ics,text/calendar"
+                onChange={handleFileChange}
+              />
+            </div>
+
+            <HolidayScopeFields value={scope} onChange={setScope} />
+          </div>
+
+          {parsedHolidays.length > 0 && (
+            <div className="space-y-2">
+              <div className="text-sm text-gray-600">
+                {parsedHolidays.length} holiday(s) found in {fileName}
+              </div>
+              <div className="max-h-80 overflow-y-auto border rounded-lg divide-y">
+                {parsedHolidays.map((holiday, index) => (
+                  <div key={`${holiday.date}-${index}`} className="flex items-center justify-between p-3 text-sm">
+                    <div className="flex items-center gap-4">
+                      <span className="font-medium w-28">{formatDate(holiday.date)}</span>
+                      <span>{holiday.name}</span>
+                    </div>
+                    {holiday.is_recurring && (
+                      <Badge variant="secondary">Every year</Badge>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex gap-4 pt-4">
+            <Button onClick={handleImport} disabled={isLoading || parsedHolidays.length === 0}>
+              {isLoading ? 'Importing...' : 'Import Holidays'}
+            </Button>
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default HolidayImport;
@@ -0,0 +1,86 @@
+import { useState, useEffect } from 'react';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+export interface HolidayScope {
+  department_id: string;
+  location_id: string;
+}
+
+// Select items cannot have an empty value, so company-wide holidays use a sentinel
+export const ALL_SCOPE = 'all';
+
+export const toScopeColumns = (scope: HolidayScope) => ({
+  department_id: scope.department_id === ALL_SCOPE ? null : scope.department_id,
+  location_id: scope.location_id === ALL_SCOPE ? null : scope.location_id
+});
+
+interface HolidayScopeFieldsProps {
+  value: HolidayScope;
+  onChange: (scope: HolidayScope) => void;
+}
+
+const HolidayScopeFields = ({ value, onChange }: HolidayScopeFieldsProps) => {
+  const [departments, setDepartments] = useState<Option[]>([]);
+  const [locations, setLocations] = useState<Option[]>([]);
+
+  const fetchOptions = async () => {
+    const [{ data: departmentData }, { data: locationData }] = await Promise.all([
+      supabase.from('departments').select('id, name').order('name'),
+      supabase.from('office_locations').select('id, name').order('name')
+    ]);
+
+    setDepartments(departmentData || []);
+    setLocations(locationData || []);
+  };
+
+  useEffect(() => {
+    fetchOptions();
+  }, []);
+
+  return (
+    <>
+      <div className="space-y-2">
+        <Label htmlFor="holiday_department">Department</Label>
+        <Select value={value.department_id} onValueChange={(department_id) => onChange({ ...value, department_id })}>
+          <SelectTrigger id="holiday_department">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_SCOPE}>All departments</SelectItem>
+            {departments.map((dept) => (
+              <SelectItem key={dept.id} value={dept.id}>
+                {dept.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="holiday_location">Office Location</Label>
+        <Select value={value.location_id} onValueChange={(location_id) => onChange({ ...value, location_id })}>
+          <SelectTrigger id="holiday_location">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_SCOPE}>All locations</SelectItem>
+            {locations.map((location) => (
+              <SelectItem key={location.id} value={location.id}>
+                {location.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </>
+  );
+};
+
+export default HolidayScopeFields;
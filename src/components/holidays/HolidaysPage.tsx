@@ -0,0 +1,242 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CalendarDays, Plus, Edit, Trash2, Upload } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import { isAdmin } from '@/lib/auth';
+import { Holiday } from '@/lib/holidays';
+import { formatDate } from '@/lib/timezone';
+import HolidayForm from './HolidayForm';
+import HolidayImport from './HolidayImport';
+
+interface HolidayWithScope extends Holiday {
+  departments: {
+    name: string;
+  } | null;
+  office_locations: {
+    name: string;
+  } | null;
+}
+
+const HolidaysPage = () => {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const [holidays, setHolidays] = useState<HolidayWithScope[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [editingHoliday, setEditingHoliday] = useState<Holiday | null>(null);
+  const [selectedYear, setSelectedYear] = useState(new Date().getFullYear().toString());
+
+  const fetchHolidays = async () => {
+    setIsLoading(true);
+
+    const { data, error } = await supabase
+      .from('holidays')
+      .select(`
+        *,
+        departments (name),
+        office_locations (name)
+      `)
+      .order('date');
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch holidays',
+        variant: 'destructive'
+      });
+    } else {
+      setHolidays(data || []);
+    }
+    setIsLoading(false);
+  };
+
+  const handleDeleteHoliday = async (holidayId: string) => {
+    if (!confirm('Are you sure you want to delete this holiday?')) return;
+
+    const { error } = await supabase
+      .from('holidays')
+      .delete()
+      .eq('id', holidayId);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to delete holiday',
+        variant: 'destructive'
+      });
+    } else {
+      toast({
+        title: 'Success',
+        description: 'Holiday deleted successfully'
+      });
+      fetchHolidays();
+    }
+  };
+
+  const handleFormSuccess = () => {
+    setShowForm(false);
+    setShowImport(false);
+    setEditingHoliday(null);
+    fetchHolidays();
+  };
+
+  useEffect(() => {
+    if (isAdmin(profile?.role)) {
+      fetchHolidays();
+    }
+  }, [profile]);
+
+  if (!isAdmin(profile?.role)) {
+    return (
+      <DashboardLayout>
+        <div className="text-center py-8">
+          <p className="text-gray-500">You don't have permission to access this page.</p>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (showImport) {
+    return (
+      <DashboardLayout>
+        <HolidayImport
+          existingHolidays={holidays}
+          onSuccess={handleFormSuccess}
+          onCancel={() => setShowImport(false)}
+        />
+      </DashboardLayout>
+    );
+  }
+
+  if (showForm || editingHoliday) {
+    return (
+      <DashboardLayout>
+        <HolidayForm
+          holiday={editingHoliday}
+          onSuccess={handleFormSuccess}
+          onCancel={() => {
+            setShowForm(false);
+            setEditingHoliday(null);
+          }}
+        />
+      </DashboardLayout>
+    );
+  }
+
+  const years = Array.from(
+    new Set([selectedYear, new Date().getFullYear().toString(), ...holidays.map((h) => h.date.slice(0, 4))])
+  ).sort();
+
+  // Recurring holidays show up in every year from the one they were added for
+  const yearHolidays = holidays
+    .filter((h) => h.date.startsWith(selectedYear) || (h.is_recurring && h.date.slice(0, 4) <= selectedYear))
+    .map((h) => ({ ...h, observedOn: `${selectedYear}${h.date.slice(4)}` }))
+    .sort((a, b) => a.observedOn.localeCompare(b.observedOn));
+
+  const getScopeLabel = (holiday: HolidayWithScope) => {
+    const parts = [holiday.departments?.name, holiday.office_locations?.name].filter(Boolean);
+    return parts.length > 0 ? parts.join(' • ') : 'Company-wide';
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Holidays</h1>
+            <p className="text-gray-600 mt-2">Days off that are not counted as working days</p>
+          </div>
+          <div className="flex gap-4">
+            <Select value={selectedYear} onValueChange={setSelectedYear}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {years.map((year) => (
+                  <SelectItem key={year} value={year}>
+                    {year}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={() => setShowImport(true)} className="flex items-center gap-2">
+              <Upload className="w-4 h-4" />
+              Import iCal
+            </Button>
+            <Button onClick={() => setShowForm(true)} className="flex items-center gap-2">
+              <Plus className="w-4 h-4" />
+              Add Holiday
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarDays className="w-5 h-5" />
+              Holidays in {selectedYear}
+            </CardTitle>
+            <CardDescription>Weekly off days are set in organization and department settings</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="text-center py-8">Loading holidays...</div>
+            ) : yearHolidays.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">
+                No holidays in {selectedYear}
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {yearHolidays.map((holiday) => (
+                  <div key={holiday.id} className="flex items-center justify-between p-4 border rounded-lg">
+                    <div className="flex items-center gap-4">
+                      <div className="w-28 text-sm font-medium">
+                        {formatDate(holiday.observedOn, {
+                          weekday: 'short',
+                          month: 'short',
+                          day: 'numeric'
+                        })}
+                      </div>
+                      <div>
+                        <div className="font-medium">{holiday.name}</div>
+                        <div className="text-sm text-gray-600">{getScopeLabel(holiday)}</div>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      {holiday.is_recurring && (
+                        <Badge variant="secondary">Every year</Badge>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setEditingHoliday(holiday)}
+                      >
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleDeleteHoliday(holiday.id)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default HolidaysPage;
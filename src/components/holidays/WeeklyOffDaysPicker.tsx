@@ -0,0 +1,35 @@
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { WEEKDAYS } from '@/lib/holidays';
+
+interface WeeklyOffDaysPickerProps {
+  idPrefix: string;
+  value: number[];
+  onChange: (days: number[]) => void;
+  disabled?: boolean;
+}
+
+const WeeklyOffDaysPicker = ({ idPrefix, value, onChange, disabled }: WeeklyOffDaysPickerProps) => {
+  const toggleDay = (day: number, checked: boolean) => {
+    const days = checked ? [...value, day] : value.filter((d) => d !== day);
+    onChange(days.sort((a, b) => a - b));
+  };
+
+  return (
+    <div className="flex flex-wrap gap-4">
+      {WEEKDAYS.map((weekday, day) => (
+        <div key={weekday} className="flex items-center space-x-2">
+          <Checkbox
+            id={`${idPrefix}-${day}`}
+            checked={value.includes(day)}
+            onCheckedChange={(checked) => toggleDay(day, checked === true)}
+            disabled={disabled}
+          />
+          <Label htmlFor={`${idPrefix}-${day}`}>{weekday.slice(0, 3)}</Label>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default WeeklyOffDaysPicker;
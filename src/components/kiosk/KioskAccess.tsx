@@ -0,0 +1,221 @@
+import { useState, useEffect } from 'react';
+import QRCode from 'qrcode';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { QrCode, KeyRound, Ban, Download, Printer } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { KioskCredentialStatus, buildBadgePayload, getKioskCredentialStatus } from '@/lib/kiosk';
+import { formatDate, formatTimeInZone, getBrowserTimezone, toLocalDate } from '@/lib/timezone';
+
+interface KioskAccessProps {
+  employee: {
+    id: string;
+    full_name: string;
+    employee_id: string;
+  };
+  onClose: () => void;
+}
+
+// Admin view of an employee's kiosk PIN and QR badge
+const KioskAccess = ({ employee, onClose }: KioskAccessProps) => {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<KioskCredentialStatus | null>(null);
+  const [badgeImage, setBadgeImage] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchStatus = async () => {
+    setStatus(await getKioskCredentialStatus(employee.id));
+  };
+
+  useEffect(() => {
+    fetchStatus();
+  }, [employee]);
+
+  const formatTimestamp = (timestamp: string) => {
+    const timeZone = getBrowserTimezone();
+    return `${formatDate(toLocalDate(timestamp, timeZone))} ${formatTimeInZone(timestamp, timeZone)}`;
+  };
+
+  const runAction = async (action: () => Promise<{ error: { message: string } | null }>, success: string) => {
+    setIsLoading(true);
+    const { error } = await action();
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive'
+      });
+    } else {
+      toast({
+        title: 'Success',
+        description: success
+      });
+      fetchStatus();
+    }
+
+    setIsLoading(false);
+    return !error;
+  };
+
+  const handleIssueBadge = async () => {
+    if (status?.badge_issued_at && !confirm('Issuing a new badge stops the current one from working. Continue?')) return;
+
+    setIsLoading(true);
+    const { data, error } = await supabase.rpc('issue_kiosk_badge', { p_user_id: employee.id });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to issue badge',
+        variant: 'destructive'
+      });
+    } else {
+      setBadgeImage(await QRCode.toDataURL(buildBadgePayload(employee.employee_id, data), { width: 320, margin: 2 }));
+      toast({
+        title: 'Success',
+        description: 'Badge issued. Print it now; it cannot be shown again.'
+      });
+      fetchStatus();
+    }
+
+    setIsLoading(false);
+  };
+
+  const handleRevokeBadge = async () => {
+    if (!confirm(`Revoke ${employee.full_name}'s badge?`)) return;
+    const revoked = await runAction(
+      async () => supabase.rpc('revoke_kiosk_badge', { p_user_id: employee.id }),
+      'Badge revoked'
+    );
+    if (revoked) setBadgeImage(null);
+  };
+
+  const handleResetPin = async () => {
+    if (!confirm(`Clear ${employee.full_name}'s kiosk PIN? They will need to set a new one.`)) return;
+    await runAction(
+      async () => supabase.rpc('reset_kiosk_pin', { p_user_id: employee.id }),
+      'Kiosk PIN cleared'
+    );
+  };
+
+  const handlePrintBadge = () => {
+    if (!badgeImage) return;
+
+    const badgeWindow = window.open('', '_blank', 'width=400,height=520');
+    if (!badgeWindow) return;
+
+    const { document: badgeDocument } = badgeWindow;
+    badgeDocument.title = `Badge - ${employee.full_name}`;
+    badgeDocument.body.style.cssText = 'font-family: sans-serif; text-align: center;';
+
+    const image = badgeDocument.createElement('img');
+    image.src = badgeImage;
+    const name = badgeDocument.createElement('h2');
+    name.textContent = employee.full_name;
+    const id = badgeDocument.createElement('p');
+    id.textContent = employee.employee_id;
+
+    badgeDocument.body.append(image, name, id);
+    image.onload = () => badgeWindow.print();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Kiosk Access</h1>
+          <p className="text-gray-600 mt-2">
+            {employee.full_name} • ID: {employee.employee_id}
+          </p>
+        </div>
+        <Button variant="outline" onClick={onClose}>
+          Back to Employees
+        </Button>
+      </div>
+
+      {status?.locked_until && new Date(status.locked_until) > new Date() && (
+        <Alert variant="destructive">
+          <AlertDescription>
+            Locked out of kiosks after too many incorrect attempts until {formatTimestamp(status.locked_until)}.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <KeyRound className="w-5 h-5" />
+              PIN
+            </CardTitle>
+            <CardDescription>
+              {status?.pin_set_at
+                ? `Set by the employee on ${formatTimestamp(status.pin_set_at)}`
+                : 'Not set. Employees choose their own PIN from the Attendance page.'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button
+              variant="outline"
+              onClick={handleResetPin}
+              disabled={isLoading || !status?.pin_set_at}
+            >
+              Reset PIN
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <QrCode className="w-5 h-5" />
+              QR Badge
+            </CardTitle>
+            <CardDescription>
+              {status?.badge_issued_at
+                ? `Issued on ${formatTimestamp(status.badge_issued_at)}`
+                : 'No badge issued'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {badgeImage && (
+              <div className="flex flex-col items-center gap-2 p-4 border rounded-lg">
+                <img src={badgeImage} alt={`Kiosk badge for ${employee.full_name}`} className="w-48 h-48" />
+                <div className="font-medium">{employee.full_name}</div>
+                <div className="text-sm text-gray-600">{employee.employee_id}</div>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={handlePrintBadge} className="flex items-center gap-2">
+                    <Printer className="w-4 h-4" />
+                    Print
+                  </Button>
+                  <Button size="sm" variant="outline" asChild>
+                    <a href={badgeImage} download={`badge-${employee.employee_id}.png`} className="flex items-center gap-2">
+                      <Download className="w-4 h-4" />
+                      Download
+                    </a>
+                  </Button>
+                </div>
+              </div>
+            )}
+            <div className="flex gap-2">
+              <Button onClick={handleIssueBadge} disabled={isLoading}>
+                {status?.badge_issued_at ? 'Issue New Badge' : 'Issue Badge'}
+              </Button>
+              {status?.badge_issued_at && (
+                <Button variant="outline" onClick={handleRevokeBadge} disabled={isLoading} className="flex items-center gap-2">
+                  <Ban className="w-4 h-4" />
+                  Revoke
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default KioskAccess;
@@ -0,0 +1,135 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+interface Location {
+  id: string;
+  name: string;
+}
+
+interface KioskFormProps {
+  onSuccess: (deviceToken: string) => void;
+  onCancel: () => void;
+}
+
+// Select items cannot have an empty value, so kiosks without a location use a sentinel
+const NO_LOCATION = 'none';
+
+const KioskForm = ({ onSuccess, onCancel }: KioskFormProps) => {
+  const { toast } = useToast();
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [formData, setFormData] = useState({
+    name: '',
+    location_id: NO_LOCATION
+  });
+
+  const fetchLocations = async () => {
+    const { data, error } = await supabase
+      .from('office_locations')
+      .select('id, name')
+      .eq('is_active', true)
+      .order('name');
+
+    if (!error && data) {
+      setLocations(data);
+    }
+  };
+
+  useEffect(() => {
+    fetchLocations();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    try {
+      const { data, error } = await supabase.rpc('register_kiosk_device', {
+        p_name: formData.name,
+        p_location_id: formData.location_id === NO_LOCATION ? undefined : formData.location_id
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Success',
+        description: 'Kiosk registered successfully'
+      });
+
+      onSuccess(data);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to register kiosk',
+        variant: 'destructive'
+      });
+    }
+
+    setIsLoading(false);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Register Kiosk</h1>
+        <p className="text-gray-600 mt-2">Add a shared device employees can punch on</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Kiosk Information</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="name">Kiosk Name</Label>
+                <Input
+                  id="name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="e.g. Factory Entrance Tablet"
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Office Location</Label>
+                <Select value={formData.location_id} onValueChange={(value) => setFormData({ ...formData, location_id: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_LOCATION}>No location</SelectItem>
+                    {locations.map((location) => (
+                      <SelectItem key={location.id} value={location.id}>
+                        {location.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex gap-4 pt-4">
+              <Button type="submit" disabled={isLoading}>
+                {isLoading ? 'Registering...' : 'Register Kiosk'}
+              </Button>
+              <Button type="button" variant="outline" onClick={onCancel}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default KioskForm;
@@ -0,0 +1,311 @@
+import { useState, useEffect, useRef } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { CheckCircle, LogIn, LogOut, MonitorSmartphone, QrCode, XCircle } from 'lucide-react';
+import {
+  KioskDevice,
+  clearKioskToken,
+  getKioskDevice,
+  getKioskQrToken,
+  getKioskToken,
+  kioskPunch,
+  parseBadgePayload,
+  setKioskToken
+} from '@/lib/kiosk';
+import { VerifiedPunchResult, isNetworkError } from '@/lib/punch';
+import { formatTimeInZone, getBrowserTimezone } from '@/lib/timezone';
+import QrScanner, { isQrScanningSupported } from './QrScanner';
+import RotatingQrCode from './RotatingQrCode';
+
+// How long a punch confirmation stays on screen before the kiosk resets
+const RESULT_DISPLAY_MS = 5000;
+
+const KioskPage = () => {
+  const [token, setToken] = useState<string | null>(getKioskToken());
+  const [device, setDevice] = useState<KioskDevice | null>(null);
+  const [deviceError, setDeviceError] = useState('');
+  const [tokenInput, setTokenInput] = useState('');
+  const [employeeId, setEmployeeId] = useState('');
+  const [pin, setPin] = useState('');
+  const [badgeInput, setBadgeInput] = useState('');
+  const [mode, setMode] = useState('pin');
+  const [useCamera, setUseCamera] = useState(false);
+  const [result, setResult] = useState<VerifiedPunchResult | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [now, setNow] = useState(new Date());
+  const resetTimer = useRef<number>();
+
+  const timeZone = getBrowserTimezone();
+
+  const verifyDevice = async (deviceToken: string) => {
+    try {
+      setDevice(await getKioskDevice(deviceToken));
+      setDeviceError('');
+    } catch (error) {
+      if (isNetworkError(error as Error)) {
+        setDeviceError('Cannot reach the server. Check the network connection.');
+        return;
+      }
+      // Revoked or unknown: forget the token so the kiosk can be set up again
+      clearKioskToken();
+      setToken(null);
+      setDevice(null);
+      setDeviceError((error as Error).message);
+    }
+  };
+
+  useEffect(() => {
+    if (token) verifyDevice(token);
+  }, [token]);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(new Date()), 1000);
+    return () => {
+      window.clearInterval(timer);
+      window.clearTimeout(resetTimer.current);
+    };
+  }, []);
+
+  const showResult = (punchResult: VerifiedPunchResult) => {
+    setResult(punchResult);
+    setEmployeeId('');
+    setPin('');
+    setBadgeInput('');
+    window.clearTimeout(resetTimer.current);
+    resetTimer.current = window.setTimeout(() => setResult(null), RESULT_DISPLAY_MS);
+  };
+
+  const submitPunch = async (id: string, credential: { pin: string } | { badgeToken: string }) => {
+    if (!token || isSubmitting) return;
+
+    setIsSubmitting(true);
+    try {
+      showResult(await kioskPunch(token, id, credential));
+    } catch (error) {
+      showResult({
+        result: 'DENIED',
+        message: isNetworkError(error as Error)
+          ? 'The kiosk is offline. Please try again in a moment.'
+          : (error as Error).message
+      });
+      if (!isNetworkError(error as Error)) verifyDevice(token);
+    }
+    setIsSubmitting(false);
+  };
+
+  const handlePinSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    submitPunch(employeeId.trim(), { pin });
+  };
+
+  const handleBadge = (value: string) => {
+    if (result) return;
+
+    const badge = parseBadgePayload(value);
+    if (!badge) {
+      showResult({ result: 'DENIED', message: 'This is not an employee badge' });
+      return;
+    }
+    submitPunch(badge.employeeId, { badgeToken: badge.badgeToken });
+  };
+
+  // Handheld scanners type the code and press Enter
+  const handleBadgeSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    handleBadge(badgeInput);
+  };
+
+  const handleActivate = (e: React.FormEvent) => {
+    e.preventDefault();
+    setKioskToken(tokenInput);
+    setToken(getKioskToken());
+    setTokenInput('');
+  };
+
+  if (!token) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="w-full max-w-md p-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <MonitorSmartphone className="w-5 h-5" />
+                Set Up Kiosk
+              </CardTitle>
+              <CardDescription>
+                Enter the device token shown when this kiosk was registered under Settings → Kiosks.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleActivate} className="space-y-4">
+                {deviceError && (
+                  <Alert variant="destructive">
+                    <AlertDescription>{deviceError}</AlertDescription>
+                  </Alert>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="device_token">Device Token</Label>
+                  <Input
+                    id="device_token"
+                    value={tokenInput}
+                    onChange={(e) => setTokenInput(e.target.value)}
+                    autoComplete="off"
+                    required
+                  />
+                </div>
+                <Button type="submit" className="w-full">
+                  Activate Kiosk
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center bg-gray-50 p-6">
+      <div className="text-center mb-6">
+        <div className="text-5xl font-bold text-gray-900">{formatTimeInZone(now.toISOString(), timeZone)}</div>
+        <p className="text-gray-600 mt-2">
+          {now.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', timeZone })}
+        </p>
+        {device && (
+          <p className="text-sm text-gray-500 mt-1">
+            {device.name}{device.location ? ` • ${device.location}` : ''}
+          </p>
+        )}
+      </div>
+
+      <div className="w-full max-w-md">
+        {deviceError && (
+          <Alert variant="destructive" className="mb-4">
+            <AlertDescription>{deviceError}</AlertDescription>
+          </Alert>
+        )}
+
+        {result ? (
+          <Card>
+            <CardContent className="pt-6 text-center space-y-3">
+              {result.result === 'DENIED' ? (
+                <>
+                  <XCircle className="w-16 h-16 mx-auto text-red-600" />
+                  <p className="text-lg font-medium text-red-700">{result.message}</p>
+                </>
+              ) : (
+                <>
+                  <CheckCircle className="w-16 h-16 mx-auto text-green-600" />
+                  <p className="text-2xl font-semibold">{result.full_name}</p>
+                  <p className="flex items-center justify-center gap-2 text-lg text-gray-700">
+                    {result.result === 'PUNCHED_IN' ? <LogIn className="w-5 h-5" /> : <LogOut className="w-5 h-5" />}
+                    {result.result === 'PUNCHED_IN' ? 'Punched in' : 'Punched out'} at{' '}
+                    {formatTimeInZone(result.at, result.timezone)}
+                  </p>
+                </>
+              )}
+              <Button variant="outline" onClick={() => setResult(null)}>
+                Done
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <Tabs value={mode} onValueChange={setMode} className="w-full">
+            <TabsList className={`grid w-full ${device?.location ? 'grid-cols-3' : 'grid-cols-2'}`}>
+              <TabsTrigger value="pin">Employee ID &amp; PIN</TabsTrigger>
+              <TabsTrigger value="badge">Scan Badge</TabsTrigger>
+              {device?.location && <TabsTrigger value="phone">Use Your Phone</TabsTrigger>}
+            </TabsList>
+
+            <TabsContent value="pin">
+              <Card>
+                <CardContent className="pt-6">
+                  <form onSubmit={handlePinSubmit} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="employee_id">Employee ID</Label>
+                      <Input
+                        id="employee_id"
+                        value={employeeId}
+                        onChange={(e) => setEmployeeId(e.target.value)}
+                        autoComplete="off"
+                        className="text-lg h-12"
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="pin">PIN</Label>
+                      <Input
+                        id="pin"
+                        type="password"
+                        inputMode="numeric"
+                        pattern="[0-9]*"
+                        maxLength={8}
+                        value={pin}
+                        onChange={(e) => setPin(e.target.value)}
+                        autoComplete="off"
+                        className="text-lg h-12"
+                        required
+                      />
+                    </div>
+                    <Button type="submit" className="w-full h-12 text-lg" disabled={isSubmitting || !device}>
+                      {isSubmitting ? 'Punching...' : 'Punch In / Out'}
+                    </Button>
+                  </form>
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="badge">
+              <Card>
+                <CardContent className="pt-6 space-y-4">
+                  {useCamera ? (
+                    <QrScanner onScan={handleBadge} />
+                  ) : (
+                    <div className="flex flex-col items-center py-6 text-gray-500">
+                      <QrCode className="w-16 h-16 mb-2" />
+                      <p className="text-sm">Hold your badge up to the scanner</p>
+                    </div>
+                  )}
+                  <form onSubmit={handleBadgeSubmit}>
+                    <Input
+                      aria-label="Badge code"
+                      placeholder="Scanned badge code"
+                      value={badgeInput}
+                      onChange={(e) => setBadgeInput(e.target.value)}
+                      autoComplete="off"
+                      autoFocus
+                    />
+                  </form>
+                  {isQrScanningSupported() && (
+                    <Button variant="outline" className="w-full" onClick={() => setUseCamera(!useCamera)}>
+                      {useCamera ? 'Stop Camera' : 'Scan With Camera'}
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            {device?.location && (
+              <TabsContent value="phone">
+                <Card>
+                  <CardContent className="pt-6 space-y-4 text-center">
+                    <p className="text-sm text-gray-600">
+                      Open Attendance on your phone, tap Scan Office QR and point the camera here
+                    </p>
+                    <RotatingQrCode fetchToken={() => getKioskQrToken(token)} size={280} />
+                  </CardContent>
+                </Card>
+              </TabsContent>
+            )}
+          </Tabs>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default KioskPage;
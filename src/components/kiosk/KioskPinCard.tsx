@@ -0,0 +1,116 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { KeyRound } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { KioskCredentialStatus, getKioskCredentialStatus } from '@/lib/kiosk';
+import { formatDate, getBrowserTimezone, toLocalDate } from '@/lib/timezone';
+
+// Lets employees choose the PIN they punch with on shared kiosks
+const KioskPinCard = () => {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<KioskCredentialStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [formData, setFormData] = useState({
+    pin: '',
+    confirm: ''
+  });
+
+  const fetchStatus = async () => {
+    setStatus(await getKioskCredentialStatus());
+  };
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.pin !== formData.confirm) {
+      toast({
+        title: 'Error',
+        description: 'PINs do not match',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    setIsLoading(true);
+
+    const { error } = await supabase.rpc('set_kiosk_pin', { p_pin: formData.pin });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to set kiosk PIN',
+        variant: 'destructive'
+      });
+    } else {
+      toast({
+        title: 'Success',
+        description: 'Kiosk PIN saved'
+      });
+      setFormData({ pin: '', confirm: '' });
+      fetchStatus();
+    }
+
+    setIsLoading(false);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="w-5 h-5" />
+          Kiosk PIN
+        </CardTitle>
+        <CardDescription>
+          {status?.pin_set_at
+            ? `Set on ${formatDate(toLocalDate(status.pin_set_at, getBrowserTimezone()))}. Punch on shared kiosks with your employee ID and this PIN.`
+            : 'Choose a PIN to punch on shared kiosks with your employee ID.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="kiosk_pin">{status?.pin_set_at ? 'New PIN' : 'PIN'}</Label>
+            <Input
+              id="kiosk_pin"
+              type="password"
+              inputMode="numeric"
+              pattern="[0-9]{4,8}"
+              title="4 to 8 digits"
+              maxLength={8}
+              value={formData.pin}
+              onChange={(e) => setFormData({ ...formData, pin: e.target.value })}
+              autoComplete="new-password"
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="kiosk_pin_confirm">Confirm PIN</Label>
+            <Input
+              id="kiosk_pin_confirm"
+              type="password"
+              inputMode="numeric"
+              maxLength={8}
+              value={formData.confirm}
+              onChange={(e) => setFormData({ ...formData, confirm: e.target.value })}
+              autoComplete="new-password"
+              required
+            />
+          </div>
+          <Button type="submit" disabled={isLoading}>
+            {isLoading ? 'Saving...' : status?.pin_set_at ? 'Change PIN' : 'Set PIN'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default KioskPinCard;
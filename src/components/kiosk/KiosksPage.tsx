@@ -0,0 +1,251 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { MonitorSmartphone, Plus, Ban, Copy, ExternalLink } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import { isAdmin, signOut } from '@/lib/auth';
+import { setKioskToken } from '@/lib/kiosk';
+import { formatTimeInZone, formatDate, getBrowserTimezone, toLocalDate } from '@/lib/timezone';
+import KioskForm from './KioskForm';
+
+interface KioskDevice {
+  id: string;
+  name: string;
+  last_seen_at: string | null;
+  revoked_at: string | null;
+  created_at: string | null;
+  office_locations: {
+    name: string;
+  } | null;
+}
+
+const KiosksPage = () => {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [kiosks, setKiosks] = useState<KioskDevice[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [newToken, setNewToken] = useState<string | null>(null);
+
+  const fetchKiosks = async () => {
+    setIsLoading(true);
+
+    const { data, error } = await supabase
+      .from('kiosk_devices')
+      .select(`
+        id,
+        name,
+        last_seen_at,
+        revoked_at,
+        created_at,
+        office_locations (name)
+      `)
+      .order('name');
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch kiosks',
+        variant: 'destructive'
+      });
+    } else {
+      setKiosks(data || []);
+    }
+    setIsLoading(false);
+  };
+
+  const handleRevokeKiosk = async (kiosk: KioskDevice) => {
+    if (!profile) return;
+    if (!confirm(`Revoke ${kiosk.name}? It will stop accepting punches immediately.`)) return;
+
+    const { error } = await supabase
+      .from('kiosk_devices')
+      .update({ revoked_at: new Date().toISOString(), revoked_by: profile.id })
+      .eq('id', kiosk.id);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to revoke kiosk',
+        variant: 'destructive'
+      });
+    } else {
+      toast({
+        title: 'Success',
+        description: 'Kiosk revoked'
+      });
+      fetchKiosks();
+    }
+  };
+
+  const handleCopyToken = async () => {
+    if (!newToken) return;
+    await navigator.clipboard.writeText(newToken);
+    toast({
+      title: 'Copied',
+      description: 'Device token copied to the clipboard'
+    });
+  };
+
+  // Turning the admin's own browser into the kiosk signs them out first, so the
+  // shared device is never left holding a personal session
+  const handleUseThisDevice = async () => {
+    if (!newToken) return;
+    setKioskToken(newToken);
+    await signOut();
+    navigate('/kiosk');
+  };
+
+  const handleFormSuccess = (deviceToken: string) => {
+    setShowForm(false);
+    setNewToken(deviceToken);
+    fetchKiosks();
+  };
+
+  useEffect(() => {
+    if (isAdmin(profile?.role)) {
+      fetchKiosks();
+    }
+  }, [profile]);
+
+  if (!isAdmin(profile?.role)) {
+    return (
+      <DashboardLayout>
+        <div className="text-center py-8">
+          <p className="text-gray-500">You don't have permission to access this page.</p>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (showForm) {
+    return (
+      <DashboardLayout>
+        <KioskForm
+          onSuccess={handleFormSuccess}
+          onCancel={() => setShowForm(false)}
+        />
+      </DashboardLayout>
+    );
+  }
+
+  const formatLastSeen = (timestamp: string | null) => {
+    if (!timestamp) return 'Never';
+    const timeZone = getBrowserTimezone();
+    return `${formatDate(toLocalDate(timestamp, timeZone))} ${formatTimeInZone(timestamp, timeZone)}`;
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Kiosks</h1>
+            <p className="text-gray-600 mt-2">Shared devices employees punch on with their ID and PIN or badge</p>
+          </div>
+          <Button onClick={() => setShowForm(true)} className="flex items-center gap-2">
+            <Plus className="w-4 h-4" />
+            Register Kiosk
+          </Button>
+        </div>
+
+        {newToken && (
+          <Card className="border-blue-200">
+            <CardHeader>
+              <CardTitle>Device Token</CardTitle>
+              <CardDescription>
+                Enter this token on the kiosk at /kiosk. It is shown only once; register the kiosk again if it is lost.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex gap-2">
+                <Input value={newToken} readOnly className="font-mono" />
+                <Button variant="outline" onClick={handleCopyToken}>
+                  <Copy className="w-4 h-4" />
+                </Button>
+              </div>
+              <Alert>
+                <AlertDescription>
+                  Setting up the kiosk from this browser signs you out and opens the kiosk screen.
+                </AlertDescription>
+              </Alert>
+              <div className="flex gap-2">
+                <Button onClick={handleUseThisDevice} className="flex items-center gap-2">
+                  <ExternalLink className="w-4 h-4" />
+                  Use This Device as the Kiosk
+                </Button>
+                <Button variant="outline" onClick={() => setNewToken(null)}>
+                  Done
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {isLoading ? (
+            <div className="col-span-full text-center py-8">Loading kiosks...</div>
+          ) : kiosks.length === 0 ? (
+            <div className="col-span-full text-center py-8 text-gray-500">
+              No kiosks registered
+            </div>
+          ) : (
+            kiosks.map((kiosk) => (
+              <Card key={kiosk.id} className="hover:shadow-md transition-shadow">
+                <CardHeader>
+                  <div className="flex items-start justify-between">
+                    <div className="flex items-center gap-3">
+                      <div className={`w-12 h-12 rounded-lg flex items-center justify-center ${kiosk.revoked_at ? 'bg-gray-400' : 'bg-blue-500'}`}>
+                        <MonitorSmartphone className="w-6 h-6 text-white" />
+                      </div>
+                      <div>
+                        <CardTitle className="text-lg">{kiosk.name}</CardTitle>
+                        <CardDescription className="mt-1">
+                          {kiosk.office_locations?.name || 'No location'}
+                        </CardDescription>
+                      </div>
+                    </div>
+                    {!kiosk.revoked_at && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        title="Revoke kiosk"
+                        onClick={() => handleRevokeKiosk(kiosk)}
+                      >
+                        <Ban className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-2 text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Last seen</span>
+                      <span>{formatLastSeen(kiosk.last_seen_at)}</span>
+                    </div>
+                    <div className="flex justify-between items-center">
+                      <span className="text-gray-600">Status</span>
+                      <Badge variant={kiosk.revoked_at ? 'secondary' : 'default'}>
+                        {kiosk.revoked_at ? 'Revoked' : 'Active'}
+                      </Badge>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default KiosksPage;
@@ -0,0 +1,109 @@
+import { useEffect, useRef, useState } from 'react';
+import jsQR from 'jsqr';
+
+// The Barcode Detection API is not in the DOM typings yet
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect: (source: HTMLVideoElement) => Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorInstance;
+
+const getBarcodeDetector = () =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+// Browsers without the Barcode Detection API (Safari) are decoded with jsQR
+export const isQrScanningSupported = () => !!navigator.mediaDevices?.getUserMedia;
+
+const decodeFrame = (video: HTMLVideoElement, canvas: HTMLCanvasElement): string | null => {
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return null;
+
+  context.drawImage(video, 0, 0, canvas.width, canvas.height);
+  const frame = context.getImageData(0, 0, canvas.width, canvas.height);
+  return jsQR(frame.data, frame.width, frame.height)?.data || null;
+};
+
+interface QrScannerProps {
+  onScan: (value: string) => void;
+  facingMode?: 'user' | 'environment';
+}
+
+const SCAN_INTERVAL_MS = 300;
+
+const QrScanner = ({ onScan, facingMode = 'user' }: QrScannerProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onScanRef = useRef(onScan);
+  const [error, setError] = useState('');
+
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    const Detector = getBarcodeDetector();
+    const detector = Detector ? new Detector({ formats: ['qr_code'] }) : null;
+    const canvas = document.createElement('canvas');
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let stopped = false;
+
+    const scan = async () => {
+      const video = videoRef.current;
+      if (stopped || !video) return;
+
+      try {
+        if (video.readyState >= video.HAVE_ENOUGH_DATA) {
+          const value = detector
+            ? (await detector.detect(video))[0]?.rawValue
+            : decodeFrame(video, canvas);
+          if (value) onScanRef.current(value);
+        }
+      } catch (scanError) {
+        console.error('Error scanning QR code:', scanError);
+      }
+
+      timer = window.setTimeout(scan, SCAN_INTERVAL_MS);
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode } })
+      .then((media) => {
+        if (stopped) {
+          media.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = media;
+        if (videoRef.current) {
+          videoRef.current.srcObject = media;
+          videoRef.current.play();
+        }
+        scan();
+      })
+      .catch(() => setError('Camera access was denied'));
+
+    return () => {
+      stopped = true;
+      window.clearTimeout(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [facingMode]);
+
+  if (error) {
+    return <div className="text-center py-8 text-sm text-red-600">{error}</div>;
+  }
+
+  return (
+    <video
+      ref={videoRef}
+      className="w-full rounded-lg bg-black aspect-video object-cover"
+      muted
+      playsInline
+    />
+  );
+};
+
+export default QrScanner;
@@ -0,0 +1,66 @@
+import { useEffect, useRef, useState } from 'react';
+import QRCode from 'qrcode';
+import { PunchQrToken, QR_REFRESH_SECONDS } from '@/lib/qrPunch';
+
+interface RotatingQrCodeProps {
+  fetchToken: () => Promise<PunchQrToken>;
+  size?: number;
+}
+
+// Shows an office punch code and swaps it for a fresh one every few seconds
+const RotatingQrCode = ({ fetchToken, size = 320 }: RotatingQrCodeProps) => {
+  const fetchTokenRef = useRef(fetchToken);
+  const [image, setImage] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [secondsLeft, setSecondsLeft] = useState(QR_REFRESH_SECONDS);
+
+  fetchTokenRef.current = fetchToken;
+
+  useEffect(() => {
+    let stopped = false;
+
+    const refresh = async () => {
+      try {
+        const { token } = await fetchTokenRef.current();
+        const dataUrl = await QRCode.toDataURL(token, { width: size, margin: 2 });
+        if (stopped) return;
+        setImage(dataUrl);
+        setError('');
+      } catch (refreshError) {
+        if (stopped) return;
+        // An expired code must not stay on screen
+        setImage(null);
+        setError((refreshError as Error).message || 'Could not load the punch code');
+      }
+      setSecondsLeft(QR_REFRESH_SECONDS);
+    };
+
+    refresh();
+    const refreshTimer = window.setInterval(refresh, QR_REFRESH_SECONDS * 1000);
+    const countdownTimer = window.setInterval(() => setSecondsLeft((seconds) => Math.max(seconds - 1, 0)), 1000);
+
+    return () => {
+      stopped = true;
+      window.clearInterval(refreshTimer);
+      window.clearInterval(countdownTimer);
+    };
+  }, [size]);
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      {image ? (
+        <img src={image} alt="Office punch code" style={{ width: size, height: size }} />
+      ) : (
+        <div
+          className="flex items-center justify-center text-center text-sm text-gray-500 border rounded-lg p-4"
+          style={{ width: size, height: size }}
+        >
+          {error || 'Loading punch code...'}
+        </div>
+      )}
+      <p className="text-sm text-gray-500">New code in {secondsLeft}s</p>
+    </div>
+  );
+};
+
+export default RotatingQrCode;
@@ -12,10 +12,24 @@ import {
   LogOut,
   User,
   TrendingUp,
-  Building
+  Building,
+  CalendarClock,
+  MapPin,
+  ClipboardEdit,
+  SlidersHorizontal,
+  CalendarDays,
+  UserCheck,
+  Timer,
+  MonitorSmartphone,
+  ShieldAlert,
+  Lock,
+  CalendarCheck,
+  Workflow,
+  CalendarRange
 } from 'lucide-react';
 import { signOut, canManageEmployees, isAdmin } from '@/lib/auth';
 import { useToast } from '@/hooks/use-toast';
+import PendingSyncIndicator from './PendingSyncIndicator';
 
 interface DashboardLayoutProps {
   children: ReactNode;
@@ -44,12 +58,25 @@ const DashboardLayout = ({ children }: DashboardLayoutProps) => {
     { href: '/dashboard', label: 'Dashboard', icon: LayoutDashboard },
     { href: '/attendance', label: 'Attendance', icon: Clock },
     { href: '/leave-requests', label: 'Leave Requests', icon: Calendar },
+    { href: '/leave-calendar', label: 'Leave Calendar', icon: CalendarRange },
+    { href: '/regularizations', label: 'Corrections', icon: ClipboardEdit },
+    { href: '/overtime', label: 'Overtime', icon: Timer },
     ...(canManageEmployees(profile?.role) ? [
       { href: '/employees', label: 'Employees', icon: Users },
+      { href: '/team', label: 'Team Board', icon: UserCheck },
       { href: '/reports', label: 'Reports', icon: TrendingUp },
     ] : []),
     ...(isAdmin(profile?.role) ? [
       { href: '/departments', label: 'Departments', icon: Building },
+      { href: '/shifts', label: 'Shifts', icon: CalendarClock },
+      { href: '/anomalies', label: 'Anomalies', icon: ShieldAlert },
+      { href: '/settings/locations', label: 'Office Locations', icon: MapPin },
+      { href: '/settings/holidays', label: 'Holidays', icon: CalendarDays },
+      { href: '/settings/leave-policies', label: 'Leave Policies', icon: CalendarCheck },
+      { href: '/settings/leave-approvals', label: 'Leave Approvals', icon: Workflow },
+      { href: '/settings/kiosks', label: 'Kiosks', icon: MonitorSmartphone },
+      { href: '/settings/periods', label: 'Period Close', icon: Lock },
+      { href: '/settings/organization', label: 'Organization', icon: SlidersHorizontal },
     ] : []),
     { href: '/profile', label: 'Profile', icon: User },
     { href: '/settings', label: 'Settings', icon: Settings },
@@ -104,6 +131,8 @@ const DashboardLayout = ({ children }: DashboardLayoutProps) => {
             })}
           </nav>
 
+          <PendingSyncIndicator />
+
           {/* Sign Out */}
           <div className="p-4 border-t">
             <Button
@@ -0,0 +1,76 @@
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { AlertTriangle, CloudOff, RefreshCw, Trash2 } from 'lucide-react';
+import { usePunchQueue } from '@/hooks/usePunchQueue';
+import { useTimezone } from '@/hooks/useTimezone';
+import { formatDate, formatTimeInZone, getBrowserTimezone, toLocalDate } from '@/lib/timezone';
+
+const PendingSyncIndicator = () => {
+  const { punches, isOnline, retry, discard } = usePunchQueue();
+  const timeZone = useTimezone();
+
+  if (isOnline && punches.length === 0) return null;
+
+  const conflicts = punches.filter((punch) => punch.status === 'CONFLICT').length;
+
+  return (
+    <div className="px-4 pb-4">
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            size="sm"
+            className={`w-full justify-start ${conflicts > 0 ? 'border-red-300 text-red-700' : 'border-yellow-300 text-yellow-800'}`}
+          >
+            {conflicts > 0 ? <AlertTriangle className="w-4 h-4 mr-2" /> : <CloudOff className="w-4 h-4 mr-2" />}
+            {punches.length > 0
+              ? `${punches.length} punch${punches.length === 1 ? '' : 'es'} waiting to sync`
+              : 'Offline'}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent side="right" align="end" className="w-80">
+          <div className="space-y-3">
+            <div>
+              <p className="text-sm font-medium">{isOnline ? 'Syncing punches' : 'You are offline'}</p>
+              <p className="text-xs text-gray-500">
+                Punches made offline are saved on this device and sent once you are back online.
+              </p>
+            </div>
+            {punches.length === 0 ? (
+              <p className="text-sm text-gray-500">Nothing waiting to sync</p>
+            ) : (
+              punches.map((punch) => (
+                <div key={punch.id} className="p-2 border rounded-lg text-sm">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">
+                      Punch {punch.type === 'IN' ? 'In' : 'Out'} • {formatDate(toLocalDate(punch.at, timeZone || getBrowserTimezone()))}{' '}
+                      {formatTimeInZone(punch.at, timeZone)}
+                    </span>
+                    {punch.status === 'PENDING' && <span className="text-xs text-yellow-700">Pending</span>}
+                  </div>
+                  {punch.status === 'CONFLICT' && (
+                    <>
+                      <p className="text-xs text-red-700 mt-1">{punch.message}</p>
+                      <div className="flex gap-2 mt-2">
+                        <Button size="sm" variant="outline" onClick={() => retry(punch)} disabled={!isOnline}>
+                          <RefreshCw className="w-3 h-3 mr-1" />
+                          Retry
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => discard(punch)} className="text-red-600">
+                          <Trash2 className="w-3 h-3 mr-1" />
+                          Discard
+                        </Button>
+                      </div>
+                    </>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
+
+export default PendingSyncIndicator;
@@ -0,0 +1,252 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowUp, ArrowDown, Plus, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { UserRole } from '@/lib/auth';
+import { APPROVER_ROLES, LEAVE_TYPES, LeaveApprovalChain, LeaveType, approverLabel } from '@/lib/leave';
+
+interface LeaveApprovalChainFormProps {
+  chain?: LeaveApprovalChain | null;
+  onSuccess: () => void;
+  onCancel: () => void;
+}
+
+// Select items cannot have an empty value, so "every leave type" uses a sentinel
+const ALL_TYPES = 'ALL';
+
+const MAX_STEPS = 5;
+
+const LeaveApprovalChainForm = ({ chain, onSuccess, onCancel }: LeaveApprovalChainFormProps) => {
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(false);
+  const [formData, setFormData] = useState({
+    name: '',
+    leave_type: ALL_TYPES,
+    longer_than_days: '0'
+  });
+  const [steps, setSteps] = useState<UserRole[]>(['MANAGER']);
+
+  useEffect(() => {
+    if (chain) {
+      setFormData({
+        name: chain.name,
+        leave_type: chain.leave_type || ALL_TYPES,
+        longer_than_days: chain.longer_than_days.toString()
+      });
+      setSteps(chain.steps);
+    }
+  }, [chain]);
+
+  const updateStep = (index: number, role: UserRole) => {
+    setSteps(steps.map((step, i) => (i === index ? role : step)));
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const reordered = [...steps];
+    [reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]];
+    setSteps(reordered);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    try {
+      const submitData = {
+        name: formData.name,
+        leave_type: formData.leave_type === ALL_TYPES ? null : formData.leave_type as LeaveType,
+        longer_than_days: parseFloat(formData.longer_than_days) || 0,
+        steps
+      };
+
+      if (chain) {
+        const { error } = await supabase
+          .from('leave_approval_chains')
+          .update(submitData)
+          .eq('id', chain.id);
+
+        if (error) throw error;
+
+        toast({
+          title: 'Success',
+          description: 'Approval chain updated successfully'
+        });
+      } else {
+        const { error } = await supabase
+          .from('leave_approval_chains')
+          .insert(submitData);
+
+        if (error) throw error;
+
+        toast({
+          title: 'Success',
+          description: 'Approval chain created successfully'
+        });
+      }
+
+      onSuccess();
+    } catch (error) {
+      const message = (error as { code?: string; message?: string }).code === '23505'
+        ? 'There is already a chain for this leave type and length'
+        : (error as Error).message;
+
+      toast({
+        title: 'Error',
+        description: message || 'Failed to save approval chain',
+        variant: 'destructive'
+      });
+    }
+
+    setIsLoading(false);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">
+          {chain ? 'Edit Approval Chain' : 'Add Approval Chain'}
+        </h1>
+        <p className="text-gray-600 mt-2">
+          {chain ? 'Update who approves these requests and in what order' : 'Choose who approves leave requests and in what order'}
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Chain Information</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="name">Name</Label>
+                <Input
+                  id="name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="e.g. Long annual leave"
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="leave_type">Leave Type</Label>
+                <Select
+                  value={formData.leave_type}
+                  onValueChange={(value) => setFormData({ ...formData, leave_type: value })}
+                >
+                  <SelectTrigger id="leave_type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_TYPES}>All leave types</SelectItem>
+                    {LEAVE_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {type}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-gray-500">A chain for a leave type overrides the one for all types.</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="longer_than_days">For Requests Longer Than (days)</Label>
+                <Input
+                  id="longer_than_days"
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={formData.longer_than_days}
+                  onChange={(e) => setFormData({ ...formData, longer_than_days: e.target.value })}
+                  required
+                />
+                <p className="text-xs text-gray-500">The chain with the highest threshold a request passes applies.</p>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Approval Steps</Label>
+              <div className="space-y-2">
+                {steps.map((step, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <span className="w-6 text-sm text-gray-500">{index + 1}.</span>
+                    <Select value={step} onValueChange={(value) => updateStep(index, value as UserRole)}>
+                      <SelectTrigger className="w-56">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {APPROVER_ROLES.map((role) => (
+                          <SelectItem key={role} value={role}>
+                            {approverLabel(role)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      onClick={() => moveStep(index, -1)}
+                      disabled={index === 0}
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      onClick={() => moveStep(index, 1)}
+                      disabled={index === steps.length - 1}
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setSteps(steps.filter((_, i) => i !== index))}
+                      disabled={steps.length === 1}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() => setSteps([...steps, 'HR'])}
+                disabled={steps.length >= MAX_STEPS}
+                className="flex items-center gap-2"
+              >
+                <Plus className="w-4 h-4" />
+                Add Step
+              </Button>
+              <p className="text-xs text-gray-500">
+                Steps nobody can take for an employee, such as a line manager they don't have, are skipped.
+              </p>
+            </div>
+
+            <div className="flex gap-4 pt-4">
+              <Button type="submit" disabled={isLoading}>
+                {isLoading ? 'Saving...' : chain ? 'Update Chain' : 'Create Chain'}
+              </Button>
+              <Button type="button" variant="outline" onClick={onCancel}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default LeaveApprovalChainForm;
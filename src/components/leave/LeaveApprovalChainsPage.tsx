@@ -0,0 +1,169 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Workflow, Plus, Edit, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import { isAdmin } from '@/lib/auth';
+import { LeaveApprovalChain, approverLabel, formatDays } from '@/lib/leave';
+import LeaveApprovalChainForm from './LeaveApprovalChainForm';
+
+const LeaveApprovalChainsPage = () => {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const [chains, setChains] = useState<LeaveApprovalChain[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingChain, setEditingChain] = useState<LeaveApprovalChain | null>(null);
+
+  const fetchChains = async () => {
+    setIsLoading(true);
+
+    const { data, error } = await supabase
+      .from('leave_approval_chains')
+      .select('*')
+      .order('leave_type', { nullsFirst: true })
+      .order('longer_than_days');
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch approval chains',
+        variant: 'destructive'
+      });
+    } else {
+      setChains(data || []);
+    }
+
+    setIsLoading(false);
+  };
+
+  const handleDeleteChain = async (chainId: string) => {
+    if (!confirm('Are you sure you want to delete this approval chain? Requests already submitted keep their steps.')) return;
+
+    const { error } = await supabase
+      .from('leave_approval_chains')
+      .delete()
+      .eq('id', chainId);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to delete approval chain',
+        variant: 'destructive'
+      });
+    } else {
+      toast({
+        title: 'Success',
+        description: 'Approval chain deleted successfully'
+      });
+      fetchChains();
+    }
+  };
+
+  const handleFormSuccess = () => {
+    setShowForm(false);
+    setEditingChain(null);
+    fetchChains();
+  };
+
+  useEffect(() => {
+    if (isAdmin(profile?.role)) {
+      fetchChains();
+    }
+  }, [profile]);
+
+  if (!isAdmin(profile?.role)) {
+    return (
+      <DashboardLayout>
+        <div className="text-center py-8">
+          <p className="text-gray-500">You don't have permission to access this page.</p>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (showForm || editingChain) {
+    return (
+      <DashboardLayout>
+        <LeaveApprovalChainForm
+          chain={editingChain}
+          onSuccess={handleFormSuccess}
+          onCancel={() => {
+            setShowForm(false);
+            setEditingChain(null);
+          }}
+        />
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Leave Approvals</h1>
+            <p className="text-gray-600 mt-2">Who approves leave requests, and in what order</p>
+          </div>
+          <Button onClick={() => setShowForm(true)} className="flex items-center gap-2">
+            <Plus className="w-4 h-4" />
+            Add Chain
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Workflow className="w-5 h-5" />
+              Approval Chains
+            </CardTitle>
+            <CardDescription>
+              Requests no chain covers go to the employee's line manager, or to HR when they have none
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="text-center py-8">Loading approval chains...</div>
+            ) : chains.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">
+                No approval chains defined
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {chains.map((chain) => (
+                  <div key={chain.id} className="flex items-center justify-between p-3 border rounded-lg">
+                    <div>
+                      <div className="font-medium flex items-center gap-2">
+                        {chain.name}
+                        <Badge variant="outline">{chain.leave_type || 'All leave types'}</Badge>
+                      </div>
+                      <div className="text-sm text-gray-600">
+                        {chain.longer_than_days > 0
+                          ? `Requests longer than ${formatDays(chain.longer_than_days)}`
+                          : 'Any length'} • {chain.steps.map(approverLabel).join(' → ')}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <Button size="sm" variant="outline" onClick={() => setEditingChain(chain)}>
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => handleDeleteChain(chain.id)}>
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default LeaveApprovalChainsPage;
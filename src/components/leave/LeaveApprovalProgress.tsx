@@ -0,0 +1,47 @@
+import { CheckCircle, Circle, MinusCircle, XCircle } from 'lucide-react';
+import { UserRole } from '@/lib/auth';
+import { ApprovalStepStatus, approverLabel } from '@/lib/leave';
+
+export interface ApprovalStep {
+  round: number;
+  step_no: number;
+  approver_role: UserRole;
+  status: ApprovalStepStatus;
+  decided_at: string | null;
+  note: string | null;
+}
+
+interface LeaveApprovalProgressProps {
+  steps: ApprovalStep[];
+  currentStep: number | null;
+}
+
+const stepIcons = {
+  APPROVED: <CheckCircle className="w-3 h-3 text-green-600" />,
+  REJECTED: <XCircle className="w-3 h-3 text-red-600" />,
+  SKIPPED: <MinusCircle className="w-3 h-3 text-gray-400" />,
+  PENDING: <Circle className="w-3 h-3 text-gray-400" />
+};
+
+const LeaveApprovalProgress = ({ steps, currentStep }: LeaveApprovalProgressProps) => {
+  if (steps.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-600">
+      {[...steps].sort((a, b) => a.step_no - b.step_no).map((step) => (
+        <span
+          key={step.step_no}
+          className={`flex items-center gap-1 ${step.step_no === currentStep ? 'font-semibold text-yellow-700' : ''}`}
+          title={step.note || undefined}
+        >
+          {stepIcons[step.status]}
+          {approverLabel(step.approver_role)}
+          {step.status === 'SKIPPED' && ' (skipped)'}
+          {step.decided_at && ` • ${new Date(step.decided_at).toLocaleDateString()}`}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default LeaveApprovalProgress;
@@ -0,0 +1,37 @@
+import { LeaveBalance, formatDays } from '@/lib/leave';
+
+interface LeaveBalancesProps {
+  balances: LeaveBalance[];
+}
+
+const LeaveBalances = ({ balances }: LeaveBalancesProps) => {
+  if (balances.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        No leave policies apply to you
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+      {balances.map((balance) => (
+        <div key={balance.leave_type} className="p-4 border rounded-lg">
+          <div className="text-sm font-medium text-gray-600">{balance.leave_type}</div>
+          <div className={`text-2xl font-bold ${balance.available < 0 ? 'text-red-600' : ''}`}>
+            {Number(balance.available.toFixed(1))}
+          </div>
+          <div className="text-xs text-gray-500">
+            of {formatDays(balance.entitled + balance.carried_forward)}
+            {balance.carried_forward > 0 && ` (${formatDays(balance.carried_forward)} carried)`}
+          </div>
+          {balance.pending > 0 && (
+            <div className="text-xs text-yellow-700">{formatDays(balance.pending)} pending</div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default LeaveBalances;
@@ -0,0 +1,72 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { HoverCard, HoverCardContent, HoverCardTrigger } from '@/components/ui/hover-card';
+import { CheckCircle, XCircle } from 'lucide-react';
+import ClosedPeriodBadge from '@/components/periods/ClosedPeriodBadge';
+import { CHANGE_LABELS, LEAVE_TYPE_COLORS, LeaveCalendarEntry, formatDays, formatLeavePeriod } from '@/lib/leave';
+
+interface LeaveCalendarItemProps {
+  entry: LeaveCalendarEntry;
+  compact: boolean;
+  // Leave touching a closed month is read-only, so it cannot be reviewed either
+  isClosed: boolean;
+  onReview: (entry: LeaveCalendarEntry, status: 'APPROVED' | 'REJECTED') => void;
+}
+
+// Pending leave is drawn faded with a dashed border
+const LeaveCalendarItem = ({ entry, compact, isClosed, onReview }: LeaveCalendarItemProps) => {
+  const isPending = entry.status === 'PENDING';
+
+  return (
+    <HoverCard openDelay={200}>
+      <HoverCardTrigger asChild>
+        <div
+          className={`truncate rounded px-1 py-0.5 text-xs cursor-default ${LEAVE_TYPE_COLORS[entry.leave_type]} ${
+            isPending ? 'opacity-70 border border-dashed border-current' : ''
+          } ${entry.awaiting_me ? 'ring-1 ring-yellow-500' : ''}`}
+        >
+          {compact ? entry.full_name.split(' ')[0] : entry.full_name}
+          {entry.duration !== 'FULL_DAY' && ' ½'}
+        </div>
+      </HoverCardTrigger>
+      <HoverCardContent className="w-72 space-y-2">
+        <div className="font-medium">{entry.full_name}</div>
+        <div className="flex flex-wrap gap-2">
+          <Badge className={LEAVE_TYPE_COLORS[entry.leave_type]}>{entry.leave_type}</Badge>
+          <Badge variant="outline">{entry.status}</Badge>
+          {entry.change_type && (
+            <Badge className="bg-orange-100 text-orange-800">{CHANGE_LABELS[entry.change_type]}</Badge>
+          )}
+          {isClosed && <ClosedPeriodBadge />}
+        </div>
+        <div className="text-sm text-gray-600">
+          {formatLeavePeriod(entry)} • {formatDays(entry.days)}
+        </div>
+        {entry.reason && <div className="text-sm text-gray-600">{entry.reason}</div>}
+        {entry.awaiting_me && !isClosed && (
+          <div className="flex gap-2 pt-1">
+            <Button
+              size="sm"
+              onClick={() => onReview(entry, 'APPROVED')}
+              className="bg-green-600 hover:bg-green-700 flex items-center gap-1"
+            >
+              <CheckCircle className="w-4 h-4" />
+              Approve
+            </Button>
+            <Button
+              size="sm"
+              variant="destructive"
+              onClick={() => onReview(entry, 'REJECTED')}
+              className="flex items-center gap-1"
+            >
+              <XCircle className="w-4 h-4" />
+              Reject
+            </Button>
+          </div>
+        )}
+      </HoverCardContent>
+    </HoverCard>
+  );
+};
+
+export default LeaveCalendarItem;
@@ -0,0 +1,266 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useTimezone } from '@/hooks/useTimezone';
+import { useClosedMonths } from '@/hooks/useClosedMonths';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import ClosedPeriodBadge from '@/components/periods/ClosedPeriodBadge';
+import { canManageEmployees, isAdmin } from '@/lib/auth';
+import { WEEKDAYS, WorkCalendar, eachDate, getHoliday, getWorkCalendar, isWorkingDay } from '@/lib/holidays';
+import { LEAVE_TYPES, LEAVE_TYPE_COLORS, LeaveCalendarEntry } from '@/lib/leave';
+import { isRangeInClosedMonth } from '@/lib/periods';
+import { addDaysToDate, formatDate, getBrowserTimezone, getLocalToday } from '@/lib/timezone';
+import LeaveCalendarItem from './LeaveCalendarItem';
+import LeaveReviewDialog from './LeaveReviewDialog';
+
+type CalendarView = 'month' | 'week';
+
+interface Department {
+  id: string;
+  name: string;
+}
+
+// Select items cannot have an empty value, so "my team" uses a sentinel
+const MY_TEAM = 'TEAM';
+
+const shiftMonth = (date: string, delta: number) => {
+  const [year, monthIndex] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, monthIndex - 1 + delta, 1)).toISOString().split('T')[0];
+};
+
+const lastDayOfMonth = (date: string) => {
+  const [year, monthIndex] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, monthIndex, 0)).toISOString().split('T')[0];
+};
+
+const dayOfWeek = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+const LeaveCalendarPage = () => {
+  const { profile } = useAuth();
+  const timeZone = useTimezone();
+  const { toast } = useToast();
+  const closedMonths = useClosedMonths();
+  const today = getLocalToday(timeZone || getBrowserTimezone());
+  const [view, setView] = useState<CalendarView>('month');
+  const [anchor, setAnchor] = useState(today);
+  const [scope, setScope] = useState('');
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [entries, setEntries] = useState<LeaveCalendarEntry[]>([]);
+  const [calendar, setCalendar] = useState<WorkCalendar | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [reviewing, setReviewing] = useState<{ entry: LeaveCalendarEntry; status: 'APPROVED' | 'REJECTED' } | null>(null);
+
+  const rangeStart = view === 'month' ? `${anchor.slice(0, 7)}-01` : addDaysToDate(anchor, -dayOfWeek(anchor));
+  const rangeEnd = view === 'month' ? lastDayOfMonth(anchor) : addDaysToDate(rangeStart, 6);
+
+  // Managers start on their team, everyone else on their own department
+  useEffect(() => {
+    if (!profile) return;
+    setScope(canManageEmployees(profile.role) || !profile.department_id ? MY_TEAM : profile.department_id);
+  }, [profile]);
+
+  useEffect(() => {
+    getWorkCalendar().then(setCalendar);
+  }, []);
+
+  useEffect(() => {
+    if (!profile) return;
+
+    const fetchDepartments = async () => {
+      let query = supabase.from('departments').select('id, name').order('name');
+
+      // Department heads also see the departments they head
+      if (!isAdmin(profile.role)) {
+        query = profile.department_id
+          ? query.or(`id.eq.${profile.department_id},hod_id.eq.${profile.id}`)
+          : query.eq('hod_id', profile.id);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('Error fetching departments:', error);
+      } else {
+        setDepartments(data || []);
+      }
+    };
+
+    fetchDepartments();
+  }, [profile]);
+
+  const fetchEntries = async () => {
+    if (!profile || !scope) return;
+
+    setIsLoading(true);
+
+    const { data, error } = await supabase.rpc('get_leave_calendar', {
+      p_from: rangeStart,
+      p_to: rangeEnd,
+      p_department_id: scope === MY_TEAM ? undefined : scope
+    });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to fetch the leave calendar',
+        variant: 'destructive'
+      });
+    } else {
+      setEntries(data || []);
+    }
+
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    fetchEntries();
+  }, [profile, scope, rangeStart, rangeEnd]);
+
+  const handleReviewSuccess = () => {
+    setReviewing(null);
+    fetchEntries();
+  };
+
+  const move = (delta: number) => {
+    setAnchor(view === 'month' ? shiftMonth(anchor, delta) : addDaysToDate(anchor, delta * 7));
+  };
+
+  // Off days follow the department on show, or the viewer's own for their team
+  const member = { department_id: scope === MY_TEAM ? profile?.department_id : scope };
+
+  const title = view === 'month'
+    ? new Date(`${rangeStart}T00:00:00Z`).toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' })
+    : `${formatDate(rangeStart)} - ${formatDate(rangeEnd)}`;
+
+  const renderDay = (date: string) => {
+    const holiday = calendar ? getHoliday(calendar, member, date) : undefined;
+    const isOffDay = calendar ? !isWorkingDay(calendar, member, date) : false;
+    const dayEntries = isOffDay
+      ? []
+      : entries.filter((entry) => date >= entry.start_date && date <= entry.end_date);
+
+    return (
+      <div
+        key={date}
+        className={`rounded-lg border p-2 space-y-1 overflow-hidden ${view === 'month' ? 'h-28' : 'min-h-64'} ${
+          isOffDay ? 'bg-gray-50' : 'bg-white'
+        } ${date === today ? 'ring-2 ring-blue-500' : ''}`}
+      >
+        <div className="flex items-center justify-between text-xs">
+          <span className="text-sm font-semibold">{Number(date.slice(8))}</span>
+          {holiday && <span className="truncate text-gray-500">{holiday.name}</span>}
+        </div>
+        {dayEntries.map((entry) => (
+          <LeaveCalendarItem
+            key={entry.request_id}
+            entry={entry}
+            compact={view === 'month'}
+            isClosed={isRangeInClosedMonth(closedMonths, entry.start_date, entry.end_date)}
+            onReview={(reviewed, status) => setReviewing({ entry: reviewed, status })}
+          />
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex flex-wrap justify-between items-center gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Leave Calendar</h1>
+            <p className="text-gray-600 mt-2">Who is off, approved and pending</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={scope} onValueChange={setScope}>
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder="Select department" />
+              </SelectTrigger>
+              <SelectContent>
+                {canManageEmployees(profile?.role) && <SelectItem value={MY_TEAM}>My team</SelectItem>}
+                {departments.map((department) => (
+                  <SelectItem key={department.id} value={department.id}>
+                    {department.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={view} onValueChange={(value) => setView(value as CalendarView)}>
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="month">Month</SelectItem>
+                <SelectItem value="week">Week</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <Button variant="outline" size="sm" onClick={() => move(-1)}>
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <div className="flex items-center gap-2">
+                <CardTitle>{title}</CardTitle>
+                {isRangeInClosedMonth(closedMonths, rangeStart, rangeEnd) && <ClosedPeriodBadge />}
+                <Button variant="ghost" size="sm" onClick={() => setAnchor(today)}>
+                  Today
+                </Button>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => move(1)}>
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {isLoading ? (
+              <div className="text-center py-8">Loading leave...</div>
+            ) : (
+              <div className="grid grid-cols-7 gap-2">
+                {WEEKDAYS.map((weekday) => (
+                  <div key={weekday} className="text-center text-xs font-medium text-gray-500">
+                    {weekday.slice(0, 3)}
+                  </div>
+                ))}
+                {view === 'month' && Array.from({ length: dayOfWeek(rangeStart) }).map((_, index) => (
+                  <div key={`blank-${index}`} />
+                ))}
+                {eachDate(rangeStart, rangeEnd).map(renderDay)}
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-3 text-xs">
+              {LEAVE_TYPES.map((type) => (
+                <span key={type} className={`px-2 py-1 rounded ${LEAVE_TYPE_COLORS[type]}`}>
+                  {type}
+                </span>
+              ))}
+              <span className="px-2 py-1 rounded border border-dashed opacity-70">Pending</span>
+              <span className="px-2 py-1 rounded ring-1 ring-yellow-500">Awaiting your approval</span>
+              <span className="px-2 py-1 rounded bg-gray-50 text-gray-600">Holiday / Off</span>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {reviewing && (
+        <LeaveReviewDialog
+          request={{ id: reviewing.entry.request_id, full_name: reviewing.entry.full_name }}
+          status={reviewing.status}
+          onClose={() => setReviewing(null)}
+          onSuccess={handleReviewSuccess}
+        />
+      )}
+    </DashboardLayout>
+  );
+};
+
+export default LeaveCalendarPage;
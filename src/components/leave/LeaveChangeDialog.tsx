@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { LeaveChangeType } from '@/lib/leave';
+
+interface LeaveChangeDialogProps {
+  request: {
+    id: string;
+    start_date: string;
+    end_date: string;
+    status: string;
+  };
+  changeType: LeaveChangeType;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+// Pending requests are withdrawn at once; changes to approved leave go back
+// through approval
+const LeaveChangeDialog = ({ request, changeType, onClose, onSuccess }: LeaveChangeDialogProps) => {
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(false);
+  const [reason, setReason] = useState('');
+  const [startDate, setStartDate] = useState(request.start_date);
+  const [endDate, setEndDate] = useState(request.end_date);
+
+  const isApproved = request.status === 'APPROVED';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    const { error } = changeType === 'CANCEL'
+      ? await supabase.rpc('cancel_leave_request', {
+        p_request_id: request.id,
+        p_reason: reason
+      })
+      : await supabase.rpc('shorten_leave_request', {
+        p_request_id: request.id,
+        p_start_date: startDate,
+        p_end_date: endDate,
+        p_reason: reason
+      });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to change leave request',
+        variant: 'destructive'
+      });
+    } else {
+      toast({
+        title: 'Success',
+        description: isApproved
+          ? 'Your change has been sent for approval'
+          : 'Leave request cancelled'
+      });
+      onSuccess();
+    }
+
+    setIsLoading(false);
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{changeType === 'CANCEL' ? 'Cancel Leave' : 'Shorten Leave'}</DialogTitle>
+            <DialogDescription>
+              {isApproved
+                ? 'This leave has been approved, so the change needs approval too. Until then the leave stays as it is.'
+                : 'The request is withdrawn straight away.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {changeType === 'SHORTEN' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="change_start_date">From</Label>
+                <Input
+                  id="change_start_date"
+                  type="date"
+                  min={request.start_date}
+                  max={request.end_date}
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="change_end_date">To</Label>
+                <Input
+                  id="change_end_date"
+                  type="date"
+                  min={startDate}
+                  max={request.end_date}
+                  value={endDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                  required
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="change_reason">Reason</Label>
+            <Textarea
+              id="change_reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Why is the leave no longer needed?"
+              required={isApproved}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Back
+            </Button>
+            <Button
+              type="submit"
+              variant={changeType === 'CANCEL' ? 'destructive' : 'default'}
+              disabled={isLoading || (changeType === 'SHORTEN' && startDate === request.start_date && endDate === request.end_date)}
+            >
+              {isLoading
+                ? 'Sending...'
+                : changeType === 'CANCEL'
+                  ? isApproved ? 'Request Cancellation' : 'Cancel Request'
+                  : 'Request Shortening'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LeaveChangeDialog;
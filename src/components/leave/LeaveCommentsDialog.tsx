@@ -0,0 +1,127 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Textarea } from '@/components/ui/textarea';
+import { MessageSquare, Send } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { LeaveRequestComment } from '@/lib/leave';
+
+type ThreadComment = LeaveRequestComment & {
+  author: { full_name: string } | null;
+};
+
+interface LeaveCommentsDialogProps {
+  requestId: string;
+}
+
+// Comments are only fetched once the dialog is opened
+const LeaveCommentsDialog = ({ requestId }: LeaveCommentsDialogProps) => {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [comments, setComments] = useState<ThreadComment[]>([]);
+  const [body, setBody] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isPosting, setIsPosting] = useState(false);
+
+  const fetchComments = async () => {
+    setIsLoading(true);
+
+    const { data, error } = await supabase
+      .from('leave_request_comments')
+      .select('*, author:profiles!leave_request_comments_author_id_fkey (full_name)')
+      .eq('request_id', requestId)
+      .order('created_at');
+
+    if (error) {
+      console.error('Error fetching leave comments:', error);
+    } else {
+      setComments(data || []);
+    }
+
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    if (isOpen) fetchComments();
+  }, [isOpen, requestId]);
+
+  const handlePost = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!profile || !body.trim()) return;
+
+    setIsPosting(true);
+
+    const { error } = await supabase
+      .from('leave_request_comments')
+      .insert({
+        request_id: requestId,
+        author_id: profile.id,
+        body: body.trim()
+      });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to post comment',
+        variant: 'destructive'
+      });
+    } else {
+      setBody('');
+      fetchComments();
+    }
+
+    setIsPosting(false);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="ghost" title="Comments">
+          <MessageSquare className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Comments</DialogTitle>
+          <DialogDescription>Between the employee and their approvers</DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="text-center py-4">Loading comments...</div>
+        ) : comments.length === 0 ? (
+          <div className="text-center py-4 text-gray-500">No comments yet</div>
+        ) : (
+          <div className="space-y-3 max-h-80 overflow-y-auto">
+            {comments.map((comment) => (
+              <div
+                key={comment.id}
+                className={`rounded-lg p-3 text-sm ${comment.author_id === profile?.id ? 'bg-blue-50 ml-8' : 'bg-gray-50 mr-8'}`}
+              >
+                <div className="text-xs text-gray-500">
+                  {comment.author?.full_name || 'Unknown'} • {new Date(comment.created_at).toLocaleString()}
+                  {comment.step_id && ' • with their decision'}
+                </div>
+                <div className="whitespace-pre-wrap">{comment.body}</div>
+              </div>
+            ))}
+          </div>
+        )}
+        <form onSubmit={handlePost} className="flex items-end gap-2">
+          <Textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            placeholder="Write a comment..."
+            className="min-h-[60px]"
+          />
+          <Button type="submit" size="sm" disabled={isPosting || !body.trim()}>
+            <Send className="w-4 h-4" />
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LeaveCommentsDialog;
@@ -0,0 +1,82 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { History } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { EVENT_LABELS, LeaveRequestEvent } from '@/lib/leave';
+
+type HistoryEvent = LeaveRequestEvent & {
+  performer: { full_name: string } | null;
+};
+
+interface LeaveHistoryDialogProps {
+  requestId: string;
+}
+
+// History is only fetched once the dialog is opened
+const LeaveHistoryDialog = ({ requestId }: LeaveHistoryDialogProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [events, setEvents] = useState<HistoryEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const fetchEvents = async () => {
+      setIsLoading(true);
+
+      const { data, error } = await supabase
+        .from('leave_request_events')
+        .select('*, performer:profiles!leave_request_events_performed_by_fkey (full_name)')
+        .eq('request_id', requestId)
+        .order('created_at');
+
+      if (error) {
+        console.error('Error fetching leave history:', error);
+      } else {
+        setEvents(data || []);
+      }
+
+      setIsLoading(false);
+    };
+
+    fetchEvents();
+  }, [isOpen, requestId]);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="ghost" title="History">
+          <History className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Request History</DialogTitle>
+          <DialogDescription>Every change to this leave request</DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="text-center py-4">Loading history...</div>
+        ) : events.length === 0 ? (
+          <div className="text-center py-4 text-gray-500">No history recorded</div>
+        ) : (
+          <ol className="space-y-3">
+            {events.map((event) => (
+              <li key={event.id} className="border-l-2 pl-3">
+                <div className="font-medium text-sm">{EVENT_LABELS[event.action] || event.action}</div>
+                <div className="text-xs text-gray-500">
+                  {new Date(event.created_at).toLocaleString()}
+                  {event.performer && ` • ${event.performer.full_name}`}
+                  {event.from_status && event.from_status !== event.to_status && ` • ${event.from_status} → ${event.to_status}`}
+                </div>
+                {event.reason && <div className="text-sm text-gray-600">{event.reason}</div>}
+              </li>
+            ))}
+          </ol>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LeaveHistoryDialog;
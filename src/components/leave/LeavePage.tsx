@@ -1,15 +1,40 @@
 
 import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
+import { useClosedMonths } from '@/hooks/useClosedMonths';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Calendar, Plus, Clock, CheckCircle, XCircle } from 'lucide-react';
+import { Calendar, Plus, Clock, CheckCircle, XCircle, Wallet, Ban, CalendarMinus, Users, CalendarRange } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
-import { useToast } from '@/hooks/use-toast';
 import DashboardLayout from '@/components/layout/DashboardLayout';
 import { canManageEmployees } from '@/lib/auth';
+import { isRangeInClosedMonth } from '@/lib/periods';
+import { formatDate } from '@/lib/timezone';
+import {
+  CHANGE_LABELS,
+  LEAVE_TYPE_COLORS,
+  LeaveBalance,
+  LeaveChangeType,
+  LeaveDuration,
+  LeaveType,
+  StaffingShortfall,
+  approverLabel,
+  formatDays,
+  formatLeavePeriod,
+  getAwaitingLeaveRequestIds,
+  getLeaveBalances,
+  getStaffingShortfalls
+} from '@/lib/leave';
+import ClosedPeriodBadge from '@/components/periods/ClosedPeriodBadge';
 import LeaveRequestForm from './LeaveRequestForm';
+import LeaveBalances from './LeaveBalances';
+import LeaveApprovalProgress, { ApprovalStep } from './LeaveApprovalProgress';
+import LeaveChangeDialog from './LeaveChangeDialog';
+import LeaveHistoryDialog from './LeaveHistoryDialog';
+import LeaveCommentsDialog from './LeaveCommentsDialog';
+import LeaveReviewDialog from './LeaveReviewDialog';
 
 interface LeaveRequest {
   id: string;
@@ -17,9 +42,19 @@ interface LeaveRequest {
   leave_type: string;
   start_date: string;
   end_date: string;
+  duration: LeaveDuration;
+  start_time: string | null;
+  end_time: string | null;
   reason: string;
   status: string;
+  days: number;
+  current_step: number | null;
+  approval_round: number;
+  change_type: LeaveChangeType | null;
+  change_start_date: string | null;
+  change_end_date: string | null;
   created_at: string;
+  leave_approval_steps: ApprovalStep[];
   profiles: {
     full_name: string;
     employee_id: string;
@@ -28,10 +63,14 @@ interface LeaveRequest {
 
 const LeavePage = () => {
   const { profile } = useAuth();
-  const { toast } = useToast();
-  const [leaveRequests, setLeaveRequests] = useState<LeaveRequest[]>([]);
+  const closedMonths = useClosedMonths();
+  const [awaitingRequests, setAwaitingRequests] = useState<LeaveRequest[]>([]);
+  const [shortfalls, setShortfalls] = useState<StaffingShortfall[]>([]);
   const [myRequests, setMyRequests] = useState<LeaveRequest[]>([]);
+  const [balances, setBalances] = useState<LeaveBalance[]>([]);
   const [showForm, setShowForm] = useState(false);
+  const [changing, setChanging] = useState<{ request: LeaveRequest; changeType: LeaveChangeType } | null>(null);
+  const [reviewing, setReviewing] = useState<{ request: LeaveRequest; status: 'APPROVED' | 'REJECTED' } | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   const fetchLeaveRequests = async () => {
@@ -39,6 +78,8 @@ const LeavePage = () => {
 
     setIsLoading(true);
 
+    getLeaveBalances(profile.id).then(setBalances);
+
     // Fetch user's own requests
     const { data: myData, error: myError } = await supabase
       .from('leave_requests')
@@ -47,6 +88,14 @@ const LeavePage = () => {
         profiles (
           full_name,
           employee_id
+        ),
+        leave_approval_steps (
+          round,
+          step_no,
+          approver_role,
+          status,
+          decided_at,
+          note
         )
       `)
       .eq('user_id', profile.id)
@@ -58,58 +107,55 @@ const LeavePage = () => {
       setMyRequests(myData || []);
     }
 
-    // If user can manage employees, fetch all requests
-    if (canManageEmployees(profile.role)) {
-      const { data: allData, error: allError } = await supabase
+    // Approvers only see requests waiting on a step they decide
+    const awaitingIds = await getAwaitingLeaveRequestIds();
+    getStaffingShortfalls(awaitingIds).then(setShortfalls);
+
+    if (awaitingIds.length === 0) {
+      setAwaitingRequests([]);
+    } else {
+      const { data: awaitingData, error: awaitingError } = await supabase
         .from('leave_requests')
         .select(`
           *,
           profiles (
             full_name,
             employee_id
+          ),
+          leave_approval_steps (
+            round,
+            step_no,
+            approver_role,
+            status,
+            decided_at,
+            note
           )
         `)
-        .order('created_at', { ascending: false });
+        .in('id', awaitingIds)
+        .order('created_at', { ascending: true });
 
-      if (allError) {
-        console.error('Error fetching all requests:', allError);
+      if (awaitingError) {
+        console.error('Error fetching requests awaiting approval:', awaitingError);
       } else {
-        setLeaveRequests(allData || []);
+        setAwaitingRequests(awaitingData || []);
       }
     }
 
     setIsLoading(false);
   };
 
-  const handleApproveReject = async (requestId: string, status: 'APPROVED' | 'REJECTED') => {
-    if (!profile) return;
+  const handleFormSuccess = () => {
+    setShowForm(false);
+    fetchLeaveRequests();
+  };
 
-    const { error } = await supabase
-      .from('leave_requests')
-      .update({
-        status,
-        approved_by: profile.id,
-        approved_at: new Date().toISOString()
-      })
-      .eq('id', requestId);
-
-    if (error) {
-      toast({
-        title: 'Error',
-        description: 'Failed to update leave request',
-        variant: 'destructive'
-      });
-    } else {
-      toast({
-        title: 'Success',
-        description: `Leave request ${status.toLowerCase()}`
-      });
-      fetchLeaveRequests();
-    }
+  const handleChangeSuccess = () => {
+    setChanging(null);
+    fetchLeaveRequests();
   };
 
-  const handleFormSuccess = () => {
-    setShowForm(false);
+  const handleReviewSuccess = () => {
+    setReviewing(null);
     fetchLeaveRequests();
   };
 
@@ -121,7 +167,8 @@ const LeavePage = () => {
     const statusColors = {
       PENDING: 'bg-yellow-100 text-yellow-800',
       APPROVED: 'bg-green-100 text-green-800',
-      REJECTED: 'bg-red-100 text-red-800'
+      REJECTED: 'bg-red-100 text-red-800',
+      CANCELLED: 'bg-gray-100 text-gray-800'
     };
 
     return (
@@ -132,28 +179,59 @@ const LeavePage = () => {
   };
 
   const getLeaveTypeBadge = (type: string) => {
-    const typeColors = {
-      SICK: 'bg-red-100 text-red-800',
-      CASUAL: 'bg-blue-100 text-blue-800',
-      ANNUAL: 'bg-green-100 text-green-800',
-      MATERNITY: 'bg-pink-100 text-pink-800',
-      PATERNITY: 'bg-purple-100 text-purple-800',
-      EMERGENCY: 'bg-orange-100 text-orange-800'
-    };
-
     return (
-      <Badge className={typeColors[type as keyof typeof typeColors] || 'bg-gray-100 text-gray-800'}>
+      <Badge className={LEAVE_TYPE_COLORS[type as LeaveType] || 'bg-gray-100 text-gray-800'}>
         {type}
       </Badge>
     );
   };
 
-  const calculateDays = (startDate: string, endDate: string) => {
-    const start = new Date(startDate);
-    const end = new Date(endDate);
-    const diffTime = Math.abs(end.getTime() - start.getTime());
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24)) + 1;
-    return diffDays;
+  // Leave touching a closed month is read-only, including pending requests
+  const isClosed = (request: LeaveRequest) =>
+    isRangeInClosedMonth(closedMonths, request.start_date, request.end_date);
+
+  // Only the steps of the latest approval, of the request or of a change to it
+  const currentRoundSteps = (request: LeaveRequest) =>
+    request.leave_approval_steps.filter((step) => step.round === request.approval_round);
+
+  // What the last approver to decide wrote, e.g. why the leave was rejected
+  const getDecisionComment = (request: LeaveRequest) => {
+    const step = currentRoundSteps(request)
+      .filter((s) => s.note && s.decided_at)
+      .sort((a, b) => b.step_no - a.step_no)[0];
+    if (!step) return null;
+
+    return (
+      <div className={`text-sm ${step.status === 'REJECTED' ? 'text-red-600' : 'text-gray-600'}`}>
+        {approverLabel(step.approver_role)}: “{step.note}”
+      </div>
+    );
+  };
+
+  const getStaffingWarning = (request: LeaveRequest) => {
+    const days = shortfalls.filter((shortfall) => shortfall.request_id === request.id);
+    if (days.length === 0) return null;
+
+    return (
+      <div className="flex items-center gap-1 text-sm text-yellow-700">
+        <Users className="w-4 h-4" />
+        Below minimum staffing on {days
+          .map((day) => `${formatDate(day.leave_date)} (${day.at_work} of ${day.min_staffing} at work)`)
+          .join(', ')}
+      </div>
+    );
+  };
+
+  const getChangeBadge = (request: LeaveRequest) => {
+    if (!request.change_type) return null;
+
+    return (
+      <Badge className="bg-orange-100 text-orange-800">
+        {CHANGE_LABELS[request.change_type]}
+        {request.change_type === 'SHORTEN' && request.change_start_date && request.change_end_date &&
+          `: ${formatDate(request.change_start_date)} - ${formatDate(request.change_end_date)}`}
+      </Badge>
+    );
   };
 
   if (showForm) {
@@ -175,12 +253,34 @@ const LeavePage = () => {
             <h1 className="text-3xl font-bold text-gray-900">Leave Management</h1>
             <p className="text-gray-600 mt-2">Manage leave requests and approvals</p>
           </div>
-          <Button onClick={() => setShowForm(true)} className="flex items-center gap-2">
-            <Plus className="w-4 h-4" />
-            Request Leave
-          </Button>
+          <div className="flex gap-2">
+            <Button asChild variant="outline" className="flex items-center gap-2">
+              <Link to="/leave-calendar">
+                <CalendarRange className="w-4 h-4" />
+                Leave Calendar
+              </Link>
+            </Button>
+            <Button onClick={() => setShowForm(true)} className="flex items-center gap-2">
+              <Plus className="w-4 h-4" />
+              Request Leave
+            </Button>
+          </div>
         </div>
 
+        {/* My Leave Balance */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Wallet className="w-5 h-5" />
+              My Leave Balance
+            </CardTitle>
+            <CardDescription>Days available this year, after approved leave</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <LeaveBalances balances={balances} />
+          </CardContent>
+        </Card>
+
         {/* My Leave Requests */}
         <Card>
           <CardHeader>
@@ -202,17 +302,48 @@ const LeavePage = () => {
                     <div className="flex items-center gap-4">
                       <div>
                         <div className="font-medium">
-                          {new Date(request.start_date).toLocaleDateString()} - {new Date(request.end_date).toLocaleDateString()}
+                          {formatLeavePeriod(request)}
                         </div>
                         <div className="text-sm text-gray-600">{request.reason}</div>
                         <div className="text-sm text-gray-500">
-                          {calculateDays(request.start_date, request.end_date)} day(s)
+                          {formatDays(request.days)}
                         </div>
+                        <LeaveApprovalProgress
+                          steps={currentRoundSteps(request)}
+                          currentStep={request.current_step}
+                        />
+                        {getDecisionComment(request)}
                       </div>
                     </div>
                     <div className="flex items-center gap-3">
+                      {isClosed(request) && <ClosedPeriodBadge />}
+                      {getChangeBadge(request)}
                       {getLeaveTypeBadge(request.leave_type)}
                       {getStatusBadge(request.status)}
+                      <LeaveCommentsDialog requestId={request.id} />
+                      <LeaveHistoryDialog requestId={request.id} />
+                      {['PENDING', 'APPROVED'].includes(request.status) && !request.change_type && !isClosed(request) && (
+                        <div className="flex gap-2">
+                          {request.status === 'APPROVED' && request.duration === 'FULL_DAY' && request.days > 1 && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              title="Shorten"
+                              onClick={() => setChanging({ request, changeType: 'SHORTEN' })}
+                            >
+                              <CalendarMinus className="w-4 h-4" />
+                            </Button>
+                          )}
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            title="Cancel"
+                            onClick={() => setChanging({ request, changeType: 'CANCEL' })}
+                          >
+                            <Ban className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -221,26 +352,26 @@ const LeavePage = () => {
           </CardContent>
         </Card>
 
-        {/* All Leave Requests (Admin View) */}
-        {canManageEmployees(profile?.role) && (
+        {/* Requests Awaiting My Approval */}
+        {(canManageEmployees(profile?.role) || awaitingRequests.length > 0) && (
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <Clock className="w-5 h-5" />
-                All Leave Requests
+                Awaiting My Approval
               </CardTitle>
-              <CardDescription>Manage team leave requests</CardDescription>
+              <CardDescription>Leave requests at a step you approve</CardDescription>
             </CardHeader>
             <CardContent>
               {isLoading ? (
                 <div className="text-center py-8">Loading requests...</div>
-              ) : leaveRequests.length === 0 ? (
+              ) : awaitingRequests.length === 0 ? (
                 <div className="text-center py-8 text-gray-500">
-                  No leave requests found
+                  No leave requests awaiting your approval
                 </div>
               ) : (
                 <div className="space-y-4">
-                  {leaveRequests.map((request) => (
+                  {awaitingRequests.map((request) => (
                     <div key={request.id} className="flex items-center justify-between p-4 border rounded-lg">
                       <div className="flex items-center gap-4">
                         <div className="w-10 h-10 bg-blue-500 rounded-full flex items-center justify-center">
@@ -251,29 +382,37 @@ const LeavePage = () => {
                         <div>
                           <div className="font-medium">{request.profiles.full_name}</div>
                           <div className="text-sm text-gray-600">
-                            {new Date(request.start_date).toLocaleDateString()} - {new Date(request.end_date).toLocaleDateString()}
+                            {formatLeavePeriod(request)}
                           </div>
                           <div className="text-sm text-gray-600">{request.reason}</div>
                           <div className="text-sm text-gray-500">
-                            {calculateDays(request.start_date, request.end_date)} day(s) • ID: {request.profiles.employee_id}
+                            {formatDays(request.days)} • ID: {request.profiles.employee_id}
                           </div>
+                          <LeaveApprovalProgress
+                            steps={currentRoundSteps(request)}
+                            currentStep={request.current_step}
+                          />
+                          {getStaffingWarning(request)}
                         </div>
                       </div>
                       <div className="flex items-center gap-3">
+                        {isClosed(request) && <ClosedPeriodBadge />}
+                        {getChangeBadge(request)}
                         {getLeaveTypeBadge(request.leave_type)}
-                        {getStatusBadge(request.status)}
-                        {request.status === 'PENDING' && (
+                        <LeaveCommentsDialog requestId={request.id} />
+                        <LeaveHistoryDialog requestId={request.id} />
+                        {!isClosed(request) && (
                           <div className="flex gap-2">
                             <Button
                               size="sm"
-                              onClick={() => handleApproveReject(request.id, 'APPROVED')}
+                              onClick={() => setReviewing({ request, status: 'APPROVED' })}
                               className="bg-green-600 hover:bg-green-700"
                             >
                               <CheckCircle className="w-4 h-4" />
                             </Button>
                             <Button
                               size="sm"
-                              onClick={() => handleApproveReject(request.id, 'REJECTED')}
+                              onClick={() => setReviewing({ request, status: 'REJECTED' })}
                               variant="destructive"
                             >
                               <XCircle className="w-4 h-4" />
@@ -289,6 +428,24 @@ const LeavePage = () => {
           </Card>
         )}
       </div>
+
+      {reviewing && (
+        <LeaveReviewDialog
+          request={{ id: reviewing.request.id, full_name: reviewing.request.profiles.full_name }}
+          status={reviewing.status}
+          onClose={() => setReviewing(null)}
+          onSuccess={handleReviewSuccess}
+        />
+      )}
+
+      {changing && (
+        <LeaveChangeDialog
+          request={changing.request}
+          changeType={changing.changeType}
+          onClose={() => setChanging(null)}
+          onSuccess={handleChangeSuccess}
+        />
+      )}
     </DashboardLayout>
   );
 };
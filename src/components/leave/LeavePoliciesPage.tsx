@@ -0,0 +1,234 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CalendarCheck, Plus, Edit, Trash2, ArrowRightLeft } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import { isAdmin } from '@/lib/auth';
+import { ACCRUAL_LABELS, LeavePolicy, formatDays } from '@/lib/leave';
+import { getBrowserTimezone, getLocalToday } from '@/lib/timezone';
+import LeavePolicyForm from './LeavePolicyForm';
+
+const LeavePoliciesPage = () => {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const [policies, setPolicies] = useState<LeavePolicy[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingPolicy, setEditingPolicy] = useState<LeavePolicy | null>(null);
+  const [carryYear, setCarryYear] = useState(
+    (Number(getLocalToday(getBrowserTimezone()).slice(0, 4)) - 1).toString()
+  );
+  const [isCarrying, setIsCarrying] = useState(false);
+
+  const fetchPolicies = async () => {
+    setIsLoading(true);
+
+    const { data, error } = await supabase
+      .from('leave_policies')
+      .select('*')
+      .order('leave_type')
+      .order('role', { nullsFirst: true });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch leave policies',
+        variant: 'destructive'
+      });
+    } else {
+      setPolicies(data || []);
+    }
+
+    setIsLoading(false);
+  };
+
+  const handleDeletePolicy = async (policyId: string) => {
+    if (!confirm('Are you sure you want to delete this policy? Employees it covers will no longer have a balance for this leave type.')) return;
+
+    const { error } = await supabase
+      .from('leave_policies')
+      .delete()
+      .eq('id', policyId);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to delete leave policy',
+        variant: 'destructive'
+      });
+    } else {
+      toast({
+        title: 'Success',
+        description: 'Leave policy deleted successfully'
+      });
+      fetchPolicies();
+    }
+  };
+
+  const handleCarryForward = async () => {
+    const year = parseInt(carryYear);
+    if (!confirm(`Carry unused ${year} leave into ${year + 1}? Days already carried into ${year + 1} are recalculated.`)) return;
+
+    setIsCarrying(true);
+
+    const { data, error } = await supabase.rpc('carry_forward_leave', { p_year: year });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to carry leave forward',
+        variant: 'destructive'
+      });
+    } else {
+      toast({
+        title: 'Success',
+        description: `${data} balances carried into ${year + 1}`
+      });
+    }
+
+    setIsCarrying(false);
+  };
+
+  const handleFormSuccess = () => {
+    setShowForm(false);
+    setEditingPolicy(null);
+    fetchPolicies();
+  };
+
+  useEffect(() => {
+    if (isAdmin(profile?.role)) {
+      fetchPolicies();
+    }
+  }, [profile]);
+
+  if (!isAdmin(profile?.role)) {
+    return (
+      <DashboardLayout>
+        <div className="text-center py-8">
+          <p className="text-gray-500">You don't have permission to access this page.</p>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (showForm || editingPolicy) {
+    return (
+      <DashboardLayout>
+        <LeavePolicyForm
+          policy={editingPolicy}
+          onSuccess={handleFormSuccess}
+          onCancel={() => {
+            setShowForm(false);
+            setEditingPolicy(null);
+          }}
+        />
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Leave Policies</h1>
+            <p className="text-gray-600 mt-2">Yearly entitlements, accrual and carry forward per leave type</p>
+          </div>
+          <Button onClick={() => setShowForm(true)} className="flex items-center gap-2">
+            <Plus className="w-4 h-4" />
+            Add Policy
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarCheck className="w-5 h-5" />
+              Entitlements
+            </CardTitle>
+            <CardDescription>Leave types without a policy can be requested without a balance</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="text-center py-8">Loading policies...</div>
+            ) : policies.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">
+                No leave policies defined
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {policies.map((policy) => (
+                  <div key={policy.id} className="flex items-center justify-between p-3 border rounded-lg">
+                    <div>
+                      <div className="font-medium flex items-center gap-2">
+                        {policy.leave_type}
+                        <Badge variant="outline">{policy.role || 'All roles'}</Badge>
+                      </div>
+                      <div className="text-sm text-gray-600">
+                        {formatDays(policy.days_per_year)} a year • {ACCRUAL_LABELS[policy.accrual]} • Carry forward up to {formatDays(policy.carry_forward_max)}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      {policy.allow_overdraw && (
+                        <Badge className="bg-yellow-100 text-yellow-800">Overdraw allowed</Badge>
+                      )}
+                      <Button size="sm" variant="outline" onClick={() => setEditingPolicy(policy)}>
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => handleDeletePolicy(policy.id)}>
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ArrowRightLeft className="w-5 h-5" />
+              Year-End Carry Forward
+            </CardTitle>
+            <CardDescription>
+              Move unused days of a finished year into the next, up to each policy's cap
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-end gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="carry_year">Year</Label>
+                <Input
+                  id="carry_year"
+                  type="number"
+                  className="w-32"
+                  value={carryYear}
+                  onChange={(e) => setCarryYear(e.target.value)}
+                />
+              </div>
+              <Button
+                variant="outline"
+                onClick={handleCarryForward}
+                disabled={isCarrying || !parseInt(carryYear)}
+                className="flex items-center gap-2"
+              >
+                <ArrowRightLeft className="w-4 h-4" />
+                {isCarrying ? 'Carrying forward...' : 'Carry Forward'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default LeavePoliciesPage;
@@ -0,0 +1,231 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { UserRole } from '@/lib/auth';
+import { ACCRUAL_LABELS, LEAVE_TYPES, LeaveAccrual, LeavePolicy, LeaveType } from '@/lib/leave';
+
+interface LeavePolicyFormProps {
+  policy?: LeavePolicy | null;
+  onSuccess: () => void;
+  onCancel: () => void;
+}
+
+// Select items cannot have an empty value, so "every role" uses a sentinel
+const ALL_ROLES = 'ALL';
+
+const roles: UserRole[] = ['SUPERADMIN', 'ADMIN', 'HR', 'HOD', 'MANAGER', 'DIRECTOR', 'EMPLOYEE'];
+
+const LeavePolicyForm = ({ policy, onSuccess, onCancel }: LeavePolicyFormProps) => {
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(false);
+  const [formData, setFormData] = useState({
+    leave_type: 'ANNUAL' as LeaveType,
+    role: ALL_ROLES,
+    days_per_year: '12',
+    accrual: 'YEARLY' as LeaveAccrual,
+    carry_forward_max: '0',
+    allow_overdraw: false
+  });
+
+  useEffect(() => {
+    if (policy) {
+      setFormData({
+        leave_type: policy.leave_type,
+        role: policy.role || ALL_ROLES,
+        days_per_year: policy.days_per_year.toString(),
+        accrual: policy.accrual,
+        carry_forward_max: policy.carry_forward_max.toString(),
+        allow_overdraw: policy.allow_overdraw
+      });
+    }
+  }, [policy]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    try {
+      const submitData = {
+        leave_type: formData.leave_type,
+        role: formData.role === ALL_ROLES ? null : formData.role as UserRole,
+        days_per_year: parseFloat(formData.days_per_year) || 0,
+        accrual: formData.accrual,
+        carry_forward_max: parseFloat(formData.carry_forward_max) || 0,
+        allow_overdraw: formData.allow_overdraw
+      };
+
+      if (policy) {
+        const { error } = await supabase
+          .from('leave_policies')
+          .update(submitData)
+          .eq('id', policy.id);
+
+        if (error) throw error;
+
+        toast({
+          title: 'Success',
+          description: 'Leave policy updated successfully'
+        });
+      } else {
+        const { error } = await supabase
+          .from('leave_policies')
+          .insert(submitData);
+
+        if (error) throw error;
+
+        toast({
+          title: 'Success',
+          description: 'Leave policy created successfully'
+        });
+      }
+
+      onSuccess();
+    } catch (error) {
+      const message = (error as { code?: string; message?: string }).code === '23505'
+        ? 'There is already a policy for this leave type and role'
+        : (error as Error).message;
+
+      toast({
+        title: 'Error',
+        description: message || 'Failed to save leave policy',
+        variant: 'destructive'
+      });
+    }
+
+    setIsLoading(false);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">
+          {policy ? 'Edit Leave Policy' : 'Add Leave Policy'}
+        </h1>
+        <p className="text-gray-600 mt-2">
+          {policy ? 'Update the entitlement and its rules' : 'Set a yearly entitlement for a leave type'}
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Policy Information</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="leave_type">Leave Type</Label>
+                <Select
+                  value={formData.leave_type}
+                  onValueChange={(value) => setFormData({ ...formData, leave_type: value as LeaveType })}
+                >
+                  <SelectTrigger id="leave_type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LEAVE_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {type}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="role">Role</Label>
+                <Select value={formData.role} onValueChange={(value) => setFormData({ ...formData, role: value })}>
+                  <SelectTrigger id="role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_ROLES}>All roles</SelectItem>
+                    {roles.map((role) => (
+                      <SelectItem key={role} value={role}>
+                        {role}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-gray-500">A policy for a role overrides the one for all roles.</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="days_per_year">Days per Year</Label>
+                <Input
+                  id="days_per_year"
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={formData.days_per_year}
+                  onChange={(e) => setFormData({ ...formData, days_per_year: e.target.value })}
+                  required
+                />
+                <p className="text-xs text-gray-500">Pro-rated by hire date in the year an employee joins.</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="accrual">Accrual</Label>
+                <Select
+                  value={formData.accrual}
+                  onValueChange={(value) => setFormData({ ...formData, accrual: value as LeaveAccrual })}
+                >
+                  <SelectTrigger id="accrual">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(ACCRUAL_LABELS).map(([accrual, label]) => (
+                      <SelectItem key={accrual} value={accrual}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="carry_forward_max">Carry Forward Cap (days)</Label>
+                <Input
+                  id="carry_forward_max"
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={formData.carry_forward_max}
+                  onChange={(e) => setFormData({ ...formData, carry_forward_max: e.target.value })}
+                  required
+                />
+                <p className="text-xs text-gray-500">Most unused days taken into the next year; 0 lets them lapse.</p>
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="allow_overdraw"
+                checked={formData.allow_overdraw}
+                onCheckedChange={(checked) => setFormData({ ...formData, allow_overdraw: checked })}
+              />
+              <Label htmlFor="allow_overdraw">Allow requests over the balance, with a warning</Label>
+            </div>
+
+            <div className="flex gap-4 pt-4">
+              <Button type="submit" disabled={isLoading}>
+                {isLoading ? 'Saving...' : policy ? 'Update Policy' : 'Create Policy'}
+              </Button>
+              <Button type="button" variant="outline" onClick={onCancel}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default LeavePolicyForm;
@@ -9,6 +9,31 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { WorkCalendar, getWorkCalendar, countWorkingDays, eachDate, getHoliday } from '@/lib/holidays';
+import {
+  DURATION_LABELS,
+  LEAVE_TYPES,
+  LeaveBalance,
+  LeaveDuration,
+  formatDays,
+  formatLeavePeriod,
+  getLeaveBalances,
+  hoursToLeaveDays,
+  leavePartsOverlap
+} from '@/lib/leave';
+import { DEFAULT_OVERTIME_SETTINGS, getOvertimeSettings } from '@/lib/overtime';
+import { formatDate } from '@/lib/timezone';
+
+interface ExistingRequest {
+  id: string;
+  leave_type: string;
+  status: string;
+  start_date: string;
+  end_date: string;
+  duration: LeaveDuration;
+  start_time: string | null;
+  end_time: string | null;
+}
 
 interface LeaveRequestFormProps {
   onSuccess: () => void;
@@ -19,19 +44,153 @@ const LeaveRequestForm = ({ onSuccess, onCancel }: LeaveRequestFormProps) => {
   const { profile } = useAuth();
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(false);
+  const [calendar, setCalendar] = useState<WorkCalendar | null>(null);
+  const [balances, setBalances] = useState<LeaveBalance[]>([]);
+  const [standardHours, setStandardHours] = useState(DEFAULT_OVERTIME_SETTINGS.dailyThresholdHours);
+  const [existingRequests, setExistingRequests] = useState<ExistingRequest[]>([]);
+  const [attendedDates, setAttendedDates] = useState<string[]>([]);
   const [formData, setFormData] = useState({
     leave_type: '',
+    duration: 'FULL_DAY' as LeaveDuration,
     start_date: '',
     end_date: '',
+    start_time: '',
+    end_time: '',
     reason: ''
   });
 
-  const leaveTypes = ['SICK', 'CASUAL', 'ANNUAL', 'MATERNITY', 'PATERNITY', 'EMERGENCY'];
+  useEffect(() => {
+    getWorkCalendar().then(setCalendar);
+    // Hourly leave is counted against the standard day, the daily overtime threshold
+    getOvertimeSettings().then((settings) => setStandardHours(settings.dailyThresholdHours));
+  }, []);
+
+  // Half days and hours fall on a single date
+  const isPartialDay = formData.duration !== 'FULL_DAY';
+  const endDate = isPartialDay ? formData.start_date : formData.end_date;
+
+  // Balances are per year, so they follow the year the leave starts in
+  const balanceYear = formData.start_date ? Number(formData.start_date.slice(0, 4)) : undefined;
+
+  useEffect(() => {
+    if (profile) {
+      getLeaveBalances(profile.id, balanceYear).then(setBalances);
+    }
+  }, [profile, balanceYear]);
+
+  // Requests still in effect, which a new one may not overlap
+  useEffect(() => {
+    if (!profile) return;
+
+    supabase
+      .from('leave_requests')
+      .select('id, leave_type, status, start_date, end_date, duration, start_time, end_time')
+      .eq('user_id', profile.id)
+      .in('status', ['PENDING', 'APPROVED'])
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching existing leave requests:', error);
+        } else {
+          setExistingRequests(data || []);
+        }
+      });
+  }, [profile]);
+
+  // Days already punched on are allowed, with a warning
+  useEffect(() => {
+    if (!profile || !formData.start_date || !endDate || endDate < formData.start_date) {
+      setAttendedDates([]);
+      return;
+    }
+
+    supabase
+      .from('attendance')
+      .select('date')
+      .eq('user_id', profile.id)
+      .gte('date', formData.start_date)
+      .lte('date', endDate)
+      .not('punch_in', 'is', null)
+      .order('date')
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching attendance for leave dates:', error);
+        } else {
+          setAttendedDates((data || []).map((day) => day.date));
+        }
+      });
+  }, [profile, formData.start_date, endDate]);
+
+  // Weekly offs and holidays are not taken out of the leave balance
+  const calculateDays = () => {
+    if (!formData.start_date || !endDate || !profile || !calendar) return 0;
+
+    const workingDays = countWorkingDays(calendar, profile, formData.start_date, endDate);
+    switch (formData.duration) {
+      case 'FIRST_HALF':
+      case 'SECOND_HALF':
+        return workingDays * 0.5;
+      case 'HOURS':
+        return formData.start_time && formData.end_time
+          ? workingDays * hoursToLeaveDays(formData.start_time, formData.end_time, standardHours)
+          : 0;
+      default:
+        return workingDays;
+    }
+  };
+
+  const hasDates = Boolean(formData.start_date && endDate) &&
+    (formData.duration !== 'HOURS' || Boolean(formData.start_time && formData.end_time));
+
+  // Types without a balance have no policy and are not limited
+  const balance = balances.find((b) => b.leave_type === formData.leave_type);
+  const isOverdrawn = !!balance && hasDates && calculateDays() > balance.available;
+  const isBlocked = isOverdrawn && !balance?.allow_overdraw;
+
+  const overlapping = hasDates
+    ? existingRequests.find((request) =>
+      request.start_date <= endDate &&
+      request.end_date >= formData.start_date &&
+      leavePartsOverlap(request, {
+        duration: formData.duration,
+        start_time: formData.start_time || null,
+        end_time: formData.end_time || null
+      })
+    )
+    : undefined;
+
+  const holidays = hasDates && profile && calendar && endDate >= formData.start_date
+    ? eachDate(formData.start_date, endDate)
+      .map((date) => ({ date, holiday: getHoliday(calendar, profile, date) }))
+      .filter(({ holiday }) => holiday)
+    : [];
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!profile) return;
 
+    if (formData.duration === 'HOURS') {
+      const hourDays = hoursToLeaveDays(formData.start_time, formData.end_time, standardHours);
+      if (hourDays === 0 || hourDays >= 1) {
+        toast({
+          title: 'Error',
+          description: hourDays === 0
+            ? 'The end time must be after the start time'
+            : 'Hourly leave must be shorter than a working day; request a full or half day instead',
+          variant: 'destructive'
+        });
+        return;
+      }
+    }
+
+    if (calculateDays() === 0) {
+      toast({
+        title: 'Error',
+        description: 'The selected dates do not include any working days',
+        variant: 'destructive'
+      });
+      return;
+    }
+
     setIsLoading(true);
 
     try {
@@ -40,8 +199,11 @@ const LeaveRequestForm = ({ onSuccess, onCancel }: LeaveRequestFormProps) => {
         .insert({
           user_id: profile.id,
           leave_type: formData.leave_type,
+          duration: formData.duration,
           start_date: formData.start_date,
-          end_date: formData.end_date,
+          end_date: endDate,
+          start_time: formData.duration === 'HOURS' ? formData.start_time : null,
+          end_time: formData.duration === 'HOURS' ? formData.end_time : null,
           reason: formData.reason,
           status: 'PENDING'
         });
@@ -65,17 +227,6 @@ const LeaveRequestForm = ({ onSuccess, onCancel }: LeaveRequestFormProps) => {
     setIsLoading(false);
   };
 
-  const calculateDays = () => {
-    if (formData.start_date && formData.end_date) {
-      const start = new Date(formData.start_date);
-      const end = new Date(formData.end_date);
-      const diffTime = Math.abs(end.getTime() - start.getTime());
-      const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24)) + 1;
-      return diffDays;
-    }
-    return 0;
-  };
-
   return (
     <div className="space-y-6">
       <div>
@@ -97,24 +248,45 @@ const LeaveRequestForm = ({ onSuccess, onCancel }: LeaveRequestFormProps) => {
                     <SelectValue placeholder="Select leave type" />
                   </SelectTrigger>
                   <SelectContent>
-                    {leaveTypes.map((type) => (
+                    {LEAVE_TYPES.map((type) => (
                       <SelectItem key={type} value={type}>
                         {type}
                       </SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
+                {balance && (
+                  <div className="text-sm text-gray-600">
+                    {formatDays(balance.available)} available
+                    {balance.pending > 0 && `, ${formatDays(balance.pending)} already requested`}
+                  </div>
+                )}
               </div>
 
               <div className="space-y-2">
-                <Label>Duration</Label>
+                <Label htmlFor="duration">Duration</Label>
+                <Select
+                  value={formData.duration}
+                  onValueChange={(value) => setFormData({ ...formData, duration: value as LeaveDuration })}
+                >
+                  <SelectTrigger id="duration">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(DURATION_LABELS).map(([duration, label]) => (
+                      <SelectItem key={duration} value={duration}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
                 <div className="text-sm text-gray-600">
-                  {calculateDays() > 0 ? `${calculateDays()} day(s)` : 'Select dates'}
+                  {hasDates ? `${formatDays(calculateDays())} of leave` : isPartialDay ? 'Select a date' : 'Select dates'}
                 </div>
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="start_date">Start Date</Label>
+                <Label htmlFor="start_date">{isPartialDay ? 'Date' : 'Start Date'}</Label>
                 <Input
                   id="start_date"
                   type="date"
@@ -124,17 +296,47 @@ const LeaveRequestForm = ({ onSuccess, onCancel }: LeaveRequestFormProps) => {
                 />
               </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="end_date">End Date</Label>
-                <Input
-                  id="end_date"
-                  type="date"
-                  value={formData.end_date}
-                  onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
-                  min={formData.start_date}
-                  required
-                />
-              </div>
+              {!isPartialDay && (
+                <div className="space-y-2">
+                  <Label htmlFor="end_date">End Date</Label>
+                  <Input
+                    id="end_date"
+                    type="date"
+                    value={formData.end_date}
+                    onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
+                    min={formData.start_date}
+                    required
+                  />
+                </div>
+              )}
+
+              {formData.duration === 'HOURS' && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="start_time">From</Label>
+                    <Input
+                      id="start_time"
+                      type="time"
+                      value={formData.start_time}
+                      onChange={(e) => setFormData({ ...formData, start_time: e.target.value })}
+                      required
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="end_time">To</Label>
+                    <Input
+                      id="end_time"
+                      type="time"
+                      value={formData.end_time}
+                      onChange={(e) => setFormData({ ...formData, end_time: e.target.value })}
+                      min={formData.start_time}
+                      required
+                    />
+                    <p className="text-xs text-gray-500">Counted as a share of a {standardHours} hour day.</p>
+                  </div>
+                </>
+              )}
             </div>
 
             <div className="space-y-2">
@@ -148,8 +350,36 @@ const LeaveRequestForm = ({ onSuccess, onCancel }: LeaveRequestFormProps) => {
               />
             </div>
 
+            {overlapping && (
+              <div className="text-sm text-red-600">
+                This overlaps your {overlapping.status.toLowerCase()} {overlapping.leave_type.toLowerCase()} leave
+                for {formatLeavePeriod(overlapping)}.
+              </div>
+            )}
+
+            {attendedDates.length > 0 && (
+              <div className="text-sm text-yellow-700">
+                You have already punched in on {attendedDates.map((date) => formatDate(date)).join(', ')}.
+              </div>
+            )}
+
+            {holidays.length > 0 && (
+              <div className="text-sm text-gray-600">
+                {holidays.map(({ date, holiday }) => `${holiday?.name} (${formatDate(date)})`).join(', ')}
+                {holidays.length === 1 ? ' is a holiday' : ' are holidays'} and not counted.
+              </div>
+            )}
+
+            {isOverdrawn && balance && (
+              <div className={`text-sm ${isBlocked ? 'text-red-600' : 'text-yellow-700'}`}>
+                {isBlocked
+                  ? `This is more than your ${formatDays(balance.available)} of ${formData.leave_type.toLowerCase()} leave.`
+                  : `This is more than your ${formatDays(balance.available)} of ${formData.leave_type.toLowerCase()} leave and will take your balance below zero.`}
+              </div>
+            )}
+
             <div className="flex gap-4 pt-4">
-              <Button type="submit" disabled={isLoading}>
+              <Button type="submit" disabled={isLoading || isBlocked || !!overlapping}>
                 {isLoading ? 'Submitting...' : 'Submit Request'}
               </Button>
               <Button type="button" variant="outline" onClick={onCancel}>
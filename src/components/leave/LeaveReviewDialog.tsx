@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+interface LeaveReviewDialogProps {
+  request: {
+    id: string;
+    full_name: string;
+  };
+  status: 'APPROVED' | 'REJECTED';
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+// The comment is posted to the request's thread; a rejection has to give one
+const LeaveReviewDialog = ({ request, status, onClose, onSuccess }: LeaveReviewDialogProps) => {
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(false);
+  const [comment, setComment] = useState('');
+
+  const isRejection = status === 'REJECTED';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    const { data, error } = await supabase.rpc('review_leave_request', {
+      p_request_id: request.id,
+      p_status: status,
+      p_note: comment
+    });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to update leave request',
+        variant: 'destructive'
+      });
+    } else {
+      toast({
+        title: 'Success',
+        description: data === 'PENDING'
+          ? 'Leave request approved and passed to the next approver'
+          : `Leave request ${status.toLowerCase()}`
+      });
+      onSuccess();
+    }
+
+    setIsLoading(false);
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{isRejection ? 'Reject Leave' : 'Approve Leave'}</DialogTitle>
+            <DialogDescription>
+              {isRejection
+                ? `Let ${request.full_name} know why the request is rejected.`
+                : `Add a comment for ${request.full_name} if you like.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="review_comment">{isRejection ? 'Reason' : 'Comment (optional)'}</Label>
+            <Textarea
+              id="review_comment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              required={isRejection}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Back
+            </Button>
+            <Button
+              type="submit"
+              variant={isRejection ? 'destructive' : 'default'}
+              className={isRejection ? '' : 'bg-green-600 hover:bg-green-700'}
+              disabled={isLoading || (isRejection && !comment.trim())}
+            >
+              {isLoading ? 'Saving...' : isRejection ? 'Reject' : 'Approve'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LeaveReviewDialog;
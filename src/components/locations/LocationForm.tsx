@@ -0,0 +1,268 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LocateFixed } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { OfficeLocation, getCurrentCoordinates } from '@/lib/geofence';
+import TimezoneSelect, { INHERIT_TIMEZONE } from '@/components/settings/TimezoneSelect';
+
+interface Department {
+  id: string;
+  name: string;
+}
+
+interface LocationFormProps {
+  location?: OfficeLocation | null;
+  onSuccess: () => void;
+  onCancel: () => void;
+}
+
+// Select items cannot have an empty value, so company-wide locations use a sentinel
+const ALL_DEPARTMENTS = 'all';
+
+const LocationForm = ({ location, onSuccess, onCancel }: LocationFormProps) => {
+  const { toast } = useToast();
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLocating, setIsLocating] = useState(false);
+  const [formData, setFormData] = useState({
+    name: '',
+    department_id: ALL_DEPARTMENTS,
+    latitude: '',
+    longitude: '',
+    radius_meters: '200',
+    timezone: INHERIT_TIMEZONE,
+    is_active: true
+  });
+
+  const fetchDepartments = async () => {
+    const { data, error } = await supabase
+      .from('departments')
+      .select('id, name')
+      .order('name');
+
+    if (!error && data) {
+      setDepartments(data);
+    }
+  };
+
+  useEffect(() => {
+    fetchDepartments();
+
+    if (location) {
+      setFormData({
+        name: location.name,
+        department_id: location.department_id || ALL_DEPARTMENTS,
+        latitude: location.latitude.toString(),
+        longitude: location.longitude.toString(),
+        radius_meters: location.radius_meters.toString(),
+        timezone: location.timezone || INHERIT_TIMEZONE,
+        is_active: location.is_active
+      });
+    }
+  }, [location]);
+
+  const handleUseCurrentPosition = async () => {
+    setIsLocating(true);
+    const coords = await getCurrentCoordinates();
+    if (coords) {
+      setFormData({
+        ...formData,
+        latitude: coords.latitude.toFixed(6),
+        longitude: coords.longitude.toFixed(6)
+      });
+    } else {
+      toast({
+        title: 'Error',
+        description: 'Could not determine your current position',
+        variant: 'destructive'
+      });
+    }
+    setIsLocating(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    try {
+      const submitData = {
+        name: formData.name,
+        department_id: formData.department_id === ALL_DEPARTMENTS ? null : formData.department_id,
+        latitude: parseFloat(formData.latitude),
+        longitude: parseFloat(formData.longitude),
+        radius_meters: parseInt(formData.radius_meters),
+        timezone: formData.timezone === INHERIT_TIMEZONE ? null : formData.timezone,
+        is_active: formData.is_active
+      };
+
+      if (location) {
+        const { error } = await supabase
+          .from('office_locations')
+          .update(submitData)
+          .eq('id', location.id);
+
+        if (error) throw error;
+
+        toast({
+          title: 'Success',
+          description: 'Location updated successfully'
+        });
+      } else {
+        const { error } = await supabase
+          .from('office_locations')
+          .insert(submitData);
+
+        if (error) throw error;
+
+        toast({
+          title: 'Success',
+          description: 'Location created successfully'
+        });
+      }
+
+      onSuccess();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to save location',
+        variant: 'destructive'
+      });
+    }
+
+    setIsLoading(false);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">
+          {location ? 'Edit Location' : 'Add New Location'}
+        </h1>
+        <p className="text-gray-600 mt-2">
+          {location ? 'Update office location and geofence' : 'Register an office employees can punch from'}
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Location Information</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="name">Location Name</Label>
+                <Input
+                  id="name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="e.g. Head Office"
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="department">Department</Label>
+                <Select value={formData.department_id} onValueChange={(value) => setFormData({ ...formData, department_id: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_DEPARTMENTS}>All departments</SelectItem>
+                    {departments.map((dept) => (
+                      <SelectItem key={dept.id} value={dept.id}>
+                        {dept.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="latitude">Latitude</Label>
+                <Input
+                  id="latitude"
+                  type="number"
+                  step="any"
+                  min="-90"
+                  max="90"
+                  value={formData.latitude}
+                  onChange={(e) => setFormData({ ...formData, latitude: e.target.value })}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="longitude">Longitude</Label>
+                <Input
+                  id="longitude"
+                  type="number"
+                  step="any"
+                  min="-180"
+                  max="180"
+                  value={formData.longitude}
+                  onChange={(e) => setFormData({ ...formData, longitude: e.target.value })}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="radius_meters">Radius (meters)</Label>
+                <Input
+                  id="radius_meters"
+                  type="number"
+                  min="1"
+                  value={formData.radius_meters}
+                  onChange={(e) => setFormData({ ...formData, radius_meters: e.target.value })}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Timezone</Label>
+                <TimezoneSelect
+                  value={formData.timezone}
+                  onChange={(timezone) => setFormData({ ...formData, timezone })}
+                  inheritLabel="Organization default"
+                />
+              </div>
+
+              <div className="space-y-2 flex items-end">
+                <Button type="button" variant="outline" onClick={handleUseCurrentPosition} disabled={isLocating} className="flex items-center gap-2">
+                  <LocateFixed className="w-4 h-4" />
+                  {isLocating ? 'Locating...' : 'Use my current position'}
+                </Button>
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="is_active"
+                checked={formData.is_active}
+                onCheckedChange={(checked) => setFormData({ ...formData, is_active: checked })}
+              />
+              <Label htmlFor="is_active">Active Location</Label>
+            </div>
+
+            <div className="flex gap-4 pt-4">
+              <Button type="submit" disabled={isLoading}>
+                {isLoading ? 'Saving...' : location ? 'Update Location' : 'Create Location'}
+              </Button>
+              <Button type="button" variant="outline" onClick={onCancel}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default LocationForm;
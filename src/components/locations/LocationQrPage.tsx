@@ -0,0 +1,58 @@
+import { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { QrCode } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { getLocationQrToken } from '@/lib/qrPunch';
+import RotatingQrCode from '@/components/kiosk/RotatingQrCode';
+
+// Full-screen display of an office's rotating punch code, for a screen at the entrance
+const LocationQrPage = () => {
+  const { locationId } = useParams<{ locationId: string }>();
+  const [locationName, setLocationName] = useState<string | null>(null);
+
+  const fetchLocation = async () => {
+    if (!locationId) return;
+
+    const { data, error } = await supabase
+      .from('office_locations')
+      .select('name')
+      .eq('id', locationId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching office location:', error);
+      return;
+    }
+
+    setLocationName(data?.name ?? null);
+  };
+
+  useEffect(() => {
+    fetchLocation();
+  }, [locationId]);
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center bg-gray-50 p-6">
+      <div className="text-center mb-6">
+        <h1 className="text-3xl font-bold text-gray-900 flex items-center justify-center gap-2">
+          <QrCode className="w-8 h-8" />
+          {locationName || 'Office'} Punch Code
+        </h1>
+        <p className="text-gray-600 mt-2">
+          Open Attendance on your phone, tap Scan Office QR and point the camera here
+        </p>
+      </div>
+
+      {locationId && (
+        <RotatingQrCode fetchToken={() => getLocationQrToken(locationId)} size={400} />
+      )}
+
+      <Button asChild variant="ghost" className="mt-6">
+        <Link to="/settings/locations">Back to Office Locations</Link>
+      </Button>
+    </div>
+  );
+};
+
+export default LocationQrPage;
@@ -0,0 +1,201 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { MapPin, Plus, Edit, Trash2, QrCode } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import { isAdmin } from '@/lib/auth';
+import { OfficeLocation } from '@/lib/geofence';
+import LocationForm from './LocationForm';
+
+interface LocationWithDepartment extends OfficeLocation {
+  departments: {
+    name: string;
+  } | null;
+}
+
+const LocationsPage = () => {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const [locations, setLocations] = useState<LocationWithDepartment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingLocation, setEditingLocation] = useState<OfficeLocation | null>(null);
+
+  const fetchLocations = async () => {
+    setIsLoading(true);
+
+    const { data, error } = await supabase
+      .from('office_locations')
+      .select(`
+        *,
+        departments (name)
+      `)
+      .order('name');
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch office locations',
+        variant: 'destructive'
+      });
+    } else {
+      setLocations(data || []);
+    }
+    setIsLoading(false);
+  };
+
+  const handleDeleteLocation = async (locationId: string) => {
+    if (!confirm('Are you sure you want to delete this location?')) return;
+
+    const { error } = await supabase
+      .from('office_locations')
+      .delete()
+      .eq('id', locationId);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to delete location',
+        variant: 'destructive'
+      });
+    } else {
+      toast({
+        title: 'Success',
+        description: 'Location deleted successfully'
+      });
+      fetchLocations();
+    }
+  };
+
+  const handleFormSuccess = () => {
+    setShowForm(false);
+    setEditingLocation(null);
+    fetchLocations();
+  };
+
+  useEffect(() => {
+    if (isAdmin(profile?.role)) {
+      fetchLocations();
+    }
+  }, [profile]);
+
+  if (!isAdmin(profile?.role)) {
+    return (
+      <DashboardLayout>
+        <div className="text-center py-8">
+          <p className="text-gray-500">You don't have permission to access this page.</p>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (showForm || editingLocation) {
+    return (
+      <DashboardLayout>
+        <LocationForm
+          location={editingLocation}
+          onSuccess={handleFormSuccess}
+          onCancel={() => {
+            setShowForm(false);
+            setEditingLocation(null);
+          }}
+        />
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Office Locations</h1>
+            <p className="text-gray-600 mt-2">Places employees are allowed to punch in from</p>
+          </div>
+          <Button onClick={() => setShowForm(true)} className="flex items-center gap-2">
+            <Plus className="w-4 h-4" />
+            Add Location
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {isLoading ? (
+            <div className="col-span-full text-center py-8">Loading locations...</div>
+          ) : locations.length === 0 ? (
+            <div className="col-span-full text-center py-8 text-gray-500">
+              No office locations registered. Punches are not checked until one is added.
+            </div>
+          ) : (
+            locations.map((location) => (
+              <Card key={location.id} className="hover:shadow-md transition-shadow">
+                <CardHeader>
+                  <div className="flex items-start justify-between">
+                    <div className="flex items-center gap-3">
+                      <div className="w-12 h-12 bg-blue-500 rounded-lg flex items-center justify-center">
+                        <MapPin className="w-6 h-6 text-white" />
+                      </div>
+                      <div>
+                        <CardTitle className="text-lg">{location.name}</CardTitle>
+                        <CardDescription className="mt-1">
+                          {location.departments?.name || 'All departments'}
+                        </CardDescription>
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      {location.is_active && (
+                        <Button size="sm" variant="outline" title="Show punch QR code" asChild>
+                          <Link to={`/settings/locations/${location.id}/qr`}>
+                            <QrCode className="w-4 h-4" />
+                          </Link>
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setEditingLocation(location)}
+                      >
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleDeleteLocation(location.id)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-2 text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Coordinates</span>
+                      <span>{location.latitude.toFixed(5)}, {location.longitude.toFixed(5)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Radius</span>
+                      <span>{location.radius_meters} m</span>
+                    </div>
+                    <div className="flex justify-between items-center">
+                      <span className="text-gray-600">Status</span>
+                      <Badge variant={location.is_active ? 'default' : 'secondary'}>
+                        {location.is_active ? 'Active' : 'Inactive'}
+                      </Badge>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default LocationsPage;
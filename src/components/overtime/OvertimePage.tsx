@@ -0,0 +1,393 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Timer, Plus, Clock, CheckCircle, XCircle, Download } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import { canManageEmployees } from '@/lib/auth';
+import { formatHours } from '@/lib/overtime';
+import { formatDate, getBrowserTimezone, getLocalToday } from '@/lib/timezone';
+import { downloadCsv, toCsv } from '@/lib/csv';
+import OvertimeRequestForm from './OvertimeRequestForm';
+
+interface OvertimeRequest {
+  id: string;
+  user_id: string;
+  date: string;
+  hours: number;
+  approved_hours: number | null;
+  reason: string;
+  status: string;
+  approved_at: string | null;
+  created_at: string;
+  profiles: {
+    full_name: string;
+    employee_id: string;
+  };
+}
+
+interface ApprovedOvertime {
+  date: string;
+  approved_hours: number | null;
+  approved_at: string | null;
+  employee: {
+    full_name: string;
+    employee_id: string;
+    departments: { name: string } | null;
+  };
+  approver: {
+    full_name: string;
+  } | null;
+}
+
+const OVERTIME_SELECT = `
+  *,
+  profiles!overtime_requests_user_id_fkey (
+    full_name,
+    employee_id
+  )
+`;
+
+const OvertimePage = () => {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const [allRequests, setAllRequests] = useState<OvertimeRequest[]>([]);
+  const [myRequests, setMyRequests] = useState<OvertimeRequest[]>([]);
+  const [approvedHours, setApprovedHours] = useState<Record<string, string>>({});
+  const [showForm, setShowForm] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const today = getLocalToday(getBrowserTimezone());
+  const [exportRange, setExportRange] = useState({
+    from: `${today.slice(0, 7)}-01`,
+    to: today
+  });
+
+  const fetchRequests = async () => {
+    if (!profile) return;
+
+    setIsLoading(true);
+
+    const { data: myData, error: myError } = await supabase
+      .from('overtime_requests')
+      .select(OVERTIME_SELECT)
+      .eq('user_id', profile.id)
+      .order('date', { ascending: false });
+
+    if (myError) {
+      console.error('Error fetching my overtime requests:', myError);
+    } else {
+      setMyRequests(myData || []);
+    }
+
+    if (canManageEmployees(profile.role)) {
+      const { data: allData, error: allError } = await supabase
+        .from('overtime_requests')
+        .select(OVERTIME_SELECT)
+        .neq('user_id', profile.id)
+        .order('created_at', { ascending: false });
+
+      if (allError) {
+        console.error('Error fetching overtime requests:', allError);
+      } else {
+        setAllRequests(allData || []);
+      }
+    }
+
+    setIsLoading(false);
+  };
+
+  const handleApproveReject = async (request: OvertimeRequest, status: 'APPROVED' | 'REJECTED') => {
+    if (!profile) return;
+
+    const hours = approvedHours[request.id];
+    const { error } = await supabase.rpc('review_overtime_request', {
+      p_request_id: request.id,
+      p_status: status,
+      p_approved_hours: status === 'APPROVED' && hours ? parseFloat(hours) : undefined
+    });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to update overtime request',
+        variant: 'destructive'
+      });
+    } else {
+      toast({
+        title: 'Success',
+        description: `Overtime request ${status.toLowerCase()}`
+      });
+      fetchRequests();
+    }
+  };
+
+  // Payroll only ever sees approved hours, one line per employee and day
+  const handleExport = async () => {
+    setIsExporting(true);
+
+    const { data, error } = await supabase
+      .from('overtime_requests')
+      .select(`
+        date,
+        approved_hours,
+        approved_at,
+        employee:profiles!overtime_requests_user_id_fkey (
+          full_name,
+          employee_id,
+          departments (name)
+        ),
+        approver:profiles!overtime_requests_approved_by_fkey (
+          full_name
+        )
+      `)
+      .eq('status', 'APPROVED')
+      .gte('date', exportRange.from)
+      .lte('date', exportRange.to)
+      .order('date');
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to export approved overtime',
+        variant: 'destructive'
+      });
+    } else {
+      const rows = (data || []) as ApprovedOvertime[];
+      const csv = toCsv(
+        ['Employee ID', 'Employee', 'Department', 'Date', 'Approved Hours', 'Approved By', 'Approved At'],
+        rows.map((row) => [
+          row.employee.employee_id,
+          row.employee.full_name,
+          row.employee.departments?.name || '',
+          row.date,
+          row.approved_hours,
+          row.approver?.full_name || '',
+          row.approved_at
+        ])
+      );
+      downloadCsv(`approved-overtime-${exportRange.from}-to-${exportRange.to}.csv`, csv);
+    }
+
+    setIsExporting(false);
+  };
+
+  const handleFormSuccess = () => {
+    setShowForm(false);
+    fetchRequests();
+  };
+
+  useEffect(() => {
+    fetchRequests();
+  }, [profile]);
+
+  const getStatusBadge = (status: string) => {
+    const statusColors = {
+      PENDING: 'bg-yellow-100 text-yellow-800',
+      APPROVED: 'bg-green-100 text-green-800',
+      REJECTED: 'bg-red-100 text-red-800'
+    };
+
+    return (
+      <Badge className={statusColors[status as keyof typeof statusColors] || 'bg-gray-100 text-gray-800'}>
+        {status}
+      </Badge>
+    );
+  };
+
+  const renderHours = (request: OvertimeRequest) => (
+    <div className="text-sm text-gray-600">
+      Claimed {formatHours(request.hours)}
+      {request.approved_hours !== null && ` • Approved ${formatHours(request.approved_hours)}`}
+    </div>
+  );
+
+  if (showForm) {
+    return (
+      <DashboardLayout>
+        <OvertimeRequestForm
+          onSuccess={handleFormSuccess}
+          onCancel={() => setShowForm(false)}
+        />
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Overtime</h1>
+            <p className="text-gray-600 mt-2">Claim and approve extra hours worked</p>
+          </div>
+          <Button onClick={() => setShowForm(true)} className="flex items-center gap-2">
+            <Plus className="w-4 h-4" />
+            Claim Overtime
+          </Button>
+        </div>
+
+        {/* My Requests */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Timer className="w-5 h-5" />
+              My Overtime Requests
+            </CardTitle>
+            <CardDescription>Your submitted overtime claims</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {myRequests.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">
+                No overtime requests found
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {myRequests.map((request) => (
+                  <div key={request.id} className="flex items-center justify-between p-4 border rounded-lg">
+                    <div>
+                      <div className="font-medium">
+                        {formatDate(request.date)}
+                      </div>
+                      {renderHours(request)}
+                      <div className="text-sm text-gray-600">{request.reason}</div>
+                    </div>
+                    {getStatusBadge(request.status)}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {canManageEmployees(profile?.role) && (
+          <>
+            {/* Team Requests (Manager View) */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Clock className="w-5 h-5" />
+                  Team Overtime Requests
+                </CardTitle>
+                <CardDescription>Approve claimed hours in full or in part, or reject them</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {isLoading ? (
+                  <div className="text-center py-8">Loading requests...</div>
+                ) : allRequests.length === 0 ? (
+                  <div className="text-center py-8 text-gray-500">
+                    No overtime requests found
+                  </div>
+                ) : (
+                  <div className="space-y-4">
+                    {allRequests.map((request) => (
+                      <div key={request.id} className="flex items-center justify-between p-4 border rounded-lg">
+                        <div className="flex items-center gap-4">
+                          <div className="w-10 h-10 bg-blue-500 rounded-full flex items-center justify-center">
+                            <span className="text-white font-semibold">
+                              {request.profiles.full_name.charAt(0)}
+                            </span>
+                          </div>
+                          <div>
+                            <div className="font-medium">{request.profiles.full_name}</div>
+                            <div className="text-sm text-gray-600">
+                              {formatDate(request.date)} • ID: {request.profiles.employee_id}
+                            </div>
+                            {renderHours(request)}
+                            <div className="text-sm text-gray-600">{request.reason}</div>
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-3">
+                          {getStatusBadge(request.status)}
+                          {request.status === 'PENDING' && (
+                            <div className="flex gap-2">
+                              <Input
+                                type="number"
+                                step="0.25"
+                                min="0.25"
+                                max={request.hours}
+                                className="w-24"
+                                title="Hours to approve"
+                                value={approvedHours[request.id] ?? request.hours.toString()}
+                                onChange={(e) => setApprovedHours({ ...approvedHours, [request.id]: e.target.value })}
+                              />
+                              <Button
+                                size="sm"
+                                onClick={() => handleApproveReject(request, 'APPROVED')}
+                                className="bg-green-600 hover:bg-green-700"
+                              >
+                                <CheckCircle className="w-4 h-4" />
+                              </Button>
+                              <Button
+                                size="sm"
+                                onClick={() => handleApproveReject(request, 'REJECTED')}
+                                variant="destructive"
+                              >
+                                <XCircle className="w-4 h-4" />
+                              </Button>
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Payroll Export */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Download className="w-5 h-5" />
+                  Payroll Export
+                </CardTitle>
+                <CardDescription>Download approved overtime as a CSV file</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                  <div className="space-y-2">
+                    <Label htmlFor="export_from">From</Label>
+                    <Input
+                      id="export_from"
+                      type="date"
+                      value={exportRange.from}
+                      onChange={(e) => setExportRange({ ...exportRange, from: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="export_to">To</Label>
+                    <Input
+                      id="export_to"
+                      type="date"
+                      value={exportRange.to}
+                      min={exportRange.from}
+                      onChange={(e) => setExportRange({ ...exportRange, to: e.target.value })}
+                    />
+                  </div>
+                  <Button
+                    onClick={handleExport}
+                    disabled={isExporting || !exportRange.from || !exportRange.to}
+                    variant="outline"
+                    className="flex items-center gap-2"
+                  >
+                    <Download className="w-4 h-4" />
+                    {isExporting ? 'Exporting...' : 'Export Approved Overtime'}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default OvertimePage;
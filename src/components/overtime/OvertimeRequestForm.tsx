@@ -0,0 +1,184 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useTimezone } from '@/hooks/useTimezone';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { formatHours, getClaimableOvertime } from '@/lib/overtime';
+import { getBrowserTimezone, getLocalToday } from '@/lib/timezone';
+
+interface OvertimeRequestFormProps {
+  onSuccess: () => void;
+  onCancel: () => void;
+}
+
+interface RecordedDay {
+  total_hours: number | null;
+  overtime_hours: number;
+}
+
+const OvertimeRequestForm = ({ onSuccess, onCancel }: OvertimeRequestFormProps) => {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const timeZone = useTimezone();
+  const [isLoading, setIsLoading] = useState(false);
+  const [recordedDay, setRecordedDay] = useState<RecordedDay | null>(null);
+  const [claimableHours, setClaimableHours] = useState(0);
+  const [formData, setFormData] = useState({
+    date: '',
+    hours: '',
+    reason: ''
+  });
+
+  const today = getLocalToday(timeZone || getBrowserTimezone());
+
+  const fetchRecordedDay = async (date: string) => {
+    if (!profile || !date) return;
+
+    const [{ data, error }, claimable] = await Promise.all([
+      supabase
+        .from('attendance')
+        .select('total_hours, overtime_hours')
+        .eq('user_id', profile.id)
+        .eq('date', date)
+        .maybeSingle(),
+      getClaimableOvertime(profile.id, date)
+    ]);
+
+    if (error) {
+      console.error('Error fetching attendance for date:', error);
+      return;
+    }
+
+    setRecordedDay(data);
+    setClaimableHours(claimable);
+    // Start from the most that can be claimed, which includes the week's overtime
+    setFormData((current) => ({
+      ...current,
+      hours: claimable ? claimable.toString() : ''
+    }));
+  };
+
+  useEffect(() => {
+    fetchRecordedDay(formData.date);
+  }, [formData.date, profile]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!profile) return;
+
+    setIsLoading(true);
+
+    try {
+      const { error } = await supabase
+        .from('overtime_requests')
+        .insert({
+          user_id: profile.id,
+          date: formData.date,
+          hours: parseFloat(formData.hours),
+          reason: formData.reason,
+          status: 'PENDING'
+        });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Success',
+        description: 'Overtime request submitted successfully'
+      });
+
+      onSuccess();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to submit overtime request',
+        variant: 'destructive'
+      });
+    }
+
+    setIsLoading(false);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Claim Overtime</h1>
+        <p className="text-gray-600 mt-2">Ask your manager to approve extra hours you worked</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Overtime Details</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="date">Date</Label>
+                <Input
+                  id="date"
+                  type="date"
+                  value={formData.date}
+                  onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                  max={today}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Currently Recorded</Label>
+                <div className="text-sm text-gray-600">
+                  {!formData.date
+                    ? 'Select a date'
+                    : recordedDay?.total_hours != null
+                      ? `${formatHours(recordedDay.total_hours)} worked • ${formatHours(recordedDay.overtime_hours)} overtime • ${formatHours(claimableHours)} claimable`
+                      : 'No completed attendance recorded'}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="hours">Overtime Hours</Label>
+                <Input
+                  id="hours"
+                  type="number"
+                  step="0.25"
+                  min="0.25"
+                  max={claimableHours || undefined}
+                  value={formData.hours}
+                  onChange={(e) => setFormData({ ...formData, hours: e.target.value })}
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="reason">Reason</Label>
+              <Textarea
+                id="reason"
+                value={formData.reason}
+                onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+                placeholder="e.g. Stayed back to finish the quarter-end close..."
+                required
+              />
+            </div>
+
+            <div className="flex gap-4 pt-4">
+              <Button type="submit" disabled={isLoading || recordedDay?.total_hours == null || !claimableHours}>
+                {isLoading ? 'Submitting...' : 'Submit Request'}
+              </Button>
+              <Button type="button" variant="outline" onClick={onCancel}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default OvertimeRequestForm;
@@ -0,0 +1,11 @@
+import { Badge } from '@/components/ui/badge';
+import { Lock } from 'lucide-react';
+
+const ClosedPeriodBadge = () => (
+  <Badge className="bg-slate-100 text-slate-800 flex items-center gap-1" title="This month is closed for payroll">
+    <Lock className="w-3 h-3" />
+    Closed
+  </Badge>
+);
+
+export default ClosedPeriodBadge;
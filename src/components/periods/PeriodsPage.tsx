@@ -0,0 +1,246 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Lock, LockOpen, History } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import { isAdmin } from '@/lib/auth';
+import { formatMonth } from '@/lib/periods';
+import { getBrowserTimezone, getLocalToday } from '@/lib/timezone';
+import ClosedPeriodBadge from './ClosedPeriodBadge';
+
+interface ClosedPeriod {
+  month: string;
+  closed_at: string;
+  closer: { full_name: string } | null;
+}
+
+interface PeriodEvent {
+  id: string;
+  month: string;
+  action: string;
+  reason: string | null;
+  created_at: string;
+  performer: { full_name: string } | null;
+}
+
+// How many past months are listed for closing
+const MONTHS_SHOWN = 12;
+
+const getRecentMonths = (today: string) => {
+  const [year, monthIndex] = today.split('-').map(Number);
+  return Array.from({ length: MONTHS_SHOWN }, (_, index) =>
+    new Date(Date.UTC(year, monthIndex - 2 - index, 1)).toISOString().split('T')[0]
+  );
+};
+
+const PeriodsPage = () => {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const [closedPeriods, setClosedPeriods] = useState<ClosedPeriod[]>([]);
+  const [events, setEvents] = useState<PeriodEvent[]>([]);
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+
+  const months = getRecentMonths(getLocalToday(getBrowserTimezone()));
+  const canReopen = profile?.role === 'SUPERADMIN';
+
+  const fetchPeriods = async () => {
+    setIsLoading(true);
+
+    const [periodsResult, eventsResult] = await Promise.all([
+      supabase
+        .from('attendance_periods')
+        .select('month, closed_at, closer:profiles!attendance_periods_closed_by_fkey (full_name)'),
+      supabase
+        .from('attendance_period_events')
+        .select('*, performer:profiles!attendance_period_events_performed_by_fkey (full_name)')
+        .order('created_at', { ascending: false })
+        .limit(50)
+    ]);
+
+    if (periodsResult.error) {
+      console.error('Error fetching closed periods:', periodsResult.error);
+    } else {
+      setClosedPeriods(periodsResult.data || []);
+    }
+
+    if (eventsResult.error) {
+      console.error('Error fetching period history:', eventsResult.error);
+    } else {
+      setEvents(eventsResult.data || []);
+    }
+
+    setIsLoading(false);
+  };
+
+  const handleClose = async (month: string) => {
+    if (!confirm(`Close ${formatMonth(month)}? Attendance and leave in this month will no longer be editable.`)) return;
+
+    const { error } = await supabase.rpc('close_attendance_period', { p_month: month });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to close period',
+        variant: 'destructive'
+      });
+    } else {
+      toast({
+        title: 'Success',
+        description: `${formatMonth(month)} closed`
+      });
+      fetchPeriods();
+    }
+  };
+
+  const handleReopen = async (month: string) => {
+    const { error } = await supabase.rpc('reopen_attendance_period', {
+      p_month: month,
+      p_reason: reasons[month]?.trim() || ''
+    });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to reopen period',
+        variant: 'destructive'
+      });
+    } else {
+      toast({
+        title: 'Success',
+        description: `${formatMonth(month)} reopened`
+      });
+      setReasons({ ...reasons, [month]: '' });
+      fetchPeriods();
+    }
+  };
+
+  useEffect(() => {
+    if (isAdmin(profile?.role)) {
+      fetchPeriods();
+    }
+  }, [profile]);
+
+  if (!isAdmin(profile?.role)) {
+    return (
+      <DashboardLayout>
+        <div className="text-center py-8">
+          <p className="text-gray-500">You don't have permission to access this page.</p>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Period Close</h1>
+          <p className="text-gray-600 mt-2">Freeze attendance and leave once payroll has run</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Lock className="w-5 h-5" />
+              Months
+            </CardTitle>
+            <CardDescription>
+              A closed month can only be reopened by a super admin, with a reason
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="text-center py-8">Loading periods...</div>
+            ) : (
+              <div className="space-y-4">
+                {months.map((month) => {
+                  const closed = closedPeriods.find((period) => period.month === month);
+
+                  return (
+                    <div key={month} className="flex items-center justify-between p-4 border rounded-lg">
+                      <div>
+                        <div className="font-medium flex items-center gap-2">
+                          {formatMonth(month)}
+                          {closed ? <ClosedPeriodBadge /> : <Badge variant="outline">Open</Badge>}
+                        </div>
+                        {closed && (
+                          <div className="text-sm text-gray-600">
+                            Closed by {closed.closer?.full_name || 'Unknown'} on {new Date(closed.closed_at).toLocaleDateString()}
+                          </div>
+                        )}
+                      </div>
+                      {!closed ? (
+                        <Button size="sm" variant="outline" onClick={() => handleClose(month)} className="flex items-center gap-2">
+                          <Lock className="w-4 h-4" />
+                          Close Month
+                        </Button>
+                      ) : canReopen && (
+                        <div className="flex gap-2">
+                          <Input
+                            className="w-64"
+                            placeholder="Reason for reopening"
+                            value={reasons[month] ?? ''}
+                            onChange={(e) => setReasons({ ...reasons, [month]: e.target.value })}
+                          />
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleReopen(month)}
+                            disabled={!reasons[month]?.trim()}
+                            className="flex items-center gap-2"
+                          >
+                            <LockOpen className="w-4 h-4" />
+                            Reopen
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="w-5 h-5" />
+              History
+            </CardTitle>
+            <CardDescription>Every close and reopen, most recent first</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {events.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">
+                No periods have been closed yet
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {events.map((event) => (
+                  <div key={event.id} className="flex items-center justify-between p-3 border rounded-lg text-sm">
+                    <div>
+                      <div className="font-medium">
+                        {formatMonth(event.month)} {event.action === 'CLOSED' ? 'closed' : 'reopened'} by {event.performer?.full_name || 'Unknown'}
+                      </div>
+                      {event.reason && <div className="text-gray-600">{event.reason}</div>}
+                    </div>
+                    <span className="text-gray-500">{new Date(event.created_at).toLocaleString()}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default PeriodsPage;
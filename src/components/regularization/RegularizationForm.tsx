@@ -0,0 +1,224 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useTimezone } from '@/hooks/useTimezone';
+import { useClosedMonths } from '@/hooks/useClosedMonths';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { addDaysToDate, formatTimeInZone, getBrowserTimezone, getLocalToday, toLocalTime, zonedTimeToUtc } from '@/lib/timezone';
+import { isDateInClosedMonth } from '@/lib/periods';
+
+interface RegularizationFormProps {
+  initialDate?: string;
+  onSuccess: () => void;
+  onCancel: () => void;
+}
+
+interface RecordedDay {
+  id: string;
+  punch_in: string | null;
+  punch_out: string | null;
+  status: string | null;
+}
+
+const RegularizationForm = ({ initialDate, onSuccess, onCancel }: RegularizationFormProps) => {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const timeZone = useTimezone();
+  const closedMonths = useClosedMonths();
+  const [isLoading, setIsLoading] = useState(false);
+  const [recordedDay, setRecordedDay] = useState<RecordedDay | null>(null);
+  const [formData, setFormData] = useState({
+    date: initialDate || '',
+    punch_in: '',
+    punch_out: '',
+    reason: ''
+  });
+
+  const today = getLocalToday(timeZone || getBrowserTimezone());
+
+  // Times are entered on the employee's own clock, whatever the browser's zone
+  const toTimeInput = (timestamp: string | null, zone: string) => {
+    if (!timestamp) return '';
+    return toLocalTime(timestamp, zone);
+  };
+
+  const formatTime = (timeString: string | null) => formatTimeInZone(timeString, timeZone);
+
+  const fetchRecordedDay = async (date: string) => {
+    if (!profile || !timeZone || !date) return;
+
+    const { data, error } = await supabase
+      .from('attendance')
+      .select('id, punch_in, punch_out, status')
+      .eq('user_id', profile.id)
+      .eq('date', date)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching attendance for date:', error);
+      return;
+    }
+
+    setRecordedDay(data);
+    setFormData((current) => ({
+      ...current,
+      punch_in: toTimeInput(data?.punch_in ?? null, timeZone),
+      punch_out: toTimeInput(data?.punch_out ?? null, timeZone)
+    }));
+  };
+
+  useEffect(() => {
+    fetchRecordedDay(formData.date);
+  }, [formData.date, profile, timeZone]);
+
+  // A punch-out earlier than the punch-in is taken to be on the following day
+  const buildTimestamps = (zone: string) => {
+    const punchIn = zonedTimeToUtc(formData.date, formData.punch_in, zone);
+    let punchOut = zonedTimeToUtc(formData.date, formData.punch_out, zone);
+    if (punchOut <= punchIn) {
+      punchOut = zonedTimeToUtc(addDaysToDate(formData.date, 1), formData.punch_out, zone);
+    }
+    return { punchIn: punchIn.toISOString(), punchOut: punchOut.toISOString() };
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!profile || !timeZone) return;
+
+    if (isDateInClosedMonth(closedMonths, formData.date)) {
+      toast({
+        title: 'Error',
+        description: 'This month has been closed for payroll and can no longer be corrected',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const { punchIn, punchOut } = buildTimestamps(timeZone);
+      const { error } = await supabase
+        .from('attendance_regularizations')
+        .insert({
+          user_id: profile.id,
+          attendance_id: recordedDay?.id ?? null,
+          date: formData.date,
+          requested_punch_in: punchIn,
+          requested_punch_out: punchOut,
+          reason: formData.reason,
+          status: 'PENDING'
+        });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Success',
+        description: 'Correction request submitted successfully'
+      });
+
+      onSuccess();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to submit correction request',
+        variant: 'destructive'
+      });
+    }
+
+    setIsLoading(false);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Request Attendance Correction</h1>
+        <p className="text-gray-600 mt-2">Propose corrected punch times for a missed or wrong punch</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Correction Details</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="date">Date</Label>
+                <Input
+                  id="date"
+                  type="date"
+                  value={formData.date}
+                  onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                  max={today}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Currently Recorded</Label>
+                <div className="text-sm text-gray-600">
+                  {!formData.date
+                    ? 'Select a date'
+                    : recordedDay
+                      ? `In ${formatTime(recordedDay.punch_in)} • Out ${formatTime(recordedDay.punch_out)}`
+                      : 'No attendance recorded'}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="punch_in">Corrected Punch In</Label>
+                <Input
+                  id="punch_in"
+                  type="time"
+                  value={formData.punch_in}
+                  onChange={(e) => setFormData({ ...formData, punch_in: e.target.value })}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="punch_out">Corrected Punch Out</Label>
+                <Input
+                  id="punch_out"
+                  type="time"
+                  value={formData.punch_out}
+                  onChange={(e) => setFormData({ ...formData, punch_out: e.target.value })}
+                  required
+                />
+                <p className="text-xs text-gray-500">A time before the punch in is taken as the next day.</p>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="reason">Reason</Label>
+              <Textarea
+                id="reason"
+                value={formData.reason}
+                onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+                placeholder="e.g. Forgot to punch out after the client meeting..."
+                required
+              />
+            </div>
+
+            <div className="flex gap-4 pt-4">
+              <Button type="submit" disabled={isLoading}>
+                {isLoading ? 'Submitting...' : 'Submit Request'}
+              </Button>
+              <Button type="button" variant="outline" onClick={onCancel}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default RegularizationForm;
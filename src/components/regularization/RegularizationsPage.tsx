@@ -0,0 +1,286 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useClosedMonths } from '@/hooks/useClosedMonths';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ClipboardEdit, Plus, Clock, CheckCircle, XCircle } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import { canManageEmployees } from '@/lib/auth';
+import { isDateInClosedMonth } from '@/lib/periods';
+import ClosedPeriodBadge from '@/components/periods/ClosedPeriodBadge';
+import { TimezoneSettings, formatDate, formatTimeInZone, getMemberTimezone, getTimezoneSettings } from '@/lib/timezone';
+import RegularizationForm from './RegularizationForm';
+
+interface Regularization {
+  id: string;
+  user_id: string;
+  date: string;
+  requested_punch_in: string;
+  requested_punch_out: string;
+  reason: string;
+  status: string;
+  original_punch_in: string | null;
+  original_punch_out: string | null;
+  created_at: string;
+  profiles: {
+    full_name: string;
+    employee_id: string;
+    office_location_id: string | null;
+    timezone: string | null;
+  };
+}
+
+const REGULARIZATION_SELECT = `
+  *,
+  profiles!attendance_regularizations_user_id_fkey (
+    full_name,
+    employee_id,
+    office_location_id,
+    timezone
+  )
+`;
+
+const RegularizationsPage = () => {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const closedMonths = useClosedMonths();
+  const [allRequests, setAllRequests] = useState<Regularization[]>([]);
+  const [myRequests, setMyRequests] = useState<Regularization[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [timezones, setTimezones] = useState<TimezoneSettings | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchRequests = async () => {
+    if (!profile) return;
+
+    setIsLoading(true);
+
+    getTimezoneSettings().then(setTimezones);
+
+    const { data: myData, error: myError } = await supabase
+      .from('attendance_regularizations')
+      .select(REGULARIZATION_SELECT)
+      .eq('user_id', profile.id)
+      .order('created_at', { ascending: false });
+
+    if (myError) {
+      console.error('Error fetching my regularizations:', myError);
+    } else {
+      setMyRequests(myData || []);
+    }
+
+    if (canManageEmployees(profile.role)) {
+      const { data: allData, error: allError } = await supabase
+        .from('attendance_regularizations')
+        .select(REGULARIZATION_SELECT)
+        .neq('user_id', profile.id)
+        .order('created_at', { ascending: false });
+
+      if (allError) {
+        console.error('Error fetching regularizations:', allError);
+      } else {
+        setAllRequests(allData || []);
+      }
+    }
+
+    setIsLoading(false);
+  };
+
+  const handleApproveReject = async (request: Regularization, status: 'APPROVED' | 'REJECTED') => {
+    if (!profile) return;
+
+    const { error } = await supabase.rpc('review_attendance_regularization', {
+      p_request_id: request.id,
+      p_status: status
+    });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to update correction request',
+        variant: 'destructive'
+      });
+    } else {
+      toast({
+        title: 'Success',
+        description: `Correction request ${status.toLowerCase()}`
+      });
+      fetchRequests();
+    }
+  };
+
+  const handleFormSuccess = () => {
+    setShowForm(false);
+    fetchRequests();
+  };
+
+  useEffect(() => {
+    fetchRequests();
+  }, [profile]);
+
+  // Times are shown on the employee's clock, which may differ from the reviewer's
+  const formatTime = (timeString: string | null, request: Regularization) =>
+    formatTimeInZone(timeString, timezones && getMemberTimezone(timezones, request.profiles));
+
+  const getStatusBadge = (status: string) => {
+    const statusColors = {
+      PENDING: 'bg-yellow-100 text-yellow-800',
+      APPROVED: 'bg-green-100 text-green-800',
+      REJECTED: 'bg-red-100 text-red-800'
+    };
+
+    return (
+      <Badge className={statusColors[status as keyof typeof statusColors] || 'bg-gray-100 text-gray-800'}>
+        {status}
+      </Badge>
+    );
+  };
+
+  const renderTimes = (request: Regularization) => (
+    <>
+      <div className="text-sm text-gray-600">
+        Requested: {formatTime(request.requested_punch_in, request)} - {formatTime(request.requested_punch_out, request)}
+      </div>
+      {request.status === 'APPROVED' && (
+        <div className="text-xs text-gray-500">
+          Originally: {formatTime(request.original_punch_in, request)} - {formatTime(request.original_punch_out, request)}
+        </div>
+      )}
+    </>
+  );
+
+  if (showForm) {
+    return (
+      <DashboardLayout>
+        <RegularizationForm
+          onSuccess={handleFormSuccess}
+          onCancel={() => setShowForm(false)}
+        />
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Attendance Corrections</h1>
+            <p className="text-gray-600 mt-2">Fix missed or wrong punches</p>
+          </div>
+          <Button onClick={() => setShowForm(true)} className="flex items-center gap-2">
+            <Plus className="w-4 h-4" />
+            Request Correction
+          </Button>
+        </div>
+
+        {/* My Requests */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ClipboardEdit className="w-5 h-5" />
+              My Correction Requests
+            </CardTitle>
+            <CardDescription>Your submitted attendance corrections</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {myRequests.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">
+                No correction requests found
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {myRequests.map((request) => (
+                  <div key={request.id} className="flex items-center justify-between p-4 border rounded-lg">
+                    <div>
+                      <div className="font-medium">
+                        {formatDate(request.date)}
+                      </div>
+                      {renderTimes(request)}
+                      <div className="text-sm text-gray-600">{request.reason}</div>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      {isDateInClosedMonth(closedMonths, request.date) && <ClosedPeriodBadge />}
+                      {getStatusBadge(request.status)}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Team Requests (Manager View) */}
+        {canManageEmployees(profile?.role) && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Clock className="w-5 h-5" />
+                Team Correction Requests
+              </CardTitle>
+              <CardDescription>Approve or reject attendance corrections</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="text-center py-8">Loading requests...</div>
+              ) : allRequests.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">
+                  No correction requests found
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {allRequests.map((request) => (
+                    <div key={request.id} className="flex items-center justify-between p-4 border rounded-lg">
+                      <div className="flex items-center gap-4">
+                        <div className="w-10 h-10 bg-blue-500 rounded-full flex items-center justify-center">
+                          <span className="text-white font-semibold">
+                            {request.profiles.full_name.charAt(0)}
+                          </span>
+                        </div>
+                        <div>
+                          <div className="font-medium">{request.profiles.full_name}</div>
+                          <div className="text-sm text-gray-600">
+                            {formatDate(request.date)} • ID: {request.profiles.employee_id}
+                          </div>
+                          {renderTimes(request)}
+                          <div className="text-sm text-gray-600">{request.reason}</div>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        {isDateInClosedMonth(closedMonths, request.date) && <ClosedPeriodBadge />}
+                        {getStatusBadge(request.status)}
+                        {request.status === 'PENDING' && !isDateInClosedMonth(closedMonths, request.date) && (
+                          <div className="flex gap-2">
+                            <Button
+                              size="sm"
+                              onClick={() => handleApproveReject(request, 'APPROVED')}
+                              className="bg-green-600 hover:bg-green-700"
+                            >
+                              <CheckCircle className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              onClick={() => handleApproveReject(request, 'REJECTED')}
+                              variant="destructive"
+                            >
+                              <XCircle className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default RegularizationsPage;
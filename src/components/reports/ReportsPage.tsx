@@ -6,18 +6,59 @@ import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
-import { TrendingUp, Users, Clock, Calendar, Download } from 'lucide-react';
+import { TrendingUp, Users, Clock, Calendar, Download, Timer } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
 import DashboardLayout from '@/components/layout/DashboardLayout';
 import { canManageEmployees } from '@/lib/auth';
+import { PRESENT_STATUSES, isPresentStatus, averageCompletedHours } from '@/lib/attendance';
+import { WorkCalendar, getWorkCalendar, isWorkingDay, eachDate } from '@/lib/holidays';
+import { addDaysToDate, formatDate, formatTimeInZone, getLocalToday, getMemberTimezone, getTimezoneSettings } from '@/lib/timezone';
+import { OvertimeDay, formatHours, getOvertimeSettings, getWeekStart, summarizeOvertime } from '@/lib/overtime';
+import { getAttachmentUrls } from '@/lib/attachments';
+import { downloadCsv, toCsv } from '@/lib/csv';
 
 interface AttendanceStats {
   totalEmployees: number;
+  expectedToday: number;
   presentToday: number;
+  lateToday: number;
   avgHoursPerDay: number;
   totalHoursThisMonth: number;
 }
 
+interface ActiveEmployee {
+  id: string;
+  department_id: string | null;
+  office_location_id: string | null;
+  departments: {
+    name: string;
+  } | null;
+}
+
+interface OvertimeStats {
+  recordedHours: number;
+  approvedHours: number;
+  pendingClaims: number;
+}
+
+interface ExportedDay {
+  date: string;
+  status: string | null;
+  punch_in: string | null;
+  punch_out: string | null;
+  total_hours: number | null;
+  notes: string | null;
+  manager_note: string | null;
+  employee: {
+    full_name: string;
+    employee_id: string;
+    timezone: string | null;
+    office_location_id: string | null;
+  };
+  attendance_attachments: { file_path: string }[];
+}
+
 interface DepartmentAttendance {
   department: string;
   present: number;
@@ -27,13 +68,22 @@ interface DepartmentAttendance {
 
 const ReportsPage = () => {
   const { profile } = useAuth();
+  const { toast } = useToast();
   const [selectedPeriod, setSelectedPeriod] = useState('7');
+  const [isExporting, setIsExporting] = useState(false);
   const [stats, setStats] = useState<AttendanceStats>({
     totalEmployees: 0,
+    expectedToday: 0,
     presentToday: 0,
+    lateToday: 0,
     avgHoursPerDay: 0,
     totalHoursThisMonth: 0
   });
+  const [overtimeStats, setOvertimeStats] = useState<OvertimeStats>({
+    recordedHours: 0,
+    approvedHours: 0,
+    pendingClaims: 0
+  });
   const [departmentData, setDepartmentData] = useState<DepartmentAttendance[]>([]);
   const [weeklyData, setWeeklyData] = useState<any[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -45,23 +95,25 @@ const ReportsPage = () => {
       // Get total employees
       const { data: employees, error: empError } = await supabase
         .from('profiles')
-        .select('id')
+        .select('id, department_id, office_location_id, departments (name)')
         .eq('is_active', true);
 
       if (empError) throw empError;
 
-      // Get today's attendance
-      const today = new Date().toISOString().split('T')[0];
+      const [calendar, timezones] = await Promise.all([getWorkCalendar(), getTimezoneSettings()]);
+
+      // Get today's attendance, with "today" taken in the organisation's timezone
+      const today = getLocalToday(timezones.organization);
       const { data: todayAttendance, error: todayError } = await supabase
         .from('attendance')
-        .select('id, total_hours')
+        .select('id, total_hours, late_minutes')
         .eq('date', today)
-        .eq('status', 'PRESENT');
+        .in('status', PRESENT_STATUSES);
 
       if (todayError) throw todayError;
 
       // Get this month's data
-      const startOfMonth = new Date(new Date().getFullYear(), new Date().getMonth(), 1).toISOString().split('T')[0];
+      const startOfMonth = `${today.slice(0, 7)}-01`;
       const { data: monthlyAttendance, error: monthlyError } = await supabase
         .from('attendance')
         .select('total_hours')
@@ -70,18 +122,21 @@ const ReportsPage = () => {
       if (monthlyError) throw monthlyError;
 
       const totalHoursThisMonth = monthlyAttendance?.reduce((sum, record) => sum + (record.total_hours || 0), 0) || 0;
-      const avgHoursPerDay = todayAttendance?.reduce((sum, record) => sum + (record.total_hours || 0), 0) / (todayAttendance?.length || 1) || 0;
+      const avgHoursPerDay = averageCompletedHours(todayAttendance || []);
 
       setStats({
         totalEmployees: employees?.length || 0,
+        expectedToday: employees?.filter((employee) => isWorkingDay(calendar, employee, today)).length || 0,
         presentToday: todayAttendance?.length || 0,
+        lateToday: todayAttendance?.filter((record) => record.late_minutes > 0).length || 0,
         avgHoursPerDay,
         totalHoursThisMonth
       });
 
       // Fetch department-wise attendance
-      await fetchDepartmentAttendance();
-      await fetchWeeklyAttendance();
+      await fetchDepartmentAttendance(calendar, employees || [], today);
+      await fetchWeeklyAttendance(calendar, employees || [], today);
+      await fetchOvertimeStats(startOfMonth);
 
     } catch (error) {
       console.error('Error fetching stats:', error);
@@ -90,10 +145,8 @@ const ReportsPage = () => {
     setIsLoading(false);
   };
 
-  const fetchDepartmentAttendance = async () => {
+  const fetchDepartmentAttendance = async (calendar: WorkCalendar, employees: ActiveEmployee[], today: string) => {
     try {
-      const today = new Date().toISOString().split('T')[0];
-      
       const { data, error } = await supabase
         .from('profiles')
         .select(`
@@ -112,24 +165,21 @@ const ReportsPage = () => {
 
       const departmentStats: { [key: string]: { present: number; total: number } } = {};
       
-      // Count total employees per department
-      const { data: allEmployees } = await supabase
-        .from('profiles')
-        .select('departments (name)')
-        .eq('is_active', true);
-
-      allEmployees?.forEach((emp: any) => {
+      // Count employees expected at work today per department
+      employees.forEach((emp) => {
         const deptName = emp.departments?.name || 'No Department';
         if (!departmentStats[deptName]) {
           departmentStats[deptName] = { present: 0, total: 0 };
         }
-        departmentStats[deptName].total++;
+        if (isWorkingDay(calendar, emp, today)) {
+          departmentStats[deptName].total++;
+        }
       });
 
       // Count present employees
       data?.forEach((emp: any) => {
         const deptName = emp.departments?.name || 'No Department';
-        if (emp.attendance?.[0]?.status === 'PRESENT') {
+        if (isPresentStatus(emp.attendance?.[0]?.status)) {
           departmentStats[deptName].present++;
         }
       });
@@ -138,7 +188,7 @@ const ReportsPage = () => {
         department,
         present: stats.present,
         total: stats.total,
-        percentage: Math.round((stats.present / stats.total) * 100)
+        percentage: stats.total ? Math.round((stats.present / stats.total) * 100) : 0
       }));
 
       setDepartmentData(deptData);
@@ -147,38 +197,85 @@ const ReportsPage = () => {
     }
   };
 
-  const fetchWeeklyAttendance = async () => {
+  const fetchOvertimeStats = async (startOfMonth: string) => {
+    try {
+      // Weekly overtime needs the whole first week, even the days before the 1st
+      const [attendanceResult, requestsResult, settings] = await Promise.all([
+        supabase
+          .from('attendance')
+          .select('user_id, date, total_hours, regular_hours, overtime_hours')
+          .gte('date', getWeekStart(startOfMonth))
+          .not('total_hours', 'is', null),
+        supabase
+          .from('overtime_requests')
+          .select('status, approved_hours')
+          .in('status', ['PENDING', 'APPROVED'])
+          .gte('date', startOfMonth),
+        getOvertimeSettings()
+      ]);
+
+      if (attendanceResult.error) throw attendanceResult.error;
+      if (requestsResult.error) throw requestsResult.error;
+
+      const daysByEmployee: Record<string, OvertimeDay[]> = {};
+      (attendanceResult.data || []).forEach((day) => {
+        (daysByEmployee[day.user_id] = daysByEmployee[day.user_id] || []).push(day);
+      });
+
+      const recordedHours = Object.values(daysByEmployee).reduce((sum, days) => {
+        const dailyOvertime = summarizeOvertime(days.filter((day) => day.date >= startOfMonth), settings).dailyOvertimeHours;
+        return sum + dailyOvertime + summarizeOvertime(days, settings).weeklyOvertimeHours;
+      }, 0);
+
+      const requests = requestsResult.data || [];
+      setOvertimeStats({
+        recordedHours,
+        approvedHours: requests.reduce((sum, request) => sum + (request.approved_hours || 0), 0),
+        pendingClaims: requests.filter((request) => request.status === 'PENDING').length
+      });
+    } catch (error) {
+      console.error('Error fetching overtime stats:', error);
+    }
+  };
+
+  const fetchWeeklyAttendance = async (calendar: WorkCalendar, employees: ActiveEmployee[], today: string) => {
     try {
       const days = parseInt(selectedPeriod);
-      const endDate = new Date();
-      const startDate = new Date();
-      startDate.setDate(endDate.getDate() - days);
+      const endDate = today;
+      const startDate = addDaysToDate(today, -days);
 
       const { data, error } = await supabase
         .from('attendance')
         .select('date, status, total_hours')
-        .gte('date', startDate.toISOString().split('T')[0])
-        .lte('date', endDate.toISOString().split('T')[0])
+        .gte('date', startDate)
+        .lte('date', endDate)
         .order('date');
 
       if (error) throw error;
 
-      const dailyStats: { [key: string]: { present: number; totalHours: number } } = {};
-      
+      const dailyStats: { [key: string]: { present: number; expected: number; records: { total_hours: number | null }[] } } = {};
+
+      // Every day of the period is charted, with how many people were expected to work
+      eachDate(startDate, endDate).forEach((date) => {
+        dailyStats[date] = {
+          present: 0,
+          expected: employees.filter((employee) => isWorkingDay(calendar, employee, date)).length,
+          records: []
+        };
+      });
+
       data?.forEach((record) => {
-        if (!dailyStats[record.date]) {
-          dailyStats[record.date] = { present: 0, totalHours: 0 };
-        }
-        if (record.status === 'PRESENT') {
+        if (isPresentStatus(record.status) && dailyStats[record.date]) {
           dailyStats[record.date].present++;
-          dailyStats[record.date].totalHours += record.total_hours || 0;
+          dailyStats[record.date].records.push(record);
         }
       });
 
       const chartData = Object.entries(dailyStats).map(([date, stats]) => ({
-        date: new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+        date: formatDate(date, { month: 'short', day: 'numeric' }),
         present: stats.present,
-        avgHours: Math.round((stats.totalHours / stats.present) * 10) / 10 || 0
+        expected: stats.expected,
+        avgHours: Math.round(averageCompletedHours(stats.records) * 10) / 10
       }));
 
       setWeeklyData(chartData);
@@ -187,6 +284,75 @@ const ReportsPage = () => {
     }
   };
 
+  // One line per employee and day over the selected period, with notes and
+  // signed links to attachments that stay valid for a week
+  const handleExport = async () => {
+    setIsExporting(true);
+
+    try {
+      const timezones = await getTimezoneSettings();
+      const today = getLocalToday(timezones.organization);
+      const startDate = addDaysToDate(today, -parseInt(selectedPeriod));
+
+      const { data, error } = await supabase
+        .from('attendance')
+        .select(`
+          date,
+          status,
+          punch_in,
+          punch_out,
+          total_hours,
+          notes,
+          manager_note,
+          employee:profiles!attendance_user_id_fkey (
+            full_name,
+            employee_id,
+            timezone,
+            office_location_id
+          ),
+          attendance_attachments (file_path)
+        `)
+        .gte('date', startDate)
+        .lte('date', today)
+        .order('date');
+
+      if (error) throw error;
+
+      const days = (data || []) as ExportedDay[];
+      const links = await getAttachmentUrls(
+        days.flatMap((day) => day.attendance_attachments.map((attachment) => attachment.file_path))
+      );
+
+      const csv = toCsv(
+        ['Employee ID', 'Employee', 'Date', 'Status', 'Punch In', 'Punch Out', 'Hours', 'Notes', 'Manager Note', 'Attachments'],
+        days.map((day) => {
+          const timeZone = getMemberTimezone(timezones, day.employee);
+          return [
+            day.employee.employee_id,
+            day.employee.full_name,
+            day.date,
+            day.status,
+            day.punch_in ? formatTimeInZone(day.punch_in, timeZone) : '',
+            day.punch_out ? formatTimeInZone(day.punch_out, timeZone) : '',
+            day.total_hours,
+            day.notes,
+            day.manager_note,
+            day.attendance_attachments.map((attachment) => links[attachment.file_path]).filter(Boolean).join(' ')
+          ];
+        })
+      );
+      downloadCsv(`attendance-${startDate}-to-${today}.csv`, csv);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to export attendance',
+        variant: 'destructive'
+      });
+    }
+
+    setIsExporting(false);
+  };
+
   useEffect(() => {
     if (canManageEmployees(profile?.role)) {
       fetchAttendanceStats();
@@ -224,9 +390,9 @@ const ReportsPage = () => {
                 <SelectItem value="30">Last 30 days</SelectItem>
               </SelectContent>
             </Select>
-            <Button variant="outline" className="flex items-center gap-2">
+            <Button variant="outline" onClick={handleExport} disabled={isExporting} className="flex items-center gap-2">
               <Download className="w-4 h-4" />
-              Export
+              {isExporting ? 'Exporting...' : 'Export'}
             </Button>
           </div>
         </div>
@@ -252,7 +418,7 @@ const ReportsPage = () => {
             <CardContent>
               <div className="text-2xl font-bold">{stats.presentToday}</div>
               <p className="text-xs text-muted-foreground">
-                {Math.round((stats.presentToday / stats.totalEmployees) * 100)}% attendance
+                {stats.expectedToday ? Math.round((stats.presentToday / stats.expectedToday) * 100) : 0}% of {stats.expectedToday} expected • {stats.lateToday} late
               </p>
             </CardContent>
           </Card>
@@ -264,7 +430,7 @@ const ReportsPage = () => {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">{stats.avgHoursPerDay.toFixed(1)}h</div>
-              <p className="text-xs text-muted-foreground">Today's average</p>
+              <p className="text-xs text-muted-foreground">Today's average (completed days)</p>
             </CardContent>
           </Card>
 
@@ -280,12 +446,39 @@ const ReportsPage = () => {
           </Card>
         </div>
 
+        {/* Overtime */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Timer className="w-5 h-5" />
+              Overtime This Month
+            </CardTitle>
+            <CardDescription>Hours beyond the daily and weekly thresholds, and what has been approved for payroll</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="text-center p-4 bg-orange-50 rounded-lg">
+                <div className="text-2xl font-bold text-orange-600">{formatHours(overtimeStats.recordedHours)}</div>
+                <div className="text-sm text-gray-600">Recorded Overtime</div>
+              </div>
+              <div className="text-center p-4 bg-green-50 rounded-lg">
+                <div className="text-2xl font-bold text-green-600">{formatHours(overtimeStats.approvedHours)}</div>
+                <div className="text-sm text-gray-600">Approved Overtime</div>
+              </div>
+              <div className="text-center p-4 bg-yellow-50 rounded-lg">
+                <div className="text-2xl font-bold text-yellow-600">{overtimeStats.pendingClaims}</div>
+                <div className="text-sm text-gray-600">Claims Awaiting Review</div>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Charts */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           <Card>
             <CardHeader>
               <CardTitle>Daily Attendance Trend</CardTitle>
-              <CardDescription>Attendance over the selected period</CardDescription>
+              <CardDescription>Present against expected employees over the selected period</CardDescription>
             </CardHeader>
             <CardContent>
               <ResponsiveContainer width="100%" height={300}>
@@ -294,6 +487,7 @@ const ReportsPage = () => {
                   <XAxis dataKey="date" />
                   <YAxis />
                   <Tooltip />
+                  <Bar dataKey="expected" fill="#d1d5db" />
                   <Bar dataKey="present" fill="#8884d8" />
                 </BarChart>
               </ResponsiveContainer>
@@ -340,7 +534,7 @@ const ReportsPage = () => {
                   <div>
                     <div className="font-medium">{dept.department}</div>
                     <div className="text-sm text-gray-600">
-                      {dept.present} of {dept.total} employees present
+                      {dept.present} of {dept.total} expected employees present
                     </div>
                   </div>
                   <Badge variant={dept.percentage >= 80 ? 'default' : dept.percentage >= 60 ? 'secondary' : 'destructive'}>
@@ -0,0 +1,294 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { SlidersHorizontal, CalendarDays, Globe, Timer, ShieldAlert } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import { isAdmin } from '@/lib/auth';
+import { DEFAULT_WEEKLY_OFF_DAYS } from '@/lib/holidays';
+import { DEFAULT_TIMEZONE } from '@/lib/timezone';
+import { DEFAULT_OVERTIME_SETTINGS } from '@/lib/overtime';
+import WeeklyOffDaysPicker from '@/components/holidays/WeeklyOffDaysPicker';
+import TimezoneSelect from './TimezoneSelect';
+
+const OrganizationSettingsPage = () => {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formData, setFormData] = useState({
+    auto_punch_out_time: '23:59',
+    weekly_off_days: DEFAULT_WEEKLY_OFF_DAYS,
+    timezone: DEFAULT_TIMEZONE,
+    daily_overtime_threshold_hours: DEFAULT_OVERTIME_SETTINGS.dailyThresholdHours.toString(),
+    weekly_overtime_threshold_hours: DEFAULT_OVERTIME_SETTINGS.weeklyThresholdHours.toString(),
+    anomaly_max_travel_kmh: '200',
+    anomaly_max_session_hours: '16'
+  });
+
+  const fetchSettings = async () => {
+    setIsLoading(true);
+
+    const { data, error } = await supabase
+      .from('organization_settings')
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch organization settings',
+        variant: 'destructive'
+      });
+    } else if (data) {
+      setFormData({
+        auto_punch_out_time: data.auto_punch_out_time.slice(0, 5),
+        weekly_off_days: data.weekly_off_days,
+        timezone: data.timezone,
+        daily_overtime_threshold_hours: data.daily_overtime_threshold_hours.toString(),
+        weekly_overtime_threshold_hours: data.weekly_overtime_threshold_hours.toString(),
+        anomaly_max_travel_kmh: data.anomaly_max_travel_kmh.toString(),
+        anomaly_max_session_hours: data.anomaly_max_session_hours.toString()
+      });
+    }
+    setIsLoading(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+
+    try {
+      const { error } = await supabase
+        .from('organization_settings')
+        .update({
+          auto_punch_out_time: formData.auto_punch_out_time,
+          weekly_off_days: formData.weekly_off_days,
+          timezone: formData.timezone,
+          daily_overtime_threshold_hours: parseFloat(formData.daily_overtime_threshold_hours),
+          weekly_overtime_threshold_hours: parseFloat(formData.weekly_overtime_threshold_hours),
+          anomaly_max_travel_kmh: parseInt(formData.anomaly_max_travel_kmh),
+          anomaly_max_session_hours: parseFloat(formData.anomaly_max_session_hours)
+        })
+        .eq('id', true);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Success',
+        description: 'Organization settings updated successfully'
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to update organization settings',
+        variant: 'destructive'
+      });
+    }
+
+    setIsSaving(false);
+  };
+
+  useEffect(() => {
+    if (isAdmin(profile?.role)) {
+      fetchSettings();
+    }
+  }, [profile]);
+
+  if (!isAdmin(profile?.role)) {
+    return (
+      <DashboardLayout>
+        <div className="text-center py-8">
+          <p className="text-gray-500">You don't have permission to access this page.</p>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Organization Settings</h1>
+          <p className="text-gray-600 mt-2">Company-wide attendance rules</p>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-8">Loading settings...</div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Globe className="w-5 h-5" />
+                  Timezone
+                </CardTitle>
+                <CardDescription>
+                  Attendance is dated by the local day. Offices and employees use this
+                  timezone unless they set their own.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-2 max-w-xs">
+                  <Label>Default Timezone</Label>
+                  <TimezoneSelect
+                    value={formData.timezone}
+                    onChange={(timezone) => setFormData({ ...formData, timezone })}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <SlidersHorizontal className="w-5 h-5" />
+                  End of Day
+                </CardTitle>
+                <CardDescription>
+                  When the day is closed, open sessions are punched out at this time and
+                  employees with no attendance or approved leave are marked absent.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-2 max-w-xs">
+                  <Label htmlFor="auto_punch_out_time">Auto Punch-Out Time</Label>
+                  <Input
+                    id="auto_punch_out_time"
+                    type="time"
+                    value={formData.auto_punch_out_time}
+                    onChange={(e) => setFormData({ ...formData, auto_punch_out_time: e.target.value })}
+                    required
+                  />
+                  <p className="text-xs text-gray-500">
+                    Sessions started after this time are closed at the same time on the next day.
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <CalendarDays className="w-5 h-5" />
+                  Weekly Off Days
+                </CardTitle>
+                <CardDescription>
+                  Days nobody is expected to work. Departments can override these.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <WeeklyOffDaysPicker
+                  idPrefix="weekly_off"
+                  value={formData.weekly_off_days}
+                  onChange={(weekly_off_days) => setFormData({ ...formData, weekly_off_days })}
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Timer className="w-5 h-5" />
+                  Overtime
+                </CardTitle>
+                <CardDescription>
+                  Hours worked beyond these thresholds count as overtime. Changing the daily
+                  threshold re-splits every recorded day; hours already approved are kept.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 max-w-lg">
+                  <div className="space-y-2">
+                    <Label htmlFor="daily_overtime_threshold_hours">Daily Threshold (hours)</Label>
+                    <Input
+                      id="daily_overtime_threshold_hours"
+                      type="number"
+                      step="0.25"
+                      min="0.25"
+                      max="24"
+                      value={formData.daily_overtime_threshold_hours}
+                      onChange={(e) => setFormData({ ...formData, daily_overtime_threshold_hours: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="weekly_overtime_threshold_hours">Weekly Threshold (hours)</Label>
+                    <Input
+                      id="weekly_overtime_threshold_hours"
+                      type="number"
+                      step="0.25"
+                      min="0.25"
+                      max="168"
+                      value={formData.weekly_overtime_threshold_hours}
+                      onChange={(e) => setFormData({ ...formData, weekly_overtime_threshold_hours: e.target.value })}
+                      required
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-gray-500 mt-2">
+                  Weeks run Monday to Sunday. Weekly overtime only counts hours not already daily overtime.
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <ShieldAlert className="w-5 h-5" />
+                  Anomaly Detection
+                </CardTitle>
+                <CardDescription>
+                  Punches beyond these limits are flagged for review on the Anomalies page.
+                  New limits apply from the next detection run.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 max-w-lg">
+                  <div className="space-y-2">
+                    <Label htmlFor="anomaly_max_travel_kmh">Max Travel Speed (km/h)</Label>
+                    <Input
+                      id="anomaly_max_travel_kmh"
+                      type="number"
+                      step="1"
+                      min="1"
+                      value={formData.anomaly_max_travel_kmh}
+                      onChange={(e) => setFormData({ ...formData, anomaly_max_travel_kmh: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="anomaly_max_session_hours">Max Session Length (hours)</Label>
+                    <Input
+                      id="anomaly_max_session_hours"
+                      type="number"
+                      step="0.5"
+                      min="0.5"
+                      max="999"
+                      value={formData.anomaly_max_session_hours}
+                      onChange={(e) => setFormData({ ...formData, anomaly_max_session_hours: e.target.value })}
+                      required
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-gray-500 mt-2">
+                  Travel speed is measured between consecutive punches on the same day.
+                </p>
+              </CardContent>
+            </Card>
+
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Save Settings'}
+            </Button>
+          </form>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default OrganizationSettingsPage;
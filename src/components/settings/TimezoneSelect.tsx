@@ -0,0 +1,38 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DEFAULT_TIMEZONE, getTimezoneOptions } from '@/lib/timezone';
+
+// Select items cannot have an empty value, so "no override" uses a sentinel
+export const INHERIT_TIMEZONE = 'default';
+
+interface TimezoneSelectProps {
+  value: string;
+  onChange: (timeZone: string) => void;
+  // Label for the "no override" option; without it a zone must be picked
+  inheritLabel?: string;
+}
+
+const TimezoneSelect = ({ value, onChange, inheritLabel }: TimezoneSelectProps) => {
+  // Some browsers leave UTC out of their list, and a saved zone must always show
+  const options = Array.from(new Set([DEFAULT_TIMEZONE, ...getTimezoneOptions()]));
+  if (value !== INHERIT_TIMEZONE && !options.includes(value)) {
+    options.unshift(value);
+  }
+
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {inheritLabel && <SelectItem value={INHERIT_TIMEZONE}>{inheritLabel}</SelectItem>}
+        {options.map((timeZone) => (
+          <SelectItem key={timeZone} value={timeZone}>
+            {timeZone.replace(/_/g, ' ')}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default TimezoneSelect;
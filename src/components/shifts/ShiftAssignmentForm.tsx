@@ -0,0 +1,201 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Shift } from '@/lib/shifts';
+
+interface Employee {
+  id: string;
+  full_name: string;
+  employee_id: string;
+}
+
+interface Department {
+  id: string;
+  name: string;
+}
+
+interface ShiftAssignmentFormProps {
+  shifts: Shift[];
+  onSuccess: () => void;
+  onCancel: () => void;
+}
+
+const ShiftAssignmentForm = ({ shifts, onSuccess, onCancel }: ShiftAssignmentFormProps) => {
+  const { toast } = useToast();
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [formData, setFormData] = useState({
+    shift_id: '',
+    target_type: 'department' as 'department' | 'employee',
+    target_id: '',
+    effective_from: new Date().toISOString().split('T')[0],
+    effective_to: ''
+  });
+
+  const fetchTargets = async () => {
+    const { data: employeeData } = await supabase
+      .from('profiles')
+      .select('id, full_name, employee_id')
+      .eq('is_active', true)
+      .order('full_name');
+
+    const { data: departmentData } = await supabase
+      .from('departments')
+      .select('id, name')
+      .order('name');
+
+    setEmployees(employeeData || []);
+    setDepartments(departmentData || []);
+  };
+
+  useEffect(() => {
+    fetchTargets();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    try {
+      const { error } = await supabase
+        .from('shift_assignments')
+        .insert({
+          shift_id: formData.shift_id,
+          user_id: formData.target_type === 'employee' ? formData.target_id : null,
+          department_id: formData.target_type === 'department' ? formData.target_id : null,
+          effective_from: formData.effective_from,
+          effective_to: formData.effective_to || null
+        });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Success',
+        description: 'Shift assigned successfully'
+      });
+
+      onSuccess();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to assign shift',
+        variant: 'destructive'
+      });
+    }
+
+    setIsLoading(false);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Assign Shift</h1>
+        <p className="text-gray-600 mt-2">Assign a shift to an employee or a whole department</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Assignment Details</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="shift">Shift</Label>
+                <Select value={formData.shift_id} onValueChange={(value) => setFormData({ ...formData, shift_id: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select shift" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {shifts.map((shift) => (
+                      <SelectItem key={shift.id} value={shift.id}>
+                        {shift.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="target_type">Assign To</Label>
+                <Select
+                  value={formData.target_type}
+                  onValueChange={(value) => setFormData({ ...formData, target_type: value as 'department' | 'employee', target_id: '' })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="department">Department</SelectItem>
+                    <SelectItem value="employee">Employee</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="target">{formData.target_type === 'employee' ? 'Employee' : 'Department'}</Label>
+                <Select value={formData.target_id} onValueChange={(value) => setFormData({ ...formData, target_id: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={`Select ${formData.target_type}`} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {formData.target_type === 'employee'
+                      ? employees.map((employee) => (
+                          <SelectItem key={employee.id} value={employee.id}>
+                            {employee.full_name} ({employee.employee_id})
+                          </SelectItem>
+                        ))
+                      : departments.map((dept) => (
+                          <SelectItem key={dept.id} value={dept.id}>
+                            {dept.name}
+                          </SelectItem>
+                        ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="effective_from">Effective From</Label>
+                <Input
+                  id="effective_from"
+                  type="date"
+                  value={formData.effective_from}
+                  onChange={(e) => setFormData({ ...formData, effective_from: e.target.value })}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="effective_to">Effective To</Label>
+                <Input
+                  id="effective_to"
+                  type="date"
+                  value={formData.effective_to}
+                  onChange={(e) => setFormData({ ...formData, effective_to: e.target.value })}
+                  min={formData.effective_from}
+                />
+              </div>
+            </div>
+
+            <div className="flex gap-4 pt-4">
+              <Button type="submit" disabled={isLoading || !formData.shift_id || !formData.target_id}>
+                {isLoading ? 'Saving...' : 'Assign Shift'}
+              </Button>
+              <Button type="button" variant="outline" onClick={onCancel}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ShiftAssignmentForm;
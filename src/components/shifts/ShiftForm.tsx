@@ -0,0 +1,241 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Shift, formatShiftTime } from '@/lib/shifts';
+
+interface ShiftFormProps {
+  shift?: Shift | null;
+  onSuccess: () => void;
+  onCancel: () => void;
+}
+
+const ShiftForm = ({ shift, onSuccess, onCancel }: ShiftFormProps) => {
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(false);
+  const [formData, setFormData] = useState({
+    name: '',
+    start_time: '09:00',
+    end_time: '18:00',
+    grace_minutes: '10',
+    early_leave_grace_minutes: '0',
+    min_full_day_hours: '8',
+    unpaid_break_minutes: '0',
+    is_default: false
+  });
+
+  useEffect(() => {
+    if (shift) {
+      setFormData({
+        name: shift.name,
+        start_time: formatShiftTime(shift.start_time),
+        end_time: formatShiftTime(shift.end_time),
+        grace_minutes: shift.grace_minutes.toString(),
+        early_leave_grace_minutes: shift.early_leave_grace_minutes.toString(),
+        min_full_day_hours: shift.min_full_day_hours.toString(),
+        unpaid_break_minutes: shift.unpaid_break_minutes.toString(),
+        is_default: shift.is_default
+      });
+    }
+  }, [shift]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    try {
+      const submitData = {
+        name: formData.name,
+        start_time: formData.start_time,
+        end_time: formData.end_time,
+        grace_minutes: parseInt(formData.grace_minutes) || 0,
+        early_leave_grace_minutes: parseInt(formData.early_leave_grace_minutes) || 0,
+        min_full_day_hours: parseFloat(formData.min_full_day_hours),
+        unpaid_break_minutes: parseInt(formData.unpaid_break_minutes) || 0,
+        is_default: formData.is_default
+      };
+
+      if (submitData.is_default) {
+        // Only one default shift is allowed, so clear the flag on any other shift first
+        let clearQuery = supabase
+          .from('shifts')
+          .update({ is_default: false })
+          .eq('is_default', true);
+
+        if (shift) {
+          clearQuery = clearQuery.neq('id', shift.id);
+        }
+
+        const { error: clearError } = await clearQuery;
+        if (clearError) throw clearError;
+      }
+
+      if (shift) {
+        const { error } = await supabase
+          .from('shifts')
+          .update(submitData)
+          .eq('id', shift.id);
+
+        if (error) throw error;
+
+        toast({
+          title: 'Success',
+          description: 'Shift updated successfully'
+        });
+      } else {
+        const { error } = await supabase
+          .from('shifts')
+          .insert(submitData);
+
+        if (error) throw error;
+
+        toast({
+          title: 'Success',
+          description: 'Shift created successfully'
+        });
+      }
+
+      onSuccess();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to save shift',
+        variant: 'destructive'
+      });
+    }
+
+    setIsLoading(false);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">
+          {shift ? 'Edit Shift' : 'Add New Shift'}
+        </h1>
+        <p className="text-gray-600 mt-2">
+          {shift ? 'Update shift timings and rules' : 'Define a new working shift'}
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Shift Information</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="name">Shift Name</Label>
+              <Input
+                id="name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g. General, Night"
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="start_time">Start Time</Label>
+                <Input
+                  id="start_time"
+                  type="time"
+                  value={formData.start_time}
+                  onChange={(e) => setFormData({ ...formData, start_time: e.target.value })}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="end_time">End Time</Label>
+                <Input
+                  id="end_time"
+                  type="time"
+                  value={formData.end_time}
+                  onChange={(e) => setFormData({ ...formData, end_time: e.target.value })}
+                  required
+                />
+                <p className="text-xs text-gray-500">An end time before the start time means the shift ends the next day.</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="grace_minutes">Late Grace (minutes)</Label>
+                <Input
+                  id="grace_minutes"
+                  type="number"
+                  min="0"
+                  value={formData.grace_minutes}
+                  onChange={(e) => setFormData({ ...formData, grace_minutes: e.target.value })}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="early_leave_grace_minutes">Early Leave Grace (minutes)</Label>
+                <Input
+                  id="early_leave_grace_minutes"
+                  type="number"
+                  min="0"
+                  value={formData.early_leave_grace_minutes}
+                  onChange={(e) => setFormData({ ...formData, early_leave_grace_minutes: e.target.value })}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="min_full_day_hours">Minimum Hours for Full Day</Label>
+                <Input
+                  id="min_full_day_hours"
+                  type="number"
+                  min="0.5"
+                  step="0.5"
+                  value={formData.min_full_day_hours}
+                  onChange={(e) => setFormData({ ...formData, min_full_day_hours: e.target.value })}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="unpaid_break_minutes">Unpaid Break (minutes)</Label>
+                <Input
+                  id="unpaid_break_minutes"
+                  type="number"
+                  min="0"
+                  value={formData.unpaid_break_minutes}
+                  onChange={(e) => setFormData({ ...formData, unpaid_break_minutes: e.target.value })}
+                  required
+                />
+                <p className="text-xs text-gray-500">Deducted from worked hours on every completed day.</p>
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="is_default"
+                checked={formData.is_default}
+                onCheckedChange={(checked) => setFormData({ ...formData, is_default: checked })}
+              />
+              <Label htmlFor="is_default">Default shift for employees without an assignment</Label>
+            </div>
+
+            <div className="flex gap-4 pt-4">
+              <Button type="submit" disabled={isLoading}>
+                {isLoading ? 'Saving...' : shift ? 'Update Shift' : 'Create Shift'}
+              </Button>
+              <Button type="button" variant="outline" onClick={onCancel}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ShiftForm;
@@ -0,0 +1,313 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { CalendarClock, Plus, Edit, Trash2, UserCheck } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import { isAdmin } from '@/lib/auth';
+import { Shift, formatShiftTime } from '@/lib/shifts';
+import { formatDate } from '@/lib/timezone';
+import ShiftForm from './ShiftForm';
+import ShiftAssignmentForm from './ShiftAssignmentForm';
+
+interface ShiftAssignment {
+  id: string;
+  effective_from: string;
+  effective_to: string | null;
+  shifts: {
+    name: string;
+  } | null;
+  profiles: {
+    full_name: string;
+    employee_id: string;
+  } | null;
+  departments: {
+    name: string;
+  } | null;
+}
+
+const ShiftsPage = () => {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const [shifts, setShifts] = useState<Shift[]>([]);
+  const [assignments, setAssignments] = useState<ShiftAssignment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [showAssignmentForm, setShowAssignmentForm] = useState(false);
+  const [editingShift, setEditingShift] = useState<Shift | null>(null);
+
+  const fetchShifts = async () => {
+    setIsLoading(true);
+
+    const { data, error } = await supabase
+      .from('shifts')
+      .select('*')
+      .order('start_time');
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch shifts',
+        variant: 'destructive'
+      });
+    } else {
+      setShifts(data || []);
+    }
+
+    const { data: assignmentData, error: assignmentError } = await supabase
+      .from('shift_assignments')
+      .select(`
+        id,
+        effective_from,
+        effective_to,
+        shifts (name),
+        profiles (full_name, employee_id),
+        departments (name)
+      `)
+      .order('effective_from', { ascending: false });
+
+    if (assignmentError) {
+      console.error('Error fetching shift assignments:', assignmentError);
+    } else {
+      setAssignments(assignmentData || []);
+    }
+
+    setIsLoading(false);
+  };
+
+  const handleDeleteShift = async (shiftId: string) => {
+    if (!confirm('Are you sure you want to delete this shift? Its assignments will be removed too.')) return;
+
+    const { error } = await supabase
+      .from('shifts')
+      .delete()
+      .eq('id', shiftId);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to delete shift',
+        variant: 'destructive'
+      });
+    } else {
+      toast({
+        title: 'Success',
+        description: 'Shift deleted successfully'
+      });
+      fetchShifts();
+    }
+  };
+
+  const handleDeleteAssignment = async (assignmentId: string) => {
+    if (!confirm('Are you sure you want to remove this assignment?')) return;
+
+    const { error } = await supabase
+      .from('shift_assignments')
+      .delete()
+      .eq('id', assignmentId);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to remove assignment',
+        variant: 'destructive'
+      });
+    } else {
+      fetchShifts();
+    }
+  };
+
+  const handleFormSuccess = () => {
+    setShowForm(false);
+    setShowAssignmentForm(false);
+    setEditingShift(null);
+    fetchShifts();
+  };
+
+  useEffect(() => {
+    if (isAdmin(profile?.role)) {
+      fetchShifts();
+    }
+  }, [profile]);
+
+  if (!isAdmin(profile?.role)) {
+    return (
+      <DashboardLayout>
+        <div className="text-center py-8">
+          <p className="text-gray-500">You don't have permission to access this page.</p>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (showForm || editingShift) {
+    return (
+      <DashboardLayout>
+        <ShiftForm
+          shift={editingShift}
+          onSuccess={handleFormSuccess}
+          onCancel={() => {
+            setShowForm(false);
+            setEditingShift(null);
+          }}
+        />
+      </DashboardLayout>
+    );
+  }
+
+  if (showAssignmentForm) {
+    return (
+      <DashboardLayout>
+        <ShiftAssignmentForm
+          shifts={shifts}
+          onSuccess={handleFormSuccess}
+          onCancel={() => setShowAssignmentForm(false)}
+        />
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Shift Schedules</h1>
+            <p className="text-gray-600 mt-2">Define shifts and assign them to employees or departments</p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setShowAssignmentForm(true)} disabled={shifts.length === 0} className="flex items-center gap-2">
+              <UserCheck className="w-4 h-4" />
+              Assign Shift
+            </Button>
+            <Button onClick={() => setShowForm(true)} className="flex items-center gap-2">
+              <Plus className="w-4 h-4" />
+              Add Shift
+            </Button>
+          </div>
+        </div>
+
+        {/* Shifts Grid */}
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {isLoading ? (
+            <div className="col-span-full text-center py-8">Loading shifts...</div>
+          ) : shifts.length === 0 ? (
+            <div className="col-span-full text-center py-8 text-gray-500">
+              No shifts defined
+            </div>
+          ) : (
+            shifts.map((shift) => (
+              <Card key={shift.id} className="hover:shadow-md transition-shadow">
+                <CardHeader>
+                  <div className="flex items-start justify-between">
+                    <div className="flex items-center gap-3">
+                      <div className="w-12 h-12 bg-blue-500 rounded-lg flex items-center justify-center">
+                        <CalendarClock className="w-6 h-6 text-white" />
+                      </div>
+                      <div>
+                        <CardTitle className="text-lg flex items-center gap-2">
+                          {shift.name}
+                          {shift.is_default && <Badge variant="secondary">Default</Badge>}
+                        </CardTitle>
+                        <CardDescription className="mt-1">
+                          {formatShiftTime(shift.start_time)} - {formatShiftTime(shift.end_time)}
+                        </CardDescription>
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setEditingShift(shift)}
+                      >
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleDeleteShift(shift.id)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-2 text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Late grace</span>
+                      <span>{shift.grace_minutes} min</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Early leave grace</span>
+                      <span>{shift.early_leave_grace_minutes} min</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Full day minimum</span>
+                      <span>{shift.min_full_day_hours}h</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Unpaid break</span>
+                      <span>{shift.unpaid_break_minutes} min</span>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </div>
+
+        {/* Assignments */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <UserCheck className="w-5 h-5" />
+              Shift Assignments
+            </CardTitle>
+            <CardDescription>Employee assignments take precedence over department assignments</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {assignments.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">
+                No shift assignments
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {assignments.map((assignment) => (
+                  <div key={assignment.id} className="flex items-center justify-between p-3 border rounded-lg">
+                    <div>
+                      <div className="font-medium">
+                        {assignment.profiles
+                          ? `${assignment.profiles.full_name} (${assignment.profiles.employee_id})`
+                          : assignment.departments?.name}
+                      </div>
+                      <div className="text-sm text-gray-600">
+                        {formatDate(assignment.effective_from)} - {assignment.effective_to ? formatDate(assignment.effective_to) : 'Ongoing'}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <Badge variant="outline">{assignment.profiles ? 'Employee' : 'Department'}</Badge>
+                      <Badge className="bg-blue-100 text-blue-800">{assignment.shifts?.name}</Badge>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleDeleteAssignment(assignment.id)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default ShiftsPage;
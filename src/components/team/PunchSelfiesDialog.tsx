@@ -0,0 +1,72 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Camera } from 'lucide-react';
+import { getSelfieUrls } from '@/lib/selfies';
+
+export interface SelfieSession {
+  punch_in: string;
+  punch_out: string | null;
+  selfie_in_path: string | null;
+  selfie_out_path: string | null;
+}
+
+interface PunchSelfiesDialogProps {
+  name: string;
+  sessions: SelfieSession[];
+  formatTime: (timeString: string | null) => string;
+}
+
+// Links are only signed once the dialog is opened
+const PunchSelfiesDialog = ({ name, sessions, formatTime }: PunchSelfiesDialogProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [urls, setUrls] = useState<Record<string, string>>({});
+
+  const photos = [...sessions]
+    .sort((a, b) => a.punch_in.localeCompare(b.punch_in))
+    .flatMap((session) => [
+      session.selfie_in_path && { path: session.selfie_in_path, label: `In ${formatTime(session.punch_in)}` },
+      session.selfie_out_path && { path: session.selfie_out_path, label: `Out ${formatTime(session.punch_out)}` }
+    ])
+    .filter((photo): photo is { path: string; label: string } => !!photo);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    getSelfieUrls(photos.map((photo) => photo.path))
+      .then(setUrls)
+      .catch((error) => console.error('Error signing punch photos:', error));
+  }, [isOpen]);
+
+  if (photos.length === 0) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="ghost" title="Punch photos">
+          <Camera className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{name}</DialogTitle>
+          <DialogDescription>Photos taken at today's punches</DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-2 gap-4">
+          {photos.map((photo) => (
+            <figure key={photo.path} className="space-y-1">
+              {urls[photo.path] ? (
+                <img src={urls[photo.path]} alt={photo.label} className="w-full rounded-lg aspect-video object-cover" />
+              ) : (
+                <div className="w-full rounded-lg aspect-video bg-gray-100" />
+              )}
+              <figcaption className="text-sm text-gray-600 text-center">{photo.label}</figcaption>
+            </figure>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PunchSelfiesDialog;
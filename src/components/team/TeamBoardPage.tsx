@@ -0,0 +1,383 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useClosedMonths } from '@/hooks/useClosedMonths';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MapPin, Radio, UserCheck } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import ClosedPeriodBadge from '@/components/periods/ClosedPeriodBadge';
+import PunchSelfiesDialog, { SelfieSession } from './PunchSelfiesDialog';
+import { canManageEmployees } from '@/lib/auth';
+import { AttendanceStatus, ATTENDANCE_STATUS_COLORS, formatAttendanceStatus } from '@/lib/attendance';
+import { WorkCalendar, getWorkCalendar, isWorkingDay } from '@/lib/holidays';
+import { isDateInClosedMonth } from '@/lib/periods';
+import { TimezoneSettings, formatTimeInZone, getLocalToday, getMemberTimezone, getTimezoneSettings } from '@/lib/timezone';
+
+interface TeamMember {
+  id: string;
+  full_name: string;
+  employee_id: string;
+  department_id: string | null;
+  office_location_id: string | null;
+  timezone: string | null;
+  departments: {
+    name: string;
+  } | null;
+}
+
+interface TodayAttendance {
+  user_id: string;
+  date: string;
+  punch_in: string | null;
+  punch_out: string | null;
+  status: AttendanceStatus | null;
+  late_minutes: number;
+  outside_geofence: boolean;
+  office_location_in: { name: string } | null;
+  attendance_sessions: SelfieSession[];
+}
+
+interface TodayLeave {
+  user_id: string;
+  leave_type: string;
+  start_date: string;
+  end_date: string;
+}
+
+type Presence = 'IN' | 'OUT' | 'NOT_IN' | 'ABSENT' | 'ON_LEAVE' | 'OFF';
+
+const PRESENCE_LABELS: Record<Presence, string> = {
+  IN: 'In now',
+  OUT: 'Checked out',
+  NOT_IN: 'Not in yet',
+  ABSENT: 'Absent',
+  ON_LEAVE: 'On leave',
+  OFF: 'Day off'
+};
+
+const PRESENCE_COLORS: Record<Presence, string> = {
+  IN: 'bg-green-100 text-green-800',
+  OUT: 'bg-blue-100 text-blue-800',
+  NOT_IN: 'bg-yellow-100 text-yellow-800',
+  ABSENT: 'bg-red-100 text-red-800',
+  ON_LEAVE: 'bg-purple-100 text-purple-800',
+  OFF: 'bg-gray-100 text-gray-800'
+};
+
+// Select items cannot have an empty value, so "every department" uses a sentinel
+const ALL_DEPARTMENTS = 'all';
+
+const TeamBoardPage = () => {
+  const { profile } = useAuth();
+  const closedMonths = useClosedMonths();
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [attendance, setAttendance] = useState<TodayAttendance[]>([]);
+  const [leaves, setLeaves] = useState<TodayLeave[]>([]);
+  const [calendar, setCalendar] = useState<WorkCalendar | null>(null);
+  const [timezones, setTimezones] = useState<TimezoneSettings | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLive, setIsLive] = useState(false);
+  const [search, setSearch] = useState('');
+  const [departmentFilter, setDepartmentFilter] = useState(ALL_DEPARTMENTS);
+
+  // Team members can be in different timezones, so "today" is worked out per member
+  const getMemberToday = (settings: TimezoneSettings, member: TeamMember) =>
+    getLocalToday(getMemberTimezone(settings, member));
+
+  const getTodayDates = (settings: TimezoneSettings, teamMembers: TeamMember[]) =>
+    Array.from(new Set(teamMembers.map((member) => getMemberToday(settings, member))));
+
+  const fetchTodayAttendance = async (memberIds: string[], dates: string[]) => {
+    if (memberIds.length === 0) return;
+
+    const { data, error } = await supabase
+      .from('attendance')
+      .select(`
+        user_id,
+        date,
+        punch_in,
+        punch_out,
+        status,
+        late_minutes,
+        outside_geofence,
+        office_location_in:office_locations!attendance_location_in_id_fkey (name),
+        attendance_sessions (punch_in, punch_out, selfie_in_path, selfie_out_path)
+      `)
+      .in('date', dates)
+      .in('user_id', memberIds);
+
+    if (error) {
+      console.error('Error fetching team attendance:', error);
+    } else {
+      setAttendance(data || []);
+    }
+  };
+
+  const fetchTeam = async () => {
+    setIsLoading(true);
+
+    try {
+      // Who counts as "my team" is decided in the database
+      const { data: memberIds, error: idsError } = await supabase.rpc('get_team_member_ids');
+      if (idsError) throw idsError;
+
+      const ids = memberIds || [];
+      if (ids.length === 0) {
+        setMembers([]);
+        setIsLoading(false);
+        return;
+      }
+
+      const [membersResult, workCalendar, timezoneSettings] = await Promise.all([
+        supabase
+          .from('profiles')
+          .select('id, full_name, employee_id, department_id, office_location_id, timezone, departments (name)')
+          .in('id', ids)
+          .order('full_name'),
+        getWorkCalendar(),
+        getTimezoneSettings()
+      ]);
+
+      if (membersResult.error) throw membersResult.error;
+
+      const teamMembers = membersResult.data || [];
+      const dates = getTodayDates(timezoneSettings, teamMembers).sort();
+
+      const [leavesResult] = await Promise.all([
+        supabase
+          .from('leave_requests')
+          .select('user_id, leave_type, start_date, end_date')
+          .eq('status', 'APPROVED')
+          .lte('start_date', dates[dates.length - 1])
+          .gte('end_date', dates[0])
+          .in('user_id', ids),
+        fetchTodayAttendance(ids, dates)
+      ]);
+
+      if (leavesResult.error) throw leavesResult.error;
+
+      setMembers(teamMembers);
+      setLeaves(leavesResult.data || []);
+      setCalendar(workCalendar);
+      setTimezones(timezoneSettings);
+    } catch (error) {
+      console.error('Error fetching team:', error);
+    }
+
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    if (canManageEmployees(profile?.role)) {
+      fetchTeam();
+    }
+  }, [profile]);
+
+  // Refresh the board whenever a team member's attendance for today changes
+  useEffect(() => {
+    if (members.length === 0 || !timezones) return;
+
+    const memberIds = members.map((member) => member.id);
+    const dates = getTodayDates(timezones, members);
+    const channel = supabase
+      .channel('team-board-attendance')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'attendance', filter: `date=in.(${dates.join(',')})` },
+        (payload) => {
+          const changed = (payload.new || payload.old) as { user_id?: string };
+          if (changed.user_id && memberIds.includes(changed.user_id)) {
+            fetchTodayAttendance(memberIds, dates);
+          }
+        }
+      )
+      .subscribe((status) => setIsLive(status === 'SUBSCRIBED'));
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [members, timezones]);
+
+  if (!canManageEmployees(profile?.role)) {
+    return (
+      <DashboardLayout>
+        <div className="text-center py-8">
+          <p className="text-gray-500">You don't have permission to access this page.</p>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  const getPresence = (member: TeamMember, today: string, record?: TodayAttendance): Presence => {
+    if (record?.punch_in && !record.punch_out) return 'IN';
+    if (record?.punch_out) return 'OUT';
+    if (record?.status === 'ABSENT') return 'ABSENT';
+    if (leaves.some((leave) => leave.user_id === member.id && leave.start_date <= today && leave.end_date >= today)) {
+      return 'ON_LEAVE';
+    }
+    if (calendar && !isWorkingDay(calendar, member, today)) return 'OFF';
+    return 'NOT_IN';
+  };
+
+  // Punch times are shown on the team member's own clock
+  const formatTime = (timeString: string | null | undefined, member: TeamMember) =>
+    formatTimeInZone(timeString, timezones && getMemberTimezone(timezones, member));
+
+  const departments = Array.from(
+    new Map(
+      members
+        .filter((member) => member.department_id)
+        .map((member) => [member.department_id as string, member.departments?.name || 'Unknown'])
+    )
+  );
+
+  const rows = members
+    .filter((member) => departmentFilter === ALL_DEPARTMENTS || member.department_id === departmentFilter)
+    .filter((member) =>
+      !search ||
+      member.full_name.toLowerCase().includes(search.toLowerCase()) ||
+      member.employee_id.toLowerCase().includes(search.toLowerCase())
+    )
+    .map((member) => {
+      const today = timezones ? getMemberToday(timezones, member) : '';
+      const record = attendance.find((a) => a.user_id === member.id && a.date === today);
+      return { member, record, presence: getPresence(member, today, record) };
+    });
+
+  const presenceCounts = rows.reduce((counts, row) => {
+    counts[row.presence] = (counts[row.presence] || 0) + 1;
+    return counts;
+  }, {} as Partial<Record<Presence, number>>);
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Team Board</h1>
+            <p className="text-gray-600 mt-2">Who on your team is in right now</p>
+          </div>
+          <Badge className={isLive ? 'bg-green-100 text-green-800 flex items-center gap-1' : 'bg-gray-100 text-gray-800 flex items-center gap-1'}>
+            <Radio className="w-3 h-3" />
+            {isLive ? 'Live' : 'Connecting...'}
+          </Badge>
+        </div>
+
+        {/* Summary */}
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+          {(Object.keys(PRESENCE_LABELS) as Presence[]).map((presence) => (
+            <Card key={presence}>
+              <CardContent className="pt-6">
+                <div className="text-2xl font-bold">{presenceCounts[presence] || 0}</div>
+                <p className="text-xs text-muted-foreground">{PRESENCE_LABELS[presence]}</p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <UserCheck className="w-5 h-5" />
+                  Today
+                </CardTitle>
+                <CardDescription>Updates as team members punch in and out</CardDescription>
+              </div>
+              <div className="flex gap-4">
+                <Input
+                  placeholder="Search by name or ID"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  className="w-56"
+                />
+                {departments.length > 1 && (
+                  <Select value={departmentFilter} onValueChange={setDepartmentFilter}>
+                    <SelectTrigger className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_DEPARTMENTS}>All departments</SelectItem>
+                      {departments.map(([id, name]) => (
+                        <SelectItem key={id} value={id}>
+                          {name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="text-center py-8">Loading team...</div>
+            ) : rows.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">
+                No team members found
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {rows.map(({ member, record, presence }) => (
+                  <div key={member.id} className="flex items-center justify-between p-3 border rounded-lg">
+                    <div className="flex items-center gap-4">
+                      <div className="w-10 h-10 bg-blue-500 rounded-full flex items-center justify-center">
+                        <span className="text-white font-semibold">
+                          {member.full_name.charAt(0)}
+                        </span>
+                      </div>
+                      <div>
+                        <div className="font-medium">{member.full_name}</div>
+                        <div className="text-sm text-gray-600">
+                          {member.departments?.name || 'No Department'} • ID: {member.employee_id}
+                        </div>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-4 text-sm text-gray-600">
+                      {record?.outside_geofence ? (
+                        <Badge className="bg-red-100 text-red-800 flex items-center gap-1">
+                          <MapPin className="w-3 h-3" />
+                          Outside geofence
+                        </Badge>
+                      ) : record?.office_location_in && (
+                        <span className="flex items-center gap-1">
+                          <MapPin className="w-4 h-4" />
+                          {record.office_location_in.name}
+                        </span>
+                      )}
+                      <span>In: {formatTime(record?.punch_in, member)}</span>
+                      <span>Out: {formatTime(record?.punch_out, member)}</span>
+                      {record?.status && record.status !== 'ABSENT' && (
+                        <Badge className={ATTENDANCE_STATUS_COLORS[record.status]}>
+                          {formatAttendanceStatus(record.status)}
+                          {record.late_minutes > 0 && ` • ${record.late_minutes} min`}
+                        </Badge>
+                      )}
+                      {record && (
+                        <PunchSelfiesDialog
+                          name={member.full_name}
+                          sessions={record.attendance_sessions}
+                          formatTime={(timeString) => formatTime(timeString, member)}
+                        />
+                      )}
+                      {record && isDateInClosedMonth(closedMonths, record.date) && <ClosedPeriodBadge />}
+                      <Badge className={PRESENCE_COLORS[presence]}>
+                        {PRESENCE_LABELS[presence]}
+                      </Badge>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default TeamBoardPage;
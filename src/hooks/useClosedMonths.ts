@@ -0,0 +1,23 @@
+import { useState, useEffect } from 'react';
+import { getClosedMonths } from '@/lib/periods';
+
+/**
+ * Months HR has closed for payroll, as 'YYYY-MM'. Rows dated in them are
+ * read-only, so views mark them and hide actions that would change them.
+ */
+export const useClosedMonths = () => {
+  const [closedMonths, setClosedMonths] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    let cancelled = false;
+    getClosedMonths().then((months) => {
+      if (!cancelled) setClosedMonths(months);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return closedMonths;
+};
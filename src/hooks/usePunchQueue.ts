@@ -0,0 +1,64 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { syncQueuedPunches } from '@/lib/punch';
+import {
+  PUNCH_QUEUE_EVENT,
+  QueuedPunch,
+  getQueuedPunches,
+  removeQueuedPunch,
+  updateQueuedPunch
+} from '@/lib/punchQueue';
+
+// The browser can think it is online while requests still fail, so queued punches are retried on a timer too
+const SYNC_INTERVAL_MS = 60 * 1000;
+
+/**
+ * The signed-in employee's punches that are still waiting to reach the
+ * server. Syncing starts whenever the connection comes back.
+ */
+export const usePunchQueue = () => {
+  const { profile } = useAuth();
+  const [punches, setPunches] = useState<QueuedPunch[]>([]);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+
+  useEffect(() => {
+    if (!profile) return;
+
+    const refresh = () => {
+      getQueuedPunches(profile.id)
+        .then(setPunches)
+        .catch((error) => console.error('Error reading queued punches:', error));
+    };
+
+    const sync = () => {
+      setIsOnline(navigator.onLine);
+      syncQueuedPunches(profile).catch((error) => console.error('Error syncing queued punches:', error));
+    };
+
+    const goOffline = () => setIsOnline(false);
+
+    refresh();
+    sync();
+    const timer = window.setInterval(sync, SYNC_INTERVAL_MS);
+    window.addEventListener(PUNCH_QUEUE_EVENT, refresh);
+    window.addEventListener('online', sync);
+    window.addEventListener('offline', goOffline);
+
+    return () => {
+      window.clearInterval(timer);
+      window.removeEventListener(PUNCH_QUEUE_EVENT, refresh);
+      window.removeEventListener('online', sync);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, [profile]);
+
+  const retry = async (punch: QueuedPunch) => {
+    if (!profile) return;
+    await updateQueuedPunch({ ...punch, status: 'PENDING', message: undefined });
+    await syncQueuedPunches(profile);
+  };
+
+  const discard = (punch: QueuedPunch) => removeQueuedPunch(punch.id);
+
+  return { punches, isOnline, retry, discard };
+};
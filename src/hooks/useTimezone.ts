@@ -0,0 +1,27 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { getUserTimezone } from '@/lib/timezone';
+
+/**
+ * The signed-in employee's timezone, or null until it has been resolved.
+ * Attendance dates and times shown to the employee are all in this zone.
+ */
+export const useTimezone = () => {
+  const { profile } = useAuth();
+  const [timeZone, setTimeZone] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!profile) return;
+
+    let cancelled = false;
+    getUserTimezone(profile).then((zone) => {
+      if (!cancelled) setTimeZone(zone);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [profile]);
+
+  return timeZone;
+};
@@ -11,48 +11,109 @@ export type Database = {
     Tables: {
       attendance: {
         Row: {
+          auto_closed: boolean
           created_at: string | null
           date: string
           id: string
+          late_minutes: number
           location_in: string | null
+          location_in_id: string | null
           location_out: string | null
+          location_out_id: string | null
+          manager_note: string | null
+          manager_note_at: string | null
+          manager_note_by: string | null
           notes: string | null
+          outside_geofence: boolean
+          overtime_hours: number
           punch_in: string | null
           punch_out: string | null
+          regular_hours: number | null
+          shift_id: string | null
           status: Database["public"]["Enums"]["attendance_status"] | null
           total_hours: number | null
           updated_at: string | null
           user_id: string
         }
         Insert: {
+          auto_closed?: boolean
           created_at?: string | null
           date?: string
           id?: string
+          late_minutes?: number
           location_in?: string | null
+          location_in_id?: string | null
           location_out?: string | null
+          location_out_id?: string | null
+          manager_note?: string | null
+          manager_note_at?: string | null
+          manager_note_by?: string | null
           notes?: string | null
+          outside_geofence?: boolean
+          overtime_hours?: number
           punch_in?: string | null
           punch_out?: string | null
+          regular_hours?: number | null
+          shift_id?: string | null
           status?: Database["public"]["Enums"]["attendance_status"] | null
           total_hours?: number | null
           updated_at?: string | null
           user_id: string
         }
         Update: {
+          auto_closed?: boolean
           created_at?: string | null
           date?: string
           id?: string
+          late_minutes?: number
           location_in?: string | null
+          location_in_id?: string | null
           location_out?: string | null
+          location_out_id?: string | null
+          manager_note?: string | null
+          manager_note_at?: string | null
+          manager_note_by?: string | null
           notes?: string | null
+          outside_geofence?: boolean
+          overtime_hours?: number
           punch_in?: string | null
           punch_out?: string | null
+          regular_hours?: number | null
+          shift_id?: string | null
           status?: Database["public"]["Enums"]["attendance_status"] | null
           total_hours?: number | null
           updated_at?: string | null
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "attendance_location_in_id_fkey"
+            columns: ["location_in_id"]
+            isOneToOne: false
+            referencedRelation: "office_locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_location_out_id_fkey"
+            columns: ["location_out_id"]
+            isOneToOne: false
+            referencedRelation: "office_locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_manager_note_by_fkey"
+            columns: ["manager_note_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_shift_id_fkey"
+            columns: ["shift_id"]
+            isOneToOne: false
+            referencedRelation: "shifts"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "attendance_user_id_fkey"
             columns: ["user_id"]
@@ -62,51 +123,1041 @@ export type Database = {
           },
         ]
       }
-      departments: {
+      attendance_anomalies: {
+        Row: {
+          attendance_id: string
+          created_at: string | null
+          date: string
+          details: string
+          id: string
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: Database["public"]["Enums"]["anomaly_status"]
+          type: Database["public"]["Enums"]["anomaly_type"]
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          attendance_id: string
+          created_at?: string | null
+          date: string
+          details: string
+          id?: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: Database["public"]["Enums"]["anomaly_status"]
+          type: Database["public"]["Enums"]["anomaly_type"]
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          attendance_id?: string
+          created_at?: string | null
+          date?: string
+          details?: string
+          id?: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: Database["public"]["Enums"]["anomaly_status"]
+          type?: Database["public"]["Enums"]["anomaly_type"]
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attendance_anomalies_attendance_id_fkey"
+            columns: ["attendance_id"]
+            isOneToOne: false
+            referencedRelation: "attendance"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_anomalies_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_anomalies_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      attendance_attachments: {
+        Row: {
+          attendance_id: string
+          content_type: string | null
+          created_at: string | null
+          file_name: string
+          file_path: string
+          id: string
+          size_bytes: number | null
+          user_id: string
+        }
+        Insert: {
+          attendance_id: string
+          content_type?: string | null
+          created_at?: string | null
+          file_name: string
+          file_path: string
+          id?: string
+          size_bytes?: number | null
+          user_id: string
+        }
+        Update: {
+          attendance_id?: string
+          content_type?: string | null
+          created_at?: string | null
+          file_name?: string
+          file_path?: string
+          id?: string
+          size_bytes?: number | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attendance_attachments_attendance_id_fkey"
+            columns: ["attendance_id"]
+            isOneToOne: false
+            referencedRelation: "attendance"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_attachments_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      attendance_period_events: {
+        Row: {
+          action: string
+          created_at: string
+          id: string
+          month: string
+          performed_by: string | null
+          reason: string | null
+        }
+        Insert: {
+          action: string
+          created_at?: string
+          id?: string
+          month: string
+          performed_by?: string | null
+          reason?: string | null
+        }
+        Update: {
+          action?: string
+          created_at?: string
+          id?: string
+          month?: string
+          performed_by?: string | null
+          reason?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attendance_period_events_performed_by_fkey"
+            columns: ["performed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      attendance_periods: {
+        Row: {
+          closed_at: string
+          closed_by: string | null
+          month: string
+        }
+        Insert: {
+          closed_at?: string
+          closed_by?: string | null
+          month: string
+        }
+        Update: {
+          closed_at?: string
+          closed_by?: string | null
+          month?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attendance_periods_closed_by_fkey"
+            columns: ["closed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      attendance_regularizations: {
+        Row: {
+          approved_at: string | null
+          approved_by: string | null
+          attendance_id: string | null
+          created_at: string | null
+          date: string
+          id: string
+          original_punch_in: string | null
+          original_punch_out: string | null
+          original_status: Database["public"]["Enums"]["attendance_status"] | null
+          reason: string
+          requested_punch_in: string
+          requested_punch_out: string
+          status: Database["public"]["Enums"]["request_status"] | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          approved_at?: string | null
+          approved_by?: string | null
+          attendance_id?: string | null
+          created_at?: string | null
+          date: string
+          id?: string
+          original_punch_in?: string | null
+          original_punch_out?: string | null
+          original_status?: Database["public"]["Enums"]["attendance_status"] | null
+          reason: string
+          requested_punch_in: string
+          requested_punch_out: string
+          status?: Database["public"]["Enums"]["request_status"] | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          approved_at?: string | null
+          approved_by?: string | null
+          attendance_id?: string | null
+          created_at?: string | null
+          date?: string
+          id?: string
+          original_punch_in?: string | null
+          original_punch_out?: string | null
+          original_status?: Database["public"]["Enums"]["attendance_status"] | null
+          reason?: string
+          requested_punch_in?: string
+          requested_punch_out?: string
+          status?: Database["public"]["Enums"]["request_status"] | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attendance_regularizations_approved_by_fkey"
+            columns: ["approved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_regularizations_attendance_id_fkey"
+            columns: ["attendance_id"]
+            isOneToOne: false
+            referencedRelation: "attendance"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_regularizations_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      attendance_sessions: {
+        Row: {
+          attendance_id: string
+          auto_closed: boolean
+          created_at: string | null
+          id: string
+          kiosk_in_id: string | null
+          kiosk_out_id: string | null
+          latitude_in: number | null
+          latitude_out: number | null
+          location_in: string | null
+          location_in_id: string | null
+          location_out: string | null
+          location_out_id: string | null
+          longitude_in: number | null
+          longitude_out: number | null
+          note_in: string | null
+          note_out: string | null
+          outside_geofence: boolean
+          punch_in: string
+          punch_out: string | null
+          qr_in: boolean
+          qr_out: boolean
+          selfie_in_path: string | null
+          selfie_out_path: string | null
+          user_id: string
+        }
+        Insert: {
+          attendance_id: string
+          auto_closed?: boolean
+          created_at?: string | null
+          id?: string
+          kiosk_in_id?: string | null
+          kiosk_out_id?: string | null
+          latitude_in?: number | null
+          latitude_out?: number | null
+          location_in?: string | null
+          location_in_id?: string | null
+          location_out?: string | null
+          location_out_id?: string | null
+          longitude_in?: number | null
+          longitude_out?: number | null
+          note_in?: string | null
+          note_out?: string | null
+          outside_geofence?: boolean
+          punch_in: string
+          punch_out?: string | null
+          qr_in?: boolean
+          qr_out?: boolean
+          selfie_in_path?: string | null
+          selfie_out_path?: string | null
+          user_id: string
+        }
+        Update: {
+          attendance_id?: string
+          auto_closed?: boolean
+          created_at?: string | null
+          id?: string
+          kiosk_in_id?: string | null
+          kiosk_out_id?: string | null
+          latitude_in?: number | null
+          latitude_out?: number | null
+          location_in?: string | null
+          location_in_id?: string | null
+          location_out?: string | null
+          location_out_id?: string | null
+          longitude_in?: number | null
+          longitude_out?: number | null
+          note_in?: string | null
+          note_out?: string | null
+          outside_geofence?: boolean
+          punch_in?: string
+          punch_out?: string | null
+          qr_in?: boolean
+          qr_out?: boolean
+          selfie_in_path?: string | null
+          selfie_out_path?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attendance_sessions_attendance_id_fkey"
+            columns: ["attendance_id"]
+            isOneToOne: false
+            referencedRelation: "attendance"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_sessions_kiosk_in_id_fkey"
+            columns: ["kiosk_in_id"]
+            isOneToOne: false
+            referencedRelation: "kiosk_devices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_sessions_kiosk_out_id_fkey"
+            columns: ["kiosk_out_id"]
+            isOneToOne: false
+            referencedRelation: "kiosk_devices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_sessions_location_in_id_fkey"
+            columns: ["location_in_id"]
+            isOneToOne: false
+            referencedRelation: "office_locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_sessions_location_out_id_fkey"
+            columns: ["location_out_id"]
+            isOneToOne: false
+            referencedRelation: "office_locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_sessions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      departments: {
+        Row: {
+          created_at: string | null
+          description: string | null
+          hod_id: string | null
+          id: string
+          min_staffing: number | null
+          name: string
+          selfie_required_roles: Database["public"]["Enums"]["user_role"][]
+          updated_at: string | null
+          weekly_off_days: number[] | null
+        }
+        Insert: {
+          created_at?: string | null
+          description?: string | null
+          hod_id?: string | null
+          id?: string
+          min_staffing?: number | null
+          name: string
+          selfie_required_roles?: Database["public"]["Enums"]["user_role"][]
+          updated_at?: string | null
+          weekly_off_days?: number[] | null
+        }
+        Update: {
+          created_at?: string | null
+          description?: string | null
+          hod_id?: string | null
+          id?: string
+          min_staffing?: number | null
+          name?: string
+          selfie_required_roles?: Database["public"]["Enums"]["user_role"][]
+          updated_at?: string | null
+          weekly_off_days?: number[] | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_departments_hod"
+            columns: ["hod_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      holidays: {
+        Row: {
+          created_at: string | null
+          date: string
+          department_id: string | null
+          id: string
+          is_recurring: boolean
+          location_id: string | null
+          name: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          date: string
+          department_id?: string | null
+          id?: string
+          is_recurring?: boolean
+          location_id?: string | null
+          name: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          date?: string
+          department_id?: string | null
+          id?: string
+          is_recurring?: boolean
+          location_id?: string | null
+          name?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "holidays_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "holidays_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "office_locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      kiosk_credentials: {
+        Row: {
+          badge_issued_at: string | null
+          badge_token_hash: string | null
+          failed_attempts: number
+          locked_until: string | null
+          pin_hash: string | null
+          pin_set_at: string | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          badge_issued_at?: string | null
+          badge_token_hash?: string | null
+          failed_attempts?: number
+          locked_until?: string | null
+          pin_hash?: string | null
+          pin_set_at?: string | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          badge_issued_at?: string | null
+          badge_token_hash?: string | null
+          failed_attempts?: number
+          locked_until?: string | null
+          pin_hash?: string | null
+          pin_set_at?: string | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "kiosk_credentials_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      kiosk_devices: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          id: string
+          last_seen_at: string | null
+          location_id: string | null
+          name: string
+          revoked_at: string | null
+          revoked_by: string | null
+          token_hash: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          last_seen_at?: string | null
+          location_id?: string | null
+          name: string
+          revoked_at?: string | null
+          revoked_by?: string | null
+          token_hash: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          last_seen_at?: string | null
+          location_id?: string | null
+          name?: string
+          revoked_at?: string | null
+          revoked_by?: string | null
+          token_hash?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "kiosk_devices_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "kiosk_devices_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "office_locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "kiosk_devices_revoked_by_fkey"
+            columns: ["revoked_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      leave_approval_chains: {
+        Row: {
+          created_at: string | null
+          id: string
+          leave_type: Database["public"]["Enums"]["leave_type_enum"] | null
+          longer_than_days: number
+          name: string
+          steps: Database["public"]["Enums"]["user_role"][]
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          leave_type?: Database["public"]["Enums"]["leave_type_enum"] | null
+          longer_than_days?: number
+          name: string
+          steps: Database["public"]["Enums"]["user_role"][]
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          leave_type?: Database["public"]["Enums"]["leave_type_enum"] | null
+          longer_than_days?: number
+          name?: string
+          steps?: Database["public"]["Enums"]["user_role"][]
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      leave_approval_steps: {
+        Row: {
+          approver_role: Database["public"]["Enums"]["user_role"]
+          change_type: Database["public"]["Enums"]["leave_change_type"] | null
+          created_at: string | null
+          decided_at: string | null
+          decided_by: string | null
+          id: string
+          note: string | null
+          request_id: string
+          round: number
+          status: Database["public"]["Enums"]["approval_step_status"]
+          step_no: number
+        }
+        Insert: {
+          approver_role: Database["public"]["Enums"]["user_role"]
+          change_type?: Database["public"]["Enums"]["leave_change_type"] | null
+          created_at?: string | null
+          decided_at?: string | null
+          decided_by?: string | null
+          id?: string
+          note?: string | null
+          request_id: string
+          round?: number
+          status?: Database["public"]["Enums"]["approval_step_status"]
+          step_no: number
+        }
+        Update: {
+          approver_role?: Database["public"]["Enums"]["user_role"]
+          change_type?: Database["public"]["Enums"]["leave_change_type"] | null
+          created_at?: string | null
+          decided_at?: string | null
+          decided_by?: string | null
+          id?: string
+          note?: string | null
+          request_id?: string
+          round?: number
+          status?: Database["public"]["Enums"]["approval_step_status"]
+          step_no?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leave_approval_steps_decided_by_fkey"
+            columns: ["decided_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leave_approval_steps_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "leave_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      leave_balances: {
+        Row: {
+          carried_forward: number
+          leave_type: Database["public"]["Enums"]["leave_type_enum"]
+          updated_at: string | null
+          used: number
+          user_id: string
+          year: number
+        }
+        Insert: {
+          carried_forward?: number
+          leave_type: Database["public"]["Enums"]["leave_type_enum"]
+          updated_at?: string | null
+          used?: number
+          user_id: string
+          year: number
+        }
+        Update: {
+          carried_forward?: number
+          leave_type?: Database["public"]["Enums"]["leave_type_enum"]
+          updated_at?: string | null
+          used?: number
+          user_id?: string
+          year?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leave_balances_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      leave_policies: {
+        Row: {
+          accrual: Database["public"]["Enums"]["leave_accrual"]
+          allow_overdraw: boolean
+          carry_forward_max: number
+          created_at: string | null
+          days_per_year: number
+          id: string
+          leave_type: Database["public"]["Enums"]["leave_type_enum"]
+          role: Database["public"]["Enums"]["user_role"] | null
+          updated_at: string | null
+        }
+        Insert: {
+          accrual?: Database["public"]["Enums"]["leave_accrual"]
+          allow_overdraw?: boolean
+          carry_forward_max?: number
+          created_at?: string | null
+          days_per_year: number
+          id?: string
+          leave_type: Database["public"]["Enums"]["leave_type_enum"]
+          role?: Database["public"]["Enums"]["user_role"] | null
+          updated_at?: string | null
+        }
+        Update: {
+          accrual?: Database["public"]["Enums"]["leave_accrual"]
+          allow_overdraw?: boolean
+          carry_forward_max?: number
+          created_at?: string | null
+          days_per_year?: number
+          id?: string
+          leave_type?: Database["public"]["Enums"]["leave_type_enum"]
+          role?: Database["public"]["Enums"]["user_role"] | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      leave_request_comments: {
+        Row: {
+          author_id: string
+          body: string
+          created_at: string
+          id: string
+          request_id: string
+          step_id: string | null
+        }
+        Insert: {
+          author_id: string
+          body: string
+          created_at?: string
+          id?: string
+          request_id: string
+          step_id?: string | null
+        }
+        Update: {
+          author_id?: string
+          body?: string
+          created_at?: string
+          id?: string
+          request_id?: string
+          step_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leave_request_comments_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leave_request_comments_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "leave_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leave_request_comments_step_id_fkey"
+            columns: ["step_id"]
+            isOneToOne: false
+            referencedRelation: "leave_approval_steps"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      leave_request_events: {
+        Row: {
+          action: string
+          created_at: string
+          from_status: Database["public"]["Enums"]["request_status"] | null
+          id: string
+          performed_by: string | null
+          reason: string | null
+          request_id: string
+          to_status: Database["public"]["Enums"]["request_status"]
+        }
+        Insert: {
+          action: string
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["request_status"] | null
+          id?: string
+          performed_by?: string | null
+          reason?: string | null
+          request_id: string
+          to_status: Database["public"]["Enums"]["request_status"]
+        }
+        Update: {
+          action?: string
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["request_status"] | null
+          id?: string
+          performed_by?: string | null
+          reason?: string | null
+          request_id?: string
+          to_status?: Database["public"]["Enums"]["request_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leave_request_events_performed_by_fkey"
+            columns: ["performed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leave_request_events_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "leave_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      leave_requests: {
+        Row: {
+          approval_round: number
+          approved_at: string | null
+          approved_by: string | null
+          change_end_date: string | null
+          change_reason: string | null
+          change_start_date: string | null
+          change_type: Database["public"]["Enums"]["leave_change_type"] | null
+          created_at: string | null
+          current_step: number | null
+          days: number
+          duration: Database["public"]["Enums"]["leave_duration"]
+          end_date: string
+          end_time: string | null
+          id: string
+          leave_type: Database["public"]["Enums"]["leave_type_enum"]
+          reason: string
+          start_date: string
+          start_time: string | null
+          status: Database["public"]["Enums"]["request_status"] | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          approval_round?: number
+          approved_at?: string | null
+          approved_by?: string | null
+          change_end_date?: string | null
+          change_reason?: string | null
+          change_start_date?: string | null
+          change_type?: Database["public"]["Enums"]["leave_change_type"] | null
+          created_at?: string | null
+          current_step?: number | null
+          days?: number
+          duration?: Database["public"]["Enums"]["leave_duration"]
+          end_date: string
+          end_time?: string | null
+          id?: string
+          leave_type: Database["public"]["Enums"]["leave_type_enum"]
+          reason: string
+          start_date: string
+          start_time?: string | null
+          status?: Database["public"]["Enums"]["request_status"] | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          approval_round?: number
+          approved_at?: string | null
+          approved_by?: string | null
+          change_end_date?: string | null
+          change_reason?: string | null
+          change_start_date?: string | null
+          change_type?: Database["public"]["Enums"]["leave_change_type"] | null
+          created_at?: string | null
+          current_step?: number | null
+          days?: number
+          duration?: Database["public"]["Enums"]["leave_duration"]
+          end_date?: string
+          end_time?: string | null
+          id?: string
+          leave_type?: Database["public"]["Enums"]["leave_type_enum"]
+          reason?: string
+          start_date?: string
+          start_time?: string | null
+          status?: Database["public"]["Enums"]["request_status"] | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leave_requests_approved_by_fkey"
+            columns: ["approved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leave_requests_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      location_qr_secrets: {
         Row: {
           created_at: string | null
-          description: string | null
-          hod_id: string | null
+          location_id: string
+          secret: string
+        }
+        Insert: {
+          created_at?: string | null
+          location_id: string
+          secret?: string
+        }
+        Update: {
+          created_at?: string | null
+          location_id?: string
+          secret?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "location_qr_secrets_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: true
+            referencedRelation: "office_locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      office_locations: {
+        Row: {
+          created_at: string | null
+          department_id: string | null
           id: string
+          is_active: boolean
+          latitude: number
+          longitude: number
           name: string
+          radius_meters: number
+          timezone: string | null
           updated_at: string | null
         }
         Insert: {
           created_at?: string | null
-          description?: string | null
-          hod_id?: string | null
+          department_id?: string | null
           id?: string
+          is_active?: boolean
+          latitude: number
+          longitude: number
           name: string
+          radius_meters?: number
+          timezone?: string | null
           updated_at?: string | null
         }
         Update: {
           created_at?: string | null
-          description?: string | null
-          hod_id?: string | null
+          department_id?: string | null
           id?: string
+          is_active?: boolean
+          latitude?: number
+          longitude?: number
           name?: string
+          radius_meters?: number
+          timezone?: string | null
           updated_at?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "fk_departments_hod"
-            columns: ["hod_id"]
+            foreignKeyName: "office_locations_department_id_fkey"
+            columns: ["department_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "departments"
             referencedColumns: ["id"]
           },
         ]
       }
-      leave_requests: {
+      organization_settings: {
+        Row: {
+          anomaly_max_session_hours: number
+          anomaly_max_travel_kmh: number
+          auto_punch_out_time: string
+          created_at: string | null
+          daily_overtime_threshold_hours: number
+          id: boolean
+          timezone: string
+          updated_at: string | null
+          weekly_off_days: number[]
+          weekly_overtime_threshold_hours: number
+        }
+        Insert: {
+          anomaly_max_session_hours?: number
+          anomaly_max_travel_kmh?: number
+          auto_punch_out_time?: string
+          created_at?: string | null
+          daily_overtime_threshold_hours?: number
+          id?: boolean
+          timezone?: string
+          updated_at?: string | null
+          weekly_off_days?: number[]
+          weekly_overtime_threshold_hours?: number
+        }
+        Update: {
+          anomaly_max_session_hours?: number
+          anomaly_max_travel_kmh?: number
+          auto_punch_out_time?: string
+          created_at?: string | null
+          daily_overtime_threshold_hours?: number
+          id?: boolean
+          timezone?: string
+          updated_at?: string | null
+          weekly_off_days?: number[]
+          weekly_overtime_threshold_hours?: number
+        }
+        Relationships: []
+      }
+      overtime_requests: {
         Row: {
           approved_at: string | null
           approved_by: string | null
+          approved_hours: number | null
+          attendance_id: string | null
           created_at: string | null
-          end_date: string
+          date: string
+          hours: number
           id: string
-          leave_type: Database["public"]["Enums"]["leave_type_enum"]
           reason: string
-          start_date: string
           status: Database["public"]["Enums"]["request_status"] | null
           updated_at: string | null
           user_id: string
@@ -114,12 +1165,13 @@ export type Database = {
         Insert: {
           approved_at?: string | null
           approved_by?: string | null
+          approved_hours?: number | null
+          attendance_id?: string | null
           created_at?: string | null
-          end_date: string
+          date: string
+          hours: number
           id?: string
-          leave_type: Database["public"]["Enums"]["leave_type_enum"]
           reason: string
-          start_date: string
           status?: Database["public"]["Enums"]["request_status"] | null
           updated_at?: string | null
           user_id: string
@@ -127,26 +1179,34 @@ export type Database = {
         Update: {
           approved_at?: string | null
           approved_by?: string | null
+          approved_hours?: number | null
+          attendance_id?: string | null
           created_at?: string | null
-          end_date?: string
+          date?: string
+          hours?: number
           id?: string
-          leave_type?: Database["public"]["Enums"]["leave_type_enum"]
           reason?: string
-          start_date?: string
           status?: Database["public"]["Enums"]["request_status"] | null
           updated_at?: string | null
           user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "leave_requests_approved_by_fkey"
+            foreignKeyName: "overtime_requests_approved_by_fkey"
             columns: ["approved_by"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "leave_requests_user_id_fkey"
+            foreignKeyName: "overtime_requests_attendance_id_fkey"
+            columns: ["attendance_id"]
+            isOneToOne: false
+            referencedRelation: "attendance"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "overtime_requests_user_id_fkey"
             columns: ["user_id"]
             isOneToOne: false
             referencedRelation: "profiles"
@@ -161,11 +1221,15 @@ export type Database = {
           email: string
           employee_id: string
           full_name: string
+          geofence_policy: Database["public"]["Enums"]["geofence_policy"]
           hire_date: string | null
           id: string
           is_active: boolean | null
+          manager_id: string | null
+          office_location_id: string | null
           phone: string | null
           role: Database["public"]["Enums"]["user_role"]
+          timezone: string | null
           updated_at: string | null
         }
         Insert: {
@@ -174,11 +1238,15 @@ export type Database = {
           email: string
           employee_id: string
           full_name: string
+          geofence_policy?: Database["public"]["Enums"]["geofence_policy"]
           hire_date?: string | null
           id: string
           is_active?: boolean | null
+          manager_id?: string | null
+          office_location_id?: string | null
           phone?: string | null
           role?: Database["public"]["Enums"]["user_role"]
+          timezone?: string | null
           updated_at?: string | null
         }
         Update: {
@@ -187,11 +1255,15 @@ export type Database = {
           email?: string
           employee_id?: string
           full_name?: string
+          geofence_policy?: Database["public"]["Enums"]["geofence_policy"]
           hire_date?: string | null
           id?: string
           is_active?: boolean | null
+          manager_id?: string | null
+          office_location_id?: string | null
           phone?: string | null
           role?: Database["public"]["Enums"]["user_role"]
+          timezone?: string | null
           updated_at?: string | null
         }
         Relationships: [
@@ -202,29 +1274,481 @@ export type Database = {
             referencedRelation: "departments"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "profiles_manager_id_fkey"
+            columns: ["manager_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "profiles_office_location_id_fkey"
+            columns: ["office_location_id"]
+            isOneToOne: false
+            referencedRelation: "office_locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shift_assignments: {
+        Row: {
+          created_at: string | null
+          department_id: string | null
+          effective_from: string
+          effective_to: string | null
+          id: string
+          shift_id: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          department_id?: string | null
+          effective_from?: string
+          effective_to?: string | null
+          id?: string
+          shift_id: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          department_id?: string | null
+          effective_from?: string
+          effective_to?: string | null
+          id?: string
+          shift_id?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shift_assignments_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shift_assignments_shift_id_fkey"
+            columns: ["shift_id"]
+            isOneToOne: false
+            referencedRelation: "shifts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shift_assignments_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      shifts: {
+        Row: {
+          created_at: string | null
+          early_leave_grace_minutes: number
+          end_time: string
+          grace_minutes: number
+          id: string
+          is_default: boolean
+          min_full_day_hours: number
+          name: string
+          start_time: string
+          unpaid_break_minutes: number
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          early_leave_grace_minutes?: number
+          end_time: string
+          grace_minutes?: number
+          id?: string
+          is_default?: boolean
+          min_full_day_hours?: number
+          name: string
+          start_time: string
+          unpaid_break_minutes?: number
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          early_leave_grace_minutes?: number
+          end_time?: string
+          grace_minutes?: number
+          id?: string
+          is_default?: boolean
+          min_full_day_hours?: number
+          name?: string
+          start_time?: string
+          unpaid_break_minutes?: number
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      adjust_leave_balance: {
+        Args: {
+          p_days: number
+          p_leave_type: Database["public"]["Enums"]["leave_type_enum"]
+          p_user_id: string
+          p_year: number
+        }
+        Returns: undefined
+      }
+      annotate_attendance_day: {
+        Args: { p_attendance_id: string; p_note: string }
+        Returns: undefined
+      }
+      calculate_worked_hours: {
+        Args: {
+          p_punch_in: string
+          p_punch_out: string
+          p_break_minutes?: number
+        }
+        Returns: number
+      }
+      cancel_leave_request: {
+        Args: { p_request_id: string; p_reason?: string }
+        Returns: Database["public"]["Enums"]["request_status"]
+      }
+      carry_forward_leave: {
+        Args: { p_year: number }
+        Returns: number
+      }
+      check_geofence: {
+        Args: { p_label: string; p_user_id: string }
+        Returns: {
+          location_id: string
+          outside: boolean
+        }[]
+      }
+      classify_attendance: {
+        Args: { p_attendance_id: string }
+        Returns: undefined
+      }
+      close_attendance_day: {
+        Args: { p_date: string }
+        Returns: Json
+      }
+      close_attendance_period: {
+        Args: { p_month: string }
+        Returns: undefined
+      }
+      count_working_days: {
+        Args: { p_user_id: string; p_start: string; p_end: string }
+        Returns: number
+      }
+      create_leave_approval_steps: {
+        Args: { p_request_id: string }
+        Returns: undefined
+      }
+      detect_attendance_anomalies: {
+        Args: { p_from: string; p_to: string }
+        Returns: number
+      }
+      distance_in_meters: {
+        Args: {
+          p_from_latitude: number
+          p_from_longitude: number
+          p_to_latitude: number
+          p_to_longitude: number
+        }
+        Returns: number
+      }
+      get_awaiting_leave_request_ids: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      get_claimable_overtime: {
+        Args: { p_date: string; p_user_id: string }
+        Returns: number
+      }
+      get_daily_overtime_threshold: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      get_kiosk_credential_status: {
+        Args: { p_user_id?: string }
+        Returns: Json
+      }
+      get_kiosk_device: {
+        Args: { p_device_token: string }
+        Returns: Json
+      }
+      get_kiosk_qr_token: {
+        Args: { p_device_token: string }
+        Returns: Json
+      }
+      get_leave_balances: {
+        Args: { p_user_id: string; p_year?: number }
+        Returns: {
+          accrual: Database["public"]["Enums"]["leave_accrual"]
+          allow_overdraw: boolean
+          available: number
+          carried_forward: number
+          days_per_year: number
+          entitled: number
+          leave_type: Database["public"]["Enums"]["leave_type_enum"]
+          pending: number
+          used: number
+        }[]
+      }
+      get_leave_calendar: {
+        Args: { p_from: string; p_to: string; p_department_id?: string }
+        Returns: {
+          request_id: string
+          user_id: string
+          full_name: string
+          leave_type: Database["public"]["Enums"]["leave_type_enum"]
+          status: Database["public"]["Enums"]["request_status"]
+          start_date: string
+          end_date: string
+          duration: Database["public"]["Enums"]["leave_duration"]
+          start_time: string
+          end_time: string
+          days: number
+          change_type: Database["public"]["Enums"]["leave_change_type"]
+          reason: string
+          awaiting_me: boolean
+        }[]
+      }
+      get_leave_policy: {
+        Args: { p_leave_type: Database["public"]["Enums"]["leave_type_enum"]; p_user_id: string }
+        Returns: {
+          accrual: Database["public"]["Enums"]["leave_accrual"]
+          allow_overdraw: boolean
+          carry_forward_max: number
+          created_at: string | null
+          days_per_year: number
+          id: string
+          leave_type: Database["public"]["Enums"]["leave_type_enum"]
+          role: Database["public"]["Enums"]["user_role"] | null
+          updated_at: string | null
+        }
+      }
+      get_leave_staffing_shortfalls: {
+        Args: { p_request_ids: string[] }
+        Returns: {
+          request_id: string
+          leave_date: string
+          at_work: number
+          min_staffing: number
+        }[]
+      }
+      get_location_qr_token: {
+        Args: { p_location_id: string }
+        Returns: Json
+      }
+      get_team_member_ids: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
       get_user_role: {
         Args: { user_uuid: string }
         Returns: Database["public"]["Enums"]["user_role"]
       }
+      get_user_shift_id: {
+        Args: { p_user_id: string; p_date: string }
+        Returns: string
+      }
+      get_user_timezone: {
+        Args: { p_user_id: string }
+        Returns: string
+      }
+      has_half_day_leave: {
+        Args: { p_date: string; p_user_id: string }
+        Returns: boolean
+      }
+      hash_kiosk_token: {
+        Args: { p_token: string }
+        Returns: string
+      }
       is_admin_or_higher: {
         Args: { user_uuid: string }
         Returns: boolean
       }
+      is_awaiting_leave_approver: {
+        Args: { p_request_id: string }
+        Returns: boolean
+      }
+      is_client_request: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      is_holiday: {
+        Args: { p_user_id: string; p_date: string }
+        Returns: boolean
+      }
+      is_own_punch_selfie: {
+        Args: { p_path: string; p_punched_at: string; p_user_id: string }
+        Returns: boolean
+      }
+      is_period_closed: {
+        Args: { p_from: string; p_to?: string }
+        Returns: boolean
+      }
+      is_selfie_required: {
+        Args: { p_user_id: string }
+        Returns: boolean
+      }
+      is_valid_timezone: {
+        Args: { p_timezone: string }
+        Returns: boolean
+      }
+      is_working_day: {
+        Args: { p_user_id: string; p_date: string }
+        Returns: boolean
+      }
+      issue_kiosk_badge: {
+        Args: { p_user_id: string }
+        Returns: string
+      }
+      kiosk_punch: {
+        Args: {
+          p_device_token: string
+          p_employee_id: string
+          p_pin?: string
+          p_badge_token?: string
+        }
+        Returns: Json
+      }
+      leave_approver_ids: {
+        Args: { p_user_id: string; p_role: Database["public"]["Enums"]["user_role"] }
+        Returns: string[]
+      }
+      leave_entitlement: {
+        Args: {
+          p_as_of?: string
+          p_leave_type: Database["public"]["Enums"]["leave_type_enum"]
+          p_user_id: string
+          p_year: number
+        }
+        Returns: number
+      }
+      leave_parts_overlap: {
+        Args: {
+          a_duration: Database["public"]["Enums"]["leave_duration"]
+          a_start: string
+          a_end: string
+          b_duration: Database["public"]["Enums"]["leave_duration"]
+          b_start: string
+          b_end: string
+        }
+        Returns: boolean
+      }
+      local_date: {
+        Args: { p_user_id: string; p_at?: string }
+        Returns: string
+      }
+      qr_punch: {
+        Args: { p_token: string }
+        Returns: Json
+      }
+      record_verified_punch: {
+        Args: {
+          p_user_id: string
+          p_location_id: string
+          p_location_label: string
+          p_kiosk_id?: string
+          p_qr?: boolean
+        }
+        Returns: Json
+      }
+      register_kiosk_device: {
+        Args: { p_name: string; p_location_id?: string }
+        Returns: string
+      }
+      reopen_attendance_period: {
+        Args: { p_month: string; p_reason: string }
+        Returns: undefined
+      }
+      reset_kiosk_pin: {
+        Args: { p_user_id: string }
+        Returns: undefined
+      }
+      review_attendance_anomaly: {
+        Args: {
+          p_anomaly_id: string
+          p_note?: string
+          p_status: Database["public"]["Enums"]["anomaly_status"]
+        }
+        Returns: undefined
+      }
+      review_attendance_regularization: {
+        Args: {
+          p_request_id: string
+          p_status: Database["public"]["Enums"]["request_status"]
+        }
+        Returns: undefined
+      }
+      review_leave_request: {
+        Args: {
+          p_request_id: string
+          p_status: Database["public"]["Enums"]["request_status"]
+          p_note?: string
+        }
+        Returns: Database["public"]["Enums"]["request_status"]
+      }
+      review_overtime_request: {
+        Args: {
+          p_request_id: string
+          p_status: Database["public"]["Enums"]["request_status"]
+          p_approved_hours?: number
+        }
+        Returns: undefined
+      }
+      revoke_kiosk_badge: {
+        Args: { p_user_id: string }
+        Returns: undefined
+      }
+      run_anomaly_detection: {
+        Args: { p_from: string; p_to: string }
+        Returns: number
+      }
+      set_kiosk_pin: {
+        Args: { p_pin: string }
+        Returns: undefined
+      }
+      shorten_leave_request: {
+        Args: {
+          p_request_id: string
+          p_start_date: string
+          p_end_date: string
+          p_reason?: string
+        }
+        Returns: undefined
+      }
+      sign_location_qr_token: {
+        Args: { p_location_id: string }
+        Returns: Json
+      }
+      verify_location_qr_token: {
+        Args: { p_token: string }
+        Returns: string
+      }
     }
     Enums: {
+      anomaly_status: "OPEN" | "CONFIRMED" | "DISMISSED"
+      anomaly_type:
+        | "IMPOSSIBLE_TRAVEL"
+        | "REPEATED_TIMES"
+        | "LONG_SESSION"
+        | "HOLIDAY_PUNCH"
+        | "LEAVE_PUNCH"
+      approval_step_status: "PENDING" | "APPROVED" | "REJECTED" | "SKIPPED"
       attendance_status:
         | "PRESENT"
         | "ABSENT"
         | "HALF_DAY"
         | "LATE"
         | "EARLY_LEAVE"
+      geofence_policy: "NONE" | "FLAG" | "BLOCK"
+      leave_accrual: "YEARLY" | "MONTHLY"
+      leave_change_type: "CANCEL" | "SHORTEN"
+      leave_duration: "FULL_DAY" | "FIRST_HALF" | "SECOND_HALF" | "HOURS"
       leave_type_enum:
         | "SICK"
         | "CASUAL"
@@ -232,7 +1756,7 @@ export type Database = {
         | "MATERNITY"
         | "PATERNITY"
         | "EMERGENCY"
-      request_status: "PENDING" | "APPROVED" | "REJECTED"
+      request_status: "PENDING" | "APPROVED" | "REJECTED" | "CANCELLED"
       user_role:
         | "SUPERADMIN"
         | "ADMIN"
@@ -356,6 +1880,15 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
+      anomaly_status: ["OPEN", "CONFIRMED", "DISMISSED"],
+      anomaly_type: [
+        "IMPOSSIBLE_TRAVEL",
+        "REPEATED_TIMES",
+        "LONG_SESSION",
+        "HOLIDAY_PUNCH",
+        "LEAVE_PUNCH",
+      ],
+      approval_step_status: ["PENDING", "APPROVED", "REJECTED", "SKIPPED"],
       attendance_status: [
         "PRESENT",
         "ABSENT",
@@ -363,6 +1896,10 @@ export const Constants = {
         "LATE",
         "EARLY_LEAVE",
       ],
+      geofence_policy: ["NONE", "FLAG", "BLOCK"],
+      leave_accrual: ["YEARLY", "MONTHLY"],
+      leave_change_type: ["CANCEL", "SHORTEN"],
+      leave_duration: ["FULL_DAY", "FIRST_HALF", "SECOND_HALF", "HOURS"],
       leave_type_enum: [
         "SICK",
         "CASUAL",
@@ -371,7 +1908,7 @@ export const Constants = {
         "PATERNITY",
         "EMERGENCY",
       ],
-      request_status: ["PENDING", "APPROVED", "REJECTED"],
+      request_status: ["PENDING", "APPROVED", "REJECTED", "CANCELLED"],
       user_role: [
         "SUPERADMIN",
         "ADMIN",
@@ -0,0 +1,18 @@
+import { Database } from '@/integrations/supabase/types';
+
+export type AnomalyType = Database['public']['Enums']['anomaly_type'];
+export type AnomalyStatus = Database['public']['Enums']['anomaly_status'];
+
+export const ANOMALY_TYPE_LABELS: Record<AnomalyType, string> = {
+  IMPOSSIBLE_TRAVEL: 'Impossible Travel',
+  REPEATED_TIMES: 'Repeated Punch Times',
+  LONG_SESSION: 'Long Session',
+  HOLIDAY_PUNCH: 'Holiday Punch',
+  LEAVE_PUNCH: 'Punch During Leave'
+};
+
+export const ANOMALY_STATUS_COLORS: Record<AnomalyStatus, string> = {
+  OPEN: 'bg-yellow-100 text-yellow-800',
+  CONFIRMED: 'bg-red-100 text-red-800',
+  DISMISSED: 'bg-gray-100 text-gray-800'
+};
@@ -0,0 +1,100 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+
+export type AttendanceAttachment = Tables<'attendance_attachments'>;
+
+const BUCKET = 'attendance-attachments';
+
+// Matches the bucket's limits, so a bad file is refused before it is uploaded
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const ATTACHMENT_ACCEPT = 'image/jpeg,image/png,image/webp,image/heic,application/pdf';
+
+// Links in exports are meant to be opened from the file for about a week
+export const EXPORT_LINK_SECONDS = 7 * 24 * 60 * 60;
+const VIEW_LINK_SECONDS = 5 * 60;
+
+export const getAttachments = async (attendanceId: string): Promise<AttendanceAttachment[]> => {
+  const { data, error } = await supabase
+    .from('attendance_attachments')
+    .select('*')
+    .eq('attendance_id', attendanceId)
+    .order('created_at');
+
+  if (error) {
+    console.error('Error fetching attachments:', error);
+    return [];
+  }
+
+  return data || [];
+};
+
+/**
+ * Uploads a file under <user id>/<attendance id>/ and records it against the
+ * day. The storage object is removed again if the record cannot be saved.
+ */
+export const uploadAttachment = async (userId: string, attendanceId: string, file: File) => {
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    throw new Error('Attachments can be at most 10 MB');
+  }
+
+  const path = `${userId}/${attendanceId}/${crypto.randomUUID()}-${file.name.replace(/[^\w.-]+/g, '_')}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(BUCKET)
+    .upload(path, file, { contentType: file.type });
+
+  if (uploadError) throw uploadError;
+
+  const { error } = await supabase
+    .from('attendance_attachments')
+    .insert({
+      attendance_id: attendanceId,
+      user_id: userId,
+      file_path: path,
+      file_name: file.name,
+      content_type: file.type || null,
+      size_bytes: file.size
+    });
+
+  if (error) {
+    await supabase.storage.from(BUCKET).remove([path]);
+    throw error;
+  }
+};
+
+export const deleteAttachment = async (attachment: AttendanceAttachment) => {
+  const { error } = await supabase
+    .from('attendance_attachments')
+    .delete()
+    .eq('id', attachment.id);
+
+  if (error) throw error;
+
+  await supabase.storage.from(BUCKET).remove([attachment.file_path]);
+};
+
+export const getAttachmentUrl = async (path: string, expiresIn = VIEW_LINK_SECONDS) => {
+  const { data, error } = await supabase.storage
+    .from(BUCKET)
+    .createSignedUrl(path, expiresIn);
+
+  if (error) throw error;
+  return data.signedUrl;
+};
+
+// Signed links for many files at once, keyed by path
+export const getAttachmentUrls = async (paths: string[], expiresIn = EXPORT_LINK_SECONDS) => {
+  if (paths.length === 0) return {};
+
+  const { data, error } = await supabase.storage
+    .from(BUCKET)
+    .createSignedUrls(paths, expiresIn);
+
+  if (error) throw error;
+
+  return Object.fromEntries(
+    (data || [])
+      .filter((link) => link.path && link.signedUrl)
+      .map((link) => [link.path as string, link.signedUrl])
+  );
+};
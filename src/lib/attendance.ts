@@ -0,0 +1,90 @@
+import { Database } from "@/integrations/supabase/types";
+
+export type AttendanceStatus = Database['public']['Enums']['attendance_status'];
+
+// Statuses that mean the employee turned up for work, whatever the shift evaluation said
+export const PRESENT_STATUSES: AttendanceStatus[] = ['PRESENT', 'LATE', 'EARLY_LEAVE', 'HALF_DAY'];
+
+export const isPresentStatus = (status?: AttendanceStatus | null): boolean => {
+  return status ? PRESENT_STATUSES.includes(status) : false;
+};
+
+export const ATTENDANCE_STATUSES: AttendanceStatus[] = ['PRESENT', 'LATE', 'EARLY_LEAVE', 'HALF_DAY', 'ABSENT'];
+
+export const ATTENDANCE_STATUS_COLORS: Record<AttendanceStatus, string> = {
+  PRESENT: 'bg-green-100 text-green-800',
+  ABSENT: 'bg-red-100 text-red-800',
+  HALF_DAY: 'bg-yellow-100 text-yellow-800',
+  LATE: 'bg-orange-100 text-orange-800',
+  EARLY_LEAVE: 'bg-blue-100 text-blue-800'
+};
+
+export const formatAttendanceStatus = (status: string) => status.replace('_', ' ');
+
+/**
+ * Worked hours between two punches less the unpaid break, rounded to two decimals.
+ * Mirrors the calculate_worked_hours database function that fills attendance.total_hours,
+ * so values computed here (e.g. for an in-progress day) match what gets stored.
+ */
+export const calculateWorkedHours = (
+  punchIn: string | null,
+  punchOut: string | null,
+  breakMinutes = 0
+): number | null => {
+  if (!punchIn || !punchOut) return null;
+
+  const elapsedMs = new Date(punchOut).getTime() - new Date(punchIn).getTime();
+  if (elapsedMs <= 0) return null;
+
+  const hours = Math.max(elapsedMs / (60 * 60 * 1000) - breakMinutes / 60, 0);
+  return Math.round(hours * 100) / 100;
+};
+
+// Days still in progress have no total_hours yet and are left out of averages
+export const averageCompletedHours = (records: { total_hours: number | null }[]): number => {
+  const completed = records.filter((record) => record.total_hours !== null);
+  if (completed.length === 0) return 0;
+  return completed.reduce((sum, record) => sum + (record.total_hours || 0), 0) / completed.length;
+};
+
+export interface PunchSession {
+  punch_in: string;
+  punch_out: string | null;
+}
+
+export const getSessionHours = (session: PunchSession): number => {
+  return calculateWorkedHours(session.punch_in, session.punch_out) ?? 0;
+};
+
+/**
+ * Daily total for a day made of several punch sessions. Gaps between sessions
+ * already count as unpaid time, so the unpaid break is only deducted for the part
+ * the gaps do not cover. Mirrors set_attendance_total_hours in the database and
+ * returns null while a session is still open.
+ */
+export const calculateDayHours = (sessions: PunchSession[], breakMinutes = 0): number | null => {
+  if (sessions.length === 0 || sessions.some((session) => !session.punch_out)) return null;
+
+  const worked = sessions.reduce((sum, session) => sum + getSessionHours(session), 0);
+  const firstIn = Math.min(...sessions.map((session) => new Date(session.punch_in).getTime()));
+  const lastOut = Math.max(...sessions.map((session) => new Date(session.punch_out as string).getTime()));
+  const span = calculateWorkedHours(new Date(firstIn).toISOString(), new Date(lastOut).toISOString(), breakMinutes) ?? 0;
+
+  return Math.round(Math.min(worked, span) * 100) / 100;
+};
+
+export interface AttendanceSummary {
+  daysPresent: number;
+  lateCount: number;
+  absentCount: number;
+  totalHours: number;
+}
+
+export const summarizeAttendance = (
+  records: { status: AttendanceStatus | null; late_minutes: number; total_hours: number | null }[]
+): AttendanceSummary => ({
+  daysPresent: records.filter((record) => isPresentStatus(record.status)).length,
+  lateCount: records.filter((record) => record.late_minutes > 0).length,
+  absentCount: records.filter((record) => record.status === 'ABSENT').length,
+  totalHours: Math.round(records.reduce((sum, record) => sum + (record.total_hours || 0), 0) * 100) / 100
+});
@@ -4,6 +4,8 @@ import { User, Session } from '@supabase/supabase-js';
 
 export type UserRole = 'SUPERADMIN' | 'ADMIN' | 'HR' | 'HOD' | 'MANAGER' | 'DIRECTOR' | 'EMPLOYEE';
 
+export type GeofencePolicy = 'NONE' | 'FLAG' | 'BLOCK';
+
 export interface UserProfile {
   id: string;
   email: string;
@@ -14,6 +16,10 @@ export interface UserProfile {
   phone?: string;
   hire_date?: string;
   is_active: boolean;
+  geofence_policy: GeofencePolicy;
+  office_location_id?: string;
+  manager_id?: string;
+  timezone?: string;
 }
 
 export const signUp = async (email: string, password: string, fullName: string) => {
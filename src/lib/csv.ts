@@ -0,0 +1,19 @@
+type CsvValue = string | number | boolean | null | undefined;
+
+// Quotes values that would otherwise break the row, as spreadsheet tools expect
+const escapeCsvValue = (value: CsvValue) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (headers: string[], rows: CsvValue[][]): string =>
+  [headers, ...rows].map((row) => row.map(escapeCsvValue).join(',')).join('\r\n');
+
+export const downloadCsv = (filename: string, csv: string) => {
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,135 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { UserProfile } from "@/lib/auth";
+
+export type OfficeLocation = Tables<'office_locations'>;
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface GeofenceCheck {
+  allowed: boolean;
+  outsideGeofence: boolean;
+  location: OfficeLocation | null;
+  coords: Coordinates | null;
+  // Raw reading kept on the attendance row for audit
+  label: string;
+  message?: string;
+}
+
+const EARTH_RADIUS_METERS = 6371000;
+
+export const getCurrentCoordinates = (): Promise<Coordinates | null> => {
+  return new Promise((resolve) => {
+    if (!navigator.geolocation) {
+      resolve(null);
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        resolve({
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude
+        });
+      },
+      () => resolve(null),
+      { enableHighAccuracy: true, timeout: 10000 }
+    );
+  });
+};
+
+// Great-circle distance between two points (haversine formula)
+export const distanceInMeters = (from: Coordinates, to: Coordinates): number => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+};
+
+/**
+ * Active locations an employee may punch from: their department's locations
+ * plus the company-wide ones (no department).
+ */
+export const getAllowedLocations = async (departmentId?: string | null): Promise<OfficeLocation[]> => {
+  const scope = departmentId
+    ? `department_id.is.null,department_id.eq.${departmentId}`
+    : 'department_id.is.null';
+
+  const { data, error } = await supabase
+    .from('office_locations')
+    .select('*')
+    .eq('is_active', true)
+    .or(scope);
+
+  if (error) {
+    console.error('Error fetching office locations:', error);
+    return [];
+  }
+
+  return data || [];
+};
+
+// Nearest location whose radius contains the coordinates, if any
+export const matchLocation = (coords: Coordinates, locations: OfficeLocation[]): OfficeLocation | null => {
+  let match: OfficeLocation | null = null;
+  let matchDistance = Infinity;
+
+  for (const location of locations) {
+    const distance = distanceInMeters(coords, location);
+    if (distance <= location.radius_meters && distance < matchDistance) {
+      match = location;
+      matchDistance = distance;
+    }
+  }
+
+  return match;
+};
+
+/**
+ * Checks a location reading against the employee's geofence policy. NONE never
+ * flags, FLAG records punches outside every allowed location (or without a
+ * location fix) but lets them through, and BLOCK refuses them. This only
+ * tells the employee up front; check_geofence repeats it in the database.
+ */
+export const evaluateGeofence = (
+  profile: UserProfile,
+  coords: Coordinates | null,
+  locations: OfficeLocation[]
+): GeofenceCheck => {
+  const label = coords ? `${coords.latitude}, ${coords.longitude}` : 'Location not available';
+  const location = coords ? matchLocation(coords, locations) : null;
+
+  if (profile.geofence_policy === 'NONE' || location) {
+    return { allowed: true, outsideGeofence: false, location, coords, label };
+  }
+
+  // Nothing to check against until an admin registers a location
+  if (locations.length === 0) {
+    return { allowed: true, outsideGeofence: false, location: null, coords, label };
+  }
+
+  const message = coords
+    ? 'You are not within any of your allowed office locations.'
+    : 'Your location could not be determined. Please enable location access.';
+
+  return {
+    allowed: profile.geofence_policy !== 'BLOCK',
+    outsideGeofence: true,
+    location: null,
+    coords,
+    label,
+    message
+  };
+};
+
+export const checkGeofence = async (profile: UserProfile): Promise<GeofenceCheck> => {
+  const coords = await getCurrentCoordinates();
+  const locations = await getAllowedLocations(profile.department_id);
+  return evaluateGeofence(profile, coords, locations);
+};
@@ -0,0 +1,135 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { addDaysToDate } from "@/lib/timezone";
+
+export type Holiday = Tables<'holidays'>;
+
+// Indexed like Date.getDay() and Postgres EXTRACT(DOW): 0 = Sunday
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const DEFAULT_WEEKLY_OFF_DAYS = [0, 6];
+
+export interface CalendarMember {
+  department_id?: string | null;
+  office_location_id?: string | null;
+}
+
+export interface WorkCalendar {
+  weeklyOffDays: number[];
+  departmentWeeklyOffDays: Record<string, number[]>;
+  holidays: Holiday[];
+}
+
+export interface ParsedHoliday {
+  name: string;
+  date: string;
+  is_recurring: boolean;
+}
+
+// Dates are plain YYYY-MM-DD strings, handled in UTC so the local offset never shifts them
+const dayOfWeek = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+export const eachDate = (start: string, end: string): string[] => {
+  const dates: string[] = [];
+  for (let date = start; date <= end; date = addDaysToDate(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+};
+
+/**
+ * Loads everything needed to decide working days: weekly offs for the
+ * organisation and each department, and all holidays.
+ */
+export const getWorkCalendar = async (): Promise<WorkCalendar> => {
+  const [settingsResult, departmentsResult, holidaysResult] = await Promise.all([
+    supabase.from('organization_settings').select('weekly_off_days').maybeSingle(),
+    supabase.from('departments').select('id, weekly_off_days'),
+    supabase.from('holidays').select('*').order('date')
+  ]);
+
+  if (settingsResult.error) console.error('Error fetching organization settings:', settingsResult.error);
+  if (departmentsResult.error) console.error('Error fetching department weekly offs:', departmentsResult.error);
+  if (holidaysResult.error) console.error('Error fetching holidays:', holidaysResult.error);
+
+  const departmentWeeklyOffDays: Record<string, number[]> = {};
+  (departmentsResult.data || []).forEach((department) => {
+    if (department.weekly_off_days) {
+      departmentWeeklyOffDays[department.id] = department.weekly_off_days;
+    }
+  });
+
+  return {
+    weeklyOffDays: settingsResult.data?.weekly_off_days || DEFAULT_WEEKLY_OFF_DAYS,
+    departmentWeeklyOffDays,
+    holidays: holidaysResult.data || []
+  };
+};
+
+export const getWeeklyOffDays = (calendar: WorkCalendar, member: CalendarMember) =>
+  (member.department_id && calendar.departmentWeeklyOffDays[member.department_id]) || calendar.weeklyOffDays;
+
+/**
+ * Mirrors public.is_holiday: a recurring holiday repeats on the same month
+ * and day from its first year on, and scoped holidays only apply to their
+ * department or office location.
+ */
+export const getHoliday = (calendar: WorkCalendar, member: CalendarMember, date: string) =>
+  calendar.holidays.find((holiday) =>
+    (holiday.date === date || (holiday.is_recurring && holiday.date <= date && holiday.date.slice(5) === date.slice(5))) &&
+    (!holiday.department_id || holiday.department_id === member.department_id) &&
+    (!holiday.location_id || holiday.location_id === member.office_location_id)
+  );
+
+export const isWorkingDay = (calendar: WorkCalendar, member: CalendarMember, date: string) =>
+  !getWeeklyOffDays(calendar, member).includes(dayOfWeek(date)) && !getHoliday(calendar, member, date);
+
+export const countWorkingDays = (calendar: WorkCalendar, member: CalendarMember, start: string, end: string) =>
+  eachDate(start, end).filter((date) => isWorkingDay(calendar, member, date)).length;
+
+const parseICalDate = (value: string | undefined) => {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+};
+
+const unescapeICalText = (value: string) =>
+  value.replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1').trim();
+
+/**
+ * Reads the events of an iCalendar (.ics) file as holidays. Multi-day events
+ * become one holiday per day and yearly recurring events are kept recurring.
+ */
+export const parseICalendar = (text: string): ParsedHoliday[] => {
+  // Long lines are folded onto continuation lines that start with whitespace
+  const lines = text.replace(/\r\n?/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const holidays: ParsedHoliday[] = [];
+  let event: Record<string, string> | null = null;
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      event = {};
+    } else if (line === 'END:VEVENT' && event) {
+      const start = parseICalDate(event.DTSTART);
+      if (start) {
+        // All-day events end on the day after their last day
+        const end = parseICalDate(event.DTEND);
+        const lastDay = end && end > start ? addDaysToDate(end, -1) : start;
+        const name = unescapeICalText(event.SUMMARY || '') || 'Holiday';
+        const isRecurring = /FREQ=YEARLY/i.test(event.RRULE || '');
+
+        eachDate(start, lastDay).forEach((date) => {
+          holidays.push({ name, date, is_recurring: isRecurring });
+        });
+      }
+      event = null;
+    } else if (event) {
+      const separator = line.indexOf(':');
+      if (separator > 0) {
+        const property = line.slice(0, separator).split(';')[0].toUpperCase();
+        event[property] = line.slice(separator + 1);
+      }
+    }
+  }
+
+  return holidays;
+};
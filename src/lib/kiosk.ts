@@ -0,0 +1,83 @@
+import { supabase } from "@/integrations/supabase/client";
+import { VerifiedPunchResult } from "@/lib/punch";
+import { PunchQrToken } from "@/lib/qrPunch";
+
+export interface KioskDevice {
+  id: string;
+  name: string;
+  location: string | null;
+}
+
+export interface KioskCredentialStatus {
+  pin_set_at: string | null;
+  badge_issued_at: string | null;
+  locked_until: string | null;
+}
+
+const DEVICE_TOKEN_KEY = 'kiosk-device-token';
+const BADGE_PREFIX = 'clock-in-sync:badge';
+
+// The device token is the kiosk's only identity, so it stays on the device
+// across reloads until the kiosk is revoked or reset
+export const getKioskToken = () => localStorage.getItem(DEVICE_TOKEN_KEY);
+
+export const setKioskToken = (token: string) => localStorage.setItem(DEVICE_TOKEN_KEY, token.trim());
+
+export const clearKioskToken = () => localStorage.removeItem(DEVICE_TOKEN_KEY);
+
+/**
+ * A badge QR carries the employee ID together with the badge token, so a code
+ * made up from an employee ID alone is not enough to punch.
+ */
+export const buildBadgePayload = (employeeId: string, badgeToken: string) =>
+  `${BADGE_PREFIX}:${employeeId}:${badgeToken}`;
+
+export const parseBadgePayload = (text: string): { employeeId: string; badgeToken: string } | null => {
+  const value = text.trim();
+  if (!value.startsWith(`${BADGE_PREFIX}:`)) return null;
+
+  const rest = value.slice(BADGE_PREFIX.length + 1);
+  const separator = rest.lastIndexOf(':');
+  if (separator <= 0 || separator === rest.length - 1) return null;
+
+  return { employeeId: rest.slice(0, separator), badgeToken: rest.slice(separator + 1) };
+};
+
+export const getKioskDevice = async (token: string): Promise<KioskDevice> => {
+  const { data, error } = await supabase.rpc('get_kiosk_device', { p_device_token: token });
+  if (error) throw error;
+  return data as unknown as KioskDevice;
+};
+
+export const kioskPunch = async (
+  token: string,
+  employeeId: string,
+  credential: { pin: string } | { badgeToken: string }
+): Promise<VerifiedPunchResult> => {
+  const { data, error } = await supabase.rpc('kiosk_punch', {
+    p_device_token: token,
+    p_employee_id: employeeId,
+    p_pin: 'pin' in credential ? credential.pin : undefined,
+    p_badge_token: 'badgeToken' in credential ? credential.badgeToken : undefined
+  });
+  if (error) throw error;
+  return data as unknown as VerifiedPunchResult;
+};
+
+// The rotating code of the office the kiosk stands in, for phones to scan
+export const getKioskQrToken = async (token: string): Promise<PunchQrToken> => {
+  const { data, error } = await supabase.rpc('get_kiosk_qr_token', { p_device_token: token });
+  if (error) throw error;
+  return data as unknown as PunchQrToken;
+};
+
+export const getKioskCredentialStatus = async (userId?: string): Promise<KioskCredentialStatus | null> => {
+  const { data, error } = await supabase.rpc('get_kiosk_credential_status', userId ? { p_user_id: userId } : {});
+
+  if (error) {
+    console.error('Error fetching kiosk access:', error);
+    return null;
+  }
+
+  return data as unknown as KioskCredentialStatus;
+};
@@ -0,0 +1,161 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Database, Tables } from "@/integrations/supabase/types";
+import { UserRole } from "@/lib/auth";
+import { formatDate } from "@/lib/timezone";
+
+export type LeaveType = Database['public']['Enums']['leave_type_enum'];
+export type LeaveAccrual = Database['public']['Enums']['leave_accrual'];
+export type LeaveDuration = Database['public']['Enums']['leave_duration'];
+export type LeavePolicy = Tables<'leave_policies'>;
+export type LeaveBalance = Database['public']['Functions']['get_leave_balances']['Returns'][number];
+export type LeaveApprovalChain = Tables<'leave_approval_chains'>;
+export type ApprovalStepStatus = Database['public']['Enums']['approval_step_status'];
+export type LeaveApprovalStep = Tables<'leave_approval_steps'>;
+export type LeaveChangeType = Database['public']['Enums']['leave_change_type'];
+export type LeaveRequestEvent = Tables<'leave_request_events'>;
+export type LeaveRequestComment = Tables<'leave_request_comments'>;
+export type LeaveCalendarEntry = Database['public']['Functions']['get_leave_calendar']['Returns'][number];
+export type StaffingShortfall = Database['public']['Functions']['get_leave_staffing_shortfalls']['Returns'][number];
+
+interface LeavePart {
+  duration: LeaveDuration;
+  start_time: string | null;
+  end_time: string | null;
+}
+
+export const LEAVE_TYPES: LeaveType[] = ['SICK', 'CASUAL', 'ANNUAL', 'MATERNITY', 'PATERNITY', 'EMERGENCY'];
+
+export const LEAVE_TYPE_COLORS: Record<LeaveType, string> = {
+  SICK: 'bg-red-100 text-red-800',
+  CASUAL: 'bg-blue-100 text-blue-800',
+  ANNUAL: 'bg-green-100 text-green-800',
+  MATERNITY: 'bg-pink-100 text-pink-800',
+  PATERNITY: 'bg-purple-100 text-purple-800',
+  EMERGENCY: 'bg-orange-100 text-orange-800'
+};
+
+export const ACCRUAL_LABELS: Record<LeaveAccrual, string> = {
+  YEARLY: 'Granted yearly',
+  MONTHLY: 'Accrued monthly'
+};
+
+export const DURATION_LABELS: Record<LeaveDuration, string> = {
+  FULL_DAY: 'Full day(s)',
+  FIRST_HALF: 'First half',
+  SECOND_HALF: 'Second half',
+  HOURS: 'Hours'
+};
+
+// Roles that can make up an approval chain, in the order they usually approve
+export const APPROVER_ROLES: UserRole[] = ['MANAGER', 'HOD', 'DIRECTOR', 'HR', 'ADMIN', 'SUPERADMIN'];
+
+// MANAGER and HOD steps go to the employee's own line manager and department head
+export const APPROVER_LABELS: Record<string, string> = {
+  MANAGER: 'Line manager',
+  HOD: 'Head of department'
+};
+
+export const approverLabel = (role: UserRole) => APPROVER_LABELS[role] || role;
+
+export const CHANGE_LABELS: Record<LeaveChangeType, string> = {
+  CANCEL: 'Cancellation requested',
+  SHORTEN: 'Shortening requested'
+};
+
+export const EVENT_LABELS: Record<string, string> = {
+  SUBMITTED: 'Submitted',
+  APPROVED: 'Approved',
+  REJECTED: 'Rejected',
+  CANCELLED: 'Cancelled',
+  CANCELLATION_REQUESTED: 'Cancellation requested',
+  SHORTENING_REQUESTED: 'Shortening requested',
+  SHORTENED: 'Shortened',
+  CHANGE_REJECTED: 'Change rejected'
+};
+
+// Hourly leave as a share of the standard working day, as the database counts it
+export const hoursToLeaveDays = (startTime: string, endTime: string, standardHours: number) => {
+  const [startHour, startMinute] = startTime.split(':').map(Number);
+  const [endHour, endMinute] = endTime.split(':').map(Number);
+  const hours = (endHour * 60 + endMinute - startHour * 60 - startMinute) / 60;
+  return hours > 0 ? Math.round((hours / standardHours) * 100) / 100 : 0;
+};
+
+/**
+ * Mirrors public.leave_parts_overlap for two requests on the same date: only
+ * the two halves of a day, or hours that don't overlap, can be combined.
+ */
+export const leavePartsOverlap = (a: LeavePart, b: LeavePart) => {
+  if (a.duration === 'FULL_DAY' || b.duration === 'FULL_DAY') return true;
+  if (a.duration === 'HOURS' && b.duration === 'HOURS') {
+    // Compared as HH:MM, whether or not the database added seconds
+    const time = (value: string | null) => value?.slice(0, 5) || '';
+    return time(a.start_time) < time(b.end_time) && time(b.start_time) < time(a.end_time);
+  }
+  if (a.duration === 'HOURS' || b.duration === 'HOURS') return true;
+  return a.duration === b.duration;
+};
+
+// e.g. "Mar 4 - Mar 6", "Mar 4, first half" or "Mar 4, 10:00 - 12:00"
+export const formatLeavePeriod = (request: {
+  start_date: string;
+  end_date: string;
+  duration: LeaveDuration;
+  start_time: string | null;
+  end_time: string | null;
+}) => {
+  switch (request.duration) {
+    case 'FIRST_HALF':
+    case 'SECOND_HALF':
+      return `${formatDate(request.start_date)}, ${DURATION_LABELS[request.duration].toLowerCase()}`;
+    case 'HOURS':
+      return `${formatDate(request.start_date)}, ${request.start_time?.slice(0, 5)} - ${request.end_time?.slice(0, 5)}`;
+    default:
+      return `${formatDate(request.start_date)} - ${formatDate(request.end_date)}`;
+  }
+};
+
+// Balances of the leave types that have a policy; the rest are not limited
+export const getLeaveBalances = async (userId: string, year?: number): Promise<LeaveBalance[]> => {
+  const { data, error } = await supabase.rpc('get_leave_balances', {
+    p_user_id: userId,
+    p_year: year
+  });
+
+  if (error) {
+    console.error('Error fetching leave balances:', error);
+    return [];
+  }
+
+  return data || [];
+};
+
+export const formatDays = (days: number) => `${Number(days.toFixed(2))} day${days === 1 ? '' : 's'}`;
+
+// Pending requests whose current step the signed-in user decides
+export const getAwaitingLeaveRequestIds = async (): Promise<string[]> => {
+  const { data, error } = await supabase.rpc('get_awaiting_leave_request_ids');
+
+  if (error) {
+    console.error('Error fetching leave requests awaiting approval:', error);
+    return [];
+  }
+
+  return data || [];
+};
+
+// Days a department would be short of its minimum staffing, for each request
+export const getStaffingShortfalls = async (requestIds: string[]): Promise<StaffingShortfall[]> => {
+  if (requestIds.length === 0) return [];
+
+  const { data, error } = await supabase.rpc('get_leave_staffing_shortfalls', {
+    p_request_ids: requestIds
+  });
+
+  if (error) {
+    console.error('Error fetching staffing shortfalls:', error);
+    return [];
+  }
+
+  return data || [];
+};
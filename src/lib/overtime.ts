@@ -0,0 +1,94 @@
+import { supabase } from "@/integrations/supabase/client";
+import { addDaysToDate } from "@/lib/timezone";
+
+export interface OvertimeSettings {
+  dailyThresholdHours: number;
+  weeklyThresholdHours: number;
+}
+
+export const DEFAULT_OVERTIME_SETTINGS: OvertimeSettings = {
+  dailyThresholdHours: 8,
+  weeklyThresholdHours: 40
+};
+
+export interface OvertimeDay {
+  date: string;
+  total_hours: number | null;
+  regular_hours: number | null;
+  overtime_hours: number;
+}
+
+export interface OvertimeSummary {
+  regularHours: number;
+  dailyOvertimeHours: number;
+  weeklyOvertimeHours: number;
+  overtimeHours: number;
+}
+
+const round = (hours: number) => Math.round(hours * 100) / 100;
+
+export const getOvertimeSettings = async (): Promise<OvertimeSettings> => {
+  const { data, error } = await supabase
+    .from('organization_settings')
+    .select('daily_overtime_threshold_hours, weekly_overtime_threshold_hours')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching overtime settings:', error);
+  }
+
+  return data
+    ? { dailyThresholdHours: data.daily_overtime_threshold_hours, weeklyThresholdHours: data.weekly_overtime_threshold_hours }
+    : DEFAULT_OVERTIME_SETTINGS;
+};
+
+// Overtime weeks run Monday to Sunday
+export const getWeekStart = (date: string) => {
+  const dayOfWeek = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return addDaysToDate(date, -((dayOfWeek + 6) % 7));
+};
+
+/**
+ * Splits worked hours into regular and overtime. Daily overtime is already
+ * stored on each attendance row; regular hours left over beyond the weekly
+ * threshold in any Monday-to-Sunday week are overtime too, so an hour is never
+ * counted twice. Pass whole weeks to get weekly overtime right.
+ */
+export const summarizeOvertime = (days: OvertimeDay[], settings: OvertimeSettings): OvertimeSummary => {
+  const weeklyRegular: Record<string, number> = {};
+  let dailyOvertimeHours = 0;
+
+  days.forEach((day) => {
+    const week = getWeekStart(day.date);
+    weeklyRegular[week] = (weeklyRegular[week] || 0) + (day.regular_hours || 0);
+    dailyOvertimeHours += day.overtime_hours;
+  });
+
+  const regularTotal = Object.values(weeklyRegular).reduce((sum, hours) => sum + hours, 0);
+  const weeklyOvertimeHours = Object.values(weeklyRegular)
+    .reduce((sum, hours) => sum + Math.max(hours - settings.weeklyThresholdHours, 0), 0);
+
+  return {
+    regularHours: round(regularTotal - weeklyOvertimeHours),
+    dailyOvertimeHours: round(dailyOvertimeHours),
+    weeklyOvertimeHours: round(weeklyOvertimeHours),
+    overtimeHours: round(dailyOvertimeHours + weeklyOvertimeHours)
+  };
+};
+
+// The day's own overtime plus the weekly overtime no other day of the week has claimed
+export const getClaimableOvertime = async (userId: string, date: string): Promise<number> => {
+  const { data, error } = await supabase.rpc('get_claimable_overtime', {
+    p_user_id: userId,
+    p_date: date
+  });
+
+  if (error) {
+    console.error('Error fetching claimable overtime:', error);
+    return 0;
+  }
+
+  return data || 0;
+};
+
+export const formatHours = (hours: number) => `${hours.toFixed(1)}h`;
@@ -0,0 +1,38 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Closed months are kept as 'YYYY-MM' so any date can be checked by its prefix
+export const getClosedMonths = async (): Promise<Set<string>> => {
+  const { data, error } = await supabase
+    .from('attendance_periods')
+    .select('month');
+
+  if (error) {
+    console.error('Error fetching closed periods:', error);
+    return new Set();
+  }
+
+  return new Set((data || []).map((period) => period.month.slice(0, 7)));
+};
+
+export const isDateInClosedMonth = (closedMonths: Set<string>, date: string) =>
+  closedMonths.has(date.slice(0, 7));
+
+const nextMonth = (month: string) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, monthIndex, 1)).toISOString().slice(0, 7);
+};
+
+// True when any month touched by the range is closed, e.g. a leave spanning two months
+export const isRangeInClosedMonth = (closedMonths: Set<string>, from: string, to: string) => {
+  for (let month = from.slice(0, 7); month <= to.slice(0, 7); month = nextMonth(month)) {
+    if (closedMonths.has(month)) return true;
+  }
+  return false;
+};
+
+export const formatMonth = (month: string) =>
+  new Date(`${month.slice(0, 7)}-01T00:00:00Z`).toLocaleDateString('en-US', {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC'
+  });
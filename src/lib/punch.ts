@@ -0,0 +1,214 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { PostgrestError } from "@supabase/supabase-js";
+import { UserProfile } from "@/lib/auth";
+import { GeofenceCheck, OfficeLocation, evaluateGeofence, getAllowedLocations } from "@/lib/geofence";
+import { formatDate, formatTimeInZone, getUserTimezone, toLocalDate } from "@/lib/timezone";
+import { QueuedPunch, getQueuedPunches, removeQueuedPunch, updateQueuedPunch } from "@/lib/punchQueue";
+import { uploadSelfie } from "@/lib/selfies";
+
+type AttendanceSession = Tables<'attendance_sessions'>;
+
+export interface PunchContext {
+  profile: UserProfile;
+  timeZone: string;
+  // When the punch happened, which for a synced offline punch is the device time
+  at: string;
+  check: GeofenceCheck;
+  // What the employee typed at the punch, e.g. "client visit"
+  note?: string | null;
+  // Storage path of the photo taken at the punch, when the department asks for one
+  selfiePath?: string | null;
+}
+
+// Outcome of a punch the server records itself, from a kiosk or an office QR code
+export type VerifiedPunchResult =
+  | { result: 'PUNCHED_IN' | 'PUNCHED_OUT'; full_name: string; at: string; timezone: string }
+  | { result: 'DENIED'; message: string };
+
+// Supabase reports a dropped connection as a failed fetch rather than a status code
+export const isNetworkError = (error: { message: string }) =>
+  !navigator.onLine || /failed to fetch|network/i.test(error.message);
+
+/**
+ * The first punch of the day creates the attendance row; later punches only
+ * open a new session under it. The database resolves the shift, classifies the
+ * day, matches the office location and sets the geofence flag from the
+ * location label.
+ */
+export const recordPunchIn = async (
+  { profile, timeZone, at, check, note, selfiePath }: PunchContext,
+  attendanceId?: string | null
+): Promise<PostgrestError | null> => {
+  const date = toLocalDate(at, timeZone);
+
+  if (!attendanceId) {
+    const { data, error } = await supabase
+      .from('attendance')
+      .insert({
+        user_id: profile.id,
+        date,
+        punch_in: at,
+        location_in: check.label
+      })
+      .select('id')
+      .single();
+
+    if (error) return error;
+    attendanceId = data.id;
+  }
+
+  const { error } = await supabase
+    .from('attendance_sessions')
+    .insert({
+      attendance_id: attendanceId,
+      user_id: profile.id,
+      punch_in: at,
+      location_in: check.label,
+      note_in: note?.trim() || null,
+      selfie_in_path: selfiePath ?? null
+    });
+
+  return error;
+};
+
+/**
+ * Closing the session moves attendance.punch_out and total_hours along with
+ * it, and the database re-classifies the day against everything worked so far.
+ */
+export const recordPunchOut = async (
+  { at, check, note, selfiePath }: PunchContext,
+  openSession: AttendanceSession
+): Promise<PostgrestError | null> => {
+  const { error: sessionError } = await supabase
+    .from('attendance_sessions')
+    .update({
+      punch_out: at,
+      location_out: check.label,
+      note_out: note?.trim() || null,
+      selfie_out_path: selfiePath ?? null
+    })
+    .eq('id', openSession.id);
+
+  if (sessionError) return sessionError;
+
+  const { error } = await supabase
+    .from('attendance')
+    .update({ location_out: check.label })
+    .eq('id', openSession.attendance_id);
+
+  return error;
+};
+
+const isBefore = (a: string, b: string) => new Date(a).getTime() < new Date(b).getTime();
+
+/**
+ * Applies one queued punch to the server. Resolves to the reason it conflicts
+ * with what is already recorded, or null once it has been applied. Errors are
+ * thrown so a dropped connection can stop the replay.
+ */
+const replayPunch = async (
+  profile: UserProfile,
+  timeZone: string,
+  locations: OfficeLocation[],
+  punch: QueuedPunch
+): Promise<string | null> => {
+  const check = evaluateGeofence(profile, punch.coords, locations);
+  if (!check.allowed) return check.message || 'You were outside your allowed office locations';
+
+  // The photo is only uploaded once the punch is known to apply
+  const uploadQueuedSelfie = async () =>
+    punch.selfie ? uploadSelfie(profile.id, toLocalDate(punch.at, timeZone), punch.selfie) : null;
+
+  const context = { profile, timeZone, at: punch.at, check, note: punch.note };
+
+  const { data: openSession, error: openError } = await supabase
+    .from('attendance_sessions')
+    .select('*')
+    .eq('user_id', profile.id)
+    .is('punch_out', null)
+    .order('punch_in', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (openError) throw openError;
+
+  if (punch.type === 'IN') {
+    if (openSession) {
+      return `You were already punched in at ${formatTimeInZone(openSession.punch_in, timeZone)}`;
+    }
+
+    const date = toLocalDate(punch.at, timeZone);
+    const { data: day, error: dayError } = await supabase
+      .from('attendance')
+      .select('id, punch_in, status, attendance_sessions (punch_out)')
+      .eq('user_id', profile.id)
+      .eq('date', date)
+      .maybeSingle();
+
+    if (dayError) throw dayError;
+
+    if (day && !day.punch_in && day.status === 'ABSENT') {
+      return `${formatDate(date)} was already closed as absent. Request a correction instead.`;
+    }
+
+    if (day?.attendance_sessions.some((session) => session.punch_out && !isBefore(session.punch_out, punch.at))) {
+      return `A later punch is already recorded on ${formatDate(date)}. Request a correction instead.`;
+    }
+
+    const error = await recordPunchIn({ ...context, selfiePath: await uploadQueuedSelfie() }, day?.id);
+    if (error) throw error;
+    return null;
+  }
+
+  if (!openSession || !isBefore(openSession.punch_in, punch.at)) {
+    return 'There is no open punch-in to close. It may have been closed automatically; request a correction instead.';
+  }
+
+  const error = await recordPunchOut({ ...context, selfiePath: await uploadQueuedSelfie() }, openSession);
+  if (error) throw error;
+  return null;
+};
+
+const replayQueue = async (profile: UserProfile) => {
+  if (!navigator.onLine) return;
+
+  const punches = await getQueuedPunches(profile.id);
+  if (!punches.some((punch) => punch.status === 'PENDING')) return;
+
+  const [timeZone, locations] = await Promise.all([
+    getUserTimezone(profile),
+    getAllowedLocations(profile.department_id)
+  ]);
+
+  // In device order, stopping at the first conflict so later punches are not
+  // applied on top of a day that is missing one until it is retried or discarded
+  for (const punch of punches) {
+    if (punch.status === 'CONFLICT') return;
+
+    try {
+      const conflict = await replayPunch(profile, timeZone, locations, punch);
+      if (conflict) {
+        await updateQueuedPunch({ ...punch, status: 'CONFLICT', message: conflict });
+        return;
+      }
+      await removeQueuedPunch(punch.id);
+    } catch (error) {
+      if (isNetworkError(error as Error)) return;
+      await updateQueuedPunch({ ...punch, status: 'CONFLICT', message: (error as Error).message });
+      return;
+    }
+  }
+};
+
+let activeSync: Promise<void> | null = null;
+
+// Only one replay runs at a time, however many views ask for it
+export const syncQueuedPunches = (profile: UserProfile): Promise<void> => {
+  if (!activeSync) {
+    activeSync = replayQueue(profile).finally(() => {
+      activeSync = null;
+    });
+  }
+  return activeSync;
+};
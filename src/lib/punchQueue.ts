@@ -0,0 +1,85 @@
+import { Coordinates } from "@/lib/geofence";
+
+export type PunchType = 'IN' | 'OUT';
+
+/**
+ * A punch captured while offline. The device time and location are kept as
+ * they were at the moment of the punch and only checked once it is synced.
+ * Punches the server cannot take are kept as conflicts until the employee
+ * retries or discards them.
+ */
+export interface QueuedPunch {
+  id: string;
+  user_id: string;
+  type: PunchType;
+  at: string;
+  coords: Coordinates | null;
+  note?: string;
+  // Photo taken at the punch, uploaded when the punch is synced
+  selfie?: Blob;
+  status: 'PENDING' | 'CONFLICT';
+  message?: string;
+}
+
+// Fired on window whenever the queue changes, so every view of it can refresh
+export const PUNCH_QUEUE_EVENT = 'punch-queue-changed';
+
+const DB_NAME = 'clock-in-sync';
+const STORE_NAME = 'punch-queue';
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const runInStore = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = action(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(request.result);
+    };
+    transaction.onerror = () => {
+      db.close();
+      reject(transaction.error);
+    };
+  });
+};
+
+const notifyQueueChanged = () => window.dispatchEvent(new Event(PUNCH_QUEUE_EVENT));
+
+// Oldest first, the order they have to be replayed in
+export const getQueuedPunches = async (userId: string): Promise<QueuedPunch[]> => {
+  const punches = await runInStore<QueuedPunch[]>('readonly', (store) => store.getAll());
+  return punches
+    .filter((punch) => punch.user_id === userId)
+    .sort((a, b) => a.at.localeCompare(b.at));
+};
+
+export const queuePunch = async (punch: Omit<QueuedPunch, 'id' | 'status'>): Promise<QueuedPunch> => {
+  const queued: QueuedPunch = { ...punch, id: crypto.randomUUID(), status: 'PENDING' };
+  await runInStore('readwrite', (store) => store.put(queued));
+  notifyQueueChanged();
+  return queued;
+};
+
+export const updateQueuedPunch = async (punch: QueuedPunch) => {
+  await runInStore('readwrite', (store) => store.put(punch));
+  notifyQueueChanged();
+};
+
+export const removeQueuedPunch = async (id: string) => {
+  await runInStore('readwrite', (store) => store.delete(id));
+  notifyQueueChanged();
+};
@@ -0,0 +1,28 @@
+import { supabase } from "@/integrations/supabase/client";
+import { VerifiedPunchResult } from "@/lib/punch";
+
+export interface PunchQrToken {
+  token: string;
+  expires_at: string;
+}
+
+// Codes are signed and checked by the database; the prefix only keeps other
+// QR codes from being sent to it
+const PUNCH_QR_PREFIX = 'clock-in-sync:punch:';
+
+// Displays fetch a fresh code this often, well inside its 60 second lifetime
+export const QR_REFRESH_SECONDS = 30;
+
+export const isPunchQrCode = (text: string) => text.trim().startsWith(PUNCH_QR_PREFIX);
+
+export const getLocationQrToken = async (locationId: string): Promise<PunchQrToken> => {
+  const { data, error } = await supabase.rpc('get_location_qr_token', { p_location_id: locationId });
+  if (error) throw error;
+  return data as unknown as PunchQrToken;
+};
+
+export const qrPunch = async (code: string): Promise<VerifiedPunchResult> => {
+  const { data, error } = await supabase.rpc('qr_punch', { p_token: code.trim() });
+  if (error) throw error;
+  return data as unknown as VerifiedPunchResult;
+};
@@ -0,0 +1,53 @@
+import { supabase } from "@/integrations/supabase/client";
+import { UserProfile } from "@/lib/auth";
+
+const BUCKET = 'punch-selfies';
+
+const VIEW_LINK_SECONDS = 5 * 60;
+
+// Whether the employee's department asks their role for a photo at each punch
+export const isSelfieRequired = async (profile: UserProfile): Promise<boolean> => {
+  if (!profile.department_id) return false;
+
+  const { data, error } = await supabase
+    .from('departments')
+    .select('selfie_required_roles')
+    .eq('id', profile.department_id)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching selfie policy:', error);
+    return false;
+  }
+
+  return !!data?.selfie_required_roles.includes(profile.role);
+};
+
+// Stored under <user id>/<date>/, the path the punch is saved with
+export const uploadSelfie = async (userId: string, date: string, photo: Blob): Promise<string> => {
+  const path = `${userId}/${date}/${crypto.randomUUID()}.jpg`;
+
+  const { error } = await supabase.storage
+    .from(BUCKET)
+    .upload(path, photo, { contentType: photo.type || 'image/jpeg' });
+
+  if (error) throw error;
+  return path;
+};
+
+// Signed links for many photos at once, keyed by path
+export const getSelfieUrls = async (paths: string[]): Promise<Record<string, string>> => {
+  if (paths.length === 0) return {};
+
+  const { data, error } = await supabase.storage
+    .from(BUCKET)
+    .createSignedUrls(paths, VIEW_LINK_SECONDS);
+
+  if (error) throw error;
+
+  return Object.fromEntries(
+    (data || [])
+      .filter((link) => link.path && link.signedUrl)
+      .map((link) => [link.path as string, link.signedUrl])
+  );
+};
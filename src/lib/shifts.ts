@@ -0,0 +1,67 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+
+export type Shift = Tables<'shifts'>;
+
+/**
+ * Resolves the shift that applies to an employee on a given date.
+ * An assignment to the employee wins over one to their department, and
+ * the organisation default shift is used when neither exists.
+ */
+export const getShiftForUser = async (
+  userId: string,
+  departmentId: string | null | undefined,
+  date: string
+): Promise<Shift | null> => {
+  const targets = departmentId
+    ? `user_id.eq.${userId},department_id.eq.${departmentId}`
+    : `user_id.eq.${userId}`;
+
+  const { data: assignments, error } = await supabase
+    .from('shift_assignments')
+    .select('user_id, effective_from, effective_to, shifts (*)')
+    .or(targets)
+    .lte('effective_from', date)
+    .order('effective_from', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching shift assignments:', error);
+    return null;
+  }
+
+  const current = (assignments || []).filter((a) => !a.effective_to || a.effective_to >= date);
+  const assignment = current.find((a) => a.user_id === userId) || current[0];
+  if (assignment?.shifts) {
+    return assignment.shifts;
+  }
+
+  const { data: defaultShift, error: defaultError } = await supabase
+    .from('shifts')
+    .select('*')
+    .eq('is_default', true)
+    .maybeSingle();
+
+  if (defaultError) {
+    console.error('Error fetching default shift:', defaultError);
+    return null;
+  }
+
+  return defaultShift;
+};
+
+export const getShiftById = async (shiftId: string): Promise<Shift | null> => {
+  const { data, error } = await supabase
+    .from('shifts')
+    .select('*')
+    .eq('id', shiftId)
+    .single();
+
+  if (error) {
+    console.error('Error fetching shift:', error);
+    return null;
+  }
+
+  return data;
+};
+
+export const formatShiftTime = (time: string) => time.slice(0, 5);
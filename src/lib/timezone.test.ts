@@ -0,0 +1,110 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  addDaysToDate,
+  formatDate,
+  getTimezoneOffsetMinutes,
+  toLocalDate,
+  toLocalTime,
+  zonedTimeToUtc
+} from './timezone';
+
+// West and east of UTC, with a half-hour offset on the east side
+const NEW_YORK = 'America/New_York';
+const KOLKATA = 'Asia/Kolkata';
+
+const originalTimezone = process.env.TZ;
+
+afterEach(() => {
+  process.env.TZ = originalTimezone;
+});
+
+describe('formatDate', () => {
+  const options: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric', year: 'numeric' };
+
+  it.each([NEW_YORK, KOLKATA])('shows the calendar date when the browser is in %s', (timeZone) => {
+    process.env.TZ = timeZone;
+    expect(formatDate('2026-03-01', options)).toBe('Mar 1, 2026');
+    expect(formatDate('2026-12-31', options)).toBe('Dec 31, 2026');
+  });
+
+  it('uses the browser locale without options', () => {
+    process.env.TZ = NEW_YORK;
+    expect(formatDate('2026-03-01')).toBe(new Date(2026, 2, 1).toLocaleDateString());
+  });
+});
+
+describe('toLocalDate', () => {
+  it('keeps an evening punch west of UTC on that day', () => {
+    // 22:30 in New York is already the next day in UTC
+    expect(toLocalDate('2026-01-15T03:30:00Z', NEW_YORK)).toBe('2026-01-14');
+  });
+
+  it('moves an early punch east of UTC to the next day', () => {
+    // 00:15 in Kolkata is still the previous day in UTC
+    expect(toLocalDate('2026-01-14T18:45:00Z', KOLKATA)).toBe('2026-01-15');
+  });
+
+  it('dates each end of a punch that crosses midnight by its own wall clock', () => {
+    const punchIn = zonedTimeToUtc('2026-01-14', '22:00', NEW_YORK);
+    const punchOut = zonedTimeToUtc('2026-01-15', '02:00', NEW_YORK);
+
+    expect(punchIn.toISOString()).toBe('2026-01-15T03:00:00.000Z');
+    expect(punchOut.toISOString()).toBe('2026-01-15T07:00:00.000Z');
+    expect(toLocalDate(punchIn, NEW_YORK)).toBe('2026-01-14');
+    expect(toLocalDate(punchOut, NEW_YORK)).toBe('2026-01-15');
+    expect(toLocalTime(punchOut, NEW_YORK)).toBe('02:00');
+  });
+
+  it('dates a night shift east of UTC that crosses midnight', () => {
+    const punchIn = zonedTimeToUtc('2026-01-14', '23:30', KOLKATA);
+    const punchOut = zonedTimeToUtc('2026-01-15', '00:30', KOLKATA);
+
+    // Both ends fall on the same UTC day
+    expect(punchIn.toISOString()).toBe('2026-01-14T18:00:00.000Z');
+    expect(punchOut.toISOString()).toBe('2026-01-14T19:00:00.000Z');
+    expect(toLocalDate(punchIn, KOLKATA)).toBe('2026-01-14');
+    expect(toLocalDate(punchOut, KOLKATA)).toBe('2026-01-15');
+  });
+});
+
+describe('toLocalTime', () => {
+  it('shows midnight as 00:00', () => {
+    expect(toLocalTime('2026-01-15T05:00:00Z', NEW_YORK)).toBe('00:00');
+    expect(toLocalTime('2026-01-14T18:30:00Z', KOLKATA)).toBe('00:00');
+  });
+});
+
+describe('zonedTimeToUtc', () => {
+  it('finds local midnight on either side of UTC', () => {
+    expect(zonedTimeToUtc('2026-01-15', '00:00', NEW_YORK).toISOString()).toBe('2026-01-15T05:00:00.000Z');
+    expect(zonedTimeToUtc('2026-01-15', '00:00', KOLKATA).toISOString()).toBe('2026-01-14T18:30:00.000Z');
+  });
+
+  it('lands on the right side of a daylight saving change', () => {
+    // New York moves to UTC-4 at 02:00 on 8 March 2026
+    expect(zonedTimeToUtc('2026-03-08', '00:00', NEW_YORK).toISOString()).toBe('2026-03-08T05:00:00.000Z');
+    expect(zonedTimeToUtc('2026-03-08', '09:00', NEW_YORK).toISOString()).toBe('2026-03-08T13:00:00.000Z');
+  });
+});
+
+describe('getTimezoneOffsetMinutes', () => {
+  it('reads the offset at the given instant', () => {
+    expect(getTimezoneOffsetMinutes(NEW_YORK, new Date('2026-01-15T12:00:00Z'))).toBe(-300);
+    expect(getTimezoneOffsetMinutes(NEW_YORK, new Date('2026-07-15T12:00:00Z'))).toBe(-240);
+    expect(getTimezoneOffsetMinutes(KOLKATA, new Date('2026-01-15T12:00:00Z'))).toBe(330);
+  });
+});
+
+describe('addDaysToDate', () => {
+  it('steps over month and year ends', () => {
+    expect(addDaysToDate('2026-01-31', 1)).toBe('2026-02-01');
+    expect(addDaysToDate('2026-12-31', 1)).toBe('2027-01-01');
+    expect(addDaysToDate('2026-03-01', -1)).toBe('2026-02-28');
+  });
+
+  it('is not shifted by a daylight saving change in the browser zone', () => {
+    process.env.TZ = NEW_YORK;
+    expect(addDaysToDate('2026-03-07', 1)).toBe('2026-03-08');
+    expect(addDaysToDate('2026-03-08', 1)).toBe('2026-03-09');
+  });
+});
@@ -0,0 +1,149 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+export interface TimezoneSettings {
+  organization: string;
+  locations: Record<string, string>;
+}
+
+export interface TimezoneMember {
+  timezone?: string | null;
+  office_location_id?: string | null;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+// Wall-clock fields of an instant as seen in a timezone
+const getZonedParts = (at: Date, timeZone: string) => {
+  const parts: Record<string, number> = {};
+  getFormatter(timeZone).formatToParts(at).forEach((part) => {
+    if (part.type !== 'literal') parts[part.type] = parseInt(part.value);
+  });
+  return parts;
+};
+
+export const isValidTimezone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const getBrowserTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Every zone the browser knows about, for pickers
+export const getTimezoneOptions = (): string[] => {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+  return intl.supportedValuesOf ? intl.supportedValuesOf('timeZone') : [DEFAULT_TIMEZONE, getBrowserTimezone()];
+};
+
+/** Minutes the zone is ahead of UTC at the given instant, e.g. 330 for Asia/Kolkata. */
+export const getTimezoneOffsetMinutes = (timeZone: string, at: Date = new Date()): number => {
+  const parts = getZonedParts(at, timeZone);
+  const wallClockAsUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  const wholeSeconds = Math.floor(at.getTime() / 1000) * 1000;
+  return Math.round((wallClockAsUtc - wholeSeconds) / MINUTE_MS);
+};
+
+/** The calendar date (YYYY-MM-DD) an instant falls on in a timezone. */
+export const toLocalDate = (at: Date | string, timeZone: string): string => {
+  const parts = getZonedParts(new Date(at), timeZone);
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`;
+};
+
+export const getLocalToday = (timeZone: string) => toLocalDate(new Date(), timeZone);
+
+/** The wall-clock time (HH:MM) of an instant in a timezone, as used by time inputs. */
+export const toLocalTime = (at: Date | string, timeZone: string): string => {
+  const parts = getZonedParts(new Date(at), timeZone);
+  return `${pad(parts.hour)}:${pad(parts.minute)}`;
+};
+
+// Calendar arithmetic on YYYY-MM-DD strings, independent of any timezone
+export const addDaysToDate = (date: string, days: number) =>
+  new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().split('T')[0];
+
+/**
+ * The instant a wall-clock date and time happens in a timezone. The offset is
+ * read again at the first guess so days that change daylight saving time land
+ * on the right side of the switch.
+ */
+export const zonedTimeToUtc = (date: string, time: string, timeZone: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute, second = 0] = time.split(':').map(Number);
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  const firstGuess = wallClockAsUtc - getTimezoneOffsetMinutes(timeZone, new Date(wallClockAsUtc)) * MINUTE_MS;
+  return new Date(wallClockAsUtc - getTimezoneOffsetMinutes(timeZone, new Date(firstGuess)) * MINUTE_MS);
+};
+
+// Without a zone the browser's own is used, e.g. while the employee's is still loading
+export const formatTimeInZone = (timestamp: string | null | undefined, timeZone?: string | null) => {
+  if (!timestamp) return '--:--';
+  return new Date(timestamp).toLocaleTimeString('en-US', {
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: timeZone || undefined
+  });
+};
+
+// Date-only values are calendar dates, so they are shown without any offset applied
+export const formatDate = (date: string, options?: Intl.DateTimeFormatOptions) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString(options ? 'en-US' : undefined, { ...options, timeZone: 'UTC' });
+
+export const getTimezoneSettings = async (): Promise<TimezoneSettings> => {
+  const [settingsResult, locationsResult] = await Promise.all([
+    supabase.from('organization_settings').select('timezone').maybeSingle(),
+    supabase.from('office_locations').select('id, timezone').not('timezone', 'is', null)
+  ]);
+
+  if (settingsResult.error) console.error('Error fetching organization timezone:', settingsResult.error);
+  if (locationsResult.error) console.error('Error fetching location timezones:', locationsResult.error);
+
+  const locations: Record<string, string> = {};
+  (locationsResult.data || []).forEach((location) => {
+    if (location.timezone) locations[location.id] = location.timezone;
+  });
+
+  return {
+    organization: settingsResult.data?.timezone || DEFAULT_TIMEZONE,
+    locations
+  };
+};
+
+/**
+ * Mirrors public.get_user_timezone: the employee's own zone, else their
+ * office's, else the organisation default.
+ */
+export const getMemberTimezone = (settings: TimezoneSettings, member: TimezoneMember): string =>
+  member.timezone ||
+  (member.office_location_id && settings.locations[member.office_location_id]) ||
+  settings.organization;
+
+export const getUserTimezone = async (member: TimezoneMember): Promise<string> =>
+  getMemberTimezone(await getTimezoneSettings(), member);
@@ -0,0 +1,90 @@
+// End-of-day attendance job: marks ABSENT days, auto-closes sessions left open
+// and flags attendance anomalies on the closed days for HR to review.
+//
+// Schedule it to run shortly after the auto punch-out cut-off (e.g. with pg_cron
+// and pg_net, or any external scheduler) using the service role key:
+//
+//   curl -X POST "$SUPABASE_URL/functions/v1/close-attendance-day" \
+//     -H "Authorization: Bearer $SUPABASE_SERVICE_ROLE_KEY" \
+//     -H "Content-Type: application/json" \
+//     -d '{"date": "2026-10-18"}'
+//
+// Locally: `supabase functions serve close-attendance-day` and the same request
+// against http://localhost:54321.
+//
+// Without a date it goes over the last few days instead of only yesterday. A
+// day ends up to 12 hours later west of UTC than in UTC, and a night session is
+// closed at the next day's cut-off, so a single UTC date would leave those
+// employees open for good. Closing a day again only picks up the employees whose
+// day has ended since, so the runs can overlap.
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+// Two days for the furthest timezone behind UTC and its night sessions, plus
+// one for the time between runs
+const LOOKBACK_DAYS = 3;
+
+const daysAgo = (days: number) => {
+  const date = new Date();
+  date.setUTCDate(date.getUTCDate() - days);
+  return date.toISOString().split("T")[0];
+};
+
+// From the oldest day to yesterday
+const openDates = () =>
+  Array.from({ length: LOOKBACK_DAYS }, (_, index) => daysAgo(LOOKBACK_DAYS - index));
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+  // Marking people absent is not something a signed-in user may trigger
+  if (req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  try {
+    const body = req.method === "POST" ? await req.json().catch(() => ({})) : {};
+    const dates: string[] = body.date ? [body.date] : openDates();
+
+    if (!dates.every((date) => /^\d{4}-\d{2}-\d{2}$/.test(date))) {
+      return jsonResponse({ error: "date must be formatted as YYYY-MM-DD" }, 400);
+    }
+
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, serviceRoleKey);
+    const days = [];
+
+    for (const date of dates) {
+      const { data, error } = await supabase.rpc("close_attendance_day", { p_date: date });
+      if (error) throw error;
+      days.push(data);
+    }
+
+    // Run after closing so auto-closed sessions are seen with their final length
+    const { data: anomalies, error: anomalyError } = await supabase.rpc("detect_attendance_anomalies", {
+      p_from: dates[0],
+      p_to: dates[dates.length - 1],
+    });
+
+    if (anomalyError) throw anomalyError;
+
+    return jsonResponse({ days, anomalies });
+  } catch (error) {
+    console.error("Error closing attendance day:", error);
+    return jsonResponse({ error: (error as Error).message }, 500);
+  }
+});
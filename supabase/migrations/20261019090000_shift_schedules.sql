@@ -0,0 +1,77 @@
+-- Shift schedules used to classify attendance as PRESENT / LATE / EARLY_LEAVE / HALF_DAY
+
+CREATE OR REPLACE FUNCTION public.update_updated_at_column()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TABLE public.shifts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  grace_minutes INTEGER NOT NULL DEFAULT 0 CHECK (grace_minutes >= 0),
+  early_leave_grace_minutes INTEGER NOT NULL DEFAULT 0 CHECK (early_leave_grace_minutes >= 0),
+  min_full_day_hours NUMERIC(4, 2) NOT NULL DEFAULT 8 CHECK (min_full_day_hours > 0),
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- Only one shift can be the organisation-wide fallback
+CREATE UNIQUE INDEX shifts_single_default_idx ON public.shifts (is_default) WHERE is_default;
+
+CREATE TRIGGER update_shifts_updated_at
+  BEFORE UPDATE ON public.shifts
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A shift is assigned either to a single employee or to a whole department.
+-- Employee assignments take precedence over department assignments.
+CREATE TABLE public.shift_assignments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  shift_id UUID NOT NULL REFERENCES public.shifts(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+  department_id UUID REFERENCES public.departments(id) ON DELETE CASCADE,
+  effective_from DATE NOT NULL DEFAULT CURRENT_DATE,
+  effective_to DATE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CONSTRAINT shift_assignments_single_target CHECK ((user_id IS NULL) <> (department_id IS NULL)),
+  CONSTRAINT shift_assignments_valid_range CHECK (effective_to IS NULL OR effective_to >= effective_from)
+);
+
+CREATE INDEX shift_assignments_user_idx ON public.shift_assignments (user_id);
+CREATE INDEX shift_assignments_department_idx ON public.shift_assignments (department_id);
+
+ALTER TABLE public.attendance
+  ADD COLUMN shift_id UUID REFERENCES public.shifts(id) ON DELETE SET NULL,
+  ADD COLUMN late_minutes INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.shifts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shift_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view shifts"
+  ON public.shifts FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage shifts"
+  ON public.shifts FOR ALL
+  TO authenticated
+  USING (public.is_admin_or_higher(auth.uid()))
+  WITH CHECK (public.is_admin_or_higher(auth.uid()));
+
+CREATE POLICY "Authenticated users can view shift assignments"
+  ON public.shift_assignments FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage shift assignments"
+  ON public.shift_assignments FOR ALL
+  TO authenticated
+  USING (public.is_admin_or_higher(auth.uid()))
+  WITH CHECK (public.is_admin_or_higher(auth.uid()));
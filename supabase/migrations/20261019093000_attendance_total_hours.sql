@@ -0,0 +1,57 @@
+-- Authoritative worked-hours calculation for attendance rows.
+-- Mirrors calculateWorkedHours in src/lib/attendance.ts; keep the two in sync.
+
+ALTER TABLE public.shifts
+  ADD COLUMN unpaid_break_minutes INTEGER NOT NULL DEFAULT 0 CHECK (unpaid_break_minutes >= 0);
+
+-- Punches are full timestamps, so a shift that crosses midnight is simply a
+-- punch_out on the following calendar day. The unpaid break is deducted from
+-- the elapsed time and the result never goes below zero.
+CREATE OR REPLACE FUNCTION public.calculate_worked_hours(
+  p_punch_in TIMESTAMP WITH TIME ZONE,
+  p_punch_out TIMESTAMP WITH TIME ZONE,
+  p_break_minutes INTEGER DEFAULT 0
+)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_punch_in IS NULL OR p_punch_out IS NULL OR p_punch_out <= p_punch_in THEN NULL
+    ELSE ROUND(
+      GREATEST(
+        EXTRACT(EPOCH FROM (p_punch_out - p_punch_in)) / 3600.0 - COALESCE(p_break_minutes, 0) / 60.0,
+        0
+      )::NUMERIC,
+      2
+    )
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_attendance_total_hours()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  break_minutes INTEGER := 0;
+BEGIN
+  IF NEW.shift_id IS NOT NULL THEN
+    SELECT unpaid_break_minutes INTO break_minutes
+    FROM public.shifts
+    WHERE id = NEW.shift_id;
+  END IF;
+
+  NEW.total_hours := public.calculate_worked_hours(NEW.punch_in, NEW.punch_out, COALESCE(break_minutes, 0));
+  RETURN NEW;
+END;
+$$;
+
+-- Clients can no longer write total_hours directly; it is always derived from the punches
+CREATE TRIGGER set_attendance_total_hours
+  BEFORE INSERT OR UPDATE ON public.attendance
+  FOR EACH ROW EXECUTE FUNCTION public.set_attendance_total_hours();
+
+-- Backfill rows that were closed before the trigger existed
+UPDATE public.attendance
+SET punch_out = punch_out
+WHERE punch_out IS NOT NULL;
@@ -0,0 +1,169 @@
+-- Multiple punch sessions per attendance day (lunch, client visits, ...).
+-- The attendance row stays one-per-day and is kept in sync with its sessions:
+-- punch_in is the first session start, punch_out the last session end (NULL while
+-- a session is open) and total_hours the sum of the sessions.
+
+CREATE TABLE public.attendance_sessions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  attendance_id UUID NOT NULL REFERENCES public.attendance(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  punch_in TIMESTAMP WITH TIME ZONE NOT NULL,
+  punch_out TIMESTAMP WITH TIME ZONE,
+  location_in TEXT,
+  location_out TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CONSTRAINT attendance_sessions_valid_range CHECK (punch_out IS NULL OR punch_out > punch_in)
+);
+
+CREATE INDEX attendance_sessions_attendance_idx ON public.attendance_sessions (attendance_id, punch_in);
+
+-- At most one open session per day
+CREATE UNIQUE INDEX attendance_sessions_single_open_idx
+  ON public.attendance_sessions (attendance_id)
+  WHERE punch_out IS NULL;
+
+ALTER TABLE public.attendance_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own sessions"
+  ON public.attendance_sessions FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Managers can view all sessions"
+  ON public.attendance_sessions FOR SELECT
+  TO authenticated
+  USING (public.get_user_role(auth.uid()) IN ('SUPERADMIN', 'ADMIN', 'HR', 'HOD', 'MANAGER'));
+
+-- Punching in opens a session under one of the employee's own days
+CREATE POLICY "Users can create their own sessions"
+  ON public.attendance_sessions FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND punch_out IS NULL
+    AND EXISTS (
+      SELECT 1 FROM public.attendance a
+      WHERE a.id = attendance_id
+        AND a.user_id = auth.uid()
+    )
+  );
+
+-- Punching out closes the open session, which the end-of-day job never leaves
+-- past its day. Earlier sessions are corrected through a regularization.
+CREATE POLICY "Users can close their own open session"
+  ON public.attendance_sessions FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid() AND punch_out IS NULL)
+  WITH CHECK (user_id = auth.uid());
+
+-- True for statements sent by the app, false inside the functions that run as
+-- the table owner (reviews, the end-of-day job, ...)
+CREATE OR REPLACE FUNCTION public.is_client_request()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT current_user IN ('anon', 'authenticated');
+$$;
+
+-- Not SECURITY DEFINER, so is_client_request() still sees the caller
+CREATE OR REPLACE FUNCTION public.guard_session_punch_out()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT public.is_client_request() THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.attendance_id <> OLD.attendance_id OR NEW.punch_in <> OLD.punch_in THEN
+    RAISE EXCEPTION 'A recorded punch-in cannot be changed. Request a correction instead.';
+  END IF;
+
+  -- A few minutes of leeway for the device clock
+  IF NEW.punch_out > now() + INTERVAL '5 minutes' THEN
+    RAISE EXCEPTION 'Punch-out cannot be in the future';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_session_punch_out
+  BEFORE UPDATE ON public.attendance_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.guard_session_punch_out();
+
+-- Worked hours now come from the sessions when there are any. Gaps between
+-- sessions already count as unpaid time, so the shift's unpaid break is only
+-- deducted for the part not covered by them:
+--   total = min(sum of sessions, last out - first in - unpaid break)
+-- A day with a single session gives the same result as before.
+CREATE OR REPLACE FUNCTION public.set_attendance_total_hours()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  break_minutes INTEGER := 0;
+  session_hours NUMERIC;
+  session_count INTEGER;
+BEGIN
+  IF NEW.shift_id IS NOT NULL THEN
+    SELECT unpaid_break_minutes INTO break_minutes
+    FROM public.shifts
+    WHERE id = NEW.shift_id;
+  END IF;
+
+  NEW.total_hours := public.calculate_worked_hours(NEW.punch_in, NEW.punch_out, COALESCE(break_minutes, 0));
+
+  SELECT COALESCE(SUM(EXTRACT(EPOCH FROM (s.punch_out - s.punch_in))), 0) / 3600.0, COUNT(*)
+  INTO session_hours, session_count
+  FROM public.attendance_sessions s
+  WHERE s.attendance_id = NEW.id
+    AND s.punch_out IS NOT NULL;
+
+  IF session_count > 0 AND NEW.total_hours IS NOT NULL THEN
+    NEW.total_hours := ROUND(LEAST(session_hours, NEW.total_hours), 2);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_attendance_from_sessions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_id UUID := COALESCE(NEW.attendance_id, OLD.attendance_id);
+BEGIN
+  UPDATE public.attendance a
+  SET
+    punch_in = s.first_in,
+    punch_out = CASE WHEN s.open_count > 0 THEN NULL ELSE s.last_out END
+  FROM (
+    SELECT
+      MIN(punch_in) AS first_in,
+      MAX(punch_out) AS last_out,
+      COUNT(*) FILTER (WHERE punch_out IS NULL) AS open_count
+    FROM public.attendance_sessions
+    WHERE attendance_id = target_id
+  ) s
+  WHERE a.id = target_id
+    AND s.first_in IS NOT NULL;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_attendance_from_sessions
+  AFTER INSERT OR UPDATE OR DELETE ON public.attendance_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.sync_attendance_from_sessions();
+
+-- Existing days become a single session each
+INSERT INTO public.attendance_sessions (attendance_id, user_id, punch_in, punch_out, location_in, location_out)
+SELECT id, user_id, punch_in, punch_out, location_in, location_out
+FROM public.attendance
+WHERE punch_in IS NOT NULL
+  AND (punch_out IS NULL OR punch_out > punch_in);
@@ -0,0 +1,199 @@
+-- Office locations registry and per-employee geofence policy for punches
+
+CREATE TYPE public.geofence_policy AS ENUM ('NONE', 'FLAG', 'BLOCK');
+
+-- A location without a department is available to every employee
+CREATE TABLE public.office_locations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  department_id UUID REFERENCES public.departments(id) ON DELETE CASCADE,
+  latitude DOUBLE PRECISION NOT NULL CHECK (latitude BETWEEN -90 AND 90),
+  longitude DOUBLE PRECISION NOT NULL CHECK (longitude BETWEEN -180 AND 180),
+  radius_meters INTEGER NOT NULL DEFAULT 200 CHECK (radius_meters > 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX office_locations_department_idx ON public.office_locations (department_id);
+
+CREATE TRIGGER update_office_locations_updated_at
+  BEFORE UPDATE ON public.office_locations
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.profiles
+  ADD COLUMN geofence_policy public.geofence_policy NOT NULL DEFAULT 'FLAG';
+
+ALTER TABLE public.attendance
+  ADD COLUMN location_in_id UUID REFERENCES public.office_locations(id) ON DELETE SET NULL,
+  ADD COLUMN location_out_id UUID REFERENCES public.office_locations(id) ON DELETE SET NULL,
+  ADD COLUMN outside_geofence BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.attendance_sessions
+  ADD COLUMN location_in_id UUID REFERENCES public.office_locations(id) ON DELETE SET NULL,
+  ADD COLUMN location_out_id UUID REFERENCES public.office_locations(id) ON DELETE SET NULL,
+  ADD COLUMN outside_geofence BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.office_locations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view office locations"
+  ON public.office_locations FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage office locations"
+  ON public.office_locations FOR ALL
+  TO authenticated
+  USING (public.is_admin_or_higher(auth.uid()))
+  WITH CHECK (public.is_admin_or_higher(auth.uid()));
+
+-- Great-circle distance (haversine), as distanceInMeters in the app
+CREATE OR REPLACE FUNCTION public.distance_in_meters(
+  p_from_latitude DOUBLE PRECISION,
+  p_from_longitude DOUBLE PRECISION,
+  p_to_latitude DOUBLE PRECISION,
+  p_to_longitude DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 2 * 6371000 * asin(sqrt(LEAST(1,
+    power(sin(radians(p_to_latitude - p_from_latitude) / 2), 2) +
+    cos(radians(p_from_latitude)) * cos(radians(p_to_latitude)) *
+    power(sin(radians(p_to_longitude - p_from_longitude) / 2), 2)
+  )));
+$$;
+
+-- The app checks the geofence to tell the employee before punching; this is
+-- the same check made where it counts. The reading is the "latitude,
+-- longitude" label the app records. Raises for a BLOCK policy, otherwise
+-- returns the matched location and whether the punch is outside all of them.
+CREATE OR REPLACE FUNCTION public.check_geofence(
+  p_user_id UUID,
+  p_label TEXT,
+  OUT location_id UUID,
+  OUT outside BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  employee public.profiles%ROWTYPE;
+  reading TEXT[];
+BEGIN
+  SELECT * INTO employee FROM public.profiles WHERE id = p_user_id;
+  outside := false;
+
+  reading := regexp_match(p_label, '^(-?[0-9]+(?:\.[0-9]+)?), (-?[0-9]+(?:\.[0-9]+)?)$');
+  IF reading IS NOT NULL THEN
+    SELECT l.id INTO location_id
+    FROM public.office_locations l
+    WHERE l.is_active
+      AND (l.department_id IS NULL OR l.department_id = employee.department_id)
+      AND public.distance_in_meters(reading[1]::DOUBLE PRECISION, reading[2]::DOUBLE PRECISION, l.latitude, l.longitude) <= l.radius_meters
+    ORDER BY public.distance_in_meters(reading[1]::DOUBLE PRECISION, reading[2]::DOUBLE PRECISION, l.latitude, l.longitude)
+    LIMIT 1;
+  END IF;
+
+  IF employee.geofence_policy = 'NONE' OR location_id IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  -- Nothing to check against until an admin registers a location
+  IF NOT EXISTS (
+    SELECT 1 FROM public.office_locations l
+    WHERE l.is_active
+      AND (l.department_id IS NULL OR l.department_id = employee.department_id)
+  ) THEN
+    RETURN;
+  END IF;
+
+  IF employee.geofence_policy = 'BLOCK' THEN
+    IF reading IS NULL THEN
+      RAISE EXCEPTION 'Your location could not be determined. Please enable location access.';
+    END IF;
+    RAISE EXCEPTION 'You are not within any of your allowed office locations.';
+  END IF;
+
+  outside := true;
+END;
+$$;
+
+-- The matched locations and the flag sent by the app are replaced with the
+-- server's own. Punches placed by functions that run as the table owner keep
+-- what those set.
+CREATE OR REPLACE FUNCTION public.enforce_punch_geofence()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  punch RECORD;
+BEGIN
+  IF NOT public.is_client_request() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    SELECT * INTO punch FROM public.check_geofence(NEW.user_id, NEW.location_in);
+    NEW.location_in_id := punch.location_id;
+    NEW.outside_geofence := punch.outside;
+    RETURN NEW;
+  END IF;
+
+  NEW.location_in := OLD.location_in;
+  NEW.location_in_id := OLD.location_in_id;
+  NEW.outside_geofence := OLD.outside_geofence;
+
+  IF NEW.location_out IS DISTINCT FROM OLD.location_out THEN
+    SELECT * INTO punch FROM public.check_geofence(NEW.user_id, NEW.location_out);
+    NEW.location_out_id := punch.location_id;
+    NEW.outside_geofence := OLD.outside_geofence OR punch.outside;
+  ELSE
+    NEW.location_out_id := OLD.location_out_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_punch_geofence
+  BEFORE INSERT OR UPDATE ON public.attendance
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_punch_geofence();
+
+CREATE TRIGGER enforce_punch_geofence
+  BEFORE INSERT OR UPDATE ON public.attendance_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_punch_geofence();
+
+-- Same as before, except a day is also flagged when any of its sessions is
+CREATE OR REPLACE FUNCTION public.sync_attendance_from_sessions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_id UUID := COALESCE(NEW.attendance_id, OLD.attendance_id);
+BEGIN
+  UPDATE public.attendance a
+  SET
+    punch_in = s.first_in,
+    punch_out = CASE WHEN s.open_count > 0 THEN NULL ELSE s.last_out END,
+    outside_geofence = a.outside_geofence OR s.outside
+  FROM (
+    SELECT
+      MIN(punch_in) AS first_in,
+      MAX(punch_out) AS last_out,
+      COUNT(*) FILTER (WHERE punch_out IS NULL) AS open_count,
+      bool_or(outside_geofence) AS outside
+    FROM public.attendance_sessions
+    WHERE attendance_id = target_id
+  ) s
+  WHERE a.id = target_id
+    AND s.first_in IS NOT NULL;
+
+  RETURN NULL;
+END;
+$$;
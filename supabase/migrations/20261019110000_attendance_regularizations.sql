@@ -0,0 +1,142 @@
+-- Attendance regularization: employees propose corrected punch times for a day,
+-- a manager approves or rejects them. Approval rewrites the day and keeps the
+-- original values on the request for audit.
+
+CREATE TABLE public.attendance_regularizations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  attendance_id UUID REFERENCES public.attendance(id) ON DELETE SET NULL,
+  date DATE NOT NULL,
+  requested_punch_in TIMESTAMP WITH TIME ZONE NOT NULL,
+  requested_punch_out TIMESTAMP WITH TIME ZONE NOT NULL,
+  reason TEXT NOT NULL,
+  status public.request_status DEFAULT 'PENDING',
+  approved_by UUID REFERENCES public.profiles(id),
+  approved_at TIMESTAMP WITH TIME ZONE,
+  original_punch_in TIMESTAMP WITH TIME ZONE,
+  original_punch_out TIMESTAMP WITH TIME ZONE,
+  original_status public.attendance_status,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CONSTRAINT attendance_regularizations_valid_range CHECK (requested_punch_out > requested_punch_in)
+);
+
+-- One open request per employee and day
+CREATE UNIQUE INDEX attendance_regularizations_single_pending_idx
+  ON public.attendance_regularizations (user_id, date)
+  WHERE status = 'PENDING';
+
+CREATE TRIGGER update_attendance_regularizations_updated_at
+  BEFORE UPDATE ON public.attendance_regularizations
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.attendance_regularizations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own regularizations"
+  ON public.attendance_regularizations FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Managers can view all regularizations"
+  ON public.attendance_regularizations FOR SELECT
+  TO authenticated
+  USING (public.get_user_role(auth.uid()) IN ('SUPERADMIN', 'ADMIN', 'HR', 'HOD', 'MANAGER'));
+
+CREATE POLICY "Users can submit their own regularizations"
+  ON public.attendance_regularizations FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid() AND status = 'PENDING');
+
+-- Decisions go through review_attendance_regularization so the attendance
+-- rewrite and the audit snapshot happen together. Managers and HODs review their
+-- own team; ADMIN and HR review anyone.
+CREATE OR REPLACE FUNCTION public.review_attendance_regularization(
+  p_request_id UUID,
+  p_status public.request_status
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request public.attendance_regularizations%ROWTYPE;
+  day public.attendance%ROWTYPE;
+  target_attendance_id UUID;
+BEGIN
+  IF public.get_user_role(auth.uid()) NOT IN ('SUPERADMIN', 'ADMIN', 'HR', 'HOD', 'MANAGER') THEN
+    RAISE EXCEPTION 'Only managers can review regularization requests';
+  END IF;
+
+  IF p_status NOT IN ('APPROVED', 'REJECTED') THEN
+    RAISE EXCEPTION 'Invalid review status %', p_status;
+  END IF;
+
+  SELECT * INTO request
+  FROM public.attendance_regularizations
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Regularization request not found';
+  END IF;
+
+  IF request.status <> 'PENDING' THEN
+    RAISE EXCEPTION 'Regularization request has already been reviewed';
+  END IF;
+
+  IF request.user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot review your own regularization request';
+  END IF;
+
+  IF public.get_user_role(auth.uid()) NOT IN ('SUPERADMIN', 'ADMIN', 'HR')
+    AND request.user_id NOT IN (SELECT public.get_team_member_ids()) THEN
+    RAISE EXCEPTION 'You can only review regularization requests from your team';
+  END IF;
+
+  IF p_status = 'REJECTED' THEN
+    UPDATE public.attendance_regularizations
+    SET status = 'REJECTED', approved_by = auth.uid(), approved_at = now()
+    WHERE id = p_request_id;
+    RETURN;
+  END IF;
+
+  SELECT * INTO day
+  FROM public.attendance
+  WHERE user_id = request.user_id
+    AND date = request.date;
+
+  IF FOUND THEN
+    target_attendance_id := day.id;
+    -- The corrected times replace every session recorded for the day
+    DELETE FROM public.attendance_sessions WHERE attendance_id = day.id;
+  ELSE
+    INSERT INTO public.attendance (user_id, date, punch_in)
+    VALUES (request.user_id, request.date, request.requested_punch_in)
+    RETURNING id INTO target_attendance_id;
+  END IF;
+
+  -- New days and days closed as absent have no shift yet, and the unpaid break
+  -- comes from it
+  UPDATE public.attendance
+  SET shift_id = public.get_user_shift_id(request.user_id, request.date)
+  WHERE id = target_attendance_id
+    AND shift_id IS NULL;
+
+  INSERT INTO public.attendance_sessions (attendance_id, user_id, punch_in, punch_out)
+  VALUES (target_attendance_id, request.user_id, request.requested_punch_in, request.requested_punch_out);
+
+  -- Classified against the shift like any other punch
+  PERFORM public.classify_attendance(target_attendance_id);
+
+  UPDATE public.attendance_regularizations
+  SET status = 'APPROVED',
+      approved_by = auth.uid(),
+      approved_at = now(),
+      attendance_id = target_attendance_id,
+      original_punch_in = day.punch_in,
+      original_punch_out = day.punch_out,
+      original_status = day.status
+  WHERE id = p_request_id;
+END;
+$$;
@@ -0,0 +1,135 @@
+-- End-of-day attendance processing: mark ABSENT days and auto-close open sessions.
+-- Run for a finished day by the close-attendance-day edge function.
+
+-- Organisation-wide settings, kept in a single row
+CREATE TABLE public.organization_settings (
+  id BOOLEAN NOT NULL DEFAULT true PRIMARY KEY CHECK (id),
+  auto_punch_out_time TIME NOT NULL DEFAULT '23:59',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+INSERT INTO public.organization_settings (id) VALUES (true);
+
+CREATE TRIGGER update_organization_settings_updated_at
+  BEFORE UPDATE ON public.organization_settings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.organization_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view organization settings"
+  ON public.organization_settings FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can update organization settings"
+  ON public.organization_settings FOR UPDATE
+  TO authenticated
+  USING (public.is_admin_or_higher(auth.uid()))
+  WITH CHECK (public.is_admin_or_higher(auth.uid()));
+
+ALTER TABLE public.attendance
+  ADD COLUMN auto_closed BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.attendance_sessions
+  ADD COLUMN auto_closed BOOLEAN NOT NULL DEFAULT false;
+
+CREATE OR REPLACE FUNCTION public.close_attendance_day(p_date DATE)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cutoff TIME;
+  closed_count INTEGER := 0;
+  absent_count INTEGER := 0;
+BEGIN
+  SELECT auto_punch_out_time INTO cutoff FROM public.organization_settings;
+  cutoff := COALESCE(cutoff, '23:59'::TIME);
+
+  -- Close sessions left open on the day at the cut-off. A session that started
+  -- after the cut-off (night shift) is closed at the next day's cut-off, and
+  -- nothing is closed before its cut-off has actually passed.
+  UPDATE public.attendance_sessions s
+  SET punch_out = due.cutoff_at,
+      auto_closed = true
+  FROM (
+    SELECT
+      open_session.id,
+      CASE
+        WHEN (p_date + cutoff)::TIMESTAMP WITH TIME ZONE > open_session.punch_in THEN (p_date + cutoff)::TIMESTAMP WITH TIME ZONE
+        ELSE (p_date + 1 + cutoff)::TIMESTAMP WITH TIME ZONE
+      END AS cutoff_at
+    FROM public.attendance_sessions open_session
+    JOIN public.attendance a ON a.id = open_session.attendance_id
+    WHERE a.date = p_date
+      AND open_session.punch_out IS NULL
+  ) due
+  WHERE s.id = due.id
+    AND due.cutoff_at <= now();
+
+  GET DIAGNOSTICS closed_count = ROW_COUNT;
+
+  UPDATE public.attendance a
+  SET auto_closed = true
+  WHERE a.date = p_date
+    AND NOT a.auto_closed
+    AND EXISTS (
+      SELECT 1 FROM public.attendance_sessions s
+      WHERE s.attendance_id = a.id AND s.auto_closed
+    );
+
+  -- Active employees with no attendance row who were not on approved leave
+  WITH absentees AS (
+    INSERT INTO public.attendance (user_id, date, status)
+    SELECT p.id, p_date, 'ABSENT'
+    FROM public.profiles p
+    WHERE COALESCE(p.is_active, false)
+      AND (p.hire_date IS NULL OR p.hire_date <= p_date)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.attendance a
+        WHERE a.user_id = p.id AND a.date = p_date
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.leave_requests l
+        WHERE l.user_id = p.id
+          AND l.status = 'APPROVED'
+          AND p_date BETWEEN l.start_date AND l.end_date
+      )
+    RETURNING id
+  )
+  SELECT COUNT(*) INTO absent_count FROM absentees;
+
+  RETURN json_build_object(
+    'date', p_date,
+    'sessions_closed', closed_count,
+    'absent_marked', absent_count
+  );
+END;
+$$;
+
+-- Only the scheduled job (service role) may run end-of-day processing
+REVOKE EXECUTE ON FUNCTION public.close_attendance_day(DATE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.close_attendance_day(DATE) TO service_role;
+
+-- An approved correction replaces the auto-closed punches, so clear the flag
+CREATE OR REPLACE FUNCTION public.clear_auto_closed_on_regularization()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'APPROVED' AND OLD.status IS DISTINCT FROM 'APPROVED' AND NEW.attendance_id IS NOT NULL THEN
+    UPDATE public.attendance
+    SET auto_closed = false
+    WHERE id = NEW.attendance_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER clear_auto_closed_on_regularization
+  AFTER UPDATE ON public.attendance_regularizations
+  FOR EACH ROW EXECUTE FUNCTION public.clear_auto_closed_on_regularization();
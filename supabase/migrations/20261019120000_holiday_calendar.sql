@@ -0,0 +1,206 @@
+-- Holiday calendar: weekly off days plus one-off and yearly recurring holidays,
+-- optionally limited to a department or office location. Leave durations,
+-- absence marking and reports only count working days.
+
+-- Day numbers follow EXTRACT(DOW): 0 = Sunday ... 6 = Saturday
+ALTER TABLE public.organization_settings
+  ADD COLUMN weekly_off_days SMALLINT[] NOT NULL DEFAULT '{0,6}'
+    CHECK (weekly_off_days <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[]);
+
+-- NULL keeps the organisation's weekly off days
+ALTER TABLE public.departments
+  ADD COLUMN weekly_off_days SMALLINT[]
+    CHECK (weekly_off_days <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[]);
+
+-- The office an employee normally works from, used for location holidays
+ALTER TABLE public.profiles
+  ADD COLUMN office_location_id UUID REFERENCES public.office_locations(id) ON DELETE SET NULL;
+
+CREATE TABLE public.holidays (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  date DATE NOT NULL,
+  is_recurring BOOLEAN NOT NULL DEFAULT false,
+  department_id UUID REFERENCES public.departments(id) ON DELETE CASCADE,
+  location_id UUID REFERENCES public.office_locations(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX holidays_date_idx ON public.holidays (date);
+
+CREATE TRIGGER update_holidays_updated_at
+  BEFORE UPDATE ON public.holidays
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.holidays ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view holidays"
+  ON public.holidays FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage holidays"
+  ON public.holidays FOR ALL
+  TO authenticated
+  USING (public.is_admin_or_higher(auth.uid()))
+  WITH CHECK (public.is_admin_or_higher(auth.uid()));
+
+-- A recurring holiday repeats on the same month and day from its first year on
+CREATE OR REPLACE FUNCTION public.is_holiday(p_user_id UUID, p_date DATE)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.holidays h
+    JOIN public.profiles p ON p.id = p_user_id
+    WHERE (
+        h.date = p_date
+        OR (h.is_recurring AND h.date <= p_date AND to_char(h.date, 'MM-DD') = to_char(p_date, 'MM-DD'))
+      )
+      AND (h.department_id IS NULL OR h.department_id = p.department_id)
+      AND (h.location_id IS NULL OR h.location_id = p.office_location_id)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_working_day(p_user_id UUID, p_date DATE)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT (
+      EXTRACT(DOW FROM p_date)::SMALLINT = ANY (
+        COALESCE(
+          (SELECT d.weekly_off_days
+           FROM public.profiles p
+           JOIN public.departments d ON d.id = p.department_id
+           WHERE p.id = p_user_id),
+          (SELECT weekly_off_days FROM public.organization_settings),
+          '{}'::SMALLINT[]
+        )
+      )
+    )
+    AND NOT public.is_holiday(p_user_id, p_date);
+$$;
+
+CREATE OR REPLACE FUNCTION public.count_working_days(p_user_id UUID, p_start DATE, p_end DATE)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COUNT(*)::INTEGER
+  FROM generate_series(p_start, p_end, INTERVAL '1 day') AS day
+  WHERE public.is_working_day(p_user_id, day::DATE);
+$$;
+
+-- Leave duration in working days, fixed when the request is submitted so later
+-- calendar edits do not change already decided requests
+ALTER TABLE public.leave_requests
+  ADD COLUMN days NUMERIC(5, 1) NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.set_leave_request_days()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.days := public.count_working_days(NEW.user_id, NEW.start_date, NEW.end_date);
+
+  IF NEW.days = 0 THEN
+    RAISE EXCEPTION 'The selected dates do not include any working days';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_leave_request_days
+  BEFORE INSERT OR UPDATE OF user_id, start_date, end_date ON public.leave_requests
+  FOR EACH ROW EXECUTE FUNCTION public.set_leave_request_days();
+
+UPDATE public.leave_requests
+SET days = public.count_working_days(user_id, start_date, end_date);
+
+-- Same as before, except that nobody is marked absent on a weekly off or holiday
+CREATE OR REPLACE FUNCTION public.close_attendance_day(p_date DATE)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cutoff TIME;
+  closed_count INTEGER := 0;
+  absent_count INTEGER := 0;
+BEGIN
+  SELECT auto_punch_out_time INTO cutoff FROM public.organization_settings;
+  cutoff := COALESCE(cutoff, '23:59'::TIME);
+
+  -- Close sessions left open on the day at the cut-off. A session that started
+  -- after the cut-off (night shift) is closed at the next day's cut-off, and
+  -- nothing is closed before its cut-off has actually passed.
+  UPDATE public.attendance_sessions s
+  SET punch_out = due.cutoff_at,
+      auto_closed = true
+  FROM (
+    SELECT
+      open_session.id,
+      CASE
+        WHEN (p_date + cutoff)::TIMESTAMP WITH TIME ZONE > open_session.punch_in THEN (p_date + cutoff)::TIMESTAMP WITH TIME ZONE
+        ELSE (p_date + 1 + cutoff)::TIMESTAMP WITH TIME ZONE
+      END AS cutoff_at
+    FROM public.attendance_sessions open_session
+    JOIN public.attendance a ON a.id = open_session.attendance_id
+    WHERE a.date = p_date
+      AND open_session.punch_out IS NULL
+  ) due
+  WHERE s.id = due.id
+    AND due.cutoff_at <= now();
+
+  GET DIAGNOSTICS closed_count = ROW_COUNT;
+
+  UPDATE public.attendance a
+  SET auto_closed = true
+  WHERE a.date = p_date
+    AND NOT a.auto_closed
+    AND EXISTS (
+      SELECT 1 FROM public.attendance_sessions s
+      WHERE s.attendance_id = a.id AND s.auto_closed
+    );
+
+  -- Active employees with no attendance row who were not on approved leave
+  WITH absentees AS (
+    INSERT INTO public.attendance (user_id, date, status)
+    SELECT p.id, p_date, 'ABSENT'
+    FROM public.profiles p
+    WHERE COALESCE(p.is_active, false)
+      AND (p.hire_date IS NULL OR p.hire_date <= p_date)
+      AND public.is_working_day(p.id, p_date)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.attendance a
+        WHERE a.user_id = p.id AND a.date = p_date
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.leave_requests l
+        WHERE l.user_id = p.id
+          AND l.status = 'APPROVED'
+          AND p_date BETWEEN l.start_date AND l.end_date
+      )
+    RETURNING id
+  )
+  SELECT COUNT(*) INTO absent_count FROM absentees;
+
+  RETURN json_build_object(
+    'date', p_date,
+    'sessions_closed', closed_count,
+    'absent_marked', absent_count
+  );
+END;
+$$;
@@ -0,0 +1,35 @@
+-- Team attendance board: who a manager looks after, and live attendance updates.
+
+-- Direct line manager, used by MANAGER-role users to find their team
+ALTER TABLE public.profiles
+  ADD COLUMN manager_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX profiles_manager_id_idx ON public.profiles (manager_id);
+
+-- Active employees on the caller's team. Admins and HR see everyone, HODs the
+-- departments they head (departments.hod_id) and managers their direct reports.
+CREATE OR REPLACE FUNCTION public.get_team_member_ids()
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.id
+  FROM public.profiles p
+  WHERE COALESCE(p.is_active, false)
+    AND p.id <> auth.uid()
+    AND CASE public.get_user_role(auth.uid())
+      WHEN 'SUPERADMIN' THEN true
+      WHEN 'ADMIN' THEN true
+      WHEN 'HR' THEN true
+      WHEN 'HOD' THEN p.department_id IN (
+        SELECT d.id FROM public.departments d WHERE d.hod_id = auth.uid()
+      )
+      WHEN 'MANAGER' THEN p.manager_id = auth.uid()
+      ELSE false
+    END;
+$$;
+
+-- Stream attendance changes to the board
+ALTER PUBLICATION supabase_realtime ADD TABLE public.attendance;
@@ -0,0 +1,164 @@
+-- Timezones: attendance dates are the employee's local calendar date, not the
+-- UTC date. The zone comes from the employee, else their office, else the
+-- organisation default.
+
+CREATE OR REPLACE FUNCTION public.is_valid_timezone(p_timezone TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_timezone);
+$$;
+
+ALTER TABLE public.organization_settings
+  ADD COLUMN timezone TEXT NOT NULL DEFAULT 'UTC'
+    CHECK (public.is_valid_timezone(timezone));
+
+-- Existing staff are India-based
+UPDATE public.organization_settings SET timezone = 'Asia/Kolkata';
+
+ALTER TABLE public.office_locations
+  ADD COLUMN timezone TEXT
+    CHECK (timezone IS NULL OR public.is_valid_timezone(timezone));
+
+ALTER TABLE public.profiles
+  ADD COLUMN timezone TEXT
+    CHECK (timezone IS NULL OR public.is_valid_timezone(timezone));
+
+CREATE OR REPLACE FUNCTION public.get_user_timezone(p_user_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT COALESCE(p.timezone, l.timezone)
+     FROM public.profiles p
+     LEFT JOIN public.office_locations l ON l.id = p.office_location_id
+     WHERE p.id = p_user_id),
+    (SELECT timezone FROM public.organization_settings),
+    'UTC'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.local_date(p_user_id UUID, p_at TIMESTAMP WITH TIME ZONE DEFAULT now())
+RETURNS DATE
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT (p_at AT TIME ZONE public.get_user_timezone(p_user_id))::DATE;
+$$;
+
+-- A day's attendance row is dated by the local date of its first punch-in,
+-- whatever date the client sent
+CREATE OR REPLACE FUNCTION public.set_attendance_local_date()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.punch_in IS NOT NULL THEN
+    NEW.date := public.local_date(NEW.user_id, NEW.punch_in);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_attendance_local_date
+  BEFORE INSERT ON public.attendance
+  FOR EACH ROW EXECUTE FUNCTION public.set_attendance_local_date();
+
+-- Existing rows recorded under the UTC date move to the local date, unless
+-- that would collide with a row already on the local date
+UPDATE public.attendance a
+SET date = public.local_date(a.user_id, a.punch_in)
+WHERE a.punch_in IS NOT NULL
+  AND a.date <> public.local_date(a.user_id, a.punch_in)
+  AND NOT EXISTS (
+    SELECT 1 FROM public.attendance other
+    WHERE other.user_id = a.user_id
+      AND other.date = public.local_date(a.user_id, a.punch_in)
+  );
+
+-- Same as before, except that the cut-off and the end of the day are taken in
+-- each employee's timezone
+CREATE OR REPLACE FUNCTION public.close_attendance_day(p_date DATE)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cutoff TIME;
+  closed_count INTEGER := 0;
+  absent_count INTEGER := 0;
+BEGIN
+  SELECT auto_punch_out_time INTO cutoff FROM public.organization_settings;
+  cutoff := COALESCE(cutoff, '23:59'::TIME);
+
+  -- Close sessions left open on the day at the cut-off. A session that started
+  -- after the cut-off (night shift) is closed at the next day's cut-off, and
+  -- nothing is closed before its cut-off has actually passed.
+  UPDATE public.attendance_sessions s
+  SET punch_out = due.cutoff_at,
+      auto_closed = true
+  FROM (
+    SELECT
+      open_session.id,
+      CASE
+        WHEN (p_date + cutoff) AT TIME ZONE public.get_user_timezone(a.user_id) > open_session.punch_in
+          THEN (p_date + cutoff) AT TIME ZONE public.get_user_timezone(a.user_id)
+        ELSE (p_date + 1 + cutoff) AT TIME ZONE public.get_user_timezone(a.user_id)
+      END AS cutoff_at
+    FROM public.attendance_sessions open_session
+    JOIN public.attendance a ON a.id = open_session.attendance_id
+    WHERE a.date = p_date
+      AND open_session.punch_out IS NULL
+  ) due
+  WHERE s.id = due.id
+    AND due.cutoff_at <= now();
+
+  GET DIAGNOSTICS closed_count = ROW_COUNT;
+
+  UPDATE public.attendance a
+  SET auto_closed = true
+  WHERE a.date = p_date
+    AND NOT a.auto_closed
+    AND EXISTS (
+      SELECT 1 FROM public.attendance_sessions s
+      WHERE s.attendance_id = a.id AND s.auto_closed
+    );
+
+  -- Active employees whose day is over locally, with no attendance row and no
+  -- approved leave
+  WITH absentees AS (
+    INSERT INTO public.attendance (user_id, date, status)
+    SELECT p.id, p_date, 'ABSENT'
+    FROM public.profiles p
+    WHERE COALESCE(p.is_active, false)
+      AND (p.hire_date IS NULL OR p.hire_date <= p_date)
+      AND (p_date + 1)::TIMESTAMP AT TIME ZONE public.get_user_timezone(p.id) <= now()
+      AND public.is_working_day(p.id, p_date)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.attendance a
+        WHERE a.user_id = p.id AND a.date = p_date
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.leave_requests l
+        WHERE l.user_id = p.id
+          AND l.status = 'APPROVED'
+          AND p_date BETWEEN l.start_date AND l.end_date
+      )
+    RETURNING id
+  )
+  SELECT COUNT(*) INTO absent_count FROM absentees;
+
+  RETURN json_build_object(
+    'date', p_date,
+    'sessions_closed', closed_count,
+    'absent_marked', absent_count
+  );
+END;
+$$;
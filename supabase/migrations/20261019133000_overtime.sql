@@ -0,0 +1,284 @@
+-- Overtime: each day's worked hours are split into regular and overtime hours
+-- against an organisation-wide daily threshold. Hours over the weekly
+-- threshold are worked out from the regular hours of the week (see
+-- summarizeOvertime in src/lib/overtime.ts). Employees claim overtime for a
+-- day, weekly overtime on any completed day of its week, and a manager
+-- approves it; only approved hours go to payroll.
+
+ALTER TABLE public.organization_settings
+  ADD COLUMN daily_overtime_threshold_hours NUMERIC(4, 2) NOT NULL DEFAULT 8
+    CHECK (daily_overtime_threshold_hours > 0 AND daily_overtime_threshold_hours <= 24),
+  ADD COLUMN weekly_overtime_threshold_hours NUMERIC(5, 2) NOT NULL DEFAULT 40
+    CHECK (weekly_overtime_threshold_hours > 0 AND weekly_overtime_threshold_hours <= 168);
+
+ALTER TABLE public.attendance
+  ADD COLUMN regular_hours NUMERIC(5, 2),
+  ADD COLUMN overtime_hours NUMERIC(5, 2) NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.get_daily_overtime_threshold()
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((SELECT daily_overtime_threshold_hours FROM public.organization_settings), 8);
+$$;
+
+-- Same as before, plus the regular / overtime split of the worked hours
+CREATE OR REPLACE FUNCTION public.set_attendance_total_hours()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  break_minutes INTEGER := 0;
+  session_hours NUMERIC;
+  session_count INTEGER;
+  threshold NUMERIC := public.get_daily_overtime_threshold();
+BEGIN
+  IF NEW.shift_id IS NOT NULL THEN
+    SELECT unpaid_break_minutes INTO break_minutes
+    FROM public.shifts
+    WHERE id = NEW.shift_id;
+  END IF;
+
+  NEW.total_hours := public.calculate_worked_hours(NEW.punch_in, NEW.punch_out, COALESCE(break_minutes, 0));
+
+  SELECT COALESCE(SUM(EXTRACT(EPOCH FROM (s.punch_out - s.punch_in))), 0) / 3600.0, COUNT(*)
+  INTO session_hours, session_count
+  FROM public.attendance_sessions s
+  WHERE s.attendance_id = NEW.id
+    AND s.punch_out IS NOT NULL;
+
+  IF session_count > 0 AND NEW.total_hours IS NOT NULL THEN
+    NEW.total_hours := ROUND(LEAST(session_hours, NEW.total_hours), 2);
+  END IF;
+
+  NEW.regular_hours := LEAST(NEW.total_hours, threshold);
+  NEW.overtime_hours := COALESCE(GREATEST(NEW.total_hours - threshold, 0), 0);
+
+  RETURN NEW;
+END;
+$$;
+
+-- A new threshold re-splits every recorded day; approved claims keep their hours
+CREATE OR REPLACE FUNCTION public.resplit_attendance_overtime()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.attendance
+  SET regular_hours = LEAST(total_hours, NEW.daily_overtime_threshold_hours),
+      overtime_hours = GREATEST(total_hours - NEW.daily_overtime_threshold_hours, 0)
+  WHERE total_hours IS NOT NULL;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER resplit_attendance_overtime
+  AFTER UPDATE OF daily_overtime_threshold_hours ON public.organization_settings
+  FOR EACH ROW
+  WHEN (OLD.daily_overtime_threshold_hours IS DISTINCT FROM NEW.daily_overtime_threshold_hours)
+  EXECUTE FUNCTION public.resplit_attendance_overtime();
+
+-- Backfill the split for days recorded before it existed
+UPDATE public.attendance
+SET regular_hours = LEAST(total_hours, public.get_daily_overtime_threshold()),
+    overtime_hours = GREATEST(total_hours - public.get_daily_overtime_threshold(), 0)
+WHERE total_hours IS NOT NULL;
+
+CREATE TABLE public.overtime_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  attendance_id UUID REFERENCES public.attendance(id) ON DELETE SET NULL,
+  date DATE NOT NULL,
+  hours NUMERIC(5, 2) NOT NULL CHECK (hours > 0),
+  reason TEXT NOT NULL,
+  status public.request_status DEFAULT 'PENDING',
+  approved_hours NUMERIC(5, 2),
+  approved_by UUID REFERENCES public.profiles(id),
+  approved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CONSTRAINT overtime_requests_valid_approval CHECK (approved_hours IS NULL OR (approved_hours > 0 AND approved_hours <= hours))
+);
+
+-- One open or approved claim per employee and day
+CREATE UNIQUE INDEX overtime_requests_single_claim_idx
+  ON public.overtime_requests (user_id, date)
+  WHERE status IN ('PENDING', 'APPROVED');
+
+CREATE INDEX overtime_requests_date_idx ON public.overtime_requests (date);
+
+CREATE TRIGGER update_overtime_requests_updated_at
+  BEFORE UPDATE ON public.overtime_requests
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Hours that can still be claimed on a completed day: its own overtime over the
+-- daily threshold, plus whatever of its week's regular hours went over the
+-- weekly threshold and was not already claimed on another day of the week.
+-- Weeks run Monday to Sunday, as in summarizeOvertime.
+CREATE OR REPLACE FUNCTION public.get_claimable_overtime(p_user_id UUID, p_date DATE)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  week_start DATE := date_trunc('week', p_date)::DATE;
+  day_overtime NUMERIC;
+  weekly_overtime NUMERIC;
+  weekly_claimed NUMERIC;
+BEGIN
+  IF p_user_id IS DISTINCT FROM auth.uid()
+    AND p_user_id NOT IN (SELECT public.get_team_member_ids()) THEN
+    RAISE EXCEPTION 'You cannot view this employee''s overtime';
+  END IF;
+
+  SELECT overtime_hours INTO day_overtime
+  FROM public.attendance
+  WHERE user_id = p_user_id
+    AND date = p_date
+    AND total_hours IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  SELECT GREATEST(
+    COALESCE(SUM(regular_hours), 0)
+      - COALESCE((SELECT weekly_overtime_threshold_hours FROM public.organization_settings), 40),
+    0
+  )
+  INTO weekly_overtime
+  FROM public.attendance
+  WHERE user_id = p_user_id
+    AND date BETWEEN week_start AND week_start + 6;
+
+  -- Whatever another claim in the week took beyond its own day's overtime
+  SELECT COALESCE(SUM(GREATEST(COALESCE(r.approved_hours, r.hours) - COALESCE(a.overtime_hours, 0), 0)), 0)
+  INTO weekly_claimed
+  FROM public.overtime_requests r
+  LEFT JOIN public.attendance a ON a.id = r.attendance_id
+  WHERE r.user_id = p_user_id
+    AND r.date BETWEEN week_start AND week_start + 6
+    AND r.date <> p_date
+    AND r.status IN ('PENDING', 'APPROVED');
+
+  RETURN day_overtime + GREATEST(weekly_overtime - weekly_claimed, 0);
+END;
+$$;
+
+-- Overtime can only be claimed for a completed day, and never for more hours
+-- than get_claimable_overtime leaves
+CREATE OR REPLACE FUNCTION public.check_overtime_request()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  day public.attendance%ROWTYPE;
+  claimable NUMERIC;
+BEGIN
+  SELECT * INTO day
+  FROM public.attendance
+  WHERE user_id = NEW.user_id
+    AND date = NEW.date;
+
+  IF NOT FOUND OR day.total_hours IS NULL THEN
+    RAISE EXCEPTION 'There is no completed attendance on % to claim overtime for', NEW.date;
+  END IF;
+
+  claimable := public.get_claimable_overtime(NEW.user_id, NEW.date);
+
+  IF claimable = 0 THEN
+    RAISE EXCEPTION 'No overtime is left to claim on % or in its week', NEW.date;
+  END IF;
+
+  IF NEW.hours > claimable THEN
+    RAISE EXCEPTION 'Cannot claim % hours of overtime on % with % hours left to claim', NEW.hours, NEW.date, claimable;
+  END IF;
+
+  NEW.attendance_id := day.id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_overtime_request
+  BEFORE INSERT ON public.overtime_requests
+  FOR EACH ROW EXECUTE FUNCTION public.check_overtime_request();
+
+ALTER TABLE public.overtime_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own overtime requests"
+  ON public.overtime_requests FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Managers can view all overtime requests"
+  ON public.overtime_requests FOR SELECT
+  TO authenticated
+  USING (public.get_user_role(auth.uid()) IN ('SUPERADMIN', 'ADMIN', 'HR', 'HOD', 'MANAGER'));
+
+CREATE POLICY "Users can submit their own overtime requests"
+  ON public.overtime_requests FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid() AND status = 'PENDING' AND approved_hours IS NULL);
+
+-- Managers may approve fewer hours than were claimed. Managers and HODs review
+-- their own team; ADMIN and HR review anyone.
+CREATE OR REPLACE FUNCTION public.review_overtime_request(
+  p_request_id UUID,
+  p_status public.request_status,
+  p_approved_hours NUMERIC DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request public.overtime_requests%ROWTYPE;
+BEGIN
+  IF public.get_user_role(auth.uid()) NOT IN ('SUPERADMIN', 'ADMIN', 'HR', 'HOD', 'MANAGER') THEN
+    RAISE EXCEPTION 'Only managers can review overtime requests';
+  END IF;
+
+  IF p_status NOT IN ('APPROVED', 'REJECTED') THEN
+    RAISE EXCEPTION 'Invalid review status %', p_status;
+  END IF;
+
+  SELECT * INTO request
+  FROM public.overtime_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Overtime request not found';
+  END IF;
+
+  IF request.status <> 'PENDING' THEN
+    RAISE EXCEPTION 'Overtime request has already been reviewed';
+  END IF;
+
+  IF request.user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot review your own overtime request';
+  END IF;
+
+  IF public.get_user_role(auth.uid()) NOT IN ('SUPERADMIN', 'ADMIN', 'HR')
+    AND request.user_id NOT IN (SELECT public.get_team_member_ids()) THEN
+    RAISE EXCEPTION 'You can only review overtime requests from your team';
+  END IF;
+
+  UPDATE public.overtime_requests
+  SET status = p_status,
+      approved_hours = CASE WHEN p_status = 'APPROVED' THEN COALESCE(p_approved_hours, request.hours) END,
+      approved_by = auth.uid(),
+      approved_at = now()
+  WHERE id = p_request_id;
+END;
+$$;
@@ -0,0 +1,524 @@
+-- Kiosk mode: shared punch terminals registered by admins. A kiosk is not
+-- signed in as anyone; it holds a device token and every punch it takes goes
+-- through kiosk_punch, which checks the token and the employee's PIN or badge.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- Only a hash of the device token is kept; the token itself is shown once,
+-- when the kiosk is registered
+CREATE TABLE public.kiosk_devices (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  location_id UUID REFERENCES public.office_locations(id) ON DELETE SET NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  last_seen_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  revoked_by UUID REFERENCES public.profiles(id),
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE TRIGGER update_kiosk_devices_updated_at
+  BEFORE UPDATE ON public.kiosk_devices
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.kiosk_devices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage kiosk devices"
+  ON public.kiosk_devices FOR ALL
+  TO authenticated
+  USING (public.is_admin_or_higher(auth.uid()))
+  WITH CHECK (public.is_admin_or_higher(auth.uid()));
+
+ALTER TABLE public.attendance_sessions
+  ADD COLUMN kiosk_in_id UUID REFERENCES public.kiosk_devices(id) ON DELETE SET NULL,
+  ADD COLUMN kiosk_out_id UUID REFERENCES public.kiosk_devices(id) ON DELETE SET NULL;
+
+-- PIN and badge secrets live apart from profiles, which every employee can
+-- read. The table has no policies: it is only reached through the functions
+-- below.
+CREATE TABLE public.kiosk_credentials (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  pin_hash TEXT,
+  pin_set_at TIMESTAMP WITH TIME ZONE,
+  badge_token_hash TEXT UNIQUE,
+  badge_issued_at TIMESTAMP WITH TIME ZONE,
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE TRIGGER update_kiosk_credentials_updated_at
+  BEFORE UPDATE ON public.kiosk_credentials
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.kiosk_credentials ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.hash_kiosk_token(p_token TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT encode(extensions.digest(p_token, 'sha256'), 'hex');
+$$;
+
+-- Returns the device token, which is never stored
+CREATE OR REPLACE FUNCTION public.register_kiosk_device(p_name TEXT, p_location_id UUID DEFAULT NULL)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  token TEXT := encode(extensions.gen_random_bytes(24), 'hex');
+BEGIN
+  IF NOT public.is_admin_or_higher(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can register kiosks';
+  END IF;
+
+  IF COALESCE(btrim(p_name), '') = '' THEN
+    RAISE EXCEPTION 'Kiosk name is required';
+  END IF;
+
+  INSERT INTO public.kiosk_devices (name, location_id, token_hash, created_by)
+  VALUES (btrim(p_name), p_location_id, public.hash_kiosk_token(token), auth.uid());
+
+  RETURN token;
+END;
+$$;
+
+-- Lets a kiosk check on start-up that it is still registered
+CREATE OR REPLACE FUNCTION public.get_kiosk_device(p_device_token TEXT)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  result JSON;
+BEGIN
+  UPDATE public.kiosk_devices k
+  SET last_seen_at = now()
+  WHERE k.token_hash = public.hash_kiosk_token(p_device_token)
+    AND k.revoked_at IS NULL;
+
+  SELECT json_build_object('id', k.id, 'name', k.name, 'location', l.name)
+  INTO result
+  FROM public.kiosk_devices k
+  LEFT JOIN public.office_locations l ON l.id = k.location_id
+  WHERE k.token_hash = public.hash_kiosk_token(p_device_token)
+    AND k.revoked_at IS NULL;
+
+  IF result IS NULL THEN
+    RAISE EXCEPTION 'This kiosk is not registered or has been revoked';
+  END IF;
+
+  RETURN result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_kiosk_pin(p_pin TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  IF p_pin !~ '^[0-9]{4,8}$' THEN
+    RAISE EXCEPTION 'PIN must be 4 to 8 digits';
+  END IF;
+
+  INSERT INTO public.kiosk_credentials (user_id, pin_hash, pin_set_at)
+  VALUES (auth.uid(), extensions.crypt(p_pin, extensions.gen_salt('bf')), now())
+  ON CONFLICT (user_id) DO UPDATE
+  SET pin_hash = EXCLUDED.pin_hash,
+      pin_set_at = EXCLUDED.pin_set_at,
+      failed_attempts = 0,
+      locked_until = NULL;
+END;
+$$;
+
+-- Admins clear a forgotten PIN; the employee then sets a new one
+CREATE OR REPLACE FUNCTION public.reset_kiosk_pin(p_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin_or_higher(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can reset kiosk PINs';
+  END IF;
+
+  UPDATE public.kiosk_credentials
+  SET pin_hash = NULL,
+      pin_set_at = NULL,
+      failed_attempts = 0,
+      locked_until = NULL
+  WHERE user_id = p_user_id;
+END;
+$$;
+
+-- Issuing a badge replaces the previous one, so a lost badge stops working as
+-- soon as a new one is printed. Returns the badge token to encode in the QR.
+CREATE OR REPLACE FUNCTION public.issue_kiosk_badge(p_user_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  token TEXT := encode(extensions.gen_random_bytes(16), 'hex');
+BEGIN
+  IF NOT public.is_admin_or_higher(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can issue kiosk badges';
+  END IF;
+
+  INSERT INTO public.kiosk_credentials (user_id, badge_token_hash, badge_issued_at)
+  VALUES (p_user_id, public.hash_kiosk_token(token), now())
+  ON CONFLICT (user_id) DO UPDATE
+  SET badge_token_hash = EXCLUDED.badge_token_hash,
+      badge_issued_at = EXCLUDED.badge_issued_at;
+
+  RETURN token;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.revoke_kiosk_badge(p_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin_or_higher(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can revoke kiosk badges';
+  END IF;
+
+  UPDATE public.kiosk_credentials
+  SET badge_token_hash = NULL,
+      badge_issued_at = NULL
+  WHERE user_id = p_user_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_kiosk_credential_status(p_user_id UUID DEFAULT auth.uid())
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  result JSON;
+BEGIN
+  IF p_user_id <> auth.uid() AND NOT public.is_admin_or_higher(auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to view kiosk access for this employee';
+  END IF;
+
+  SELECT json_build_object(
+    'pin_set_at', c.pin_set_at,
+    'badge_issued_at', c.badge_issued_at,
+    'locked_until', c.locked_until
+  )
+  INTO result
+  FROM public.kiosk_credentials c
+  WHERE c.user_id = p_user_id;
+
+  RETURN COALESCE(result, json_build_object('pin_set_at', NULL, 'badge_issued_at', NULL, 'locked_until', NULL));
+END;
+$$;
+
+-- Same resolution as getShiftForUser in the app: an assignment to the employee
+-- wins over one to their department, then the default shift
+CREATE OR REPLACE FUNCTION public.get_user_shift_id(p_user_id UUID, p_date DATE)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT a.shift_id
+     FROM public.shift_assignments a
+     JOIN public.profiles p ON p.id = p_user_id
+     WHERE (a.user_id = p.id OR a.department_id = p.department_id)
+       AND a.effective_from <= p_date
+       AND (a.effective_to IS NULL OR a.effective_to >= p_date)
+     ORDER BY (a.user_id IS NOT NULL) DESC, a.effective_from DESC
+     LIMIT 1),
+    (SELECT id FROM public.shifts WHERE is_default)
+  );
+$$;
+
+-- Classifies a day against its shift. The punch-in gives PRESENT or LATE; once
+-- the day is punched out it may be downgraded to HALF_DAY (too few hours after
+-- the unpaid break) or EARLY_LEAVE (left before the end of the shift). Late
+-- minutes are kept so they survive the downgrade. Every punch goes through it,
+-- see classify_attendance_punches below.
+CREATE OR REPLACE FUNCTION public.classify_attendance(p_attendance_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  day public.attendance%ROWTYPE;
+  shift public.shifts%ROWTYPE;
+  tz TEXT;
+  shift_start TIMESTAMP WITH TIME ZONE;
+  shift_end TIMESTAMP WITH TIME ZONE;
+  late_by INTEGER;
+  late INTEGER;
+  new_status public.attendance_status;
+BEGIN
+  SELECT * INTO day FROM public.attendance WHERE id = p_attendance_id;
+  IF NOT FOUND OR day.punch_in IS NULL OR day.shift_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO shift FROM public.shifts WHERE id = day.shift_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  tz := public.get_user_timezone(day.user_id);
+  shift_start := (day.date + shift.start_time) AT TIME ZONE tz;
+  shift_end := (day.date + shift.end_time) AT TIME ZONE tz;
+  IF shift_end <= shift_start THEN
+    shift_end := (day.date + 1 + shift.end_time) AT TIME ZONE tz;
+  END IF;
+
+  late_by := FLOOR(EXTRACT(EPOCH FROM (day.punch_in - shift_start)) / 60);
+  late := CASE WHEN late_by > shift.grace_minutes THEN late_by ELSE 0 END;
+  new_status := CASE WHEN late > 0 THEN 'LATE' ELSE 'PRESENT' END;
+
+  IF day.punch_out IS NOT NULL THEN
+    IF COALESCE(day.total_hours, 0) < shift.min_full_day_hours THEN
+      new_status := 'HALF_DAY';
+    ELSIF EXTRACT(EPOCH FROM (shift_end - day.punch_out)) / 60 > shift.early_leave_grace_minutes THEN
+      new_status := 'EARLY_LEAVE';
+    END IF;
+  END IF;
+
+  UPDATE public.attendance
+  SET status = new_status,
+      late_minutes = late
+  WHERE id = p_attendance_id;
+END;
+$$;
+
+-- It acts on any employee's day, so it is only reachable through the
+-- functions that check who is asking
+REVOKE EXECUTE ON FUNCTION public.classify_attendance(UUID) FROM PUBLIC, anon, authenticated;
+
+-- The shift and the status are the server's to set. A day the app creates gets
+-- the employee's shift and starts as PRESENT, and later writes from the app keep
+-- what is recorded; days written by the server functions without a shift (an
+-- absence, a correction) get one as well. Not SECURITY DEFINER, so
+-- is_client_request() still sees the caller.
+CREATE OR REPLACE FUNCTION public.set_attendance_shift()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF public.is_client_request() THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.shift_id := public.get_user_shift_id(NEW.user_id, NEW.date);
+      NEW.status := 'PRESENT';
+      NEW.late_minutes := 0;
+    ELSE
+      NEW.shift_id := OLD.shift_id;
+      NEW.status := OLD.status;
+      NEW.late_minutes := OLD.late_minutes;
+    END IF;
+  ELSIF NEW.shift_id IS NULL THEN
+    NEW.shift_id := public.get_user_shift_id(NEW.user_id, NEW.date);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Sorts before set_attendance_total_hours, which deducts the shift's break
+CREATE TRIGGER set_attendance_shift
+  BEFORE INSERT OR UPDATE ON public.attendance
+  FOR EACH ROW EXECUTE FUNCTION public.set_attendance_shift();
+
+-- Re-classifies the day whenever its punches move, whoever moved them
+CREATE OR REPLACE FUNCTION public.classify_attendance_punches()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.classify_attendance(NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER classify_attendance_punches
+  AFTER INSERT OR UPDATE OF punch_in, punch_out, shift_id ON public.attendance
+  FOR EACH ROW
+  WHEN (NEW.punch_in IS NOT NULL)
+  EXECUTE FUNCTION public.classify_attendance_punches();
+
+-- Punches the employee in, or out when they have a session open. Rejected
+-- credentials are reported in the result rather than raised, so the failed
+-- attempt counter is kept; five misses lock the employee out for 15 minutes.
+-- The kiosk stands at a known place, so the employee's geofence is not checked.
+CREATE OR REPLACE FUNCTION public.kiosk_punch(
+  p_device_token TEXT,
+  p_employee_id TEXT,
+  p_pin TEXT DEFAULT NULL,
+  p_badge_token TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  kiosk public.kiosk_devices%ROWTYPE;
+  employee public.profiles%ROWTYPE;
+  credentials public.kiosk_credentials%ROWTYPE;
+  open_session public.attendance_sessions%ROWTYPE;
+  day public.attendance%ROWTYPE;
+  punch_date DATE;
+  authorised BOOLEAN := false;
+BEGIN
+  SELECT * INTO kiosk
+  FROM public.kiosk_devices
+  WHERE token_hash = public.hash_kiosk_token(p_device_token)
+    AND revoked_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This kiosk is not registered or has been revoked';
+  END IF;
+
+  UPDATE public.kiosk_devices SET last_seen_at = now() WHERE id = kiosk.id;
+
+  SELECT * INTO employee
+  FROM public.profiles
+  WHERE employee_id = btrim(p_employee_id)
+    AND COALESCE(is_active, false);
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('result', 'DENIED', 'message', 'Employee ID or PIN is incorrect');
+  END IF;
+
+  SELECT * INTO credentials
+  FROM public.kiosk_credentials
+  WHERE user_id = employee.id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    -- Same answer as a wrong PIN, so the kiosk does not reveal which IDs exist
+    RETURN json_build_object(
+      'result', 'DENIED',
+      'message', CASE WHEN p_badge_token IS NOT NULL THEN 'This badge is no longer valid' ELSE 'Employee ID or PIN is incorrect' END
+    );
+  END IF;
+
+  IF credentials.locked_until > now() THEN
+    RETURN json_build_object('result', 'DENIED', 'message', 'Too many incorrect attempts. Try again later.');
+  END IF;
+
+  IF p_badge_token IS NOT NULL THEN
+    authorised := credentials.badge_token_hash = public.hash_kiosk_token(p_badge_token);
+  ELSIF p_pin IS NOT NULL AND credentials.pin_hash IS NOT NULL THEN
+    authorised := credentials.pin_hash = extensions.crypt(p_pin, credentials.pin_hash);
+  END IF;
+
+  IF NOT COALESCE(authorised, false) THEN
+    UPDATE public.kiosk_credentials
+    SET failed_attempts = failed_attempts + 1,
+        locked_until = CASE WHEN failed_attempts + 1 >= 5 THEN now() + INTERVAL '15 minutes' END
+    WHERE user_id = employee.id;
+
+    RETURN json_build_object(
+      'result', 'DENIED',
+      'message', CASE WHEN p_badge_token IS NOT NULL THEN 'This badge is no longer valid' ELSE 'Employee ID or PIN is incorrect' END
+    );
+  END IF;
+
+  UPDATE public.kiosk_credentials
+  SET failed_attempts = 0,
+      locked_until = NULL
+  WHERE user_id = employee.id;
+
+  SELECT * INTO open_session
+  FROM public.attendance_sessions
+  WHERE user_id = employee.id
+    AND punch_out IS NULL
+  ORDER BY punch_in DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    -- A second scan straight after punching in is a double tap, not a punch out
+    IF open_session.punch_in > now() - INTERVAL '1 minute' THEN
+      RETURN json_build_object('result', 'DENIED', 'message', 'You punched in less than a minute ago');
+    END IF;
+
+    UPDATE public.attendance_sessions
+    SET punch_out = now(),
+        location_out = kiosk.name,
+        location_out_id = kiosk.location_id,
+        kiosk_out_id = kiosk.id
+    WHERE id = open_session.id;
+
+    UPDATE public.attendance
+    SET location_out = kiosk.name,
+        location_out_id = kiosk.location_id
+    WHERE id = open_session.attendance_id;
+
+    RETURN json_build_object(
+      'result', 'PUNCHED_OUT',
+      'full_name', employee.full_name,
+      'at', now(),
+      'timezone', public.get_user_timezone(employee.id)
+    );
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.attendance_sessions
+    WHERE user_id = employee.id
+      AND punch_out > now() - INTERVAL '1 minute'
+  ) THEN
+    RETURN json_build_object('result', 'DENIED', 'message', 'You punched out less than a minute ago');
+  END IF;
+
+  punch_date := public.local_date(employee.id, now());
+
+  SELECT * INTO day
+  FROM public.attendance
+  WHERE user_id = employee.id
+    AND date = punch_date;
+
+  IF FOUND AND day.punch_in IS NULL AND day.status = 'ABSENT' THEN
+    RETURN json_build_object('result', 'DENIED', 'message', 'Today was already closed as absent. Ask your manager for a correction.');
+  END IF;
+
+  IF NOT FOUND THEN
+    INSERT INTO public.attendance (user_id, date, punch_in, location_in, location_in_id, status, shift_id)
+    VALUES (employee.id, punch_date, now(), kiosk.name, kiosk.location_id, 'PRESENT', public.get_user_shift_id(employee.id, punch_date))
+    RETURNING * INTO day;
+  END IF;
+
+  INSERT INTO public.attendance_sessions (attendance_id, user_id, punch_in, location_in, location_in_id, kiosk_in_id)
+  VALUES (day.id, employee.id, now(), kiosk.name, kiosk.location_id, kiosk.id);
+
+  RETURN json_build_object(
+    'result', 'PUNCHED_IN',
+    'full_name', employee.full_name,
+    'at', now(),
+    'timezone', public.get_user_timezone(employee.id)
+  );
+END;
+$$;
@@ -0,0 +1,344 @@
+-- QR punch: each office location displays a rotating, time-limited code signed
+-- with a secret only the database knows. Employees scan it with their phone and
+-- the punch is written here, once the signature and expiry have been checked.
+--
+-- Code format: clock-in-sync:punch:<location id>:<expires epoch>:<hmac-sha256>
+
+-- Office locations are readable by every employee, so the signing secrets are
+-- kept apart in a table without policies
+CREATE TABLE public.location_qr_secrets (
+  location_id UUID NOT NULL PRIMARY KEY REFERENCES public.office_locations(id) ON DELETE CASCADE,
+  secret TEXT NOT NULL DEFAULT encode(extensions.gen_random_bytes(32), 'hex'),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+ALTER TABLE public.location_qr_secrets ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE public.attendance_sessions
+  ADD COLUMN qr_in BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN qr_out BOOLEAN NOT NULL DEFAULT false;
+
+-- Displays refresh every 30 seconds; a code stays valid for 60 so one that was
+-- scanned just before a refresh still goes through
+CREATE OR REPLACE FUNCTION public.sign_location_qr_token(p_location_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  signing_key TEXT;
+  expires_at BIGINT := FLOOR(EXTRACT(EPOCH FROM now()))::BIGINT + 60;
+  payload TEXT;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.office_locations WHERE id = p_location_id AND is_active) THEN
+    RAISE EXCEPTION 'Office location not found or inactive';
+  END IF;
+
+  INSERT INTO public.location_qr_secrets (location_id)
+  VALUES (p_location_id)
+  ON CONFLICT (location_id) DO NOTHING;
+
+  SELECT secret INTO signing_key FROM public.location_qr_secrets WHERE location_id = p_location_id;
+
+  payload := p_location_id::TEXT || ':' || expires_at::TEXT;
+
+  RETURN json_build_object(
+    'token', 'clock-in-sync:punch:' || payload || ':' || encode(extensions.hmac(payload, signing_key, 'sha256'), 'hex'),
+    'expires_at', to_timestamp(expires_at)
+  );
+END;
+$$;
+
+-- Returns the location the code was issued for
+CREATE OR REPLACE FUNCTION public.verify_location_qr_token(p_token TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  parts TEXT[] := string_to_array(p_token, ':');
+  signing_key TEXT;
+BEGIN
+  IF array_length(parts, 1) <> 5
+    OR parts[1] <> 'clock-in-sync'
+    OR parts[2] <> 'punch'
+    OR parts[3] !~ '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+    OR parts[4] !~ '^[0-9]+$' THEN
+    RAISE EXCEPTION 'This is not an office punch code';
+  END IF;
+
+  SELECT s.secret INTO signing_key
+  FROM public.location_qr_secrets s
+  JOIN public.office_locations l ON l.id = s.location_id
+  WHERE s.location_id = parts[3]::UUID
+    AND l.is_active;
+
+  IF signing_key IS NULL
+    OR encode(extensions.hmac(parts[3] || ':' || parts[4], signing_key, 'sha256'), 'hex') <> parts[5] THEN
+    RAISE EXCEPTION 'This office punch code is not valid';
+  END IF;
+
+  IF to_timestamp(parts[4]::BIGINT) < now() THEN
+    RAISE EXCEPTION 'This office punch code has expired. Scan the code on the screen again.';
+  END IF;
+
+  RETURN parts[3]::UUID;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_location_qr_token(p_location_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin_or_higher(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can display office punch codes';
+  END IF;
+
+  RETURN public.sign_location_qr_token(p_location_id);
+END;
+$$;
+
+-- A kiosk standing at an office can show the office's code as well
+CREATE OR REPLACE FUNCTION public.get_kiosk_qr_token(p_device_token TEXT)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  kiosk public.kiosk_devices%ROWTYPE;
+BEGIN
+  SELECT * INTO kiosk
+  FROM public.kiosk_devices
+  WHERE token_hash = public.hash_kiosk_token(p_device_token)
+    AND revoked_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This kiosk is not registered or has been revoked';
+  END IF;
+
+  IF kiosk.location_id IS NULL THEN
+    RAISE EXCEPTION 'This kiosk is not assigned to an office location';
+  END IF;
+
+  RETURN public.sign_location_qr_token(kiosk.location_id);
+END;
+$$;
+
+-- Punches an employee in, or out when they have a session open, at a known
+-- location. Shared by the kiosk and QR punches, which both prove where the
+-- employee is without a GPS reading.
+CREATE OR REPLACE FUNCTION public.record_verified_punch(
+  p_user_id UUID,
+  p_location_id UUID,
+  p_location_label TEXT,
+  p_kiosk_id UUID DEFAULT NULL,
+  p_qr BOOLEAN DEFAULT false
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  employee public.profiles%ROWTYPE;
+  open_session public.attendance_sessions%ROWTYPE;
+  day public.attendance%ROWTYPE;
+  punch_date DATE;
+BEGIN
+  SELECT * INTO employee FROM public.profiles WHERE id = p_user_id;
+
+  SELECT * INTO open_session
+  FROM public.attendance_sessions
+  WHERE user_id = employee.id
+    AND punch_out IS NULL
+  ORDER BY punch_in DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    -- A second scan straight after punching in is a double tap, not a punch out
+    IF open_session.punch_in > now() - INTERVAL '1 minute' THEN
+      RETURN json_build_object('result', 'DENIED', 'message', 'You punched in less than a minute ago');
+    END IF;
+
+    UPDATE public.attendance_sessions
+    SET punch_out = now(),
+        location_out = p_location_label,
+        location_out_id = p_location_id,
+        kiosk_out_id = p_kiosk_id,
+        qr_out = p_qr
+    WHERE id = open_session.id;
+
+    UPDATE public.attendance
+    SET location_out = p_location_label,
+        location_out_id = p_location_id
+    WHERE id = open_session.attendance_id;
+
+    RETURN json_build_object(
+      'result', 'PUNCHED_OUT',
+      'full_name', employee.full_name,
+      'at', now(),
+      'timezone', public.get_user_timezone(employee.id)
+    );
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.attendance_sessions
+    WHERE user_id = employee.id
+      AND punch_out > now() - INTERVAL '1 minute'
+  ) THEN
+    RETURN json_build_object('result', 'DENIED', 'message', 'You punched out less than a minute ago');
+  END IF;
+
+  punch_date := public.local_date(employee.id, now());
+
+  SELECT * INTO day
+  FROM public.attendance
+  WHERE user_id = employee.id
+    AND date = punch_date;
+
+  IF FOUND AND day.punch_in IS NULL AND day.status = 'ABSENT' THEN
+    RETURN json_build_object('result', 'DENIED', 'message', 'Today was already closed as absent. Ask your manager for a correction.');
+  END IF;
+
+  IF NOT FOUND THEN
+    INSERT INTO public.attendance (user_id, date, punch_in, location_in, location_in_id, status, shift_id)
+    VALUES (employee.id, punch_date, now(), p_location_label, p_location_id, 'PRESENT', public.get_user_shift_id(employee.id, punch_date))
+    RETURNING * INTO day;
+  END IF;
+
+  INSERT INTO public.attendance_sessions (attendance_id, user_id, punch_in, location_in, location_in_id, kiosk_in_id, qr_in)
+  VALUES (day.id, employee.id, now(), p_location_label, p_location_id, p_kiosk_id, p_qr);
+
+  RETURN json_build_object(
+    'result', 'PUNCHED_IN',
+    'full_name', employee.full_name,
+    'at', now(),
+    'timezone', public.get_user_timezone(employee.id)
+  );
+END;
+$$;
+
+-- Internal helpers: they act on any employee, so they are only reachable
+-- through the functions that check who is asking
+REVOKE EXECUTE ON FUNCTION public.record_verified_punch(UUID, UUID, TEXT, UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.sign_location_qr_token(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Same checks as before; the punch itself now goes through record_verified_punch
+CREATE OR REPLACE FUNCTION public.kiosk_punch(
+  p_device_token TEXT,
+  p_employee_id TEXT,
+  p_pin TEXT DEFAULT NULL,
+  p_badge_token TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  kiosk public.kiosk_devices%ROWTYPE;
+  employee public.profiles%ROWTYPE;
+  credentials public.kiosk_credentials%ROWTYPE;
+  authorised BOOLEAN := false;
+BEGIN
+  SELECT * INTO kiosk
+  FROM public.kiosk_devices
+  WHERE token_hash = public.hash_kiosk_token(p_device_token)
+    AND revoked_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This kiosk is not registered or has been revoked';
+  END IF;
+
+  UPDATE public.kiosk_devices SET last_seen_at = now() WHERE id = kiosk.id;
+
+  SELECT * INTO employee
+  FROM public.profiles
+  WHERE employee_id = btrim(p_employee_id)
+    AND COALESCE(is_active, false);
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('result', 'DENIED', 'message', 'Employee ID or PIN is incorrect');
+  END IF;
+
+  SELECT * INTO credentials
+  FROM public.kiosk_credentials
+  WHERE user_id = employee.id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    -- Same answer as a wrong PIN, so the kiosk does not reveal which IDs exist
+    RETURN json_build_object(
+      'result', 'DENIED',
+      'message', CASE WHEN p_badge_token IS NOT NULL THEN 'This badge is no longer valid' ELSE 'Employee ID or PIN is incorrect' END
+    );
+  END IF;
+
+  IF credentials.locked_until > now() THEN
+    RETURN json_build_object('result', 'DENIED', 'message', 'Too many incorrect attempts. Try again later.');
+  END IF;
+
+  IF p_badge_token IS NOT NULL THEN
+    authorised := credentials.badge_token_hash = public.hash_kiosk_token(p_badge_token);
+  ELSIF p_pin IS NOT NULL AND credentials.pin_hash IS NOT NULL THEN
+    authorised := credentials.pin_hash = extensions.crypt(p_pin, credentials.pin_hash);
+  END IF;
+
+  IF NOT COALESCE(authorised, false) THEN
+    UPDATE public.kiosk_credentials
+    SET failed_attempts = failed_attempts + 1,
+        locked_until = CASE WHEN failed_attempts + 1 >= 5 THEN now() + INTERVAL '15 minutes' END
+    WHERE user_id = employee.id;
+
+    RETURN json_build_object(
+      'result', 'DENIED',
+      'message', CASE WHEN p_badge_token IS NOT NULL THEN 'This badge is no longer valid' ELSE 'Employee ID or PIN is incorrect' END
+    );
+  END IF;
+
+  UPDATE public.kiosk_credentials
+  SET failed_attempts = 0,
+      locked_until = NULL
+  WHERE user_id = employee.id;
+
+  RETURN public.record_verified_punch(employee.id, kiosk.location_id, kiosk.name, kiosk.id);
+END;
+$$;
+
+-- The signed-in employee punches at the office whose code they scanned. The
+-- code stands in for the GPS check, but the office still has to be one the
+-- employee is allowed to punch from.
+CREATE OR REPLACE FUNCTION public.qr_punch(p_token TEXT)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  location public.office_locations%ROWTYPE;
+  employee public.profiles%ROWTYPE;
+BEGIN
+  SELECT * INTO employee FROM public.profiles WHERE id = auth.uid();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  SELECT * INTO location
+  FROM public.office_locations
+  WHERE id = public.verify_location_qr_token(p_token);
+
+  IF location.department_id IS NOT NULL
+    AND location.department_id IS DISTINCT FROM employee.department_id THEN
+    RETURN json_build_object('result', 'DENIED', 'message', location.name || ' is not one of your office locations');
+  END IF;
+
+  RETURN public.record_verified_punch(employee.id, location.id, location.name, NULL, true);
+END;
+$$;
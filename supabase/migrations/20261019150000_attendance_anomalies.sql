@@ -0,0 +1,318 @@
+-- Attendance anomaly detection: rules run over recorded days flag suspicious
+-- patterns for HR to confirm or dismiss. Detection runs with the end-of-day job
+-- and on demand from the review queue; a day is flagged at most once per rule,
+-- so re-running never brings back a dismissed flag.
+
+CREATE TYPE public.anomaly_type AS ENUM (
+  'IMPOSSIBLE_TRAVEL',
+  'REPEATED_TIMES',
+  'LONG_SESSION',
+  'HOLIDAY_PUNCH',
+  'LEAVE_PUNCH'
+);
+
+CREATE TYPE public.anomaly_status AS ENUM ('OPEN', 'CONFIRMED', 'DISMISSED');
+
+ALTER TABLE public.organization_settings
+  ADD COLUMN anomaly_max_travel_kmh INTEGER NOT NULL DEFAULT 200 CHECK (anomaly_max_travel_kmh > 0),
+  ADD COLUMN anomaly_max_session_hours NUMERIC(4, 1) NOT NULL DEFAULT 16 CHECK (anomaly_max_session_hours > 0);
+
+-- Where each punch happened, as numbers: the GPS reading kept in the location
+-- label when there is one, else the office the punch was matched to (kiosk and
+-- QR punches)
+ALTER TABLE public.attendance_sessions
+  ADD COLUMN latitude_in DOUBLE PRECISION,
+  ADD COLUMN longitude_in DOUBLE PRECISION,
+  ADD COLUMN latitude_out DOUBLE PRECISION,
+  ADD COLUMN longitude_out DOUBLE PRECISION;
+
+CREATE OR REPLACE FUNCTION public.set_session_coordinates()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  reading TEXT[];
+BEGIN
+  reading := regexp_match(NEW.location_in, '^(-?[0-9]+(?:\.[0-9]+)?), (-?[0-9]+(?:\.[0-9]+)?)$');
+  IF reading IS NOT NULL THEN
+    NEW.latitude_in := reading[1]::DOUBLE PRECISION;
+    NEW.longitude_in := reading[2]::DOUBLE PRECISION;
+  ELSE
+    SELECT latitude, longitude INTO NEW.latitude_in, NEW.longitude_in
+    FROM public.office_locations
+    WHERE id = NEW.location_in_id;
+  END IF;
+
+  reading := regexp_match(NEW.location_out, '^(-?[0-9]+(?:\.[0-9]+)?), (-?[0-9]+(?:\.[0-9]+)?)$');
+  IF reading IS NOT NULL THEN
+    NEW.latitude_out := reading[1]::DOUBLE PRECISION;
+    NEW.longitude_out := reading[2]::DOUBLE PRECISION;
+  ELSE
+    SELECT latitude, longitude INTO NEW.latitude_out, NEW.longitude_out
+    FROM public.office_locations
+    WHERE id = NEW.location_out_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_session_coordinates
+  BEFORE INSERT OR UPDATE ON public.attendance_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.set_session_coordinates();
+
+-- Fills in the coordinates of sessions recorded so far
+UPDATE public.attendance_sessions SET location_in = location_in;
+
+CREATE TABLE public.attendance_anomalies (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  attendance_id UUID NOT NULL REFERENCES public.attendance(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  type public.anomaly_type NOT NULL,
+  details TEXT NOT NULL,
+  status public.anomaly_status NOT NULL DEFAULT 'OPEN',
+  reviewed_by UUID REFERENCES public.profiles(id),
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CONSTRAINT attendance_anomalies_single_flag UNIQUE (attendance_id, type)
+);
+
+CREATE INDEX attendance_anomalies_status_idx ON public.attendance_anomalies (status, date);
+
+CREATE TRIGGER update_attendance_anomalies_updated_at
+  BEFORE UPDATE ON public.attendance_anomalies
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.attendance_anomalies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view attendance anomalies"
+  ON public.attendance_anomalies FOR SELECT
+  TO authenticated
+  USING (public.is_admin_or_higher(auth.uid()));
+
+-- Returns how many new flags were raised
+CREATE OR REPLACE FUNCTION public.detect_attendance_anomalies(p_from DATE, p_to DATE)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  settings public.organization_settings%ROWTYPE;
+  flagged INTEGER;
+  total INTEGER := 0;
+BEGIN
+  SELECT * INTO settings FROM public.organization_settings;
+
+  -- Consecutive punches further apart than anyone could travel in the time
+  -- between them. Moves under a kilometre are left alone as GPS drift.
+  WITH events AS (
+    SELECT a.id AS attendance_id, a.user_id, a.date, e.punched_at, e.latitude, e.longitude, e.label
+    FROM public.attendance a
+    JOIN public.attendance_sessions s ON s.attendance_id = a.id
+    CROSS JOIN LATERAL (VALUES
+      (s.punch_in, s.latitude_in, s.longitude_in, s.location_in),
+      (s.punch_out, s.latitude_out, s.longitude_out, s.location_out)
+    ) AS e(punched_at, latitude, longitude, label)
+    WHERE a.date BETWEEN p_from AND p_to
+      AND e.punched_at IS NOT NULL
+      AND e.latitude IS NOT NULL
+  ),
+  legs AS (
+    SELECT
+      events.*,
+      LAG(punched_at) OVER w AS previous_at,
+      LAG(label) OVER w AS previous_label,
+      public.distance_in_meters(LAG(latitude) OVER w, LAG(longitude) OVER w, latitude, longitude) / 1000 AS km
+    FROM events
+    WINDOW w AS (PARTITION BY attendance_id ORDER BY punched_at)
+  ),
+  suspicious AS (
+    SELECT DISTINCT ON (attendance_id)
+      attendance_id, user_id, date, km, previous_label, label,
+      EXTRACT(EPOCH FROM (punched_at - previous_at)) / 60 AS minutes
+    FROM legs
+    WHERE previous_at IS NOT NULL
+      AND km > 1
+      AND km > settings.anomaly_max_travel_kmh * EXTRACT(EPOCH FROM (punched_at - previous_at)) / 3600
+    ORDER BY attendance_id, km DESC
+  )
+  INSERT INTO public.attendance_anomalies (user_id, attendance_id, date, type, details)
+  SELECT
+    user_id, attendance_id, date, 'IMPOSSIBLE_TRAVEL',
+    format('Punches %s km apart within %s minutes (%s, then %s)',
+      round(km::NUMERIC, 1), round(minutes::NUMERIC), previous_label, label)
+  FROM suspicious
+  ON CONFLICT (attendance_id, type) DO NOTHING;
+
+  GET DIAGNOSTICS flagged = ROW_COUNT;
+  total := total + flagged;
+
+  -- The same punch-in and punch-out minute as another day in the previous 30.
+  -- Days closed automatically or rewritten by an approved correction carry
+  -- made-up times and are left out.
+  WITH days AS (
+    SELECT
+      a.id, a.user_id, a.date,
+      date_trunc('minute', a.punch_in AT TIME ZONE public.get_user_timezone(a.user_id))::TIME AS in_time,
+      date_trunc('minute', a.punch_out AT TIME ZONE public.get_user_timezone(a.user_id))::TIME AS out_time
+    FROM public.attendance a
+    WHERE a.date BETWEEN p_from - 30 AND p_to
+      AND a.punch_in IS NOT NULL
+      AND a.punch_out IS NOT NULL
+      AND NOT a.auto_closed
+      AND NOT EXISTS (
+        SELECT 1 FROM public.attendance_regularizations r
+        WHERE r.attendance_id = a.id
+          AND r.status = 'APPROVED'
+      )
+  )
+  INSERT INTO public.attendance_anomalies (user_id, attendance_id, date, type, details)
+  SELECT DISTINCT ON (d.id)
+    d.user_id, d.id, d.date, 'REPEATED_TIMES',
+    format('Punched in at %s and out at %s, exactly as on %s',
+      to_char(d.in_time, 'HH24:MI'), to_char(d.out_time, 'HH24:MI'), to_char(earlier.date, 'Mon DD'))
+  FROM days d
+  JOIN days earlier
+    ON earlier.user_id = d.user_id
+    AND earlier.date < d.date
+    AND earlier.date >= d.date - 30
+    AND earlier.in_time = d.in_time
+    AND earlier.out_time = d.out_time
+  WHERE d.date BETWEEN p_from AND p_to
+  ORDER BY d.id, earlier.date DESC
+  ON CONFLICT (attendance_id, type) DO NOTHING;
+
+  GET DIAGNOSTICS flagged = ROW_COUNT;
+  total := total + flagged;
+
+  INSERT INTO public.attendance_anomalies (user_id, attendance_id, date, type, details)
+  SELECT DISTINCT ON (a.id)
+    a.user_id, a.id, a.date, 'LONG_SESSION',
+    format('Session from %s lasted %s hours%s',
+      to_char(s.punch_in AT TIME ZONE public.get_user_timezone(a.user_id), 'HH24:MI'),
+      round((EXTRACT(EPOCH FROM (COALESCE(s.punch_out, now()) - s.punch_in)) / 3600)::NUMERIC, 1),
+      CASE
+        WHEN s.punch_out IS NULL THEN ' and is still open'
+        WHEN s.auto_closed THEN ' before it was closed automatically'
+        ELSE ''
+      END)
+  FROM public.attendance a
+  JOIN public.attendance_sessions s ON s.attendance_id = a.id
+  WHERE a.date BETWEEN p_from AND p_to
+    AND EXTRACT(EPOCH FROM (COALESCE(s.punch_out, now()) - s.punch_in)) / 3600 > settings.anomaly_max_session_hours
+  ORDER BY a.id, s.punch_in
+  ON CONFLICT (attendance_id, type) DO NOTHING;
+
+  GET DIAGNOSTICS flagged = ROW_COUNT;
+  total := total + flagged;
+
+  INSERT INTO public.attendance_anomalies (user_id, attendance_id, date, type, details)
+  SELECT a.user_id, a.id, a.date, 'HOLIDAY_PUNCH', 'Punched in on a holiday'
+  FROM public.attendance a
+  WHERE a.date BETWEEN p_from AND p_to
+    AND a.punch_in IS NOT NULL
+    AND public.is_holiday(a.user_id, a.date)
+  ON CONFLICT (attendance_id, type) DO NOTHING;
+
+  GET DIAGNOSTICS flagged = ROW_COUNT;
+  total := total + flagged;
+
+  INSERT INTO public.attendance_anomalies (user_id, attendance_id, date, type, details)
+  SELECT DISTINCT ON (a.id)
+    a.user_id, a.id, a.date, 'LEAVE_PUNCH',
+    format('Punched in during approved %s leave (%s to %s)',
+      lower(l.leave_type::TEXT), to_char(l.start_date, 'Mon DD'), to_char(l.end_date, 'Mon DD'))
+  FROM public.attendance a
+  JOIN public.leave_requests l
+    ON l.user_id = a.user_id
+    AND l.status = 'APPROVED'
+    AND a.date BETWEEN l.start_date AND l.end_date
+  WHERE a.date BETWEEN p_from AND p_to
+    AND a.punch_in IS NOT NULL
+  ORDER BY a.id, l.start_date
+  ON CONFLICT (attendance_id, type) DO NOTHING;
+
+  GET DIAGNOSTICS flagged = ROW_COUNT;
+  total := total + flagged;
+
+  RETURN total;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.detect_attendance_anomalies(DATE, DATE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.detect_attendance_anomalies(DATE, DATE) TO service_role;
+
+-- On-demand run from the review queue, limited to about a quarter at a time
+CREATE OR REPLACE FUNCTION public.run_anomaly_detection(p_from DATE, p_to DATE)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin_or_higher(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can run anomaly detection';
+  END IF;
+
+  IF p_to < p_from THEN
+    RAISE EXCEPTION 'The end date must not be before the start date';
+  END IF;
+
+  IF p_to - p_from > 92 THEN
+    RAISE EXCEPTION 'Detection can cover at most 92 days at a time';
+  END IF;
+
+  RETURN public.detect_attendance_anomalies(p_from, p_to);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.review_attendance_anomaly(
+  p_anomaly_id UUID,
+  p_status public.anomaly_status,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  anomaly public.attendance_anomalies%ROWTYPE;
+BEGIN
+  IF NOT public.is_admin_or_higher(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can review attendance anomalies';
+  END IF;
+
+  IF p_status NOT IN ('CONFIRMED', 'DISMISSED') THEN
+    RAISE EXCEPTION 'Invalid review status %', p_status;
+  END IF;
+
+  SELECT * INTO anomaly
+  FROM public.attendance_anomalies
+  WHERE id = p_anomaly_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Anomaly not found';
+  END IF;
+
+  IF anomaly.status <> 'OPEN' THEN
+    RAISE EXCEPTION 'Anomaly has already been reviewed';
+  END IF;
+
+  IF anomaly.user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot review anomalies on your own attendance';
+  END IF;
+
+  UPDATE public.attendance_anomalies
+  SET status = p_status,
+      review_note = NULLIF(btrim(p_note), ''),
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  WHERE id = p_anomaly_id;
+END;
+$$;
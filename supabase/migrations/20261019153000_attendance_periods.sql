@@ -0,0 +1,187 @@
+-- Period close: once payroll has run for a month HR closes it, and from then on
+-- attendance and leave rows dated in that month can no longer change
+
+-- A row means the month is closed; reopening deletes it
+CREATE TABLE public.attendance_periods (
+  month DATE NOT NULL PRIMARY KEY CHECK (month = date_trunc('month', month)::DATE),
+  closed_by UUID REFERENCES public.profiles(id),
+  closed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Every close and reopen is kept, with the reason for reopening
+CREATE TABLE public.attendance_period_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  month DATE NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('CLOSED', 'REOPENED')),
+  reason TEXT,
+  performed_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (action = 'CLOSED' OR reason IS NOT NULL)
+);
+
+CREATE INDEX attendance_period_events_month_idx ON public.attendance_period_events (month, created_at);
+
+ALTER TABLE public.attendance_periods ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.attendance_period_events ENABLE ROW LEVEL SECURITY;
+
+-- Every attendance and leave view marks closed months, so everyone can read them
+CREATE POLICY "Authenticated users can view closed periods"
+  ON public.attendance_periods FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can view period history"
+  ON public.attendance_period_events FOR SELECT
+  TO authenticated
+  USING (public.is_admin_or_higher(auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.is_period_closed(p_from DATE, p_to DATE DEFAULT NULL)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.attendance_periods
+    WHERE month BETWEEN date_trunc('month', p_from)::DATE AND COALESCE(p_to, p_from)
+  );
+$$;
+
+-- Triggers rather than row policies, so the punch, review and end-of-day
+-- functions that run as the table owner are held to the lock as well
+CREATE OR REPLACE FUNCTION public.enforce_open_period()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_from DATE;
+  old_to DATE;
+  new_from DATE;
+  new_to DATE;
+BEGIN
+  IF TG_TABLE_NAME = 'attendance' THEN
+    IF TG_OP <> 'INSERT' THEN
+      old_from := OLD.date;
+    END IF;
+    IF TG_OP <> 'DELETE' THEN
+      new_from := NEW.date;
+    END IF;
+  ELSIF TG_TABLE_NAME = 'attendance_sessions' THEN
+    IF TG_OP <> 'INSERT' THEN
+      SELECT date INTO old_from FROM public.attendance WHERE id = OLD.attendance_id;
+    END IF;
+    IF TG_OP <> 'DELETE' THEN
+      SELECT date INTO new_from FROM public.attendance WHERE id = NEW.attendance_id;
+    END IF;
+  ELSE
+    IF TG_OP <> 'INSERT' THEN
+      old_from := OLD.start_date;
+      old_to := OLD.end_date;
+    END IF;
+    IF TG_OP <> 'DELETE' THEN
+      new_from := NEW.start_date;
+      new_to := NEW.end_date;
+    END IF;
+  END IF;
+
+  IF (old_from IS NOT NULL AND public.is_period_closed(old_from, old_to))
+    OR (new_from IS NOT NULL AND public.is_period_closed(new_from, new_to)) THEN
+    RAISE EXCEPTION 'This month has been closed for payroll and can no longer be changed';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_open_period
+  BEFORE INSERT OR UPDATE OR DELETE ON public.attendance
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_open_period();
+
+CREATE TRIGGER enforce_open_period
+  BEFORE INSERT OR UPDATE OR DELETE ON public.attendance_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_open_period();
+
+CREATE TRIGGER enforce_open_period
+  BEFORE INSERT OR UPDATE OR DELETE ON public.leave_requests
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_open_period();
+
+-- A new overtime threshold only re-splits days that are still open
+CREATE OR REPLACE FUNCTION public.resplit_attendance_overtime()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.attendance
+  SET regular_hours = LEAST(total_hours, NEW.daily_overtime_threshold_hours),
+      overtime_hours = GREATEST(total_hours - NEW.daily_overtime_threshold_hours, 0)
+  WHERE total_hours IS NOT NULL
+    AND NOT public.is_period_closed(date);
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.close_attendance_period(p_month DATE)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  period_month DATE := date_trunc('month', p_month)::DATE;
+BEGIN
+  IF NOT public.is_admin_or_higher(auth.uid()) THEN
+    RAISE EXCEPTION 'Only HR and admins can close a period';
+  END IF;
+
+  -- Wait until the month has ended in every timezone (UTC-12 is the last)
+  IF period_month >= date_trunc('month', now() AT TIME ZONE 'Etc/GMT+12')::DATE THEN
+    RAISE EXCEPTION 'A month can only be closed after it has ended';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.attendance_periods WHERE month = period_month) THEN
+    RAISE EXCEPTION 'This month is already closed';
+  END IF;
+
+  INSERT INTO public.attendance_periods (month, closed_by)
+  VALUES (period_month, auth.uid());
+
+  INSERT INTO public.attendance_period_events (month, action, performed_by)
+  VALUES (period_month, 'CLOSED', auth.uid());
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reopen_attendance_period(p_month DATE, p_reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  period_month DATE := date_trunc('month', p_month)::DATE;
+BEGIN
+  IF public.get_user_role(auth.uid()) IS DISTINCT FROM 'SUPERADMIN' THEN
+    RAISE EXCEPTION 'Only a super admin can reopen a closed period';
+  END IF;
+
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to reopen a period';
+  END IF;
+
+  DELETE FROM public.attendance_periods WHERE month = period_month;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This month is not closed';
+  END IF;
+
+  INSERT INTO public.attendance_period_events (month, action, reason, performed_by)
+  VALUES (period_month, 'REOPENED', trim(p_reason), auth.uid());
+END;
+$$;
@@ -0,0 +1,171 @@
+-- Notes and attachments on attendance days. Employees leave a note when they
+-- punch, managers annotate the day, and photos or documents from field work
+-- are kept in storage next to it.
+
+ALTER TABLE public.attendance_sessions
+  ADD COLUMN note_in TEXT CHECK (char_length(note_in) <= 500),
+  ADD COLUMN note_out TEXT CHECK (char_length(note_out) <= 500);
+
+ALTER TABLE public.attendance
+  ADD COLUMN manager_note TEXT CHECK (char_length(manager_note) <= 1000),
+  ADD COLUMN manager_note_by UUID REFERENCES public.profiles(id),
+  ADD COLUMN manager_note_at TIMESTAMP WITH TIME ZONE;
+
+-- attendance.notes is the day's log of punch notes on the employee's clock,
+-- e.g. "09:02 In: client visit". It is only ever appended to, so notes survive
+-- a correction that replaces the day's sessions.
+CREATE OR REPLACE FUNCTION public.append_attendance_note()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  zone TEXT := public.get_user_timezone(NEW.user_id);
+  entry TEXT;
+BEGIN
+  IF NULLIF(trim(NEW.note_in), '') IS NOT NULL
+    AND (TG_OP = 'INSERT' OR OLD.note_in IS DISTINCT FROM NEW.note_in) THEN
+    entry := to_char(NEW.punch_in AT TIME ZONE zone, 'HH24:MI') || ' In: ' || trim(NEW.note_in);
+  END IF;
+
+  IF NULLIF(trim(NEW.note_out), '') IS NOT NULL
+    AND NEW.punch_out IS NOT NULL
+    AND (TG_OP = 'INSERT' OR OLD.note_out IS DISTINCT FROM NEW.note_out) THEN
+    entry := concat_ws(E'\n', entry, to_char(NEW.punch_out AT TIME ZONE zone, 'HH24:MI') || ' Out: ' || trim(NEW.note_out));
+  END IF;
+
+  IF entry IS NOT NULL THEN
+    UPDATE public.attendance
+    SET notes = concat_ws(E'\n', notes, entry)
+    WHERE id = NEW.attendance_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER append_attendance_note
+  AFTER INSERT OR UPDATE OF note_in, note_out ON public.attendance_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.append_attendance_note();
+
+-- Managers annotate other people's days; an empty note clears it
+CREATE OR REPLACE FUNCTION public.annotate_attendance_day(p_attendance_id UUID, p_note TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  day_user_id UUID;
+  note TEXT := NULLIF(trim(p_note), '');
+BEGIN
+  IF public.get_user_role(auth.uid()) NOT IN ('SUPERADMIN', 'ADMIN', 'HR', 'HOD', 'MANAGER') THEN
+    RAISE EXCEPTION 'Only managers can annotate attendance';
+  END IF;
+
+  SELECT user_id INTO day_user_id
+  FROM public.attendance
+  WHERE id = p_attendance_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Attendance record not found';
+  END IF;
+
+  IF day_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot annotate your own attendance';
+  END IF;
+
+  UPDATE public.attendance
+  SET manager_note = note,
+      manager_note_by = CASE WHEN note IS NULL THEN NULL ELSE auth.uid() END,
+      manager_note_at = CASE WHEN note IS NULL THEN NULL ELSE now() END
+  WHERE id = p_attendance_id;
+END;
+$$;
+
+-- Files live in a private bucket under <user id>/<attendance id>/ and are
+-- shared through short-lived signed links
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'attendance-attachments',
+  'attendance-attachments',
+  false,
+  10485760,
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'application/pdf']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE public.attendance_attachments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  attendance_id UUID NOT NULL REFERENCES public.attendance(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  file_path TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL,
+  content_type TEXT,
+  size_bytes INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX attendance_attachments_attendance_idx ON public.attendance_attachments (attendance_id);
+
+ALTER TABLE public.attendance_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own attachments"
+  ON public.attendance_attachments FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Managers can view all attachments"
+  ON public.attendance_attachments FOR SELECT
+  TO authenticated
+  USING (public.get_user_role(auth.uid()) IN ('SUPERADMIN', 'ADMIN', 'HR', 'HOD', 'MANAGER'));
+
+CREATE POLICY "Users can attach files to their own days"
+  ON public.attendance_attachments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND file_path LIKE auth.uid()::TEXT || '/' || attendance_id::TEXT || '/%'
+    AND EXISTS (
+      SELECT 1 FROM public.attendance a
+      WHERE a.id = attendance_id AND a.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete their own attachments"
+  ON public.attendance_attachments FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can upload their own attendance files"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'attendance-attachments'
+    AND (storage.foldername(name))[1] = auth.uid()::TEXT
+  );
+
+CREATE POLICY "Users can read their own attendance files"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'attendance-attachments'
+    AND (storage.foldername(name))[1] = auth.uid()::TEXT
+  );
+
+CREATE POLICY "Managers can read all attendance files"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'attendance-attachments'
+    AND public.get_user_role(auth.uid()) IN ('SUPERADMIN', 'ADMIN', 'HR', 'HOD', 'MANAGER')
+  );
+
+CREATE POLICY "Users can delete their own attendance files"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'attendance-attachments'
+    AND (storage.foldername(name))[1] = auth.uid()::TEXT
+  );
@@ -0,0 +1,159 @@
+-- Selfie at punch time. Each department lists the roles that must take a
+-- photo when they punch in and out from their own device; an empty list turns
+-- the requirement off. Kiosk and office QR punches are made on site and are
+-- not asked for one.
+
+ALTER TABLE public.departments
+  ADD COLUMN selfie_required_roles public.user_role[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.attendance_sessions
+  ADD COLUMN selfie_in_path TEXT,
+  ADD COLUMN selfie_out_path TEXT;
+
+-- Photos live in a private bucket under <user id>/<date>/ and are kept as
+-- evidence, so employees cannot delete them
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'punch-selfies',
+  'punch-selfies',
+  false,
+  5242880,
+  ARRAY['image/jpeg', 'image/png', 'image/webp']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload their own punch selfies"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'punch-selfies'
+    AND (storage.foldername(name))[1] = auth.uid()::TEXT
+  );
+
+CREATE POLICY "Users can view their own punch selfies"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'punch-selfies'
+    AND (storage.foldername(name))[1] = auth.uid()::TEXT
+  );
+
+-- Managers and department heads see their team's photos, HR and admins everyone's
+CREATE POLICY "Managers can view their team's punch selfies"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'punch-selfies'
+    AND (storage.foldername(name))[1] IN (SELECT id::TEXT FROM public.get_team_member_ids() AS id)
+  );
+
+CREATE OR REPLACE FUNCTION public.is_selfie_required(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((
+    SELECT p.role = ANY(d.selfie_required_roles)
+    FROM public.profiles p
+    JOIN public.departments d ON d.id = p.department_id
+    WHERE p.id = p_user_id
+  ), false);
+$$;
+
+-- A photo counts for a punch when it was uploaded under the employee's folder
+-- for the local date of that punch and no other punch uses it yet, so an old
+-- photo cannot stand in for a new one
+CREATE OR REPLACE FUNCTION public.is_own_punch_selfie(
+  p_user_id UUID,
+  p_path TEXT,
+  p_punched_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_path LIKE p_user_id::TEXT || '/' || public.local_date(p_user_id, p_punched_at)::TEXT || '/%'
+    AND EXISTS (
+      SELECT 1 FROM storage.objects
+      WHERE bucket_id = 'punch-selfies' AND name = p_path
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.attendance_sessions
+      WHERE selfie_in_path = p_path OR selfie_out_path = p_path
+    );
+$$;
+
+CREATE INDEX attendance_sessions_selfie_in_path_idx
+  ON public.attendance_sessions (selfie_in_path)
+  WHERE selfie_in_path IS NOT NULL;
+
+CREATE INDEX attendance_sessions_selfie_out_path_idx
+  ON public.attendance_sessions (selfie_out_path)
+  WHERE selfie_out_path IS NOT NULL;
+
+-- Only punches employees send from their own device are checked. Corrections,
+-- auto punch-outs and kiosk or QR punches are recorded by functions that run
+-- as the table owner and go through without a photo. Not SECURITY DEFINER, so
+-- is_client_request() still sees the caller.
+CREATE OR REPLACE FUNCTION public.require_punch_selfie()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT public.is_client_request() OR NOT public.is_selfie_required(NEW.user_id) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT'
+    AND NOT public.is_own_punch_selfie(NEW.user_id, COALESCE(NEW.selfie_in_path, ''), NEW.punch_in) THEN
+    RAISE EXCEPTION 'A selfie is required to punch in';
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND OLD.punch_out IS NULL
+    AND NEW.punch_out IS NOT NULL
+    AND NOT public.is_own_punch_selfie(NEW.user_id, COALESCE(NEW.selfie_out_path, ''), NEW.punch_out) THEN
+    RAISE EXCEPTION 'A selfie is required to punch out';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER require_punch_selfie
+  BEFORE INSERT OR UPDATE OF punch_out ON public.attendance_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.require_punch_selfie();
+
+-- Kiosk and QR punches are only marked as such by the functions that record
+-- them, so the app cannot pass a punch off as one
+CREATE OR REPLACE FUNCTION public.guard_verified_punch()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT public.is_client_request() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.kiosk_in_id IS NOT NULL OR NEW.kiosk_out_id IS NOT NULL OR NEW.qr_in OR NEW.qr_out THEN
+      RAISE EXCEPTION 'Kiosk and QR punches can only be recorded by the kiosk or QR code';
+    END IF;
+  ELSIF NEW.kiosk_in_id IS DISTINCT FROM OLD.kiosk_in_id
+    OR NEW.kiosk_out_id IS DISTINCT FROM OLD.kiosk_out_id
+    OR NEW.qr_in IS DISTINCT FROM OLD.qr_in
+    OR NEW.qr_out IS DISTINCT FROM OLD.qr_out THEN
+    RAISE EXCEPTION 'Kiosk and QR punches can only be recorded by the kiosk or QR code';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_verified_punch
+  BEFORE INSERT OR UPDATE ON public.attendance_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.guard_verified_punch();
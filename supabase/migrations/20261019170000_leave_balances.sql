@@ -0,0 +1,353 @@
+-- Leave balances. Each leave type has a yearly entitlement, set for every role
+-- or overridden for one, that is granted at the start of the year or accrued
+-- month by month and pro-rated from the hire date. Approved leave is taken out
+-- of the balance of the year it starts in, and unused days are carried into
+-- the next year up to a cap. Leave types without a policy are not limited.
+
+CREATE TYPE public.leave_accrual AS ENUM ('YEARLY', 'MONTHLY');
+
+CREATE TABLE public.leave_policies (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  leave_type public.leave_type_enum NOT NULL,
+  -- NULL applies to every role without a policy of its own
+  role public.user_role,
+  days_per_year NUMERIC(5, 1) NOT NULL CHECK (days_per_year >= 0),
+  accrual public.leave_accrual NOT NULL DEFAULT 'YEARLY',
+  carry_forward_max NUMERIC(5, 1) NOT NULL DEFAULT 0 CHECK (carry_forward_max >= 0),
+  -- Requests over the balance are warned about instead of refused
+  allow_overdraw BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE UNIQUE INDEX leave_policies_type_role_idx
+  ON public.leave_policies (leave_type, COALESCE(role::TEXT, ''));
+
+CREATE TRIGGER update_leave_policies_updated_at
+  BEFORE UPDATE ON public.leave_policies
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Days carried in and taken per employee, leave type and year. Maintained by
+-- the triggers below; what has been earned is worked out from the policy.
+CREATE TABLE public.leave_balances (
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  leave_type public.leave_type_enum NOT NULL,
+  year INTEGER NOT NULL,
+  carried_forward NUMERIC(5, 1) NOT NULL DEFAULT 0,
+  used NUMERIC(5, 1) NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  PRIMARY KEY (user_id, leave_type, year)
+);
+
+CREATE TRIGGER update_leave_balances_updated_at
+  BEFORE UPDATE ON public.leave_balances
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.leave_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.leave_balances ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view leave policies"
+  ON public.leave_policies FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage leave policies"
+  ON public.leave_policies FOR ALL
+  TO authenticated
+  USING (public.is_admin_or_higher(auth.uid()))
+  WITH CHECK (public.is_admin_or_higher(auth.uid()));
+
+CREATE POLICY "Users can view their own leave balances"
+  ON public.leave_balances FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Managers can view their team's leave balances"
+  ON public.leave_balances FOR SELECT
+  TO authenticated
+  USING (user_id IN (SELECT public.get_team_member_ids()));
+
+-- The employee's role policy, or the one for every role
+CREATE OR REPLACE FUNCTION public.get_leave_policy(p_user_id UUID, p_leave_type public.leave_type_enum)
+RETURNS public.leave_policies
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT lp.*
+  FROM public.leave_policies lp
+  JOIN public.profiles p ON p.id = p_user_id
+  WHERE lp.leave_type = p_leave_type
+    AND (lp.role = p.role OR lp.role IS NULL)
+  ORDER BY lp.role NULLS LAST
+  LIMIT 1;
+$$;
+
+-- Days earned in a year by p_as_of, in whole half days. The yearly allowance
+-- is pro-rated over the months employed, counting the month of hire; monthly
+-- accrual adds a twelfth at the start of each month. NULL without a policy.
+CREATE OR REPLACE FUNCTION public.leave_entitlement(
+  p_user_id UUID,
+  p_leave_type public.leave_type_enum,
+  p_year INTEGER,
+  p_as_of DATE DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  policy public.leave_policies := public.get_leave_policy(p_user_id, p_leave_type);
+  hired DATE;
+  as_of DATE := COALESCE(p_as_of, public.local_date(p_user_id));
+  first_month INTEGER := 1;
+  last_month INTEGER := 12;
+BEGIN
+  IF policy.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT hire_date INTO hired FROM public.profiles WHERE id = p_user_id;
+
+  IF hired IS NOT NULL THEN
+    IF EXTRACT(YEAR FROM hired) > p_year THEN
+      RETURN 0;
+    ELSIF EXTRACT(YEAR FROM hired) = p_year THEN
+      first_month := EXTRACT(MONTH FROM hired);
+    END IF;
+  END IF;
+
+  IF policy.accrual = 'MONTHLY' THEN
+    IF EXTRACT(YEAR FROM as_of) < p_year THEN
+      RETURN 0;
+    ELSIF EXTRACT(YEAR FROM as_of) = p_year THEN
+      last_month := EXTRACT(MONTH FROM as_of);
+    END IF;
+  END IF;
+
+  RETURN floor(policy.days_per_year * GREATEST(last_month - first_month + 1, 0) / 12.0 * 2) / 2;
+END;
+$$;
+
+-- Balance per limited leave type for a year, the current one by default.
+-- Employees see their own, managers their team's.
+CREATE OR REPLACE FUNCTION public.get_leave_balances(p_user_id UUID, p_year INTEGER DEFAULT NULL)
+RETURNS TABLE (
+  leave_type public.leave_type_enum,
+  days_per_year NUMERIC,
+  accrual public.leave_accrual,
+  allow_overdraw BOOLEAN,
+  entitled NUMERIC,
+  carried_forward NUMERIC,
+  used NUMERIC,
+  pending NUMERIC,
+  available NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  balance_year INTEGER := COALESCE(p_year, EXTRACT(YEAR FROM public.local_date(p_user_id))::INTEGER);
+BEGIN
+  IF p_user_id IS DISTINCT FROM auth.uid()
+    AND p_user_id NOT IN (SELECT public.get_team_member_ids()) THEN
+    RAISE EXCEPTION 'You cannot view this employee''s leave balance';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    t.leave_type,
+    policy.days_per_year,
+    policy.accrual,
+    policy.allow_overdraw,
+    t.entitled,
+    COALESCE(b.carried_forward, 0),
+    COALESCE(b.used, 0),
+    COALESCE((
+      SELECT SUM(l.days)
+      FROM public.leave_requests l
+      WHERE l.user_id = p_user_id
+        AND l.leave_type = t.leave_type
+        AND l.status = 'PENDING'
+        AND EXTRACT(YEAR FROM l.start_date) = balance_year
+    ), 0),
+    t.entitled + COALESCE(b.carried_forward, 0) - COALESCE(b.used, 0)
+  FROM (
+    SELECT
+      lt AS leave_type,
+      public.leave_entitlement(p_user_id, lt, balance_year) AS entitled
+    FROM unnest(enum_range(NULL::public.leave_type_enum)) AS lt
+  ) t
+  CROSS JOIN LATERAL public.get_leave_policy(p_user_id, t.leave_type) AS policy
+  LEFT JOIN public.leave_balances b
+    ON b.user_id = p_user_id
+    AND b.leave_type = t.leave_type
+    AND b.year = balance_year
+  WHERE t.entitled IS NOT NULL
+  ORDER BY t.leave_type;
+END;
+$$;
+
+-- Requests and approvals over the balance are refused unless the policy allows
+-- overdrawing. Runs after set_leave_request_days, so NEW.days is final.
+CREATE OR REPLACE FUNCTION public.validate_leave_balance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  policy public.leave_policies;
+  balance_year INTEGER := EXTRACT(YEAR FROM NEW.start_date);
+  available NUMERIC;
+BEGIN
+  IF NEW.status NOT IN ('PENDING', 'APPROVED') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Only a new request, a change to what is asked for, or the approval itself
+  IF TG_OP = 'UPDATE'
+    AND OLD.status IS NOT DISTINCT FROM NEW.status
+    AND OLD.days = NEW.days
+    AND OLD.leave_type = NEW.leave_type
+    AND OLD.start_date = NEW.start_date THEN
+    RETURN NEW;
+  END IF;
+
+  policy := public.get_leave_policy(NEW.user_id, NEW.leave_type);
+  IF policy.id IS NULL OR policy.allow_overdraw THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT public.leave_entitlement(NEW.user_id, NEW.leave_type, balance_year)
+    + COALESCE(SUM(b.carried_forward), 0)
+    - COALESCE(SUM(b.used), 0)
+  INTO available
+  FROM public.leave_balances b
+  WHERE b.user_id = NEW.user_id
+    AND b.leave_type = NEW.leave_type
+    AND b.year = balance_year;
+
+  -- The request's own days are already counted as used if it was approved
+  IF TG_OP = 'UPDATE' AND OLD.status = 'APPROVED' AND OLD.leave_type = NEW.leave_type
+    AND EXTRACT(YEAR FROM OLD.start_date) = balance_year THEN
+    available := available + OLD.days;
+  END IF;
+
+  IF NEW.days > available THEN
+    RAISE EXCEPTION 'Not enough % leave: % day(s) requested, % available',
+      lower(NEW.leave_type::TEXT), NEW.days, GREATEST(available, 0);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_leave_balance
+  BEFORE INSERT OR UPDATE OF status, leave_type, start_date, end_date ON public.leave_requests
+  FOR EACH ROW EXECUTE FUNCTION public.validate_leave_balance();
+
+CREATE OR REPLACE FUNCTION public.adjust_leave_balance(
+  p_user_id UUID,
+  p_leave_type public.leave_type_enum,
+  p_year INTEGER,
+  p_days NUMERIC
+)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.leave_balances (user_id, leave_type, year, used)
+  VALUES (p_user_id, p_leave_type, p_year, p_days)
+  ON CONFLICT (user_id, leave_type, year)
+  DO UPDATE SET used = public.leave_balances.used + EXCLUDED.used;
+$$;
+
+-- Approved leave is taken out of the balance, and given back when the request
+-- stops being approved or is removed
+CREATE OR REPLACE FUNCTION public.apply_leave_balance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' AND OLD.status = 'APPROVED' THEN
+    PERFORM public.adjust_leave_balance(OLD.user_id, OLD.leave_type, EXTRACT(YEAR FROM OLD.start_date)::INTEGER, -OLD.days);
+  END IF;
+
+  IF TG_OP <> 'DELETE' AND NEW.status = 'APPROVED' THEN
+    PERFORM public.adjust_leave_balance(NEW.user_id, NEW.leave_type, EXTRACT(YEAR FROM NEW.start_date)::INTEGER, NEW.days);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER apply_leave_balance
+  AFTER INSERT OR UPDATE OF status, days, leave_type, start_date OR DELETE ON public.leave_requests
+  FOR EACH ROW EXECUTE FUNCTION public.apply_leave_balance();
+
+-- Backfill what has already been approved
+INSERT INTO public.leave_balances (user_id, leave_type, year, used)
+SELECT user_id, leave_type, EXTRACT(YEAR FROM start_date)::INTEGER, SUM(days)
+FROM public.leave_requests
+WHERE status = 'APPROVED'
+GROUP BY user_id, leave_type, EXTRACT(YEAR FROM start_date);
+
+-- Carries what is left of a finished year into the next one, up to each
+-- policy's cap. Running it again recalculates the carried days.
+CREATE OR REPLACE FUNCTION public.carry_forward_leave(p_year INTEGER)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  carried_count INTEGER;
+BEGIN
+  IF NOT public.is_admin_or_higher(auth.uid()) THEN
+    RAISE EXCEPTION 'Only HR and admins can carry leave forward';
+  END IF;
+
+  -- Wait until the year has ended in every timezone (UTC-12 is the last)
+  IF p_year >= EXTRACT(YEAR FROM now() AT TIME ZONE 'Etc/GMT+12') THEN
+    RAISE EXCEPTION 'Leave can only be carried forward once the year has ended';
+  END IF;
+
+  INSERT INTO public.leave_balances (user_id, leave_type, year, carried_forward)
+  SELECT
+    p.id,
+    lt,
+    p_year + 1,
+    LEAST(
+      GREATEST(
+        public.leave_entitlement(p.id, lt, p_year, make_date(p_year, 12, 31))
+          + COALESCE(b.carried_forward, 0)
+          - COALESCE(b.used, 0),
+        0
+      ),
+      policy.carry_forward_max
+    )
+  FROM public.profiles p
+  CROSS JOIN unnest(enum_range(NULL::public.leave_type_enum)) AS lt
+  CROSS JOIN LATERAL public.get_leave_policy(p.id, lt) AS policy
+  LEFT JOIN public.leave_balances b
+    ON b.user_id = p.id
+    AND b.leave_type = lt
+    AND b.year = p_year
+  WHERE COALESCE(p.is_active, false)
+    AND policy.id IS NOT NULL
+  ON CONFLICT (user_id, leave_type, year)
+  DO UPDATE SET carried_forward = EXCLUDED.carried_forward;
+
+  GET DIAGNOSTICS carried_count = ROW_COUNT;
+  RETURN carried_count;
+END;
+$$;
@@ -0,0 +1,390 @@
+-- Half-day and hourly leave. A request covers whole working days, the first or
+-- second half of one day, or a range of hours within one day. Hours are
+-- counted against the organisation's standard day (the daily overtime
+-- threshold), so balances are taken down in fractions of a day. A day worked
+-- around approved half-day leave is marked HALF_DAY.
+
+CREATE TYPE public.leave_duration AS ENUM ('FULL_DAY', 'FIRST_HALF', 'SECOND_HALF', 'HOURS');
+
+-- Fractions of a day need two decimals. The balance trigger lists days among
+-- its columns, so it is dropped while the type changes.
+DROP TRIGGER apply_leave_balance ON public.leave_requests;
+
+ALTER TABLE public.leave_requests
+  ALTER COLUMN days TYPE NUMERIC(6, 2);
+
+ALTER TABLE public.leave_balances
+  ALTER COLUMN carried_forward TYPE NUMERIC(6, 2),
+  ALTER COLUMN used TYPE NUMERIC(6, 2);
+
+CREATE TRIGGER apply_leave_balance
+  AFTER INSERT OR UPDATE OF status, days, leave_type, start_date OR DELETE ON public.leave_requests
+  FOR EACH ROW EXECUTE FUNCTION public.apply_leave_balance();
+
+ALTER TABLE public.leave_requests
+  ADD COLUMN duration public.leave_duration NOT NULL DEFAULT 'FULL_DAY',
+  ADD COLUMN start_time TIME,
+  ADD COLUMN end_time TIME,
+  ADD CONSTRAINT leave_requests_single_day_part
+    CHECK (duration = 'FULL_DAY' OR start_date = end_date),
+  ADD CONSTRAINT leave_requests_hour_range
+    CHECK ((duration = 'HOURS') = (start_time IS NOT NULL AND end_time IS NOT NULL));
+
+-- Same as before for whole days; half days count as 0.5 and hours as their
+-- share of the standard day
+CREATE OR REPLACE FUNCTION public.set_leave_request_days()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  standard_hours NUMERIC := public.get_daily_overtime_threshold();
+  hours NUMERIC;
+BEGIN
+  IF NEW.duration = 'FULL_DAY' THEN
+    NEW.start_time := NULL;
+    NEW.end_time := NULL;
+    NEW.days := public.count_working_days(NEW.user_id, NEW.start_date, NEW.end_date);
+
+    IF NEW.days = 0 THEN
+      RAISE EXCEPTION 'The selected dates do not include any working days';
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF NEW.end_date <> NEW.start_date THEN
+    RAISE EXCEPTION 'Half-day and hourly leave must start and end on the same day';
+  END IF;
+
+  IF NOT public.is_working_day(NEW.user_id, NEW.start_date) THEN
+    RAISE EXCEPTION 'The selected date is not a working day';
+  END IF;
+
+  IF NEW.duration = 'HOURS' THEN
+    hours := EXTRACT(EPOCH FROM (NEW.end_time - NEW.start_time)) / 3600;
+
+    IF hours IS NULL OR hours <= 0 THEN
+      RAISE EXCEPTION 'Hourly leave needs a start time before its end time';
+    END IF;
+
+    IF hours >= standard_hours THEN
+      RAISE EXCEPTION 'Hourly leave must be shorter than a % hour working day', standard_hours;
+    END IF;
+
+    NEW.days := ROUND(hours / standard_hours, 2);
+  ELSE
+    NEW.start_time := NULL;
+    NEW.end_time := NULL;
+    NEW.days := 0.5;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER set_leave_request_days ON public.leave_requests;
+
+CREATE TRIGGER set_leave_request_days
+  BEFORE INSERT OR UPDATE OF user_id, start_date, end_date, duration, start_time, end_time ON public.leave_requests
+  FOR EACH ROW EXECUTE FUNCTION public.set_leave_request_days();
+
+DROP TRIGGER validate_leave_balance ON public.leave_requests;
+
+CREATE TRIGGER validate_leave_balance
+  BEFORE INSERT OR UPDATE OF status, leave_type, start_date, end_date, duration, start_time, end_time ON public.leave_requests
+  FOR EACH ROW EXECUTE FUNCTION public.validate_leave_balance();
+
+CREATE OR REPLACE FUNCTION public.has_half_day_leave(p_user_id UUID, p_date DATE)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.leave_requests
+    WHERE user_id = p_user_id
+      AND start_date = p_date
+      AND status = 'APPROVED'
+      AND duration IN ('FIRST_HALF', 'SECOND_HALF')
+  );
+$$;
+
+-- Whatever the punches made of the day, working the other half of a half-day
+-- leave is a half day. Runs after the date and hours are set.
+CREATE OR REPLACE FUNCTION public.set_half_day_leave_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IN ('PRESENT', 'LATE', 'EARLY_LEAVE')
+    AND public.has_half_day_leave(NEW.user_id, NEW.date) THEN
+    NEW.status := 'HALF_DAY';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_half_day_leave_status
+  BEFORE INSERT OR UPDATE ON public.attendance
+  FOR EACH ROW EXECUTE FUNCTION public.set_half_day_leave_status();
+
+-- Half-day leave approved after the day was worked
+CREATE OR REPLACE FUNCTION public.apply_half_day_leave()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.attendance
+  SET status = 'HALF_DAY'
+  WHERE user_id = NEW.user_id
+    AND date = NEW.start_date
+    AND status IN ('PRESENT', 'LATE', 'EARLY_LEAVE');
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER apply_half_day_leave
+  AFTER INSERT OR UPDATE OF status ON public.leave_requests
+  FOR EACH ROW
+  WHEN (NEW.status = 'APPROVED' AND NEW.duration IN ('FIRST_HALF', 'SECOND_HALF'))
+  EXECUTE FUNCTION public.apply_half_day_leave();
+
+-- Same as before, except that only full-day leave excuses a missing day
+CREATE OR REPLACE FUNCTION public.close_attendance_day(p_date DATE)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cutoff TIME;
+  closed_count INTEGER := 0;
+  absent_count INTEGER := 0;
+BEGIN
+  SELECT auto_punch_out_time INTO cutoff FROM public.organization_settings;
+  cutoff := COALESCE(cutoff, '23:59'::TIME);
+
+  -- Close sessions left open on the day at the cut-off. A session that started
+  -- after the cut-off (night shift) is closed at the next day's cut-off, and
+  -- nothing is closed before its cut-off has actually passed.
+  UPDATE public.attendance_sessions s
+  SET punch_out = due.cutoff_at,
+      auto_closed = true
+  FROM (
+    SELECT
+      open_session.id,
+      CASE
+        WHEN (p_date + cutoff) AT TIME ZONE public.get_user_timezone(a.user_id) > open_session.punch_in
+          THEN (p_date + cutoff) AT TIME ZONE public.get_user_timezone(a.user_id)
+        ELSE (p_date + 1 + cutoff) AT TIME ZONE public.get_user_timezone(a.user_id)
+      END AS cutoff_at
+    FROM public.attendance_sessions open_session
+    JOIN public.attendance a ON a.id = open_session.attendance_id
+    WHERE a.date = p_date
+      AND open_session.punch_out IS NULL
+  ) due
+  WHERE s.id = due.id
+    AND due.cutoff_at <= now();
+
+  GET DIAGNOSTICS closed_count = ROW_COUNT;
+
+  UPDATE public.attendance a
+  SET auto_closed = true
+  WHERE a.date = p_date
+    AND NOT a.auto_closed
+    AND EXISTS (
+      SELECT 1 FROM public.attendance_sessions s
+      WHERE s.attendance_id = a.id AND s.auto_closed
+    );
+
+  -- Active employees whose day is over locally, with no attendance row and no
+  -- approved full-day leave
+  WITH absentees AS (
+    INSERT INTO public.attendance (user_id, date, status)
+    SELECT p.id, p_date, 'ABSENT'
+    FROM public.profiles p
+    WHERE COALESCE(p.is_active, false)
+      AND (p.hire_date IS NULL OR p.hire_date <= p_date)
+      AND (p_date + 1)::TIMESTAMP AT TIME ZONE public.get_user_timezone(p.id) <= now()
+      AND public.is_working_day(p.id, p_date)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.attendance a
+        WHERE a.user_id = p.id AND a.date = p_date
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.leave_requests l
+        WHERE l.user_id = p.id
+          AND l.status = 'APPROVED'
+          AND l.duration = 'FULL_DAY'
+          AND p_date BETWEEN l.start_date AND l.end_date
+      )
+    RETURNING id
+  )
+  SELECT COUNT(*) INTO absent_count FROM absentees;
+
+  RETURN json_build_object(
+    'date', p_date,
+    'sessions_closed', closed_count,
+    'absent_marked', absent_count
+  );
+END;
+$$;
+
+-- Same as before, except that punching around half-day or hourly leave is
+-- expected and not flagged
+CREATE OR REPLACE FUNCTION public.detect_attendance_anomalies(p_from DATE, p_to DATE)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  settings public.organization_settings%ROWTYPE;
+  flagged INTEGER;
+  total INTEGER := 0;
+BEGIN
+  SELECT * INTO settings FROM public.organization_settings;
+
+  -- Consecutive punches further apart than anyone could travel in the time
+  -- between them. Moves under a kilometre are left alone as GPS drift.
+  WITH events AS (
+    SELECT a.id AS attendance_id, a.user_id, a.date, e.punched_at, e.latitude, e.longitude, e.label
+    FROM public.attendance a
+    JOIN public.attendance_sessions s ON s.attendance_id = a.id
+    CROSS JOIN LATERAL (VALUES
+      (s.punch_in, s.latitude_in, s.longitude_in, s.location_in),
+      (s.punch_out, s.latitude_out, s.longitude_out, s.location_out)
+    ) AS e(punched_at, latitude, longitude, label)
+    WHERE a.date BETWEEN p_from AND p_to
+      AND e.punched_at IS NOT NULL
+      AND e.latitude IS NOT NULL
+  ),
+  legs AS (
+    SELECT
+      events.*,
+      LAG(punched_at) OVER w AS previous_at,
+      LAG(label) OVER w AS previous_label,
+      public.distance_in_meters(LAG(latitude) OVER w, LAG(longitude) OVER w, latitude, longitude) / 1000 AS km
+    FROM events
+    WINDOW w AS (PARTITION BY attendance_id ORDER BY punched_at)
+  ),
+  suspicious AS (
+    SELECT DISTINCT ON (attendance_id)
+      attendance_id, user_id, date, km, previous_label, label,
+      EXTRACT(EPOCH FROM (punched_at - previous_at)) / 60 AS minutes
+    FROM legs
+    WHERE previous_at IS NOT NULL
+      AND km > 1
+      AND km > settings.anomaly_max_travel_kmh * EXTRACT(EPOCH FROM (punched_at - previous_at)) / 3600
+    ORDER BY attendance_id, km DESC
+  )
+  INSERT INTO public.attendance_anomalies (user_id, attendance_id, date, type, details)
+  SELECT
+    user_id, attendance_id, date, 'IMPOSSIBLE_TRAVEL',
+    format('Punches %s km apart within %s minutes (%s, then %s)',
+      round(km::NUMERIC, 1), round(minutes::NUMERIC), previous_label, label)
+  FROM suspicious
+  ON CONFLICT (attendance_id, type) DO NOTHING;
+
+  GET DIAGNOSTICS flagged = ROW_COUNT;
+  total := total + flagged;
+
+  -- The same punch-in and punch-out minute as another day in the previous 30.
+  -- Days closed automatically or rewritten by an approved correction carry
+  -- made-up times and are left out.
+  WITH days AS (
+    SELECT
+      a.id, a.user_id, a.date,
+      date_trunc('minute', a.punch_in AT TIME ZONE public.get_user_timezone(a.user_id))::TIME AS in_time,
+      date_trunc('minute', a.punch_out AT TIME ZONE public.get_user_timezone(a.user_id))::TIME AS out_time
+    FROM public.attendance a
+    WHERE a.date BETWEEN p_from - 30 AND p_to
+      AND a.punch_in IS NOT NULL
+      AND a.punch_out IS NOT NULL
+      AND NOT a.auto_closed
+      AND NOT EXISTS (
+        SELECT 1 FROM public.attendance_regularizations r
+        WHERE r.attendance_id = a.id
+          AND r.status = 'APPROVED'
+      )
+  )
+  INSERT INTO public.attendance_anomalies (user_id, attendance_id, date, type, details)
+  SELECT DISTINCT ON (d.id)
+    d.user_id, d.id, d.date, 'REPEATED_TIMES',
+    format('Punched in at %s and out at %s, exactly as on %s',
+      to_char(d.in_time, 'HH24:MI'), to_char(d.out_time, 'HH24:MI'), to_char(earlier.date, 'Mon DD'))
+  FROM days d
+  JOIN days earlier
+    ON earlier.user_id = d.user_id
+    AND earlier.date < d.date
+    AND earlier.date >= d.date - 30
+    AND earlier.in_time = d.in_time
+    AND earlier.out_time = d.out_time
+  WHERE d.date BETWEEN p_from AND p_to
+  ORDER BY d.id, earlier.date DESC
+  ON CONFLICT (attendance_id, type) DO NOTHING;
+
+  GET DIAGNOSTICS flagged = ROW_COUNT;
+  total := total + flagged;
+
+  INSERT INTO public.attendance_anomalies (user_id, attendance_id, date, type, details)
+  SELECT DISTINCT ON (a.id)
+    a.user_id, a.id, a.date, 'LONG_SESSION',
+    format('Session from %s lasted %s hours%s',
+      to_char(s.punch_in AT TIME ZONE public.get_user_timezone(a.user_id), 'HH24:MI'),
+      round((EXTRACT(EPOCH FROM (COALESCE(s.punch_out, now()) - s.punch_in)) / 3600)::NUMERIC, 1),
+      CASE
+        WHEN s.punch_out IS NULL THEN ' and is still open'
+        WHEN s.auto_closed THEN ' before it was closed automatically'
+        ELSE ''
+      END)
+  FROM public.attendance a
+  JOIN public.attendance_sessions s ON s.attendance_id = a.id
+  WHERE a.date BETWEEN p_from AND p_to
+    AND EXTRACT(EPOCH FROM (COALESCE(s.punch_out, now()) - s.punch_in)) / 3600 > settings.anomaly_max_session_hours
+  ORDER BY a.id, s.punch_in
+  ON CONFLICT (attendance_id, type) DO NOTHING;
+
+  GET DIAGNOSTICS flagged = ROW_COUNT;
+  total := total + flagged;
+
+  INSERT INTO public.attendance_anomalies (user_id, attendance_id, date, type, details)
+  SELECT a.user_id, a.id, a.date, 'HOLIDAY_PUNCH', 'Punched in on a holiday'
+  FROM public.attendance a
+  WHERE a.date BETWEEN p_from AND p_to
+    AND a.punch_in IS NOT NULL
+    AND public.is_holiday(a.user_id, a.date)
+  ON CONFLICT (attendance_id, type) DO NOTHING;
+
+  GET DIAGNOSTICS flagged = ROW_COUNT;
+  total := total + flagged;
+
+  INSERT INTO public.attendance_anomalies (user_id, attendance_id, date, type, details)
+  SELECT DISTINCT ON (a.id)
+    a.user_id, a.id, a.date, 'LEAVE_PUNCH',
+    format('Punched in during approved %s leave (%s to %s)',
+      lower(l.leave_type::TEXT), to_char(l.start_date, 'Mon DD'), to_char(l.end_date, 'Mon DD'))
+  FROM public.attendance a
+  JOIN public.leave_requests l
+    ON l.user_id = a.user_id
+    AND l.status = 'APPROVED'
+    AND l.duration = 'FULL_DAY'
+    AND a.date BETWEEN l.start_date AND l.end_date
+  WHERE a.date BETWEEN p_from AND p_to
+    AND a.punch_in IS NOT NULL
+  ORDER BY a.id, l.start_date
+  ON CONFLICT (attendance_id, type) DO NOTHING;
+
+  GET DIAGNOSTICS flagged = ROW_COUNT;
+  total := total + flagged;
+
+  RETURN total;
+END;
+$$;
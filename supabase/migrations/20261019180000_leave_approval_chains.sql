@@ -0,0 +1,329 @@
+-- Leave approval chains. A chain lists the roles that approve a request in
+-- order, e.g. MANAGER then HOD then HR, and applies to one leave type or all
+-- of them, for requests longer than a number of days. Every request gets its
+-- own steps when it is submitted and only becomes APPROVED after the last one.
+-- Nobody can decide a step of their own request.
+--
+-- MANAGER is the employee's line manager and HOD the head of their department,
+-- whatever role those people have; other roles are anyone holding the role.
+-- A step nobody can take is recorded as skipped.
+
+CREATE TYPE public.approval_step_status AS ENUM ('PENDING', 'APPROVED', 'REJECTED', 'SKIPPED');
+
+CREATE TABLE public.leave_approval_chains (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  -- NULL applies to every leave type without a chain of its own
+  leave_type public.leave_type_enum,
+  -- Applies to requests longer than this many days
+  longer_than_days NUMERIC(6, 2) NOT NULL DEFAULT 0 CHECK (longer_than_days >= 0),
+  steps public.user_role[] NOT NULL
+    CHECK (cardinality(steps) BETWEEN 1 AND 5 AND NOT ('EMPLOYEE' = ANY (steps))),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE UNIQUE INDEX leave_approval_chains_scope_idx
+  ON public.leave_approval_chains (COALESCE(leave_type::TEXT, ''), longer_than_days);
+
+CREATE TRIGGER update_leave_approval_chains_updated_at
+  BEFORE UPDATE ON public.leave_approval_chains
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.leave_approval_steps (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  request_id UUID NOT NULL REFERENCES public.leave_requests(id) ON DELETE CASCADE,
+  step_no INTEGER NOT NULL,
+  approver_role public.user_role NOT NULL,
+  status public.approval_step_status NOT NULL DEFAULT 'PENDING',
+  decided_by UUID REFERENCES public.profiles(id),
+  decided_at TIMESTAMP WITH TIME ZONE,
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (request_id, step_no)
+);
+
+-- The step waiting for a decision; NULL once the request is decided
+ALTER TABLE public.leave_requests
+  ADD COLUMN current_step INTEGER;
+
+-- Who can take a step of an employee's request, never the employee themselves
+CREATE OR REPLACE FUNCTION public.leave_approver_ids(p_user_id UUID, p_role public.user_role)
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT a.id
+  FROM public.profiles a
+  JOIN public.profiles e ON e.id = p_user_id
+  WHERE a.id <> p_user_id
+    AND COALESCE(a.is_active, false)
+    AND CASE p_role
+      WHEN 'MANAGER' THEN a.id = e.manager_id
+      WHEN 'HOD' THEN a.id IN (SELECT d.hod_id FROM public.departments d WHERE d.id = e.department_id)
+      ELSE a.role = p_role
+    END;
+$$;
+
+-- Whether the caller decides the step a request is waiting on
+CREATE OR REPLACE FUNCTION public.is_awaiting_leave_approver(p_request_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.leave_requests l
+    JOIN public.leave_approval_steps s
+      ON s.request_id = l.id
+      AND s.step_no = l.current_step
+    WHERE l.id = p_request_id
+      AND l.status = 'PENDING'
+      AND auth.uid() IN (SELECT public.leave_approver_ids(l.user_id, s.approver_role))
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_awaiting_leave_request_ids()
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT l.id
+  FROM public.leave_requests l
+  WHERE l.status = 'PENDING'
+    AND public.is_awaiting_leave_approver(l.id);
+$$;
+
+ALTER TABLE public.leave_approval_chains ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.leave_approval_steps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view approval chains"
+  ON public.leave_approval_chains FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage approval chains"
+  ON public.leave_approval_chains FOR ALL
+  TO authenticated
+  USING (public.is_admin_or_higher(auth.uid()))
+  WITH CHECK (public.is_admin_or_higher(auth.uid()));
+
+-- Steps are visible to whoever can see the request
+CREATE POLICY "Users can view steps of visible leave requests"
+  ON public.leave_approval_steps FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.leave_requests l WHERE l.id = request_id));
+
+-- A line manager or department head may not have a managing role
+CREATE POLICY "Approvers can view leave requests awaiting them"
+  ON public.leave_requests FOR SELECT
+  TO authenticated
+  USING (public.is_awaiting_leave_approver(id));
+
+-- The chain for a request is the one for its leave type before the one for
+-- every type, and the one with the highest threshold it is longer than.
+-- Without a chain the line manager approves. When no step can be taken, HR,
+-- then admins, approve instead.
+CREATE OR REPLACE FUNCTION public.create_leave_approval_steps(p_request_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request public.leave_requests%ROWTYPE;
+  roles public.user_role[];
+  step_role public.user_role;
+  step_count INTEGER := 0;
+  first_open INTEGER;
+BEGIN
+  SELECT * INTO request FROM public.leave_requests WHERE id = p_request_id;
+
+  SELECT c.steps INTO roles
+  FROM public.leave_approval_chains c
+  WHERE (c.leave_type IS NULL OR c.leave_type = request.leave_type)
+    AND request.days > c.longer_than_days
+  ORDER BY (c.leave_type IS NOT NULL) DESC, c.longer_than_days DESC
+  LIMIT 1;
+
+  DELETE FROM public.leave_approval_steps WHERE request_id = p_request_id;
+
+  FOREACH step_role IN ARRAY COALESCE(roles, ARRAY['MANAGER']::public.user_role[]) LOOP
+    step_count := step_count + 1;
+
+    IF EXISTS (SELECT public.leave_approver_ids(request.user_id, step_role)) THEN
+      first_open := COALESCE(first_open, step_count);
+      INSERT INTO public.leave_approval_steps (request_id, step_no, approver_role)
+      VALUES (p_request_id, step_count, step_role);
+    ELSE
+      INSERT INTO public.leave_approval_steps (request_id, step_no, approver_role, status)
+      VALUES (p_request_id, step_count, step_role, 'SKIPPED');
+    END IF;
+  END LOOP;
+
+  IF first_open IS NULL THEN
+    SELECT fallback INTO step_role
+    FROM unnest(ARRAY['HR', 'ADMIN', 'SUPERADMIN']::public.user_role[]) WITH ORDINALITY AS f(fallback, fallback_order)
+    WHERE EXISTS (SELECT public.leave_approver_ids(request.user_id, fallback))
+    ORDER BY fallback_order
+    LIMIT 1;
+
+    IF step_role IS NOT NULL THEN
+      first_open := step_count + 1;
+      INSERT INTO public.leave_approval_steps (request_id, step_no, approver_role)
+      VALUES (p_request_id, first_open, step_role);
+    END IF;
+  END IF;
+
+  PERFORM set_config('app.leave_review', 'on', true);
+  UPDATE public.leave_requests SET current_step = first_open WHERE id = p_request_id;
+  PERFORM set_config('app.leave_review', 'off', true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.start_leave_approval()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.create_leave_approval_steps(NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER start_leave_approval
+  AFTER INSERT ON public.leave_requests
+  FOR EACH ROW
+  WHEN (NEW.status = 'PENDING')
+  EXECUTE FUNCTION public.start_leave_approval();
+
+-- Employees submit requests as PENDING, and only review_leave_request moves
+-- them along the chain. The service role and migrations are not held to it.
+CREATE OR REPLACE FUNCTION public.guard_leave_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR current_setting('app.leave_review', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.status := 'PENDING';
+    NEW.approved_by := NULL;
+    NEW.approved_at := NULL;
+    NEW.current_step := NULL;
+  ELSIF OLD.status IS DISTINCT FROM NEW.status
+    OR OLD.approved_by IS DISTINCT FROM NEW.approved_by
+    OR OLD.current_step IS DISTINCT FROM NEW.current_step THEN
+    RAISE EXCEPTION 'Leave requests are approved through their approval chain';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_leave_status
+  BEFORE INSERT OR UPDATE ON public.leave_requests
+  FOR EACH ROW EXECUTE FUNCTION public.guard_leave_status();
+
+-- Decides the step a request is waiting on. A rejection ends the chain; the
+-- last approval approves the request.
+CREATE OR REPLACE FUNCTION public.review_leave_request(
+  p_request_id UUID,
+  p_status public.request_status,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS public.request_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request public.leave_requests%ROWTYPE;
+  step public.leave_approval_steps%ROWTYPE;
+  next_step INTEGER;
+BEGIN
+  IF p_status NOT IN ('APPROVED', 'REJECTED') THEN
+    RAISE EXCEPTION 'A leave request can only be approved or rejected';
+  END IF;
+
+  SELECT * INTO request
+  FROM public.leave_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Leave request not found';
+  END IF;
+
+  IF request.user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot approve your own leave';
+  END IF;
+
+  IF request.status <> 'PENDING' THEN
+    RAISE EXCEPTION 'This leave request has already been %', lower(request.status::TEXT);
+  END IF;
+
+  SELECT * INTO step
+  FROM public.leave_approval_steps
+  WHERE request_id = p_request_id
+    AND step_no = request.current_step;
+
+  IF NOT FOUND OR auth.uid() NOT IN (SELECT public.leave_approver_ids(request.user_id, step.approver_role)) THEN
+    RAISE EXCEPTION 'This leave request is not waiting for your approval';
+  END IF;
+
+  UPDATE public.leave_approval_steps
+  SET status = p_status::TEXT::public.approval_step_status,
+      decided_by = auth.uid(),
+      decided_at = now(),
+      note = NULLIF(trim(p_note), '')
+  WHERE id = step.id;
+
+  SELECT MIN(step_no) INTO next_step
+  FROM public.leave_approval_steps
+  WHERE request_id = p_request_id
+    AND step_no > step.step_no
+    AND status = 'PENDING';
+
+  PERFORM set_config('app.leave_review', 'on', true);
+
+  IF p_status = 'APPROVED' AND next_step IS NOT NULL THEN
+    UPDATE public.leave_requests
+    SET current_step = next_step
+    WHERE id = p_request_id;
+  ELSE
+    UPDATE public.leave_requests
+    SET status = p_status,
+        approved_by = auth.uid(),
+        approved_at = now(),
+        current_step = NULL
+    WHERE id = p_request_id;
+  END IF;
+
+  PERFORM set_config('app.leave_review', 'off', true);
+
+  -- PENDING while later steps are still to come
+  RETURN CASE WHEN p_status = 'APPROVED' AND next_step IS NOT NULL THEN 'PENDING' ELSE p_status END;
+END;
+$$;
+
+-- Requests already waiting get a chain too
+DO $$
+DECLARE
+  pending_id UUID;
+BEGIN
+  FOR pending_id IN SELECT id FROM public.leave_requests WHERE status = 'PENDING' LOOP
+    PERFORM public.create_leave_approval_steps(pending_id);
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,3 @@
+-- On its own because a new enum value can't be used in the transaction that
+-- adds it
+ALTER TYPE public.request_status ADD VALUE IF NOT EXISTS 'CANCELLED';
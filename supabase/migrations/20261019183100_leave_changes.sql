@@ -0,0 +1,535 @@
+-- Cancelling and shortening leave. An employee cancels a pending request
+-- straight away. Cancelling or shortening approved leave is a change request
+-- that goes through the approval chain again, as a new round of steps, while
+-- the leave stays approved. Once the change is approved the balance is given
+-- back and days no longer on leave are treated as working days again.
+-- Every transition of a request is kept in leave_request_events.
+
+CREATE TYPE public.leave_change_type AS ENUM ('CANCEL', 'SHORTEN');
+
+ALTER TABLE public.leave_requests
+  ADD COLUMN approval_round INTEGER NOT NULL DEFAULT 1,
+  -- The change waiting for approval, if any
+  ADD COLUMN change_type public.leave_change_type,
+  ADD COLUMN change_start_date DATE,
+  ADD COLUMN change_end_date DATE,
+  -- Why the request was last cancelled or changed
+  ADD COLUMN change_reason TEXT,
+  ADD CONSTRAINT leave_requests_change_dates
+    CHECK ((change_type = 'SHORTEN') = (change_start_date IS NOT NULL AND change_end_date IS NOT NULL));
+
+ALTER TABLE public.leave_approval_steps
+  ADD COLUMN round INTEGER NOT NULL DEFAULT 1,
+  -- The change this round decided; NULL for the request itself
+  ADD COLUMN change_type public.leave_change_type,
+  DROP CONSTRAINT leave_approval_steps_request_id_step_no_key,
+  ADD CONSTRAINT leave_approval_steps_request_round_step_key UNIQUE (request_id, round, step_no);
+
+CREATE TABLE public.leave_request_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  request_id UUID NOT NULL REFERENCES public.leave_requests(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN (
+    'SUBMITTED', 'APPROVED', 'REJECTED', 'CANCELLED',
+    'CANCELLATION_REQUESTED', 'SHORTENING_REQUESTED', 'SHORTENED', 'CHANGE_REJECTED'
+  )),
+  from_status public.request_status,
+  to_status public.request_status NOT NULL,
+  reason TEXT,
+  performed_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX leave_request_events_request_idx ON public.leave_request_events (request_id, created_at);
+
+ALTER TABLE public.leave_request_events ENABLE ROW LEVEL SECURITY;
+
+-- History is visible to whoever can see the request
+CREATE POLICY "Users can view history of visible leave requests"
+  ON public.leave_request_events FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.leave_requests l WHERE l.id = request_id));
+
+CREATE OR REPLACE FUNCTION public.log_leave_request_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  event_action TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    event_action := 'SUBMITTED';
+  ELSIF OLD.status IS DISTINCT FROM NEW.status THEN
+    event_action := NEW.status::TEXT;
+  ELSIF OLD.change_type IS NULL AND NEW.change_type IS NOT NULL THEN
+    event_action := CASE NEW.change_type WHEN 'CANCEL' THEN 'CANCELLATION_REQUESTED' ELSE 'SHORTENING_REQUESTED' END;
+  ELSIF OLD.change_type IS NOT NULL AND NEW.change_type IS NULL THEN
+    event_action := CASE
+      WHEN (OLD.start_date, OLD.end_date) IS DISTINCT FROM (NEW.start_date, NEW.end_date) THEN 'SHORTENED'
+      ELSE 'CHANGE_REJECTED'
+    END;
+  ELSE
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.leave_request_events (request_id, action, from_status, to_status, reason, performed_by)
+  VALUES (
+    NEW.id,
+    event_action,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    CASE WHEN event_action IN ('CANCELLED', 'CANCELLATION_REQUESTED', 'SHORTENING_REQUESTED') THEN NEW.change_reason END,
+    auth.uid()
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER log_leave_request_event
+  AFTER INSERT OR UPDATE ON public.leave_requests
+  FOR EACH ROW EXECUTE FUNCTION public.log_leave_request_event();
+
+-- Requests submitted before history was kept
+INSERT INTO public.leave_request_events (request_id, action, to_status, performed_by, created_at)
+SELECT id, 'SUBMITTED', 'PENDING', user_id, COALESCE(created_at, now())
+FROM public.leave_requests;
+
+INSERT INTO public.leave_request_events (request_id, action, from_status, to_status, performed_by, created_at)
+SELECT id, status::TEXT, 'PENDING', status, approved_by, COALESCE(approved_at, updated_at, now())
+FROM public.leave_requests
+WHERE status IN ('APPROVED', 'REJECTED');
+
+-- Same as before, except that each approval of a request or of a change to it
+-- is a round of its own, numbered by approval_round
+CREATE OR REPLACE FUNCTION public.create_leave_approval_steps(p_request_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request public.leave_requests%ROWTYPE;
+  roles public.user_role[];
+  step_role public.user_role;
+  step_count INTEGER := 0;
+  first_open INTEGER;
+BEGIN
+  SELECT * INTO request FROM public.leave_requests WHERE id = p_request_id;
+
+  SELECT c.steps INTO roles
+  FROM public.leave_approval_chains c
+  WHERE (c.leave_type IS NULL OR c.leave_type = request.leave_type)
+    AND request.days > c.longer_than_days
+  ORDER BY (c.leave_type IS NOT NULL) DESC, c.longer_than_days DESC
+  LIMIT 1;
+
+  DELETE FROM public.leave_approval_steps
+  WHERE request_id = p_request_id
+    AND round = request.approval_round;
+
+  FOREACH step_role IN ARRAY COALESCE(roles, ARRAY['MANAGER']::public.user_role[]) LOOP
+    step_count := step_count + 1;
+
+    IF EXISTS (SELECT public.leave_approver_ids(request.user_id, step_role)) THEN
+      first_open := COALESCE(first_open, step_count);
+      INSERT INTO public.leave_approval_steps (request_id, round, change_type, step_no, approver_role)
+      VALUES (p_request_id, request.approval_round, request.change_type, step_count, step_role);
+    ELSE
+      INSERT INTO public.leave_approval_steps (request_id, round, change_type, step_no, approver_role, status)
+      VALUES (p_request_id, request.approval_round, request.change_type, step_count, step_role, 'SKIPPED');
+    END IF;
+  END LOOP;
+
+  IF first_open IS NULL THEN
+    SELECT fallback INTO step_role
+    FROM unnest(ARRAY['HR', 'ADMIN', 'SUPERADMIN']::public.user_role[]) WITH ORDINALITY AS f(fallback, fallback_order)
+    WHERE EXISTS (SELECT public.leave_approver_ids(request.user_id, fallback))
+    ORDER BY fallback_order
+    LIMIT 1;
+
+    IF step_role IS NOT NULL THEN
+      first_open := step_count + 1;
+      INSERT INTO public.leave_approval_steps (request_id, round, change_type, step_no, approver_role)
+      VALUES (p_request_id, request.approval_round, request.change_type, first_open, step_role);
+    END IF;
+  END IF;
+
+  PERFORM set_config('app.leave_review', 'on', true);
+  UPDATE public.leave_requests SET current_step = first_open WHERE id = p_request_id;
+  PERFORM set_config('app.leave_review', 'off', true);
+END;
+$$;
+
+-- Same as before, except that a change to approved leave also waits on its
+-- approvers, at the step of the current round
+CREATE OR REPLACE FUNCTION public.is_awaiting_leave_approver(p_request_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.leave_requests l
+    JOIN public.leave_approval_steps s
+      ON s.request_id = l.id
+      AND s.round = l.approval_round
+      AND s.step_no = l.current_step
+    WHERE l.id = p_request_id
+      AND (l.status = 'PENDING' OR l.change_type IS NOT NULL)
+      AND auth.uid() IN (SELECT public.leave_approver_ids(l.user_id, s.approver_role))
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_awaiting_leave_request_ids()
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT l.id
+  FROM public.leave_requests l
+  WHERE (l.status = 'PENDING' OR l.change_type IS NOT NULL)
+    AND public.is_awaiting_leave_approver(l.id);
+$$;
+
+-- Same as before, except that the approval round, change requests and the
+-- leave itself are also only changed by the RPCs. The leave is fixed once it has
+-- been decided, and while pending once its approval steps are built, since the
+-- chain was picked for the leave type and period it was submitted with.
+CREATE OR REPLACE FUNCTION public.guard_leave_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR current_setting('app.leave_review', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.status := 'PENDING';
+    NEW.approved_by := NULL;
+    NEW.approved_at := NULL;
+    NEW.current_step := NULL;
+    NEW.approval_round := 1;
+    NEW.change_type := NULL;
+    NEW.change_start_date := NULL;
+    NEW.change_end_date := NULL;
+    NEW.change_reason := NULL;
+  ELSIF OLD.status IS DISTINCT FROM NEW.status
+    OR OLD.approved_by IS DISTINCT FROM NEW.approved_by
+    OR OLD.current_step IS DISTINCT FROM NEW.current_step
+    OR OLD.approval_round IS DISTINCT FROM NEW.approval_round
+    OR (OLD.change_type, OLD.change_start_date, OLD.change_end_date, OLD.change_reason)
+      IS DISTINCT FROM (NEW.change_type, NEW.change_start_date, NEW.change_end_date, NEW.change_reason) THEN
+    RAISE EXCEPTION 'Leave requests are approved through their approval chain';
+  ELSIF (OLD.leave_type, OLD.start_date, OLD.end_date, OLD.duration, OLD.start_time, OLD.end_time)
+      IS DISTINCT FROM (NEW.leave_type, NEW.start_date, NEW.end_date, NEW.duration, NEW.start_time, NEW.end_time) THEN
+    IF OLD.status <> 'PENDING' THEN
+      RAISE EXCEPTION 'Approved leave can only be changed by requesting a cancellation or a shorter period';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.leave_approval_steps WHERE request_id = OLD.id) THEN
+      RAISE EXCEPTION 'A leave request cannot be changed once its approval has started. Withdraw it and submit a new one.';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Withdraws a pending request, or asks for approved leave to be cancelled
+CREATE OR REPLACE FUNCTION public.cancel_leave_request(p_request_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS public.request_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request public.leave_requests%ROWTYPE;
+BEGIN
+  SELECT * INTO request
+  FROM public.leave_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR request.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'You can only cancel your own leave';
+  END IF;
+
+  IF request.change_type IS NOT NULL THEN
+    RAISE EXCEPTION 'A change to this leave is already waiting for approval';
+  END IF;
+
+  PERFORM set_config('app.leave_review', 'on', true);
+
+  IF request.status = 'PENDING' THEN
+    UPDATE public.leave_requests
+    SET status = 'CANCELLED',
+        current_step = NULL,
+        change_reason = NULLIF(trim(p_reason), '')
+    WHERE id = p_request_id;
+  ELSIF request.status = 'APPROVED' THEN
+    UPDATE public.leave_requests
+    SET change_type = 'CANCEL',
+        change_reason = NULLIF(trim(p_reason), ''),
+        approval_round = approval_round + 1
+    WHERE id = p_request_id;
+
+    PERFORM public.create_leave_approval_steps(p_request_id);
+  ELSE
+    RAISE EXCEPTION 'This leave request has already been %', lower(request.status::TEXT);
+  END IF;
+
+  PERFORM set_config('app.leave_review', 'off', true);
+
+  RETURN CASE WHEN request.status = 'PENDING' THEN 'CANCELLED' ELSE 'APPROVED' END;
+END;
+$$;
+
+-- Asks for approved full-day leave to cover fewer days
+CREATE OR REPLACE FUNCTION public.shorten_leave_request(
+  p_request_id UUID,
+  p_start_date DATE,
+  p_end_date DATE,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request public.leave_requests%ROWTYPE;
+BEGIN
+  SELECT * INTO request
+  FROM public.leave_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR request.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'You can only change your own leave';
+  END IF;
+
+  IF request.status <> 'APPROVED' THEN
+    RAISE EXCEPTION 'Only approved leave can be shortened; cancel a pending request and submit a new one instead';
+  END IF;
+
+  IF request.duration <> 'FULL_DAY' THEN
+    RAISE EXCEPTION 'Half-day and hourly leave can only be cancelled';
+  END IF;
+
+  IF request.change_type IS NOT NULL THEN
+    RAISE EXCEPTION 'A change to this leave is already waiting for approval';
+  END IF;
+
+  IF p_start_date > p_end_date
+    OR p_start_date < request.start_date
+    OR p_end_date > request.end_date
+    OR (p_start_date = request.start_date AND p_end_date = request.end_date) THEN
+    RAISE EXCEPTION 'The new dates must be a shorter period within the approved leave';
+  END IF;
+
+  IF public.count_working_days(request.user_id, p_start_date, p_end_date) = 0 THEN
+    RAISE EXCEPTION 'The new dates do not include any working days; cancel the leave instead';
+  END IF;
+
+  PERFORM set_config('app.leave_review', 'on', true);
+
+  UPDATE public.leave_requests
+  SET change_type = 'SHORTEN',
+      change_start_date = p_start_date,
+      change_end_date = p_end_date,
+      change_reason = NULLIF(trim(p_reason), ''),
+      approval_round = approval_round + 1
+  WHERE id = p_request_id;
+
+  PERFORM public.create_leave_approval_steps(p_request_id);
+
+  PERFORM set_config('app.leave_review', 'off', true);
+END;
+$$;
+
+-- Same as before, except that it also decides changes to approved leave. An
+-- approved cancellation cancels the leave and an approved shortening moves its
+-- dates; a rejected change leaves it as it was.
+CREATE OR REPLACE FUNCTION public.review_leave_request(
+  p_request_id UUID,
+  p_status public.request_status,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS public.request_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request public.leave_requests%ROWTYPE;
+  step public.leave_approval_steps%ROWTYPE;
+  next_step INTEGER;
+  result public.request_status;
+BEGIN
+  IF p_status NOT IN ('APPROVED', 'REJECTED') THEN
+    RAISE EXCEPTION 'A leave request can only be approved or rejected';
+  END IF;
+
+  SELECT * INTO request
+  FROM public.leave_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Leave request not found';
+  END IF;
+
+  IF request.user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot approve your own leave';
+  END IF;
+
+  IF request.status <> 'PENDING' AND request.change_type IS NULL THEN
+    RAISE EXCEPTION 'This leave request has already been %', lower(request.status::TEXT);
+  END IF;
+
+  SELECT * INTO step
+  FROM public.leave_approval_steps
+  WHERE request_id = p_request_id
+    AND round = request.approval_round
+    AND step_no = request.current_step;
+
+  IF NOT FOUND OR auth.uid() NOT IN (SELECT public.leave_approver_ids(request.user_id, step.approver_role)) THEN
+    RAISE EXCEPTION 'This leave request is not waiting for your approval';
+  END IF;
+
+  UPDATE public.leave_approval_steps
+  SET status = p_status::TEXT::public.approval_step_status,
+      decided_by = auth.uid(),
+      decided_at = now(),
+      note = NULLIF(trim(p_note), '')
+  WHERE id = step.id;
+
+  SELECT MIN(step_no) INTO next_step
+  FROM public.leave_approval_steps
+  WHERE request_id = p_request_id
+    AND round = request.approval_round
+    AND step_no > step.step_no
+    AND status = 'PENDING';
+
+  PERFORM set_config('app.leave_review', 'on', true);
+
+  IF p_status = 'APPROVED' AND next_step IS NOT NULL THEN
+    UPDATE public.leave_requests
+    SET current_step = next_step
+    WHERE id = p_request_id;
+
+    result := request.status;
+  ELSIF request.change_type IS NULL THEN
+    UPDATE public.leave_requests
+    SET status = p_status,
+        approved_by = auth.uid(),
+        approved_at = now(),
+        current_step = NULL
+    WHERE id = p_request_id;
+
+    result := p_status;
+  ELSIF p_status = 'REJECTED' THEN
+    UPDATE public.leave_requests
+    SET change_type = NULL,
+        change_start_date = NULL,
+        change_end_date = NULL,
+        current_step = NULL
+    WHERE id = p_request_id;
+
+    result := request.status;
+  ELSIF request.change_type = 'CANCEL' THEN
+    UPDATE public.leave_requests
+    SET status = 'CANCELLED',
+        change_type = NULL,
+        current_step = NULL
+    WHERE id = p_request_id;
+
+    result := 'CANCELLED';
+  ELSE
+    UPDATE public.leave_requests
+    SET start_date = request.change_start_date,
+        end_date = request.change_end_date,
+        change_type = NULL,
+        change_start_date = NULL,
+        change_end_date = NULL,
+        current_step = NULL
+    WHERE id = p_request_id;
+
+    result := request.status;
+  END IF;
+
+  PERFORM set_config('app.leave_review', 'off', true);
+
+  RETURN result;
+END;
+$$;
+
+-- Days that stop being leave are worked days again: a day worked around a
+-- cancelled half day is classified from its punches, and a finished working
+-- day with no attendance that is no longer on leave is marked absent
+CREATE OR REPLACE FUNCTION public.revert_leave_attendance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  day_id UUID;
+BEGIN
+  IF OLD.duration IN ('FIRST_HALF', 'SECOND_HALF') THEN
+    IF NEW.status <> 'APPROVED' THEN
+      FOR day_id IN
+        UPDATE public.attendance
+        SET status = 'PRESENT'
+        WHERE user_id = OLD.user_id
+          AND date = OLD.start_date
+          AND status = 'HALF_DAY'
+          AND punch_in IS NOT NULL
+        RETURNING id
+      LOOP
+        PERFORM public.classify_attendance(day_id);
+      END LOOP;
+    END IF;
+
+    RETURN NULL;
+  END IF;
+
+  IF OLD.duration <> 'FULL_DAY' THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.attendance (user_id, date, status)
+  SELECT OLD.user_id, d::DATE, 'ABSENT'
+  FROM generate_series(OLD.start_date, OLD.end_date, INTERVAL '1 day') d
+  WHERE NOT (NEW.status = 'APPROVED' AND d::DATE BETWEEN NEW.start_date AND NEW.end_date)
+    AND (d::DATE + 1)::TIMESTAMP AT TIME ZONE public.get_user_timezone(OLD.user_id) <= now()
+    AND public.is_working_day(OLD.user_id, d::DATE)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.attendance a
+      WHERE a.user_id = OLD.user_id AND a.date = d::DATE
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.leave_requests l
+      WHERE l.user_id = OLD.user_id
+        AND l.id <> OLD.id
+        AND l.status = 'APPROVED'
+        AND l.duration = 'FULL_DAY'
+        AND d::DATE BETWEEN l.start_date AND l.end_date
+    );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER revert_leave_attendance
+  AFTER UPDATE OF status, start_date, end_date ON public.leave_requests
+  FOR EACH ROW
+  WHEN (OLD.status = 'APPROVED')
+  EXECUTE FUNCTION public.revert_leave_attendance();
@@ -0,0 +1,110 @@
+-- Leave conflicts. A pending or approved request can't overlap another one of
+-- the same employee, except for the two halves of a day or hours that don't
+-- overlap. Departments can set a minimum number of people at work, and
+-- approvers are warned about days that leave would take them below it.
+
+ALTER TABLE public.departments
+  ADD COLUMN min_staffing INTEGER CHECK (min_staffing >= 0);
+
+-- Whether two requests on the same date take the same part of it
+CREATE OR REPLACE FUNCTION public.leave_parts_overlap(
+  a_duration public.leave_duration,
+  a_start TIME,
+  a_end TIME,
+  b_duration public.leave_duration,
+  b_start TIME,
+  b_end TIME
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN a_duration = 'FULL_DAY' OR b_duration = 'FULL_DAY' THEN true
+    WHEN a_duration = 'HOURS' AND b_duration = 'HOURS' THEN a_start < b_end AND b_start < a_end
+    -- Where a half day ends depends on the shift, so hours may fall in either
+    WHEN a_duration = 'HOURS' OR b_duration = 'HOURS' THEN true
+    ELSE a_duration = b_duration
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.validate_leave_overlap()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  existing public.leave_requests%ROWTYPE;
+BEGIN
+  IF NEW.status NOT IN ('PENDING', 'APPROVED') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO existing
+  FROM public.leave_requests l
+  WHERE l.user_id = NEW.user_id
+    AND l.id <> NEW.id
+    AND l.status IN ('PENDING', 'APPROVED')
+    AND l.start_date <= NEW.end_date
+    AND l.end_date >= NEW.start_date
+    AND public.leave_parts_overlap(l.duration, l.start_time, l.end_time, NEW.duration, NEW.start_time, NEW.end_time)
+  ORDER BY l.start_date
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'This leave overlaps your % % leave from % to %',
+      lower(existing.status::TEXT), lower(existing.leave_type::TEXT), existing.start_date, existing.end_date;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_leave_overlap
+  BEFORE INSERT OR UPDATE OF status, start_date, end_date, duration, start_time, end_time ON public.leave_requests
+  FOR EACH ROW EXECUTE FUNCTION public.validate_leave_overlap();
+
+-- Working days of each request on which its department would have fewer
+-- people at work than its minimum if the request were approved. Hourly leave
+-- and changes to approved leave don't take anyone away.
+CREATE OR REPLACE FUNCTION public.get_leave_staffing_shortfalls(p_request_ids UUID[])
+RETURNS TABLE (request_id UUID, leave_date DATE, at_work INTEGER, min_staffing INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT l.id, day_series.day::DATE, staff.at_work, dept.min_staffing
+  FROM public.leave_requests l
+  JOIN public.profiles e ON e.id = l.user_id
+  JOIN public.departments dept ON dept.id = e.department_id
+  CROSS JOIN LATERAL generate_series(l.start_date, l.end_date, INTERVAL '1 day') AS day_series(day)
+  CROSS JOIN LATERAL (
+    SELECT COUNT(*)::INTEGER AS at_work
+    FROM public.profiles m
+    WHERE m.department_id = dept.id
+      AND m.id <> l.user_id
+      AND COALESCE(m.is_active, false)
+      AND public.is_working_day(m.id, day_series.day::DATE)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.leave_requests o
+        WHERE o.user_id = m.id
+          AND o.status = 'APPROVED'
+          AND o.duration <> 'HOURS'
+          AND day_series.day::DATE BETWEEN o.start_date AND o.end_date
+      )
+  ) staff
+  WHERE l.id = ANY (p_request_ids)
+    AND l.duration <> 'HOURS'
+    AND l.change_type IS NULL
+    AND dept.min_staffing IS NOT NULL
+    AND staff.at_work < dept.min_staffing
+    AND public.is_working_day(l.user_id, day_series.day::DATE)
+    AND (
+      l.user_id = auth.uid()
+      OR public.is_awaiting_leave_approver(l.id)
+      OR public.is_admin_or_higher(auth.uid())
+    )
+  ORDER BY l.id, day_series.day;
+$$;
@@ -0,0 +1,83 @@
+-- Team leave calendar: pending and approved leave of a department, or of the
+-- caller's team when no department is given. Everyone can see their own
+-- department, department heads the departments they head and HR and admins
+-- any department. The reason is only shown to the employee, their managers
+-- and whoever the request is waiting on.
+CREATE OR REPLACE FUNCTION public.get_leave_calendar(
+  p_from DATE,
+  p_to DATE,
+  p_department_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  request_id UUID,
+  user_id UUID,
+  full_name TEXT,
+  leave_type public.leave_type_enum,
+  status public.request_status,
+  start_date DATE,
+  end_date DATE,
+  duration public.leave_duration,
+  start_time TIME,
+  end_time TIME,
+  days NUMERIC,
+  change_type public.leave_change_type,
+  reason TEXT,
+  awaiting_me BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_department UUID;
+BEGIN
+  SELECT p.department_id INTO caller_department
+  FROM public.profiles p
+  WHERE p.id = auth.uid();
+
+  IF p_department_id IS NOT NULL
+    AND p_department_id IS DISTINCT FROM caller_department
+    AND NOT public.is_admin_or_higher(auth.uid())
+    AND NOT EXISTS (
+      SELECT 1 FROM public.departments d
+      WHERE d.id = p_department_id AND d.hod_id = auth.uid()
+    ) THEN
+    RAISE EXCEPTION 'You can only view leave in your own department';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    l.id,
+    l.user_id,
+    p.full_name,
+    l.leave_type,
+    l.status,
+    l.start_date,
+    l.end_date,
+    l.duration,
+    l.start_time,
+    l.end_time,
+    l.days,
+    l.change_type,
+    CASE
+      WHEN l.user_id = auth.uid()
+        OR l.user_id IN (SELECT public.get_team_member_ids())
+        OR public.is_awaiting_leave_approver(l.id)
+      THEN l.reason
+    END,
+    public.is_awaiting_leave_approver(l.id)
+  FROM public.leave_requests l
+  JOIN public.profiles p ON p.id = l.user_id
+  WHERE l.status IN ('PENDING', 'APPROVED')
+    AND l.start_date <= p_to
+    AND l.end_date >= p_from
+    AND CASE
+      WHEN p_department_id IS NOT NULL THEN p.department_id = p_department_id
+      ELSE l.user_id = auth.uid()
+        OR l.user_id IN (SELECT public.get_team_member_ids())
+        OR public.is_awaiting_leave_approver(l.id)
+    END
+  ORDER BY p.full_name, l.start_date;
+END;
+$$;
@@ -0,0 +1,193 @@
+-- Comments on leave requests, between the employee and their approvers. A
+-- rejection must say why, and what an approver writes when deciding a step
+-- is posted to the thread too.
+
+-- Steps rejected before this are left as they were
+ALTER TABLE public.leave_approval_steps
+  ADD CONSTRAINT leave_approval_steps_rejection_note
+    CHECK (status <> 'REJECTED' OR note IS NOT NULL) NOT VALID;
+
+-- Same as before, except that a rejection without a reason is refused up front
+-- rather than by the constraint
+CREATE OR REPLACE FUNCTION public.review_leave_request(
+  p_request_id UUID,
+  p_status public.request_status,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS public.request_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request public.leave_requests%ROWTYPE;
+  step public.leave_approval_steps%ROWTYPE;
+  next_step INTEGER;
+  result public.request_status;
+BEGIN
+  IF p_status NOT IN ('APPROVED', 'REJECTED') THEN
+    RAISE EXCEPTION 'A leave request can only be approved or rejected';
+  END IF;
+
+  IF p_status = 'REJECTED' AND NULLIF(trim(p_note), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to reject a leave request';
+  END IF;
+
+  SELECT * INTO request
+  FROM public.leave_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Leave request not found';
+  END IF;
+
+  IF request.user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot approve your own leave';
+  END IF;
+
+  IF request.status <> 'PENDING' AND request.change_type IS NULL THEN
+    RAISE EXCEPTION 'This leave request has already been %', lower(request.status::TEXT);
+  END IF;
+
+  SELECT * INTO step
+  FROM public.leave_approval_steps
+  WHERE request_id = p_request_id
+    AND round = request.approval_round
+    AND step_no = request.current_step;
+
+  IF NOT FOUND OR auth.uid() NOT IN (SELECT public.leave_approver_ids(request.user_id, step.approver_role)) THEN
+    RAISE EXCEPTION 'This leave request is not waiting for your approval';
+  END IF;
+
+  UPDATE public.leave_approval_steps
+  SET status = p_status::TEXT::public.approval_step_status,
+      decided_by = auth.uid(),
+      decided_at = now(),
+      note = NULLIF(trim(p_note), '')
+  WHERE id = step.id;
+
+  SELECT MIN(step_no) INTO next_step
+  FROM public.leave_approval_steps
+  WHERE request_id = p_request_id
+    AND round = request.approval_round
+    AND step_no > step.step_no
+    AND status = 'PENDING';
+
+  PERFORM set_config('app.leave_review', 'on', true);
+
+  IF p_status = 'APPROVED' AND next_step IS NOT NULL THEN
+    UPDATE public.leave_requests
+    SET current_step = next_step
+    WHERE id = p_request_id;
+
+    result := request.status;
+  ELSIF request.change_type IS NULL THEN
+    UPDATE public.leave_requests
+    SET status = p_status,
+        approved_by = auth.uid(),
+        approved_at = now(),
+        current_step = NULL
+    WHERE id = p_request_id;
+
+    result := p_status;
+  ELSIF p_status = 'REJECTED' THEN
+    UPDATE public.leave_requests
+    SET change_type = NULL,
+        change_start_date = NULL,
+        change_end_date = NULL,
+        current_step = NULL
+    WHERE id = p_request_id;
+
+    result := request.status;
+  ELSIF request.change_type = 'CANCEL' THEN
+    UPDATE public.leave_requests
+    SET status = 'CANCELLED',
+        change_type = NULL,
+        current_step = NULL
+    WHERE id = p_request_id;
+
+    result := 'CANCELLED';
+  ELSE
+    UPDATE public.leave_requests
+    SET start_date = request.change_start_date,
+        end_date = request.change_end_date,
+        change_type = NULL,
+        change_start_date = NULL,
+        change_end_date = NULL,
+        current_step = NULL
+    WHERE id = p_request_id;
+
+    result := request.status;
+  END IF;
+
+  PERFORM set_config('app.leave_review', 'off', true);
+
+  RETURN result;
+END;
+$$;
+
+CREATE TABLE public.leave_request_comments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  request_id UUID NOT NULL REFERENCES public.leave_requests(id) ON DELETE CASCADE,
+  author_id UUID NOT NULL REFERENCES public.profiles(id),
+  body TEXT NOT NULL CHECK (length(trim(body)) > 0),
+  -- Set when the comment was written while deciding an approval step
+  step_id UUID REFERENCES public.leave_approval_steps(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX leave_request_comments_request_idx ON public.leave_request_comments (request_id, created_at);
+
+ALTER TABLE public.leave_request_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view comments on visible leave requests"
+  ON public.leave_request_comments FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.leave_requests l WHERE l.id = request_id));
+
+-- The employee, their managers, HR and whoever the request is waiting on
+CREATE POLICY "Employees and approvers can comment on leave requests"
+  ON public.leave_request_comments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    author_id = auth.uid()
+    AND step_id IS NULL
+    AND EXISTS (
+      SELECT 1 FROM public.leave_requests l
+      WHERE l.id = request_id
+        AND (
+          l.user_id = auth.uid()
+          OR l.user_id IN (SELECT public.get_team_member_ids())
+          OR public.is_awaiting_leave_approver(l.id)
+          OR public.is_admin_or_higher(auth.uid())
+        )
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.post_leave_step_note()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.leave_request_comments (request_id, author_id, body, step_id, created_at)
+  VALUES (NEW.request_id, NEW.decided_by, NEW.note, NEW.id, COALESCE(NEW.decided_at, now()));
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER post_leave_step_note
+  AFTER UPDATE OF status ON public.leave_approval_steps
+  FOR EACH ROW
+  WHEN (NEW.note IS NOT NULL AND NEW.decided_by IS NOT NULL AND OLD.status = 'PENDING')
+  EXECUTE FUNCTION public.post_leave_step_note();
+
+-- Notes written before the thread existed
+INSERT INTO public.leave_request_comments (request_id, author_id, body, step_id, created_at)
+SELECT request_id, decided_by, note, id, COALESCE(decided_at, now())
+FROM public.leave_approval_steps
+WHERE note IS NOT NULL
+  AND decided_by IS NOT NULL;